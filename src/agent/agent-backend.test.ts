@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createAgentBackend, type AgentBackend, type AgentBackendEvent, type AgentBackendRequest } from './agent-backend.js';
+import { AgentRuntime, DEFAULT_AGENT_CONFIG, type AgentEvent } from './agent-runtime.js';
+import { ClaudeCliBackend } from './claude-cli-backend.js';
+import { CommandBackend } from './command-backend.js';
+import { ScriptedBackend } from './scripted-backend.js';
+import { Logger } from '../logging/logger.js';
+import { ToolSystem } from '../tools/tool-system.js';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+
+const request: AgentBackendRequest = {
+  sessionId: 'test',
+  prompt: 'Hello backend',
+  model: 'test-model',
+  maxTokens: 100,
+};
+
+const logger = new Logger({ level: 'error', path: join(tmpdir(), 'openclaw-backend-test.log') });
+
+async function collect(backend: AgentBackend): Promise<AgentBackendEvent[]> {
+  const events: AgentBackendEvent[] = [];
+  for await (const event of backend.invoke(request)) {
+    events.push(event);
+  }
+  return events;
+}
+
+function textOf(events: AgentBackendEvent[]): string {
+  return events.map(e => (e.type === 'text_delta' ? e.content : '')).join('');
+}
+
+describe('createAgentBackend', () => {
+  it('should create the Claude CLI backend by default', () => {
+    const backend = createAgentBackend(DEFAULT_AGENT_CONFIG, logger);
+    expect(backend).toBeInstanceOf(ClaudeCliBackend);
+    expect(backend.name).toBe('claude-cli');
+  });
+
+  it('should create a command backend', () => {
+    const backend = createAgentBackend({ ...DEFAULT_AGENT_CONFIG, backend: 'command', command: 'cat' }, logger);
+    expect(backend).toBeInstanceOf(CommandBackend);
+    expect(backend.name).toBe('command');
+  });
+
+  it('should require a command for the command backend', () => {
+    expect(() => createAgentBackend({ ...DEFAULT_AGENT_CONFIG, backend: 'command' }, logger))
+      .toThrow('agent.command');
+  });
+
+  it('should create a scripted backend from configured responses', async () => {
+    const backend = createAgentBackend({
+      ...DEFAULT_AGENT_CONFIG,
+      backend: 'scripted',
+      scriptedResponses: ['canned reply'],
+    }, logger);
+    expect(backend).toBeInstanceOf(ScriptedBackend);
+    expect(textOf(await collect(backend))).toBe('canned reply');
+  });
+});
+
+describe('CommandBackend', () => {
+  it('should pass the prompt on stdin and stream stdout', async () => {
+    const backend = new CommandBackend({
+      command: process.execPath,
+      args: ['-e', 'process.stdin.pipe(process.stdout)'],
+    }, logger);
+
+    const events = await collect(backend);
+    expect(textOf(events)).toBe('Hello backend');
+  });
+
+  it('should substitute {model} in arguments', async () => {
+    const backend = new CommandBackend({
+      command: process.execPath,
+      args: ['-e', 'process.stdout.write(process.argv[1])', '{model}'],
+    }, logger);
+
+    expect(textOf(await collect(backend))).toBe('test-model');
+  });
+
+  it('should report a missing command as cli_not_found', async () => {
+    const backend = new CommandBackend({ command: '/nonexistent/openclaw-model', args: [] }, logger);
+
+    const events = await collect(backend);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'error', code: 'cli_not_found' });
+  });
+
+  it('should report stderr without output as cli_error', async () => {
+    const backend = new CommandBackend({
+      command: process.execPath,
+      args: ['-e', 'process.stderr.write("model exploded"); process.exit(2)'],
+    }, logger);
+
+    const events = await collect(backend);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'error', code: 'cli_error', message: 'model exploded' });
+  });
+
+  it('should kill the process and end quietly when cancelled', async () => {
+    const backend = new CommandBackend({
+      command: process.execPath,
+      args: ['-e', "process.stdout.write('partial'); setInterval(() => {}, 1000)"],
+    }, logger);
+    const controller = new AbortController();
+
+    const events: AgentBackendEvent[] = [];
+    for await (const event of backend.invoke({ ...request, signal: controller.signal })) {
+      events.push(event);
+      controller.abort();
+    }
+
+    expect(events).toEqual([{ type: 'text_delta', content: 'partial' }]);
+  });
+});
+
+describe('ClaudeCliBackend', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'openclaw-claude-cli-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Writes an executable stand-in for the claude binary that prints its
+   * arguments as text and then the given stream-json lines
+   */
+  async function fakeCli(lines: unknown[]): Promise<string> {
+    const path = join(dir, 'claude');
+    const output = lines.map(line => JSON.stringify(line)).join('\n');
+    await writeFile(
+      path,
+      `#!${process.execPath}\nprocess.stdout.write(${JSON.stringify(output)} + '\\n');\n`,
+      { mode: 0o755 }
+    );
+    return path;
+  }
+
+  it('should request stream-json output and parse it into typed events', async () => {
+    const cliPath = await fakeCli([
+      { type: 'stream_event', event: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Reading.' } } },
+      {
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'text', text: 'Reading.' },
+            { type: 'tool_use', id: 'toolu_9', name: 'read_file', input: { path: 'README.md' } },
+          ],
+          stop_reason: 'tool_use',
+        },
+      },
+      { type: 'result', subtype: 'success', usage: { input_tokens: 7, output_tokens: 5 } },
+    ]);
+    const backend = new ClaudeCliBackend({ cliPath, outputFormat: 'stream-json' }, logger);
+
+    const events = await collect(backend);
+
+    expect(events).toEqual([
+      { type: 'text_delta', content: 'Reading.' },
+      { type: 'tool_call', toolCall: { id: 'toolu_9', name: 'read_file', arguments: { path: 'README.md' } } },
+      { type: 'usage', usage: { inputTokens: 7, outputTokens: 5 } },
+      { type: 'stop', reason: 'tool_use' },
+    ]);
+  });
+  it('should not run tools again that the CLI already ran', async () => {
+    const cliPath = await fakeCli([
+      {
+        type: 'assistant',
+        message: {
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'notes.md' } }],
+          stop_reason: 'tool_use',
+        },
+      },
+      { type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'buy milk' }] } },
+      { type: 'assistant', message: { content: [{ type: 'text', text: 'It says buy milk.' }], stop_reason: 'end_turn' } },
+      { type: 'result', subtype: 'success', usage: { input_tokens: 7, output_tokens: 5 } },
+    ]);
+    const backend = new ClaudeCliBackend({ cliPath, outputFormat: 'stream-json' }, logger);
+    const toolSystem = new ToolSystem();
+    let executed = 0;
+    toolSystem.register(
+      { name: 'Read', description: 'Reads', parameters: { type: 'object', properties: {} } },
+      async () => {
+        executed++;
+        return 'again';
+      }
+    );
+    const runtime = new AgentRuntime(toolSystem, {}, logger, backend);
+
+    const events: AgentEvent[] = [];
+    for await (const event of runtime.run({ sessionId: 'test', systemPrompt: '', history: [], userMessage: 'Read notes.md', tools: [] })) {
+      events.push(event);
+    }
+
+    expect(executed).toBe(0);
+    expect(events.some(event => event.type === 'tool_call')).toBe(false);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', fullResponse: 'It says buy milk.' });
+  });
+});
+
+describe('ScriptedBackend', () => {
+  it('should replay responses in order and record requests', async () => {
+    const backend = new ScriptedBackend(['first', (req) => `second for ${req.model}`]);
+
+    expect(textOf(await collect(backend))).toBe('first');
+    expect(textOf(await collect(backend))).toBe('second for test-model');
+    expect(backend.requests).toHaveLength(2);
+    expect(backend.remaining).toBe(0);
+  });
+
+  it('should report an error when the script is exhausted', async () => {
+    const backend = new ScriptedBackend();
+
+    const events = await collect(backend);
+    expect(events[0]).toMatchObject({ type: 'error', code: 'cli_error' });
+  });
+});
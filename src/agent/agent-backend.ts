@@ -0,0 +1,96 @@
+import { Logger } from '../logging/logger.js';
+import type { ToolCall } from '../tools/tool-system.js';
+import type { AgentConfig, AgentError, AgentUsage } from './agent-runtime.js';
+import { ClaudeCliBackend } from './claude-cli-backend.js';
+import { CommandBackend } from './command-backend.js';
+import { ScriptedBackend } from './scripted-backend.js';
+
+/**
+ * A single model invocation requested by the Agent Runtime
+ * When `signal` is aborted the backend stops generating and ends its stream
+ */
+export interface AgentBackendRequest {
+  sessionId: string;
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Events streamed back by a backend while it produces a reply
+ */
+export interface BackendTextDeltaEvent {
+  type: 'text_delta';
+  content: string;
+}
+
+export interface BackendToolCallEvent {
+  type: 'tool_call';
+  toolCall: ToolCall;
+}
+
+export interface BackendUsageEvent {
+  type: 'usage';
+  usage: AgentUsage;
+}
+
+export interface BackendStopEvent {
+  type: 'stop';
+  reason: string;
+}
+
+export interface BackendErrorEvent {
+  type: 'error';
+  code: AgentError['code'];
+  message: string;
+  details?: unknown;
+}
+
+export type AgentBackendEvent =
+  | BackendTextDeltaEvent
+  | BackendToolCallEvent
+  | BackendUsageEvent
+  | BackendStopEvent
+  | BackendErrorEvent;
+
+/**
+ * AgentBackend - Something that turns a prompt into a streamed reply
+ *
+ * Text-only backends just emit `text_delta` events; the runtime recovers tool
+ * calls from the text. Backends that know about tool use natively emit
+ * `tool_call` events instead. Failures are reported as an `error` event
+ * rather than thrown. A cancelled invocation simply ends its stream.
+ */
+export interface AgentBackend {
+  readonly name: string;
+  /** Program the backend runs, if any; the Gateway's readiness check looks it up */
+  readonly executable?: string;
+  invoke(request: AgentBackendRequest): AsyncIterable<AgentBackendEvent>;
+}
+
+/**
+ * Names of the built-in backends selectable via `config.agent.backend`
+ */
+export const AGENT_BACKENDS = ['claude-cli', 'command', 'scripted'] as const;
+
+export type AgentBackendName = typeof AGENT_BACKENDS[number];
+
+/**
+ * Creates the backend named by `config.backend`
+ */
+export function createAgentBackend(config: AgentConfig, logger?: Logger): AgentBackend {
+  switch (config.backend) {
+    case 'claude-cli':
+      return new ClaudeCliBackend({ cliPath: config.claudeCliPath, outputFormat: config.outputFormat }, logger);
+    case 'command':
+      if (!config.command) {
+        throw new Error("Agent backend 'command' requires agent.command to be set");
+      }
+      return new CommandBackend({ command: config.command, args: config.commandArgs }, logger);
+    case 'scripted':
+      return new ScriptedBackend(config.scriptedResponses);
+    default:
+      throw new Error(`Unknown agent backend: ${(config as { backend: string }).backend}`);
+  }
+}
@@ -1,6 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { AgentRuntime, DEFAULT_AGENT_CONFIG, type AgentEvent, type ParsedResponse } from './agent-runtime.js';
+import { ScriptedBackend } from './scripted-backend.js';
+import type { AgentBackend } from './agent-backend.js';
 import { ToolSystem, type ToolDefinition } from '../tools/tool-system.js';
+import { ApprovalPolicy, type ToolApprover } from '../security/approval-policy.js';
 import type { TranscriptEntry } from '../session/session-manager.js';
 
 describe('AgentRuntime', () => {
@@ -62,6 +65,35 @@ describe('AgentRuntime', () => {
       expect(result).toBe('[Tool Result: file contents]');
     });
 
+    it('should format tool calls and failed results', () => {
+      const history: TranscriptEntry[] = [
+        {
+          id: '1',
+          role: 'tool',
+          content: '',
+          timestamp: Date.now(),
+          toolCall: { id: 'call1', name: 'read_file', arguments: '{"path":"a.txt"}' },
+        },
+        {
+          id: '2',
+          role: 'tool',
+          content: '',
+          timestamp: Date.now(),
+          toolResult: { callId: 'call1', success: false, output: 'File not found: a.txt' },
+        },
+      ];
+      const result = agentRuntime.formatHistory(history);
+      expect(result).toBe('[Tool Call: read_file {"path":"a.txt"}]\n\n[Tool Error: File not found: a.txt]');
+    });
+
+    it('should mark cancelled assistant replies', () => {
+      const history: TranscriptEntry[] = [
+        { id: '1', role: 'assistant', content: 'Half', timestamp: Date.now(), cancelled: true },
+      ];
+      const result = agentRuntime.formatHistory(history);
+      expect(result).toBe('Assistant: Half [cancelled by user]');
+    });
+
     it('should format mixed conversation', () => {
       const history: TranscriptEntry[] = [
         { id: '1', role: 'user', content: 'Read file.txt', timestamp: Date.now() },
@@ -171,6 +203,13 @@ describe('AgentRuntime', () => {
       expect(result.toolCalls[0]?.name).toBe('read_file');
     });
 
+    it('should parse JSON-style tool calls with nested arguments', () => {
+      const response = 'Saving. {"tool": "write_file", "arguments": {"path": "a.json", "content": {"nested": {"deep": [1, 2]}}}}';
+      const result = agentRuntime.parseResponse(response);
+      expect(result.text).toBe('Saving.');
+      expect(result.toolCalls[0]?.arguments).toEqual({ path: 'a.json', content: { nested: { deep: [1, 2] } } });
+    });
+
     it('should handle multiple tool calls', () => {
       const response = '<tool_call name="tool1">{"a": 1}</tool_call> text <tool_call name="tool2">{"b": 2}</tool_call>';
       const result = agentRuntime.parseResponse(response);
@@ -194,6 +233,478 @@ describe('AgentRuntime', () => {
     });
   });
 
+  describe('run', () => {
+    async function collect(runtime: AgentRuntime): Promise<AgentEvent[]> {
+      const events: AgentEvent[] = [];
+      for await (const event of runtime.run({
+        sessionId: 'test',
+        systemPrompt: '',
+        history: [],
+        userMessage: 'What does the file say?',
+        tools: toolSystem.list(),
+      })) {
+        events.push(event);
+      }
+      return events;
+    }
+
+    beforeEach(() => {
+      toolSystem.register(
+        {
+          name: 'echo',
+          description: 'Echo input',
+          parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        },
+        async (args) => `echoed ${args['text'] as string}`
+      );
+    });
+
+    it('should feed tool results back to the model until it stops calling tools', async () => {
+      const backend = new ScriptedBackend([
+        'Checking. <tool_call name="echo">{"text": "hi"}</tool_call>',
+        (request) => request.prompt.includes('[Tool Result: echoed hi]') ? 'The file says hi.' : 'No result',
+      ]);
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, backend);
+
+      const events = await collect(runtime);
+      const types = events.map(e => e.type);
+
+      expect(backend.requests).toHaveLength(2);
+      expect(backend.requests[1]?.prompt).toContain('[Tool Call: echo {"text":"hi"}]');
+      expect(types.filter(t => t === 'text_delta')).toHaveLength(2);
+      expect(events.filter(e => e.type === 'text_delta').map(e => e.type === 'text_delta' && e.content)).toEqual(['Checking. ', 'The file says hi.']);
+      expect(types.indexOf('tool_call')).toBeLessThan(types.indexOf('tool_result'));
+      expect(types[types.length - 1]).toBe('done');
+
+      const done = events[events.length - 1] as import('./agent-runtime.js').AgentDoneEvent;
+      expect(done.fullResponse).toContain('Checking.');
+      expect(done.fullResponse).toContain('The file says hi.');
+    });
+
+    it('should stream tool output between the call and its result', async () => {
+      let finish: () => void = () => {};
+      toolSystem.register(
+        {
+          name: 'build',
+          description: 'Builds slowly',
+          parameters: { type: 'object', properties: {} },
+        },
+        async (_args, context) => {
+          context.onOutput?.({ stream: 'stdout', content: 'step 1\n' });
+          await new Promise<void>((resolve) => {
+            finish = resolve;
+          });
+          context.onOutput?.({ stream: 'stderr', content: 'warning\n' });
+          return 'built';
+        }
+      );
+      const backend = new ScriptedBackend(['<tool_call name="build">{}</tool_call>', 'Built.']);
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, backend);
+
+      const events: AgentEvent[] = [];
+      for await (const event of runtime.run({
+        sessionId: 'test',
+        systemPrompt: '',
+        history: [],
+        userMessage: 'Build it',
+        tools: toolSystem.list(),
+      })) {
+        events.push(event);
+        // The first chunk arrives while the tool is still running
+        if (event.type === 'tool_output_delta' && event.content === 'step 1\n') {
+          finish();
+        }
+      }
+
+      const callId = (events.find(e => e.type === 'tool_call') as import('./agent-runtime.js').AgentToolCallEvent).toolCall.id;
+      const types = events.map(e => e.type).filter(t => t.startsWith('tool_'));
+      expect(types).toEqual(['tool_call', 'tool_output_delta', 'tool_output_delta', 'tool_result']);
+      expect(events.filter(e => e.type === 'tool_output_delta')).toEqual([
+        { type: 'tool_output_delta', callId, stream: 'stdout', content: 'step 1\n' },
+        { type: 'tool_output_delta', callId, stream: 'stderr', content: 'warning\n' },
+      ]);
+    });
+
+    it('should stop after maxIterations when the model keeps calling tools', async () => {
+      const loop = '<tool_call name="echo">{"text": "again"}</tool_call>';
+      const backend = new ScriptedBackend([loop, loop, loop, loop]);
+      const runtime = new AgentRuntime(toolSystem, { maxIterations: 3 }, undefined, backend);
+
+      const events = await collect(runtime);
+
+      expect(backend.requests).toHaveLength(3);
+      expect(events.filter(e => e.type === 'tool_result')).toHaveLength(3);
+      expect(events[events.length - 1]).toMatchObject({ type: 'done', stopReason: 'max_iterations' });
+    });
+
+    it('should execute tool calls reported natively by the backend', async () => {
+      const backend = new ScriptedBackend([
+        [{ type: 'tool_call', toolCall: { id: 'native-1', name: 'echo', arguments: { text: 'native' } } }],
+        'Done.',
+      ]);
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, backend);
+
+      const events = await collect(runtime);
+      const result = events.find(e => e.type === 'tool_result') as import('./agent-runtime.js').AgentToolResultEvent;
+
+      expect(result.toolResult.callId).toBe('native-1');
+      expect(result.toolResult.output).toBe('echoed native');
+    });
+
+    describe('parallel tool calls', () => {
+      let log: string[];
+      let active: number;
+      let maxActive: number;
+
+      beforeEach(() => {
+        log = [];
+        active = 0;
+        maxActive = 0;
+        toolSystem.register(
+          {
+            name: 'peek',
+            description: 'Reads something slowly',
+            parameters: { type: 'object', properties: { name: { type: 'string' }, ms: { type: 'number' } } },
+            readOnly: true,
+          },
+          async (args, context) => {
+            const name = args['name'] as string;
+            log.push(`start ${name}`);
+            active++;
+            maxActive = Math.max(maxActive, active);
+            context.onOutput?.({ stream: 'stdout', content: `${name}\n` });
+            await new Promise(resolve => setTimeout(resolve, (args['ms'] as number | undefined) ?? 20));
+            active--;
+            log.push(`end ${name}`);
+            return `peeked ${name}`;
+          }
+        );
+        toolSystem.register(
+          { name: 'poke', description: 'Changes something', parameters: { type: 'object' } },
+          async (args) => {
+            log.push(`start ${args['name'] as string}`);
+            log.push(`end ${args['name'] as string}`);
+            return 'poked';
+          }
+        );
+      });
+
+      const call = (name: string, args: Record<string, unknown>): string =>
+        `<tool_call name="${name}">${JSON.stringify(args)}</tool_call>`;
+
+      it('should run read-only calls concurrently up to the limit and writes alone, in order', async () => {
+        const backend = new ScriptedBackend([
+          [call('peek', { name: 'a' }), call('peek', { name: 'b' }), call('peek', { name: 'c' }),
+            call('poke', { name: 'x' }), call('peek', { name: 'd' })].join('\n'),
+          'Done.',
+        ]);
+        const runtime = new AgentRuntime(toolSystem, { maxParallelTools: 2 }, undefined, backend);
+
+        const events = await collect(runtime);
+
+        expect(maxActive).toBe(2);
+        expect(log.slice(0, 2)).toEqual(['start a', 'start b']);
+        expect(log.indexOf('start x')).toBeGreaterThan(log.indexOf('end c'));
+        expect(log.indexOf('start d')).toBeGreaterThan(log.indexOf('end x'));
+        expect(events.filter(e => e.type === 'tool_result')).toHaveLength(5);
+        expect(events[events.length - 1]).toMatchObject({ type: 'done', fullResponse: 'Done.' });
+      });
+
+      it('should pair interleaved events by call id and feed results back in call order', async () => {
+        const backend = new ScriptedBackend([
+          call('peek', { name: 'slow', ms: 60 }) + call('peek', { name: 'fast', ms: 0 }),
+          'Done.',
+        ]);
+        const runtime = new AgentRuntime(toolSystem, {}, undefined, backend);
+
+        const events = await collect(runtime);
+
+        const calls = new Map(events.flatMap(e => e.type === 'tool_call' ? [[e.toolCall.id, e.toolCall.arguments['name']]] : []));
+        const order = events.flatMap(e => {
+          if (e.type === 'tool_output_delta') return [`delta ${calls.get(e.callId) as string} ${e.content.trim()}`];
+          if (e.type === 'tool_result') return [`result ${calls.get(e.toolResult.callId) as string} ${e.toolResult.output ?? ''}`];
+          return [];
+        });
+        expect(order).toEqual([
+          'delta slow slow',
+          'delta fast fast',
+          'result fast peeked fast',
+          'result slow peeked slow',
+        ]);
+        const prompt = backend.requests[1]!.prompt;
+        expect(prompt.indexOf('[Tool Result: peeked slow]')).toBeLessThan(prompt.indexOf('[Tool Result: peeked fast]'));
+      });
+
+      it('should run calls one at a time when limited to one', async () => {
+        const backend = new ScriptedBackend([call('peek', { name: 'a' }) + call('peek', { name: 'b' }), 'Done.']);
+        const runtime = new AgentRuntime(toolSystem, { maxParallelTools: 1 }, undefined, backend);
+
+        await collect(runtime);
+
+        expect(maxActive).toBe(1);
+        expect(log).toEqual(['start a', 'end a', 'start b', 'end b']);
+      });
+
+      it('should ask about concurrent calls one at a time', async () => {
+        const policy = new ApprovalPolicy({ rules: [{ tool: 'peek', decision: 'ask' }] });
+        const backend = new ScriptedBackend([call('peek', { name: 'a' }) + call('peek', { name: 'b' }), 'Done.']);
+        const runtime = new AgentRuntime(toolSystem, {}, undefined, backend, policy);
+        let open = 0;
+        let maxOpen = 0;
+
+        for await (const _event of runtime.run({
+          sessionId: 'test',
+          systemPrompt: '',
+          history: [],
+          userMessage: 'Go',
+          tools: toolSystem.list(),
+          approve: async () => {
+            maxOpen = Math.max(maxOpen, ++open);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            open--;
+            return true;
+          },
+        })) {
+          // drain
+        }
+
+        expect(maxOpen).toBe(1);
+        expect(log.filter(entry => entry.startsWith('end'))).toHaveLength(2);
+      });
+    });
+
+    it('should forward usage and report the backend stop reason', async () => {
+      const backend = new ScriptedBackend([[
+        { type: 'text_delta', content: 'All done.' },
+        { type: 'usage', usage: { inputTokens: 10, outputTokens: 3 } },
+        { type: 'stop', reason: 'end_turn' },
+      ]]);
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, backend);
+
+      const events = await collect(runtime);
+
+      expect(events.find(e => e.type === 'usage')).toEqual({
+        type: 'usage',
+        usage: { inputTokens: 10, outputTokens: 3 },
+      });
+      expect(events[events.length - 1]).toEqual({ type: 'done', fullResponse: 'All done.', stopReason: 'end_turn' });
+    });
+
+    it('should stop and report the partial reply when cancelled', async () => {
+      const controller = new AbortController();
+      const backend: AgentBackend = {
+        name: 'slow',
+        async *invoke(request) {
+          yield { type: 'text_delta', content: 'Half an answer' };
+          if (!request.signal?.aborted) {
+            await new Promise<void>((resolve) => request.signal?.addEventListener('abort', () => resolve()));
+          }
+          yield { type: 'text_delta', content: ' and the rest' };
+        },
+      };
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, backend);
+
+      const events: AgentEvent[] = [];
+      for await (const event of runtime.run({
+        sessionId: 'test',
+        systemPrompt: '',
+        history: [],
+        userMessage: 'Go',
+        tools: [],
+        signal: controller.signal,
+      })) {
+        events.push(event);
+        if (event.type === 'text_delta') {
+          controller.abort();
+        }
+      }
+
+      expect(events).toEqual([
+        { type: 'text_delta', content: 'Half an answer' },
+        { type: 'cancelled', partialResponse: 'Half an answer' },
+      ]);
+    });
+
+    it('should leave tool call markup out of the partial reply when cancelled', async () => {
+      const controller = new AbortController();
+      const backend: AgentBackend = {
+        name: 'slow',
+        async *invoke(request) {
+          yield { type: 'text_delta', content: 'Looking. <tool_call name="read_file">{"path": ' };
+          if (!request.signal?.aborted) {
+            await new Promise<void>((resolve) => request.signal?.addEventListener('abort', () => resolve()));
+          }
+        },
+      };
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, backend);
+
+      const events: AgentEvent[] = [];
+      for await (const event of runtime.run({
+        sessionId: 'test',
+        systemPrompt: '',
+        history: [],
+        userMessage: 'Go',
+        tools: [],
+        signal: controller.signal,
+      })) {
+        events.push(event);
+        if (event.type === 'text_delta') {
+          controller.abort();
+        }
+      }
+
+      expect(events).toEqual([
+        { type: 'text_delta', content: 'Looking. ' },
+        { type: 'cancelled', partialResponse: 'Looking.' },
+      ]);
+    });
+
+    it('should pass the abort signal to running tools', async () => {
+      const controller = new AbortController();
+      toolSystem.register(
+        {
+          name: 'wait',
+          description: 'Waits until cancelled',
+          parameters: { type: 'object', properties: {} },
+        },
+        (_args, context) => new Promise((_resolve, reject) => {
+          context.signal?.addEventListener('abort', () => reject(new Error('Command cancelled')));
+          controller.abort();
+        })
+      );
+      const backend = new ScriptedBackend(['<tool_call name="wait">{}</tool_call>', 'unreachable']);
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, backend);
+
+      const events: AgentEvent[] = [];
+      for await (const event of runtime.run({
+        sessionId: 'test',
+        systemPrompt: '',
+        history: [],
+        userMessage: 'Go',
+        tools: toolSystem.list(),
+        signal: controller.signal,
+      })) {
+        events.push(event);
+      }
+
+      const result = events.find(e => e.type === 'tool_result') as import('./agent-runtime.js').AgentToolResultEvent;
+      expect(result.toolResult.error?.message).toBe('Command cancelled');
+      expect(events[events.length - 1]?.type).toBe('cancelled');
+      expect(backend.requests).toHaveLength(1);
+    });
+
+    it('should propagate backend errors with session context', async () => {
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, new ScriptedBackend([]));
+
+      const events = await collect(runtime);
+
+      expect(events).toHaveLength(1);
+      const error = events[0] as import('./agent-runtime.js').AgentErrorEvent;
+      expect(error.type).toBe('error');
+      expect(error.error.sessionId).toBe('test');
+    });
+  });
+
+  describe('approval', () => {
+    const policy = new ApprovalPolicy({
+      timeoutMs: 50,
+      rules: [
+        { tool: 'echo', argument: 'text', pattern: '^secret', decision: 'deny' },
+        { tool: 'echo', decision: 'ask' },
+      ],
+    });
+    let executed: string[];
+
+    beforeEach(() => {
+      executed = [];
+      toolSystem.register(
+        {
+          name: 'echo',
+          description: 'Echo input',
+          parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        },
+        async (args) => {
+          executed.push(args['text'] as string);
+          return `echoed ${args['text'] as string}`;
+        }
+      );
+    });
+
+    async function toolResult(text: string, approve?: ToolApprover): Promise<import('../tools/tool-system.js').ToolResult> {
+      const backend = new ScriptedBackend([`<tool_call name="echo">{"text": "${text}"}</tool_call>`, 'Done.']);
+      const runtime = new AgentRuntime(toolSystem, {}, undefined, backend, policy);
+
+      let result: import('../tools/tool-system.js').ToolResult | undefined;
+      for await (const event of runtime.run({
+        sessionId: 'test',
+        systemPrompt: '',
+        history: [],
+        userMessage: 'Go',
+        tools: toolSystem.list(),
+        ...(approve ? { approve } : {}),
+      })) {
+        if (event.type === 'tool_result') {
+          result = event.toolResult;
+        }
+      }
+      return result!;
+    }
+
+    it('should refuse calls the policy denies without asking', async () => {
+      const approve = vi.fn<Parameters<ToolApprover>, Promise<boolean>>(async () => true);
+
+      const result = await toolResult('secret plan', approve);
+
+      expect(approve).not.toHaveBeenCalled();
+      expect(executed).toEqual([]);
+      expect(result.error).toMatchObject({
+        errorType: 'permission_denied',
+        message: 'Denied by policy: echo where text matches /^secret/',
+        details: { decision: 'deny', outcome: 'denied' },
+      });
+    });
+
+    it('should run the tool once the user approves', async () => {
+      const approve = vi.fn<Parameters<ToolApprover>, Promise<boolean>>(async () => true);
+
+      const result = await toolResult('hi', approve);
+
+      expect(result).toMatchObject({ success: true, output: 'echoed hi' });
+      expect(approve).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'test', key: 'echo#1', timeoutMs: 50, toolCall: expect.objectContaining({ name: 'echo' }) }),
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should report a denial by the user', async () => {
+      const result = await toolResult('hi', async () => false);
+
+      expect(executed).toEqual([]);
+      expect(result.error).toMatchObject({ errorType: 'permission_denied', message: 'Tool call denied by user' });
+    });
+
+    it('should deny when nobody can be asked', async () => {
+      const result = await toolResult('hi');
+
+      expect(executed).toEqual([]);
+      expect(result.error?.details).toMatchObject({ decision: 'ask', outcome: 'unavailable' });
+    });
+
+    it('should deny and withdraw the request when the timeout passes', async () => {
+      let withdrawn = false;
+      const result = await toolResult('hi', (_request, signal) => new Promise((resolve) => {
+        signal.addEventListener('abort', () => {
+          withdrawn = true;
+          resolve(true);
+        });
+      }));
+
+      expect(withdrawn).toBe(true);
+      expect(executed).toEqual([]);
+      expect(result.error).toMatchObject({ message: 'Approval timed out after 50ms', details: { outcome: 'timeout' } });
+    });
+  });
+
   describe('executeTool', () => {
     it('should execute registered tool', async () => {
       toolSystem.register(
@@ -1,26 +1,47 @@
-import { spawn, type ChildProcess } from 'node:child_process';
 import { randomUUID } from 'node:crypto';
 import { Logger } from '../logging/logger.js';
-import { ToolSystem, type ToolCall, type ToolResult, type ToolDefinition } from '../tools/tool-system.js';
+import { ToolSystem, type ToolCall, type ToolResult, type ToolDefinition, type ToolOutputDelta } from '../tools/tool-system.js';
 import type { TranscriptEntry } from '../session/session-manager.js';
+import { createAgentBackend, type AgentBackend, type AgentBackendName } from './agent-backend.js';
+import type { ApprovalPolicy, ApprovalRequest, ToolApprover } from '../security/approval-policy.js';
+import type { ClaudeOutputFormat } from './claude-cli-backend.js';
+import { ToolMarkupFilter, findToolMarkup } from './tool-markup.js';
 
 /**
  * Agent runtime configuration
  * Requirement 2.1: Interface with Claude Code CLI
+ *
+ * `backend` selects how the model is invoked; `command`/`commandArgs` apply
+ * to the generic command backend and `scriptedResponses` to the scripted one.
+ * `outputFormat` selects how the Claude CLI backend reports its reply.
+ * `maxParallelTools` caps how many read-only tool calls of one turn run at once.
  */
 export interface AgentConfig {
+  backend: AgentBackendName;
   claudeCliPath: string;
+  outputFormat: ClaudeOutputFormat;
+  command?: string;
+  commandArgs: string[];
+  scriptedResponses: string[];
   model: string;
   maxTokens: number;
+  maxIterations: number;
+  maxParallelTools: number;
 }
 
 /**
  * Default agent configuration
  */
 export const DEFAULT_AGENT_CONFIG: AgentConfig = {
+  backend: 'claude-cli',
   claudeCliPath: 'claude',
+  outputFormat: 'stream-json',
+  commandArgs: [],
+  scriptedResponses: [],
   model: 'sonnet',
   maxTokens: 8192,
+  maxIterations: 10,
+  maxParallelTools: 4,
 };
 
 /**
@@ -32,6 +53,10 @@ export interface AgentRunParams {
   history: TranscriptEntry[];
   userMessage: string;
   tools: ToolDefinition[];
+  /** Aborting stops the backend process and any running tool */
+  signal?: AbortSignal;
+  /** Asks the user about tool calls the approval policy marks `ask` */
+  approve?: ToolApprover;
 }
 
 /**
@@ -54,9 +79,30 @@ export interface AgentToolResultEvent {
   toolResult: ToolResult;
 }
 
+/**
+ * Output a running tool produced, between its tool_call and tool_result
+ */
+export interface AgentToolOutputDeltaEvent {
+  type: 'tool_output_delta';
+  callId: string;
+  stream: ToolOutputDelta['stream'];
+  content: string;
+}
+
+export interface AgentUsageEvent {
+  type: 'usage';
+  usage: AgentUsage;
+}
+
 export interface AgentDoneEvent {
   type: 'done';
   fullResponse: string;
+  stopReason?: string;
+}
+
+export interface AgentCancelledEvent {
+  type: 'cancelled';
+  partialResponse: string;
 }
 
 export interface AgentErrorEvent {
@@ -67,10 +113,24 @@ export interface AgentErrorEvent {
 export type AgentEvent = 
   | AgentTextDeltaEvent 
   | AgentToolCallEvent 
+  | AgentToolOutputDeltaEvent
   | AgentToolResultEvent 
+  | AgentUsageEvent
   | AgentDoneEvent 
+  | AgentCancelledEvent
   | AgentErrorEvent;
 
+/**
+ * Token usage reported by a backend for one invocation
+ */
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens?: number;
+  cacheCreationTokens?: number;
+  costUsd?: number;
+}
+
 /**
  * Structured agent error
  * Requirement 2.4: Propagate CLI errors with context
@@ -82,6 +142,16 @@ export interface AgentError {
   details?: unknown;
 }
 
+/**
+ * A completed model turn within a single agent run: the text the model
+ * produced, the tool calls it requested and the results fed back to it
+ */
+export interface AgentTurn {
+  text: string;
+  toolCalls: ToolCall[];
+  toolResults: ToolResult[];
+}
+
 /**
  * Parsed response from Claude CLI
  */
@@ -91,7 +161,7 @@ export interface ParsedResponse {
 }
 
 /**
- * AgentRuntime - Manages Claude Code CLI integration and tool execution
+ * AgentRuntime - Drives an agent backend and executes the tools it requests
  * 
  * Requirements:
  * - 2.1: Format message as prompt and invoke Claude Code CLI
@@ -104,15 +174,26 @@ export class AgentRuntime {
   private config: AgentConfig;
   private toolSystem: ToolSystem;
   private logger: Logger;
+  private backend: AgentBackend;
+  private approvalPolicy: ApprovalPolicy | null;
 
+  /**
+   * @param backend - Backend to use instead of the one named in config
+   * @param approvalPolicy - Policy every tool call is checked against; without
+   *   one, all calls run
+   */
   constructor(
     toolSystem: ToolSystem,
     config: Partial<AgentConfig> = {},
-    logger?: Logger
+    logger?: Logger,
+    backend?: AgentBackend,
+    approvalPolicy?: ApprovalPolicy
   ) {
     this.config = { ...DEFAULT_AGENT_CONFIG, ...config };
     this.toolSystem = toolSystem;
     this.logger = logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
+    this.backend = backend ?? createAgentBackend(this.config, this.logger);
+    this.approvalPolicy = approvalPolicy ?? null;
   }
 
   /**
@@ -122,16 +203,36 @@ export class AgentRuntime {
     return { ...this.config };
   }
 
+  /**
+   * Gets the backend used to invoke the model
+   */
+  getBackend(): AgentBackend {
+    return this.backend;
+  }
+
   /**
    * Formats conversation history for Claude CLI
    */
   formatHistory(history: TranscriptEntry[]): string {
     return history.map(entry => {
       if (entry.role === 'tool') {
+        // Same markup as formatTurns, so earlier runs read like the current one
+        if (entry.toolCall) {
+          return `[Tool Call: ${entry.toolCall.name} ${entry.toolCall.arguments}]`;
+        }
+        if (entry.toolResult && !entry.toolResult.success) {
+          return `[Tool Error: ${entry.toolResult.output}]`;
+        }
         return `[Tool Result: ${entry.toolResult?.output ?? entry.content}]`;
       }
+      if (entry.role === 'summary') {
+        // Compacted earlier conversation
+        return entry.content;
+      }
       const prefix = entry.role === 'user' ? 'Human' : 'Assistant';
-      return `${prefix}: ${entry.content}`;
+      // Tell the model its earlier reply was interrupted rather than complete
+      const suffix = entry.cancelled ? ' [cancelled by user]' : '';
+      return `${prefix}: ${entry.content}${suffix}`;
     }).join('\n\n');
   }
 
@@ -153,11 +254,34 @@ export class AgentRuntime {
     return `\nAvailable tools:\n${toolDescriptions}`;
   }
 
+  /**
+   * Formats the turns completed so far in the current run, so the model
+   * sees the results of the tools it asked for
+   */
+  formatTurns(turns: AgentTurn[]): string {
+    return turns.map(turn => {
+      const lines: string[] = [];
+      if (turn.text) {
+        lines.push(`Assistant: ${turn.text}`);
+      }
+      for (const toolCall of turn.toolCalls) {
+        lines.push(`[Tool Call: ${toolCall.name} ${JSON.stringify(toolCall.arguments)}]`);
+        const result = turn.toolResults.find(r => r.callId === toolCall.id);
+        if (result?.success) {
+          lines.push(`[Tool Result: ${result.output ?? ''}]`);
+        } else if (result) {
+          lines.push(`[Tool Error: ${result.error?.message ?? 'unknown error'}]`);
+        }
+      }
+      return lines.join('\n');
+    }).join('\n\n');
+  }
+
   /**
    * Builds the full prompt for Claude CLI
    * Requirement 2.1: Format message as prompt
    */
-  buildPrompt(params: AgentRunParams): string {
+  buildPrompt(params: AgentRunParams, turns: AgentTurn[] = []): string {
     const parts: string[] = [];
 
     // System prompt
@@ -179,32 +303,16 @@ export class AgentRuntime {
 
     // Current message
     parts.push(`\nHuman: ${params.userMessage}`);
-    parts.push('\nAssistant:');
-
-    return parts.join('\n');
-  }
 
-  /**
-   * Spawns Claude CLI subprocess
-   * Requirement 2.1: Invoke Claude Code CLI
-   */
-  spawnClaude(prompt: string): ChildProcess {
-    const args = [
-      '--print',
-      '--model', this.config.model,
-    ];
-
-    const child = spawn(this.config.claudeCliPath, args, {
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    // Write prompt to stdin and close it
-    if (child.stdin) {
-      child.stdin.write(prompt);
-      child.stdin.end();
+    // Turns already completed in this run (tool calls and their results)
+    if (turns.length > 0) {
+      parts.push('');
+      parts.push(this.formatTurns(turns));
     }
 
-    return child;
+    parts.push('\nAssistant:');
+
+    return parts.join('\n');
   }
 
   /**
@@ -213,49 +321,29 @@ export class AgentRuntime {
    */
   parseResponse(output: string): ParsedResponse {
     const toolCalls: ToolCall[] = [];
-    let text = output;
-
-    // Look for tool call patterns: <tool_call name="tool_name">{"arg": "value"}</tool_call>
-    const toolCallRegex = /<tool_call\s+name="([^"]+)">([\s\S]*?)<\/tool_call>/g;
-    let match;
+    let text = '';
+    let last = 0;
 
-    while ((match = toolCallRegex.exec(output)) !== null) {
-      const [fullMatch, toolName, argsJson] = match;
-      if (!toolName || !argsJson) continue;
-
-      try {
-        const args = JSON.parse(argsJson.trim()) as Record<string, unknown>;
-        toolCalls.push({
-          id: randomUUID(),
-          name: toolName,
-          arguments: args,
-        });
-        // Remove tool call from text
-        text = text.replace(fullMatch, '');
-      } catch {
+    // <tool_call name="tool_name">{...}</tool_call> and {"tool": "name", "arguments": {...}},
+    // with arguments read as balanced JSON so nested objects survive
+    for (const markup of findToolMarkup(output)) {
+      if (markup.invalidArguments) {
         // Invalid JSON in tool call, keep as text
-        this.logger.warn('Failed to parse tool call arguments', { toolName, argsJson }).catch(() => {});
+        this.logger.warn('Failed to parse tool call arguments', markup.invalidArguments).catch(() => {});
       }
-    }
-
-    // Also support JSON-style tool calls: {"tool": "name", "arguments": {...}}
-    const jsonToolRegex = /\{"tool":\s*"([^"]+)",\s*"arguments":\s*(\{[^}]+\})\}/g;
-    while ((match = jsonToolRegex.exec(output)) !== null) {
-      const [fullMatch, toolName, argsJson] = match;
-      if (!toolName || !argsJson) continue;
-
-      try {
-        const args = JSON.parse(argsJson) as Record<string, unknown>;
-        toolCalls.push({
-          id: randomUUID(),
-          name: toolName,
-          arguments: args,
-        });
-        text = text.replace(fullMatch, '');
-      } catch {
-        // Invalid JSON, keep as text
+      if (!markup.call) {
+        continue;
       }
+      toolCalls.push({
+        id: randomUUID(),
+        name: markup.call.name,
+        arguments: markup.call.arguments,
+      });
+      // Remove tool call from text
+      text += output.slice(last, markup.start);
+      last = markup.end;
     }
+    text += output.slice(last);
 
     return {
       text: text.trim(),
@@ -265,129 +353,418 @@ export class AgentRuntime {
 
   /**
    * Runs the agent with streaming response
+   *
+   * Tool results are fed back to the model and the CLI is re-invoked until
+   * the model stops requesting tools or `maxIterations` is reached.
    * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5
    */
   async *run(params: AgentRunParams): AsyncGenerator<AgentEvent> {
-    const { sessionId } = params;
+    const { sessionId, signal } = params;
 
-    await this.logger.info('Starting agent run', { sessionId, model: this.config.model });
+    await this.logger.info('Starting agent run', {
+      sessionId,
+      backend: this.backend.name,
+      model: this.config.model,
+    });
 
-    // Build prompt
-    const prompt = this.buildPrompt(params);
+    const turns: AgentTurn[] = [];
+    const responses: string[] = [];
+    let toolCallCount = 0;
 
-    // Spawn Claude CLI
-    let child: ChildProcess;
-    try {
-      child = this.spawnClaude(prompt);
-    } catch (error) {
-      const agentError: AgentError = {
-        code: 'cli_not_found',
-        message: `Failed to spawn Claude CLI: ${error instanceof Error ? error.message : String(error)}`,
-        sessionId,
-        details: error,
-      };
-      await this.logger.error('Failed to spawn Claude CLI', error, { sessionId });
-      yield { type: 'error', error: agentError };
-      return;
-    }
+    for (let iteration = 1; iteration <= this.config.maxIterations; iteration++) {
+      const prompt = this.buildPrompt(params, turns);
 
-    // Collect output with streaming
-    let fullOutput = '';
-    let stderr = '';
-
-    // Stream stdout
-    if (child.stdout) {
-      for await (const chunk of child.stdout) {
-        const text = chunk.toString();
-        fullOutput += text;
-        
-        // Emit text delta for streaming
-        // Requirement 2.5: Stream partial responses
-        yield { type: 'text_delta', content: text };
+      const output = yield* this.invokeBackend(prompt, sessionId, signal);
+      if (output === null) {
+        return;
       }
-    }
 
-    // Collect stderr
-    if (child.stderr) {
-      for await (const chunk of child.stderr) {
-        stderr += chunk.toString();
+      if (signal?.aborted) {
+        // Only the text the client saw, without any tool call markup
+        yield await this.cancelled(sessionId, [...responses, output.shown.trim()]);
+        return;
       }
-    }
 
-    // Wait for process to exit
-    const exitCode = await new Promise<number | null>((resolve) => {
-      child.on('close', resolve);
-      child.on('error', () => resolve(null));
-    });
-
-    // Handle CLI errors
-    // Requirement 2.4: Propagate CLI errors with context
-    if (exitCode !== 0 || stderr) {
-      if (stderr && !fullOutput) {
+      // Parse response
+      // Requirement 2.2: Parse response and extract text and tool calls
+      let parsed: ParsedResponse;
+      try {
+        parsed = this.parseResponse(output.text);
+        parsed.toolCalls.unshift(...output.toolCalls);
+      } catch (error) {
         const agentError: AgentError = {
-          code: 'cli_error',
-          message: stderr || `Claude CLI exited with code ${exitCode}`,
+          code: 'parse_error',
+          message: `Failed to parse Claude response: ${error instanceof Error ? error.message : String(error)}`,
           sessionId,
-          details: { exitCode, stderr },
+          details: { output: output.text, error },
         };
-        await this.logger.error('Claude CLI error', new Error(stderr), { sessionId, exitCode });
+        await this.logger.error('Failed to parse response', error, { sessionId });
         yield { type: 'error', error: agentError };
         return;
       }
-      // Log warning but continue if we have output
-      await this.logger.warn('Claude CLI stderr', { sessionId, stderr });
+
+      if (parsed.text) {
+        responses.push(parsed.text);
+      }
+
+      if (parsed.toolCalls.length === 0) {
+        await this.logger.info('Agent run completed', {
+          sessionId,
+          iterations: iteration,
+          responseLength: responses.join('\n\n').length,
+          toolCallCount,
+        });
+        yield {
+          type: 'done',
+          fullResponse: responses.join('\n\n'),
+          ...(output.stopReason ? { stopReason: output.stopReason } : {}),
+        };
+        return;
+      }
+
+      // Execute tool calls
+      // Requirement 2.3: Execute tool calls and return results
+      const turn: AgentTurn = { text: parsed.text, toolCalls: [], toolResults: [] };
+      for (const batch of this.batchToolCalls(parsed.toolCalls)) {
+        if (signal?.aborted) {
+          break;
+        }
+
+        const completed = yield* this.executeBatch(batch, params);
+
+        for (const { toolCall, result } of completed) {
+          turn.toolCalls.push(toolCall);
+          turn.toolResults.push(result);
+          toolCallCount++;
+
+          // If tool failed, log it
+          if (!result.success) {
+            await this.logger.warn('Tool execution failed', { 
+              sessionId, 
+              toolName: toolCall.name,
+              error: result.error 
+            });
+          }
+        }
+      }
+      turns.push(turn);
+
+      if (signal?.aborted) {
+        yield await this.cancelled(sessionId, responses);
+        return;
+      }
     }
 
-    // Parse response
-    // Requirement 2.2: Parse response and extract text and tool calls
-    let parsed: ParsedResponse;
-    try {
-      parsed = this.parseResponse(fullOutput);
-    } catch (error) {
-      const agentError: AgentError = {
-        code: 'parse_error',
-        message: `Failed to parse Claude response: ${error instanceof Error ? error.message : String(error)}`,
-        sessionId,
-        details: { output: fullOutput, error },
-      };
-      await this.logger.error('Failed to parse response', error, { sessionId });
-      yield { type: 'error', error: agentError };
-      return;
+    // The model still wanted tools after the last allowed iteration
+    await this.logger.warn('Agent run stopped at iteration limit', {
+      sessionId,
+      maxIterations: this.config.maxIterations,
+      toolCallCount,
+    });
+
+    yield { type: 'done', fullResponse: responses.join('\n\n'), stopReason: 'max_iterations' };
+  }
+
+  /**
+   * Invokes the backend once, streaming its text as deltas
+   * Returns the reply text, the part of it streamed as deltas, any natively
+   * reported tool calls and the stop reason, or null if an error event was
+   * emitted
+   * Requirements: 2.1, 2.4, 2.5
+   */
+  private async *invokeBackend(
+    prompt: string,
+    sessionId: string,
+    signal?: AbortSignal
+  ): AsyncGenerator<AgentEvent, { text: string; shown: string; toolCalls: ToolCall[]; stopReason?: string } | null> {
+    let text = '';
+    let shown = '';
+    const toolCalls: ToolCall[] = [];
+    let stopReason: string | undefined;
+    // Tool call markup is parsed from `text` once the reply is complete, so
+    // clients only see the prose around it
+    const markupFilter = new ToolMarkupFilter();
+
+    const request = {
+      sessionId,
+      prompt,
+      model: this.config.model,
+      maxTokens: this.config.maxTokens,
+      ...(signal ? { signal } : {}),
+    };
+
+    for await (const event of this.backend.invoke(request)) {
+      // Stop consuming as soon as the run is cancelled; whatever the backend
+      // reports after that (e.g. a killed process) is not an error
+      if (signal?.aborted) {
+        break;
+      }
+
+      switch (event.type) {
+        case 'text_delta': {
+          text += event.content;
+          // Requirement 2.5: Stream partial responses
+          const visible = markupFilter.push(event.content);
+          if (visible) {
+            shown += visible;
+            yield { type: 'text_delta', content: visible };
+          }
+          break;
+        }
+        case 'tool_call':
+          toolCalls.push(event.toolCall);
+          break;
+        case 'usage':
+          yield { type: 'usage', usage: event.usage };
+          break;
+        case 'stop':
+          stopReason = event.reason;
+          break;
+        case 'error': {
+          // Requirement 2.4: Propagate CLI errors with context
+          const agentError: AgentError = {
+            code: event.code,
+            message: event.message,
+            sessionId,
+            details: event.details,
+          };
+          yield { type: 'error', error: agentError };
+          return null;
+        }
+      }
+    }
+
+    const rest = markupFilter.end();
+    if (rest && !signal?.aborted) {
+      shown += rest;
+      yield { type: 'text_delta', content: rest };
+    }
+
+    return stopReason ? { text, shown, toolCalls, stopReason } : { text, shown, toolCalls };
+  }
+
+  /**
+   * Builds the event ending a cancelled run, carrying the text produced so far
+   */
+  private async cancelled(sessionId: string, responses: string[]): Promise<AgentCancelledEvent> {
+    const partialResponse = responses.filter(Boolean).join('\n\n');
+    await this.logger.info('Agent run cancelled', {
+      sessionId,
+      partialLength: partialResponse.length,
+    });
+    return { type: 'cancelled', partialResponse };
+  }
+
+  /**
+   * Executes a single tool call
+   * Requirement 2.3: Execute tool calls via Tool System
+   */
+  async executeTool(
+    toolCall: ToolCall,
+    signal?: AbortSignal,
+    onOutput?: (delta: ToolOutputDelta) => void
+  ): Promise<ToolResult> {
+    return this.toolSystem.execute(toolCall, {
+      ...(signal ? { signal } : {}),
+      ...(onOutput ? { onOutput } : {}),
+    });
+  }
+
+  /**
+   * Splits a turn's tool calls into batches run one after another
+   * Consecutive read-only calls share a batch; every other call is a batch
+   * of its own, so writes run alone and in the order the model asked.
+   */
+  private batchToolCalls(toolCalls: ToolCall[]): ToolCall[][] {
+    const batches: ToolCall[][] = [];
+    let readOnly: ToolCall[] | null = null;
+
+    for (const toolCall of toolCalls) {
+      if (this.toolSystem.get(toolCall.name)?.readOnly !== true) {
+        batches.push([toolCall]);
+        readOnly = null;
+      } else if (readOnly) {
+        readOnly.push(toolCall);
+      } else {
+        readOnly = [toolCall];
+        batches.push(readOnly);
+      }
     }
 
-    // Execute tool calls
-    // Requirement 2.3: Execute tool calls and return results
-    for (const toolCall of parsed.toolCalls) {
-      yield { type: 'tool_call', toolCall };
+    return batches;
+  }
 
-      const result = await this.toolSystem.execute(toolCall);
-      yield { type: 'tool_result', toolResult: result };
+  /**
+   * Executes a batch of tool calls, up to `maxParallelTools` at a time
+   * Each call yields its tool_call, output deltas and tool_result as they
+   * happen, so events of concurrent calls interleave and are told apart by
+   * call id. Approval prompts are still asked one at a time. Returns the
+   * calls that were started, in batch order, with their results.
+   */
+  private async *executeBatch(
+    toolCalls: ToolCall[],
+    params: AgentRunParams
+  ): AsyncGenerator<AgentEvent, Array<{ toolCall: ToolCall; result: ToolResult }>> {
+    const { signal } = params;
+    const pending: AgentEvent[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+
+    const emit = (event: AgentEvent): void => {
+      pending.push(event);
+      wake?.();
+    };
 
-      // If tool failed, log it
-      if (!result.success) {
-        await this.logger.warn('Tool execution failed', { 
-          sessionId, 
-          toolName: toolCall.name,
-          error: result.error 
+    const results: Array<ToolResult | undefined> = [];
+    let next = 0;
+    let approvals: Promise<unknown> = Promise.resolve();
+
+    const runCalls = async (): Promise<void> => {
+      while (next < toolCalls.length && !signal?.aborted) {
+        const index = next++;
+        const toolCall = toolCalls[index]!;
+        emit({ type: 'tool_call', toolCall });
+
+        const authorized = approvals.then(() => this.authorize(toolCall, params));
+        approvals = authorized;
+        const denied = await authorized;
+        const result = denied ?? await this.executeTool(toolCall, signal, (delta) => {
+          emit({ type: 'tool_output_delta', callId: toolCall.id, ...delta });
         });
+
+        results[index] = result;
+        emit({ type: 'tool_result', toolResult: result });
+      }
+    };
+
+    const finish = (): void => {
+      finished = true;
+      wake?.();
+    };
+    const concurrency = Math.max(1, Math.min(this.config.maxParallelTools, toolCalls.length));
+    const execution = Promise.all(Array.from({ length: concurrency }, runCalls));
+    execution.then(finish, finish);
+
+    for (;;) {
+      // Events may arrive while the consumer handles one, so drain until empty
+      while (pending.length > 0) {
+        yield pending.shift()!;
       }
+      if (finished) break;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+
+    await execution;
+    return toolCalls.flatMap((toolCall, index) => {
+      const result = results[index];
+      return result ? [{ toolCall, result }] : [];
+    });
+  }
+
+  /**
+   * Checks a tool call against the approval policy, asking the user if needed
+   * Returns the `permission_denied` result to report instead of running the
+   * tool, or null if it may run. Without an approver, `ask` means deny; an
+   * unanswered request is denied once the policy's timeout passes.
+   */
+  private async authorize(toolCall: ToolCall, params: AgentRunParams): Promise<ToolResult | null> {
+    if (!this.approvalPolicy) {
+      return null;
+    }
+
+    const evaluation = this.approvalPolicy.evaluate(toolCall);
+    if (evaluation.decision === 'allow') {
+      return null;
     }
 
-    // Done
-    await this.logger.info('Agent run completed', { 
-      sessionId, 
-      responseLength: parsed.text.length,
-      toolCallCount: parsed.toolCalls.length 
+    const denied = (message: string, outcome: string): ToolResult => ({
+      callId: toolCall.id,
+      success: false,
+      error: {
+        toolName: toolCall.name,
+        errorType: 'permission_denied',
+        message,
+        details: { decision: evaluation.decision, outcome, reason: evaluation.reason },
+      },
     });
 
-    yield { type: 'done', fullResponse: parsed.text };
+    if (evaluation.decision === 'deny') {
+      return denied(`Denied by policy: ${evaluation.reason}`, 'denied');
+    }
+    if (!params.approve) {
+      return denied(`Approval required but no client can answer: ${evaluation.reason}`, 'unavailable');
+    }
+
+    const request: ApprovalRequest = {
+      id: randomUUID(),
+      sessionId: params.sessionId,
+      toolCall,
+      reason: evaluation.reason,
+      key: evaluation.key,
+      timeoutMs: this.approvalPolicy.getConfig().timeoutMs,
+    };
+    const outcome = await this.waitForApproval(request, params.approve, params.signal);
+
+    await this.logger.info('Tool approval answered', {
+      sessionId: params.sessionId,
+      toolName: toolCall.name,
+      approvalId: request.id,
+      outcome,
+    });
+
+    switch (outcome) {
+      case 'approved':
+        return null;
+      case 'timeout':
+        return denied(`Approval timed out after ${request.timeoutMs}ms`, outcome);
+      case 'cancelled':
+        return denied('Approval cancelled', outcome);
+      default:
+        return denied('Tool call denied by user', outcome);
+    }
   }
 
   /**
-   * Executes a single tool call
-   * Requirement 2.3: Execute tool calls via Tool System
+   * Waits for the approver's answer, the timeout or cancellation
    */
-  async executeTool(toolCall: ToolCall): Promise<ToolResult> {
-    return this.toolSystem.execute(toolCall);
+  private async waitForApproval(
+    request: ApprovalRequest,
+    approve: ToolApprover,
+    signal?: AbortSignal
+  ): Promise<'approved' | 'denied' | 'timeout' | 'cancelled'> {
+    if (signal?.aborted) {
+      return 'cancelled';
+    }
+
+    // Aborted once the answer is no longer needed, which withdraws the prompt
+    const withdraw = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const interrupted = new Promise<'timeout' | 'cancelled'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), request.timeoutMs);
+      onAbort = () => resolve('cancelled');
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([
+        approve(request, withdraw.signal).then((approved): 'approved' | 'denied' => (approved ? 'approved' : 'denied')),
+        interrupted,
+      ]);
+    } catch (error) {
+      await this.logger.warn('Tool approval failed', {
+        approvalId: request.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 'denied';
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+      withdraw.abort();
+    }
   }
 }
@@ -0,0 +1,54 @@
+import { Logger } from '../logging/logger.js';
+import type { AgentBackendRequest } from './agent-backend.js';
+import { CommandBackend, type BackendOutputParser } from './command-backend.js';
+import { StreamJsonParser } from './stream-json-parser.js';
+
+/**
+ * How the Claude CLI reports its reply
+ * - text: plain stdout, tool calls recovered from the text
+ * - stream-json (default): structured events with usage and stop reason
+ */
+export type ClaudeOutputFormat = 'text' | 'stream-json';
+
+/**
+ * Claude CLI backend configuration
+ * Requirement 2.1: Interface with Claude Code CLI
+ */
+export interface ClaudeCliBackendConfig {
+  cliPath: string;
+  outputFormat?: ClaudeOutputFormat;
+}
+
+/**
+ * ClaudeCliBackend - Invokes the Claude Code CLI in print mode
+ * Requirement 2.1: Invoke Claude Code CLI
+ */
+export class ClaudeCliBackend extends CommandBackend {
+  override readonly name: string = 'claude-cli';
+  private outputFormat: ClaudeOutputFormat;
+
+  constructor(config: ClaudeCliBackendConfig, logger?: Logger) {
+    super({ command: config.cliPath, args: [] }, logger);
+    this.outputFormat = config.outputFormat ?? 'stream-json';
+  }
+
+  protected override get displayName(): string {
+    return 'Claude CLI';
+  }
+
+  protected override buildArgs(request: AgentBackendRequest): string[] {
+    const args = ['--print'];
+
+    if (this.outputFormat === 'stream-json') {
+      // stream-json requires --verbose in print mode; partial messages give token-level deltas
+      args.push('--output-format', 'stream-json', '--verbose', '--include-partial-messages');
+    }
+
+    args.push('--model', request.model);
+    return args;
+  }
+
+  protected override createOutputParser(): BackendOutputParser {
+    return this.outputFormat === 'stream-json' ? new StreamJsonParser() : super.createOutputParser();
+  }
+}
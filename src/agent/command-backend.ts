@@ -0,0 +1,203 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { Logger } from '../logging/logger.js';
+import { terminateProcess } from '../tools/child-process.js';
+import type { AgentBackend, AgentBackendEvent, AgentBackendRequest } from './agent-backend.js';
+
+/**
+ * Command backend configuration
+ * `{model}` in any argument is replaced with the requested model name
+ */
+export interface CommandBackendConfig {
+  command: string;
+  args: string[];
+}
+
+/**
+ * Converts a process's stdout into backend events
+ * A fresh parser is created per invocation, so it may keep state
+ */
+export interface BackendOutputParser {
+  push(chunk: string): AgentBackendEvent[];
+  end(): AgentBackendEvent[];
+}
+
+/**
+ * Treats all output as reply text
+ */
+class TextOutputParser implements BackendOutputParser {
+  push(chunk: string): AgentBackendEvent[] {
+    return chunk ? [{ type: 'text_delta', content: chunk }] : [];
+  }
+
+  end(): AgentBackendEvent[] {
+    return [];
+  }
+}
+
+/**
+ * CommandBackend - Runs any command that reads the prompt on stdin and
+ * writes its reply to stdout
+ *
+ * Useful for local models (e.g. `ollama run {model}`) and shell-script fakes.
+ */
+export class CommandBackend implements AgentBackend {
+  readonly name: string = 'command';
+  protected config: CommandBackendConfig;
+  protected logger: Logger;
+
+  constructor(config: CommandBackendConfig, logger?: Logger) {
+    this.config = { ...config, args: [...config.args] };
+    this.logger = logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
+  }
+
+  get executable(): string {
+    return this.config.command;
+  }
+
+  /**
+   * Human-readable name of the process, used in error messages
+   */
+  protected get displayName(): string {
+    return this.config.command;
+  }
+
+  /**
+   * Builds the argument list for a request
+   */
+  protected buildArgs(request: AgentBackendRequest): string[] {
+    return this.config.args.map(arg => arg.replaceAll('{model}', request.model));
+  }
+
+  /**
+   * Spawns the command and writes the prompt to its stdin
+   */
+  spawn(request: AgentBackendRequest): ChildProcess {
+    const child = spawn(this.config.command, this.buildArgs(request), {
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    // Write prompt to stdin and close it
+    if (child.stdin) {
+      // The process may exit without reading its input
+      child.stdin.on('error', () => {});
+      child.stdin.write(request.prompt);
+      child.stdin.end();
+    }
+
+    return child;
+  }
+
+  /**
+   * Creates the parser for one invocation's stdout
+   * The base implementation treats all output as reply text
+   */
+  protected createOutputParser(): BackendOutputParser {
+    return new TextOutputParser();
+  }
+
+  /**
+   * Invokes the command, streaming its stdout as text deltas
+   * Requirements: 2.1, 2.4, 2.5
+   */
+  async *invoke(request: AgentBackendRequest): AsyncGenerator<AgentBackendEvent> {
+    const { sessionId, signal } = request;
+
+    if (signal?.aborted) {
+      return;
+    }
+
+    let child: ChildProcess;
+    try {
+      child = this.spawn(request);
+    } catch (error) {
+      await this.logger.error(`Failed to spawn ${this.displayName}`, error, { sessionId });
+      yield {
+        type: 'error',
+        code: 'cli_not_found',
+        message: `Failed to spawn ${this.displayName}: ${error instanceof Error ? error.message : String(error)}`,
+        details: error,
+      };
+      return;
+    }
+
+    // Track exit and spawn failures from the start so no event is missed
+    let spawnError: Error | null = null;
+    const exited = new Promise<number | null>((resolve) => {
+      child.on('close', (code) => resolve(code));
+      child.on('error', (error) => {
+        spawnError = error;
+        resolve(null);
+      });
+    });
+
+    // Cancellation: SIGTERM, then SIGKILL if the process ignores it
+    const onAbort = (): void => {
+      void terminateProcess(child);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      // Collect stderr concurrently so a chatty process cannot block on a full pipe
+      let stderr = '';
+      child.stderr?.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      const parser = this.createOutputParser();
+      let hasOutput = false;
+
+      // Requirement 2.5: Stream partial responses
+      if (child.stdout) {
+        child.stdout.setEncoding('utf-8');
+        for await (const chunk of child.stdout) {
+          const text = chunk as string;
+          if (text) {
+            hasOutput = true;
+          }
+          yield* parser.push(text);
+        }
+      }
+
+      const exitCode = await exited;
+
+      // A killed process's exit status says nothing about the model
+      if (signal?.aborted) {
+        return;
+      }
+
+      yield* parser.end();
+
+      if (spawnError) {
+        const error: Error = spawnError;
+        await this.logger.error(`Failed to spawn ${this.displayName}`, error, { sessionId });
+        yield {
+          type: 'error',
+          code: 'cli_not_found',
+          message: `Failed to spawn ${this.displayName}: ${error.message}`,
+          details: error,
+        };
+        return;
+      }
+
+      // Requirement 2.4: Propagate CLI errors with context
+      if (exitCode !== 0 || stderr) {
+        if (!hasOutput) {
+          await this.logger.error(`${this.displayName} error`, new Error(stderr), { sessionId, exitCode });
+          yield {
+            type: 'error',
+            code: 'cli_error',
+            message: stderr || `${this.displayName} exited with code ${exitCode}`,
+            details: { exitCode, stderr },
+          };
+          return;
+        }
+        // Log warning but continue if we have output
+        await this.logger.warn(`${this.displayName} stderr`, { sessionId, exitCode, stderr });
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      // The consumer stopped early: do not leave the process running
+      await terminateProcess(child);
+    }
+  }
+}
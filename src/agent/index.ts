@@ -1,6 +1,6 @@
 /**
  * Agent Runtime module
- * Provides Claude Code CLI integration and tool execution
+ * Provides pluggable model backends and tool execution
  */
 
 export {
@@ -12,8 +12,28 @@ export {
   type AgentTextDeltaEvent,
   type AgentToolCallEvent,
   type AgentToolResultEvent,
+  type AgentToolOutputDeltaEvent,
+  type AgentUsageEvent,
   type AgentDoneEvent,
+  type AgentCancelledEvent,
   type AgentErrorEvent,
   type AgentError,
+  type AgentUsage,
   type ParsedResponse,
+  type AgentTurn,
 } from './agent-runtime.js';
+
+export {
+  createAgentBackend,
+  AGENT_BACKENDS,
+  type AgentBackend,
+  type AgentBackendName,
+  type AgentBackendRequest,
+  type AgentBackendEvent,
+} from './agent-backend.js';
+
+export { ClaudeCliBackend, type ClaudeCliBackendConfig, type ClaudeOutputFormat } from './claude-cli-backend.js';
+export { StreamJsonParser } from './stream-json-parser.js';
+export { ToolMarkupFilter, findToolMarkup, matchToolMarkup, type ToolMarkup } from './tool-markup.js';
+export { CommandBackend, type CommandBackendConfig, type BackendOutputParser } from './command-backend.js';
+export { ScriptedBackend, type ScriptedResponse } from './scripted-backend.js';
@@ -0,0 +1,69 @@
+import type { AgentBackend, AgentBackendEvent, AgentBackendRequest } from './agent-backend.js';
+
+/**
+ * A scripted reply: plain text, an explicit event list, or a function
+ * computing either from the request
+ */
+export type ScriptedResponse =
+  | string
+  | AgentBackendEvent[]
+  | ((request: AgentBackendRequest) => string | AgentBackendEvent[]);
+
+/**
+ * ScriptedBackend - In-process backend that replays canned replies
+ *
+ * Each invocation consumes the next scripted response in order, which makes
+ * agent runs fully deterministic in tests and demos. Every request is kept
+ * in `requests` for inspection.
+ */
+export class ScriptedBackend implements AgentBackend {
+  readonly name: string = 'scripted';
+  readonly requests: AgentBackendRequest[] = [];
+  private responses: ScriptedResponse[];
+
+  constructor(responses: ScriptedResponse[] = []) {
+    this.responses = [...responses];
+  }
+
+  /**
+   * Appends more responses to the script
+   */
+  enqueue(...responses: ScriptedResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  /**
+   * Number of responses not yet consumed
+   */
+  get remaining(): number {
+    return this.responses.length;
+  }
+
+  async *invoke(request: AgentBackendRequest): AsyncGenerator<AgentBackendEvent> {
+    this.requests.push(request);
+
+    const next = this.responses.shift();
+    if (next === undefined) {
+      yield {
+        type: 'error',
+        code: 'cli_error',
+        message: 'Scripted backend has no responses left',
+        details: { invocation: this.requests.length },
+      };
+      return;
+    }
+
+    const response = typeof next === 'function' ? next(request) : next;
+    if (typeof response === 'string') {
+      yield { type: 'text_delta', content: response };
+      return;
+    }
+
+    for (const event of response) {
+      if (request.signal?.aborted) {
+        return;
+      }
+      yield event;
+    }
+  }
+}
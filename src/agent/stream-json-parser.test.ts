@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { StreamJsonParser } from './stream-json-parser.js';
+import type { AgentBackendEvent } from './agent-backend.js';
+
+function line(value: unknown): string {
+  return JSON.stringify(value) + '\n';
+}
+
+function textDelta(text: string): string {
+  return line({
+    type: 'stream_event',
+    event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } },
+  });
+}
+
+function parseAll(output: string): AgentBackendEvent[] {
+  const parser = new StreamJsonParser();
+  return [...parser.push(output), ...parser.end()];
+}
+
+describe('StreamJsonParser', () => {
+  it('should emit partial text deltas without repeating the final message text', () => {
+    const events = parseAll(
+      line({ type: 'system', subtype: 'init', session_id: 'abc' }) +
+      textDelta('Hel') +
+      textDelta('lo') +
+      line({ type: 'assistant', message: { content: [{ type: 'text', text: 'Hello' }] } })
+    );
+
+    expect(events).toEqual([
+      { type: 'text_delta', content: 'Hel' },
+      { type: 'text_delta', content: 'lo' },
+    ]);
+  });
+
+  it('should emit full message text when no deltas were streamed', () => {
+    const events = parseAll(line({ type: 'assistant', message: { content: [{ type: 'text', text: 'Hi there' }] } }));
+    expect(events).toEqual([{ type: 'text_delta', content: 'Hi there' }]);
+  });
+
+  it('should turn tool_use blocks into tool calls with nested arguments intact', () => {
+    const input = { path: 'a.json', content: '{"nested": {"braces": [1, 2]}}' };
+    const events = parseAll(line({
+      type: 'assistant',
+      message: {
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'write_file', input }],
+        stop_reason: 'tool_use',
+      },
+    }));
+
+    expect(events).toEqual([
+      { type: 'tool_call', toolCall: { id: 'toolu_1', name: 'write_file', arguments: input } },
+    ]);
+  });
+
+  it('should not report tool calls the CLI ran itself', () => {
+    const events = parseAll(
+      line({
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: 'notes.md' } },
+            { type: 'tool_use', id: 'toolu_2', name: 'read_file', input: { path: 'todo.md' } },
+          ],
+          stop_reason: 'tool_use',
+        },
+      }) +
+      line({ type: 'user', message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'buy milk' }] } }) +
+      line({ type: 'result', subtype: 'success', usage: { input_tokens: 1, output_tokens: 1 } })
+    );
+
+    expect(events.filter(event => event.type === 'tool_call')).toEqual([
+      { type: 'tool_call', toolCall: { id: 'toolu_2', name: 'read_file', arguments: { path: 'todo.md' } } },
+    ]);
+  });
+
+  it('should report usage and the stop reason from the result line', () => {
+    const events = parseAll(
+      textDelta('Done') +
+      line({ type: 'stream_event', event: { type: 'message_delta', delta: { stop_reason: 'end_turn' } } }) +
+      line({
+        type: 'result',
+        subtype: 'success',
+        is_error: false,
+        total_cost_usd: 0.0123,
+        usage: { input_tokens: 120, output_tokens: 45, cache_read_input_tokens: 100 },
+      })
+    );
+
+    expect(events).toEqual([
+      { type: 'text_delta', content: 'Done' },
+      {
+        type: 'usage',
+        usage: { inputTokens: 120, outputTokens: 45, cacheReadTokens: 100, costUsd: 0.0123 },
+      },
+      { type: 'stop', reason: 'end_turn' },
+    ]);
+  });
+
+  it('should report an error result as a cli_error', () => {
+    const events = parseAll(line({ type: 'result', subtype: 'error_during_execution', is_error: true, result: 'boom' }));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'error', code: 'cli_error', message: 'boom' });
+  });
+
+  it('should ignore lines that are not JSON', () => {
+    const events = parseAll('warning: something odd\n{not json}\n' + textDelta('ok'));
+    expect(events).toEqual([{ type: 'text_delta', content: 'ok' }]);
+  });
+
+  it('should reassemble lines split across chunks', () => {
+    const output = textDelta('split') + line({ type: 'result', subtype: 'success', usage: { input_tokens: 1, output_tokens: 2 } });
+    const parser = new StreamJsonParser();
+    const events: AgentBackendEvent[] = [];
+
+    for (let i = 0; i < output.length; i += 7) {
+      events.push(...parser.push(output.slice(i, i + 7)));
+    }
+    events.push(...parser.end());
+
+    expect(events).toEqual([
+      { type: 'text_delta', content: 'split' },
+      { type: 'usage', usage: { inputTokens: 1, outputTokens: 2 } },
+      { type: 'stop', reason: 'success' },
+    ]);
+  });
+
+  it('should parse a final line without a trailing newline', () => {
+    const parser = new StreamJsonParser();
+    expect(parser.push(textDelta('tail').trimEnd())).toEqual([]);
+    expect(parser.end()).toEqual([{ type: 'text_delta', content: 'tail' }]);
+  });
+});
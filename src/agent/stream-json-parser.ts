@@ -0,0 +1,202 @@
+import type { AgentBackendEvent } from './agent-backend.js';
+import type { BackendOutputParser } from './command-backend.js';
+import type { AgentUsage } from './agent-runtime.js';
+import type { ToolCall } from '../tools/tool-system.js';
+
+/**
+ * Content block inside an assistant or user message
+ */
+interface ContentBlock {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+}
+
+/**
+ * Token usage as reported by the CLI
+ */
+interface RawUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_read_input_tokens?: number;
+  cache_creation_input_tokens?: number;
+}
+
+/**
+ * The subset of stream-json line shapes the parser understands
+ */
+interface StreamJsonLine {
+  type: string;
+  subtype?: string;
+  message?: {
+    content?: ContentBlock[] | string;
+    stop_reason?: string | null;
+  };
+  event?: {
+    type: string;
+    delta?: { type: string; text?: string; stop_reason?: string | null };
+  };
+  usage?: RawUsage;
+  total_cost_usd?: number;
+  is_error?: boolean;
+  result?: string;
+}
+
+/**
+ * StreamJsonParser - Parses `claude --output-format stream-json` output
+ *
+ * The CLI writes one JSON object per line. Partial text deltas arrive as
+ * `stream_event` lines, complete messages as `assistant` lines (with text
+ * and `tool_use` blocks) and a final `result` line carries token usage.
+ * Lines that are not JSON are ignored so diagnostics never reach the reply.
+ *
+ * The CLI runs its own tools (Read, Bash, ...) and reports their results in
+ * `user` lines. A `tool_use` block is therefore held back until the reply
+ * ends and only becomes a tool call if the CLI never answered it, so no
+ * call is run a second time by the gateway.
+ * Requirement 2.2: Parse response and extract text and tool calls
+ */
+export class StreamJsonParser implements BackendOutputParser {
+  private buffer = '';
+  private streamedText = false;
+  private stopReason: string | null = null;
+  // tool_use blocks the CLI has not answered yet, in the order they came
+  private pendingToolCalls: Map<string, ToolCall> = new Map();
+
+  push(chunk: string): AgentBackendEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+    return lines.flatMap(line => this.parseLine(line));
+  }
+
+  end(): AgentBackendEvent[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return [...this.parseLine(rest), ...this.takeToolCalls()];
+  }
+
+  /**
+   * Parses a single line into zero or more backend events
+   */
+  parseLine(line: string): AgentBackendEvent[] {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('{')) {
+      return [];
+    }
+
+    let parsed: StreamJsonLine;
+    try {
+      parsed = JSON.parse(trimmed) as StreamJsonLine;
+    } catch {
+      return [];
+    }
+
+    switch (parsed.type) {
+      case 'stream_event':
+        return this.parseStreamEvent(parsed);
+      case 'assistant':
+        return this.parseAssistantMessage(parsed);
+      case 'user':
+        this.parseToolResults(parsed);
+        return [];
+      case 'result':
+        return this.parseResult(parsed);
+      default:
+        // system init, etc.
+        return [];
+    }
+  }
+
+  private parseStreamEvent(line: StreamJsonLine): AgentBackendEvent[] {
+    const event = line.event;
+    if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+      this.streamedText = true;
+      return [{ type: 'text_delta', content: event.delta.text }];
+    }
+    if (event?.type === 'message_delta' && event.delta?.stop_reason) {
+      this.stopReason = event.delta.stop_reason;
+    }
+    return [];
+  }
+
+  private parseAssistantMessage(line: StreamJsonLine): AgentBackendEvent[] {
+    const events: AgentBackendEvent[] = [];
+
+    for (const block of contentBlocks(line)) {
+      if (block.type === 'text' && block.text && !this.streamedText) {
+        // Only emit full text when it was not already streamed as deltas
+        events.push({ type: 'text_delta', content: block.text });
+      } else if (block.type === 'tool_use' && block.id && block.name) {
+        this.pendingToolCalls.set(block.id, { id: block.id, name: block.name, arguments: block.input ?? {} });
+      }
+    }
+
+    if (line.message?.stop_reason) {
+      this.stopReason = line.message.stop_reason;
+    }
+    this.streamedText = false;
+
+    return events;
+  }
+
+  /**
+   * Drops the tool calls the CLI ran itself
+   */
+  private parseToolResults(line: StreamJsonLine): void {
+    for (const block of contentBlocks(line)) {
+      if (block.type === 'tool_result' && block.tool_use_id) {
+        this.pendingToolCalls.delete(block.tool_use_id);
+      }
+    }
+  }
+
+  /**
+   * Emits the tool calls left for the gateway to run
+   */
+  private takeToolCalls(): AgentBackendEvent[] {
+    const events: AgentBackendEvent[] = [...this.pendingToolCalls.values()].map(toolCall => ({
+      type: 'tool_call',
+      toolCall,
+    }));
+    this.pendingToolCalls.clear();
+    return events;
+  }
+
+  private parseResult(line: StreamJsonLine): AgentBackendEvent[] {
+    if (line.is_error) {
+      this.pendingToolCalls.clear();
+      return [{
+        type: 'error',
+        code: 'cli_error',
+        message: line.result ?? `Claude CLI reported ${line.subtype ?? 'an error'}`,
+        details: line,
+      }];
+    }
+
+    const events = this.takeToolCalls();
+    if (line.usage) {
+      events.push({ type: 'usage', usage: this.toUsage(line.usage, line.total_cost_usd) });
+    }
+    events.push({ type: 'stop', reason: this.stopReason ?? line.subtype ?? 'end_turn' });
+    return events;
+  }
+
+  private toUsage(raw: RawUsage, costUsd?: number): AgentUsage {
+    return {
+      inputTokens: raw.input_tokens ?? 0,
+      outputTokens: raw.output_tokens ?? 0,
+      ...(raw.cache_read_input_tokens !== undefined ? { cacheReadTokens: raw.cache_read_input_tokens } : {}),
+      ...(raw.cache_creation_input_tokens !== undefined ? { cacheCreationTokens: raw.cache_creation_input_tokens } : {}),
+      ...(costUsd !== undefined ? { costUsd } : {}),
+    };
+  }
+}
+
+function contentBlocks(line: StreamJsonLine): ContentBlock[] {
+  const content = line.message?.content;
+  return Array.isArray(content) ? content : [];
+}
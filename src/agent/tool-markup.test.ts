@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { ToolMarkupFilter, findToolMarkup } from './tool-markup.js';
+
+describe('findToolMarkup', () => {
+  it('should read JSON-style tool calls with nested objects', () => {
+    const text = 'Writing. {"tool": "write_file", "arguments": {"path": "a.json", "content": "{\\"a\\": {\\"b\\": 1}}", "options": {"mode": {"append": false}}}} Done.';
+
+    const [markup] = findToolMarkup(text);
+
+    expect(markup?.call).toEqual({
+      name: 'write_file',
+      arguments: { path: 'a.json', content: '{"a": {"b": 1}}', options: { mode: { append: false } } },
+    });
+    expect(text.slice(0, markup!.start) + text.slice(markup!.end)).toBe('Writing.  Done.');
+  });
+
+  it('should find both styles in order and skip malformed markup', () => {
+    const found = findToolMarkup(
+      '<tool_call name="a">{bad}</tool_call> {"tool": "b", "arguments": {}} {"tool": 1} <tool_call name="c">{"x": {"y": 2}}</tool_call>'
+    );
+
+    expect(found.map(m => m.call?.name)).toEqual([undefined, 'b', 'c']);
+    expect(found[0]?.invalidArguments).toEqual({ toolName: 'a', argsJson: '{bad}' });
+  });
+});
+
+describe('ToolMarkupFilter', () => {
+  function filter(chunks: string[]): string {
+    const markupFilter = new ToolMarkupFilter();
+    return chunks.map(chunk => markupFilter.push(chunk)).join('') + markupFilter.end();
+  }
+
+  it('should drop tool calls split across chunks', () => {
+    const text = 'Let me check. <tool_call name="read_file">{"path": "a.txt"}</tool_call> {"tool": "glob", "arguments": {"pattern": "*.md"}}Then answer.';
+    const chunks = text.match(/.{1,5}/gs) ?? [];
+
+    expect(filter(chunks)).toBe('Let me check.  Then answer.');
+  });
+
+  it('should pass through text that only looks like markup', () => {
+    const markupFilter = new ToolMarkupFilter();
+
+    expect(markupFilter.push('a < b and {"tool" is a word')).toBe('a < b and ');
+    expect(markupFilter.push('} ok <tool_')).toBe('{"tool" is a word} ok ');
+    expect(markupFilter.end()).toBe('<tool_');
+  });
+});
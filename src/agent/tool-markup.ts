@@ -0,0 +1,182 @@
+/**
+ * Tool call markup a model writes into its reply text
+ * - `<tool_call name="read_file">{"path": "a.txt"}</tool_call>`
+ * - `{"tool": "read_file", "arguments": {"path": "a.txt"}}`
+ */
+const OPENERS = ['<tool_call', '{"tool"'];
+
+const TAG_PATTERN = /<tool_call\s+name="([^"]+)">([\s\S]*?)<\/tool_call>/y;
+
+/**
+ * A piece of markup found in reply text
+ * `call` is absent when the markup is malformed and stays part of the text;
+ * `invalidArguments` then holds the arguments that failed to parse.
+ */
+export interface ToolMarkup {
+  start: number;
+  end: number;
+  call?: { name: string; arguments: Record<string, unknown> };
+  invalidArguments?: { toolName: string; argsJson: string };
+}
+
+/**
+ * Reads the markup starting at `start`
+ * Returns 'incomplete' when the text ends before the markup does, and null
+ * when there is no markup at `start`.
+ */
+export function matchToolMarkup(text: string, start: number): ToolMarkup | 'incomplete' | null {
+  if (text.startsWith('<tool_call', start)) {
+    TAG_PATTERN.lastIndex = start;
+    const match = TAG_PATTERN.exec(text);
+    if (!match) {
+      return text.includes('</tool_call>', start) ? null : 'incomplete';
+    }
+    const [fullMatch, toolName = '', argsJson = ''] = match;
+    const end = start + fullMatch.length;
+    const args = parseObject(argsJson.trim());
+    return args
+      ? { start, end, call: { name: toolName, arguments: args } }
+      : { start, end, invalidArguments: { toolName, argsJson } };
+  }
+
+  if (text.startsWith('{"tool"', start)) {
+    const end = balancedObjectEnd(text, start);
+    if (end === null) {
+      return 'incomplete';
+    }
+    const value = parseObject(text.slice(start, end));
+    const name = value?.['tool'];
+    const args = value?.['arguments'];
+    if (typeof name === 'string' && isObject(args)) {
+      return { start, end, call: { name, arguments: args } };
+    }
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Finds every complete piece of tool call markup in reply text, in order
+ */
+export function findToolMarkup(text: string): ToolMarkup[] {
+  const found: ToolMarkup[] = [];
+  let index = nextOpener(text, 0);
+  while (index !== -1) {
+    const markup = matchToolMarkup(text, index);
+    if (markup && markup !== 'incomplete') {
+      found.push(markup);
+      index = nextOpener(text, markup.end);
+    } else {
+      index = nextOpener(text, index + 1);
+    }
+  }
+  return found;
+}
+
+/**
+ * ToolMarkupFilter - Removes tool call markup from streamed reply text
+ *
+ * Text that may start a piece of markup is held back until the markup is
+ * complete. Tool calls are dropped; malformed markup is passed on as text,
+ * as is anything still held back when the stream ends.
+ */
+export class ToolMarkupFilter {
+  private pending = '';
+
+  push(chunk: string): string {
+    this.pending += chunk;
+    let visible = '';
+
+    for (;;) {
+      const index = nextOpener(this.pending, 0);
+      if (index === -1) {
+        const held = partialOpenerLength(this.pending);
+        visible += this.pending.slice(0, this.pending.length - held);
+        this.pending = this.pending.slice(this.pending.length - held);
+        return visible;
+      }
+
+      visible += this.pending.slice(0, index);
+      this.pending = this.pending.slice(index);
+
+      const markup = matchToolMarkup(this.pending, 0);
+      if (markup === 'incomplete') {
+        return visible;
+      }
+      if (markup?.call) {
+        this.pending = this.pending.slice(markup.end);
+      } else {
+        const end = markup ? markup.end : 1;
+        visible += this.pending.slice(0, end);
+        this.pending = this.pending.slice(end);
+      }
+    }
+  }
+
+  end(): string {
+    const rest = this.pending;
+    this.pending = '';
+    return rest;
+  }
+}
+
+function nextOpener(text: string, from: number): number {
+  const indexes = OPENERS.map(opener => text.indexOf(opener, from)).filter(index => index !== -1);
+  return indexes.length > 0 ? Math.min(...indexes) : -1;
+}
+
+/**
+ * Length of the longest suffix of `text` that could grow into an opener
+ */
+function partialOpenerLength(text: string): number {
+  for (let length = Math.min(text.length, Math.max(...OPENERS.map(o => o.length)) - 1); length > 0; length--) {
+    const suffix = text.slice(text.length - length);
+    if (OPENERS.some(opener => opener.startsWith(suffix))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Index just past the `}` closing the object that opens at `start`, or null
+ * if the text ends first; braces inside strings do not count
+ */
+function balancedObjectEnd(text: string, start: number): number | null {
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    }
+  }
+  return null;
+}
+
+function parseObject(json: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(json);
+    return isObject(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
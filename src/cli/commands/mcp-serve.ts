@@ -0,0 +1,91 @@
+/**
+ * MCP serve command - Serves OpenClaw's tools, memory and sessions to MCP
+ * clients over stdio
+ *
+ * stdout carries the protocol, so everything else goes to stderr or the log.
+ */
+
+import { Command } from 'commander';
+import { Workspace } from '../../storage/workspace.js';
+import { ConfigManager } from '../../config/config-manager.js';
+import { Logger } from '../../logging/logger.js';
+import { ApprovalPolicy } from '../../security/approval-policy.js';
+import { SessionManager } from '../../session/session-manager.js';
+import { MemorySystem } from '../../memory/memory-system.js';
+import { McpStdioServer } from '../../mcp/mcp-server.js';
+import { createToolSystem, loadPlugins } from '../utils/tools.js';
+
+interface McpServeOptions {
+  memory?: boolean;
+  sessions?: boolean;
+}
+
+/**
+ * Creates the mcp-serve command
+ */
+export function mcpServeCommand(): Command {
+  const cmd = new Command('mcp-serve');
+
+  cmd
+    .description('Serve tools, memory search and session transcripts to MCP clients over stdio')
+    .option('--no-memory', 'Do not offer the memory_search tool')
+    .option('--no-sessions', 'Do not offer session transcripts as resources')
+    .action(async (options: McpServeOptions) => {
+      await runMcpServe(options);
+    });
+
+  return cmd;
+}
+
+/**
+ * Runs the MCP server until the client closes stdin
+ */
+async function runMcpServe(options: McpServeOptions): Promise<void> {
+  const workspace = new Workspace();
+  if (!(await workspace.exists())) {
+    await workspace.initialize();
+  }
+
+  const configManager = new ConfigManager(workspace.configPath);
+  const configResult = await configManager.load();
+  if (!configResult.success) {
+    console.error('Configuration error:', configResult.errors?.join('\n'));
+    process.exit(1);
+  }
+  const config = configManager.config;
+
+  const logger = new Logger({
+    level: config.logging.level,
+    path: workspace.logPath('openclaw.log'),
+    maxSize: config.logging.maxSize,
+    maxFiles: config.logging.maxFiles,
+  }, { component: 'mcp-serve' });
+
+  // Same tools, plugins, sandbox, shell policy and approval policy as the
+  // Gateway. Tools of external MCP servers are not passed through, so a
+  // config that lists `openclaw mcp-serve` cannot make it launch itself.
+  const toolSystem = createToolSystem(config, workspace);
+  await loadPlugins(toolSystem, config, workspace, logger);
+
+  let memorySystem: MemorySystem | undefined;
+  if (options.memory !== false) {
+    memorySystem = new MemorySystem(workspace, {
+      workspacePath: workspace.workspaceDir,
+      maxContextTokens: config.memory.maxContextTokens,
+      temporalDecayHalfLife: config.memory.temporalDecayHalfLife,
+    }, logger);
+    await memorySystem.indexWorkspace();
+  }
+
+  const server = new McpStdioServer({
+    toolSystem,
+    approvalPolicy: new ApprovalPolicy(config.tools.approval),
+    logger,
+    ...(memorySystem ? { memorySystem } : {}),
+    ...(options.sessions !== false ? { sessionManager: new SessionManager(workspace, logger) } : {}),
+  });
+
+  process.on('SIGTERM', () => process.exit(0));
+  await server.serve(process.stdin, process.stdout);
+  process.exit(0);
+}
@@ -9,8 +9,17 @@
 
 import { Command } from 'commander';
 import WebSocket from 'ws';
+import { randomUUID } from 'node:crypto';
+import { createInterface } from 'node:readline/promises';
 import { Workspace } from '../../storage/workspace.js';
 import { formatMarkdown } from '../utils/markdown.js';
+import {
+  GATEWAY_CAPABILITIES,
+  PROTOCOL_VERSION,
+  parseServerMessage,
+  type ClientMessage,
+  type ServerMessage,
+} from '../../gateway/protocol.js';
 import { 
   loadAuthToken, 
   getGatewayUrl, 
@@ -73,8 +82,23 @@ async function runMessage(text: string, options: MessageOptions): Promise<void>
   }
 }
 
+/**
+ * Reconnection attempts after the connection drops mid-reply
+ */
+const RECONNECT_ATTEMPTS = 5;
+
+/**
+ * Delay before the first reconnection attempt; it doubles up to the maximum
+ */
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 5000;
+
 /**
  * Connects to the Gateway and sends a message
+ * Ctrl+C while the reply is streaming cancels the request on the Gateway;
+ * a second Ctrl+C exits immediately. If the connection drops after the
+ * message was sent, the CLI reconnects and resumes the request from the
+ * last event it received.
  */
 async function connectAndSend(
   wsUrl: string,
@@ -83,38 +107,112 @@ async function connectAndSend(
   sessionId?: string
 ): Promise<void> {
   return new Promise((resolve, reject) => {
-    const ws = new WebSocket(wsUrl);
+    let ws: WebSocket;
     let authenticated = false;
-    let authSent = false;
     let currentSessionId = sessionId;
     let responseBuffer = '';
+    const requestId = randomUUID();
+    let messageSent = false;
+    let cancelRequested = false;
+    // Highest event seq received, so a resume replays only what was missed
+    let lastSeq = 0;
+    let reconnectAttempts = 0;
+    let settled = false;
+    // Whether live tool output left the cursor mid-line
+    let toolOutputOpen = false;
+    // Tool names by call id; read-only calls run concurrently, so results interleave
+    const toolNames = new Map<string, string>();
+    // Aborts the approval prompt once the Gateway no longer waits for it
+    let pendingPrompt: AbortController | null = null;
+    let pendingPromptCallId: string | null = null;
+    const closePrompt = (): void => {
+      pendingPrompt?.abort();
+      pendingPrompt = null;
+      pendingPromptCallId = null;
+    };
 
-    ws.on('open', () => {
-      // Wait for server's auth request before sending
-    });
+    const send = (message: ClientMessage): void => {
+      ws.send(JSON.stringify(message));
+    };
+
+    const onInterrupt = (): void => {
+      if (!messageSent || cancelRequested || ws.readyState !== WebSocket.OPEN) {
+        process.exit(130);
+      }
+      cancelRequested = true;
+      process.stderr.write('\nCancelling...\n');
+      send({ type: 'cancel', requestId });
+    };
+    process.on('SIGINT', onInterrupt);
+
+    const settle = (error?: Error): void => {
+      if (settled) return;
+      settled = true;
+      closePrompt();
+      process.off('SIGINT', onInterrupt);
+      ws.close();
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+
+    const connect = (): void => {
+      const socket = new WebSocket(wsUrl);
+      ws = socket;
+      let authSent = false;
+      let lastError: Error | null = null;
+
+      socket.on('open', () => {
+        // Negotiate the protocol first; authentication follows the reply
+        send({
+          type: 'hello',
+          protocolVersions: [PROTOCOL_VERSION],
+          capabilities: [...GATEWAY_CAPABILITIES],
+          client: { name: 'openclaw-cli' },
+        });
+      });
+
+      socket.on('message', (data) => {
+        const parsed = parseServerMessage(data.toString());
+        if (!parsed.success) {
+          console.error('Ignoring unexpected message from Gateway:', parsed.error.error);
+          return;
+        }
+        const message = parsed.message;
+
+        // Events already shown before a reconnect are skipped
+        const seq = 'seq' in message ? message.seq : undefined;
+        if (seq !== undefined) {
+          if (seq <= lastSeq) return;
+          lastSeq = seq;
+        }
 
-    ws.on('message', (data) => {
-      try {
-        const message = JSON.parse(data.toString());
-        
         switch (message.type) {
+          case 'hello':
+            authSent = true;
+            send({ type: 'auth', token });
+            break;
+
           case 'auth_result':
             if (!authSent) {
-              // Server is requesting auth - send our token
-              authSent = true;
-              ws.send(JSON.stringify({ type: 'auth', token }));
-            } else if (message.success) {
+              // The greeting sent on connect; we authenticate after hello
+              break;
+            }
+            if (message.success) {
               authenticated = true;
-              // Create or load session
-              if (currentSessionId) {
-                ws.send(JSON.stringify({ type: 'load_session', sessionId: currentSessionId }));
+              if (messageSent) {
+                // Reconnected mid-reply: pick up the request where we left off
+                send({ type: 'resume', requestId, lastSeq });
+              } else if (currentSessionId) {
+                send({ type: 'load_session', sessionId: currentSessionId });
               } else {
-                ws.send(JSON.stringify({ type: 'create_session' }));
+                send({ type: 'create_session' });
               }
             } else {
               console.error('Authentication failed:', message.error);
-              ws.close();
-              reject(new Error('Authentication failed - invalid token'));
+              settle(new Error('Authentication failed - invalid token'));
             }
             break;
 
@@ -122,7 +220,22 @@ async function connectAndSend(
           case 'session_loaded':
             currentSessionId = message.sessionId;
             // Send the message
-            ws.send(JSON.stringify({ type: 'message', content: text }));
+            send({ type: 'message', content: text, requestId });
+            messageSent = true;
+            break;
+
+          case 'resumed':
+            reconnectAttempts = 0;
+            currentSessionId = message.sessionId;
+            process.stderr.write('[Reconnected]\n');
+            break;
+
+          case 'queued':
+            console.log(`[Queued: position ${message.payload.position}]`);
+            break;
+
+          case 'context_compacted':
+            console.log(`[Context compacted: ${message.payload.tokensBefore} → ${message.payload.tokensAfter} tokens]`);
             break;
 
           case 'text_delta':
@@ -131,46 +244,130 @@ async function connectAndSend(
             process.stdout.write(message.content);
             break;
 
+          case 'approval_request': {
+            closePrompt();
+            const approvalId = message.payload.approvalId;
+            pendingPrompt = new AbortController();
+            pendingPromptCallId = message.payload.toolCall.id;
+            void promptApproval(message.payload, pendingPrompt.signal, onInterrupt).then((decision) => {
+              if (decision && ws.readyState === WebSocket.OPEN) {
+                send({ type: 'approval_response', approvalId, decision });
+              }
+            });
+            break;
+          }
+
           case 'tool_call':
-            console.log(`\n[Tool: ${message.payload?.name}]`);
+            toolNames.set(message.payload.id, message.payload.name);
+            console.log(`\n[Tool: ${message.payload.name}]`);
+            break;
+
+          case 'tool_output_delta': {
+            // Live output goes under the [Tool: ...] header, stderr to stderr
+            const content = message.payload.content;
+            (message.payload.stream === 'stderr' ? process.stderr : process.stdout).write(content);
+            toolOutputOpen = !content.endsWith('\n');
             break;
+          }
 
-          case 'tool_result':
-            if (message.payload?.success) {
-              console.log(`[Tool result: success]`);
+          case 'tool_result': {
+            if (message.payload.callId === pendingPromptCallId) {
+              closePrompt();
+            }
+            if (toolOutputOpen) {
+              process.stdout.write('\n');
+              toolOutputOpen = false;
+            }
+            const toolName = toolNames.get(message.payload.callId) ?? 'tool';
+            if (message.payload.success) {
+              console.log(`[Tool result: ${toolName} success]`);
             } else {
-              console.log(`[Tool result: error - ${message.payload?.error}]`);
+              console.log(`[Tool result: ${toolName} error - ${message.payload.error?.message ?? 'unknown error'}]`);
             }
             break;
+          }
 
           case 'done':
             // Format final response with markdown
             if (responseBuffer) {
               process.stdout.write('\n');
             }
-            ws.close();
-            resolve();
+            settle();
+            break;
+
+          case 'cancelled':
+            console.log('\n[Cancelled]');
+            settle();
             break;
 
           case 'error':
+          case 'protocol_error':
             console.error('\nError:', message.error);
-            ws.close();
-            reject(new Error(message.error));
+            settle(new Error(message.error));
             break;
         }
-      } catch (error) {
-        console.error('Failed to parse message:', error);
-      }
-    });
+      });
 
-    ws.on('error', (error) => {
-      reject(error);
-    });
+      socket.on('error', (error) => {
+        lastError = error;
+      });
 
-    ws.on('close', () => {
-      if (!authenticated) {
-        reject(new Error('Connection closed before authentication'));
-      }
-    });
+      socket.on('close', () => {
+        if (settled || socket !== ws) return;
+        // An approval asked on this connection can no longer be answered
+        closePrompt();
+
+        if (messageSent && reconnectAttempts < RECONNECT_ATTEMPTS) {
+          const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+          reconnectAttempts++;
+          process.stderr.write(`\n[Connection lost, reconnecting (${reconnectAttempts}/${RECONNECT_ATTEMPTS})...]\n`);
+          setTimeout(connect, delay);
+          return;
+        }
+
+        settle(lastError ?? new Error(authenticated ? 'Connection to Gateway lost' : 'Connection closed before authentication'));
+      });
+    };
+
+    connect();
   });
 }
+
+/**
+ * Approval request payload sent by the Gateway
+ */
+type ApprovalPrompt = Extract<ServerMessage, { type: 'approval_request' }>['payload'];
+
+/**
+ * Asks the user whether a tool call may run
+ * Resolves null if the prompt was withdrawn before an answer.
+ */
+async function promptApproval(
+  prompt: ApprovalPrompt,
+  signal: AbortSignal,
+  onInterrupt: () => void
+): Promise<'allow' | 'deny' | 'always' | null> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  rl.on('SIGINT', onInterrupt);
+
+  console.log(`\n[Approval needed: ${prompt.reason}]`);
+  console.log(`  ${prompt.toolCall.name} ${JSON.stringify(prompt.toolCall.arguments)}`);
+
+  try {
+    for (;;) {
+      const answer = (await rl.question(
+        `Allow? [y]es / [n]o / [a]lways (denied in ${Math.round(prompt.timeoutMs / 1000)}s): `,
+        { signal }
+      )).trim().toLowerCase();
+
+      if (answer === 'y' || answer === 'yes') return 'allow';
+      if (answer === 'n' || answer === 'no') return 'deny';
+      if (answer === 'a' || answer === 'always') return 'always';
+    }
+  } catch {
+    // Withdrawn: the Gateway stopped waiting (timeout, cancellation)
+    return null;
+  } finally {
+    rl.close();
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Plugins command - Lists plugins and turns them on or off
+ */
+
+import { Command } from 'commander';
+import { Workspace } from '../../storage/workspace.js';
+import { ConfigManager } from '../../config/config-manager.js';
+import { Logger } from '../../logging/logger.js';
+import type { PluginStatus } from '../../plugins/plugin-loader.js';
+import { createToolSystem, loadPlugins } from '../utils/tools.js';
+
+/**
+ * Creates the plugins command with subcommands
+ */
+export function pluginsCommand(): Command {
+  const cmd = new Command('plugins');
+
+  cmd.description('Manage tool plugins');
+
+  // List subcommand
+  cmd
+    .command('list')
+    .description('List installed plugins, their permissions, tools and load errors')
+    .action(async () => {
+      await listPlugins();
+    });
+
+  // Enable subcommand
+  cmd
+    .command('enable <name>')
+    .description('Enable a plugin')
+    .action(async (name: string) => {
+      await setPluginEnabled(name, true);
+    });
+
+  // Disable subcommand
+  cmd
+    .command('disable <name>')
+    .description('Disable a plugin')
+    .action(async (name: string) => {
+      await setPluginEnabled(name, false);
+    });
+
+  // Default action (list)
+  cmd.action(async () => {
+    await listPlugins();
+  });
+
+  return cmd;
+}
+
+/**
+ * Loads the plugins the way the Gateway does and reports the outcome
+ */
+async function listPlugins(): Promise<void> {
+  const workspace = new Workspace();
+  const configManager = new ConfigManager(workspace.configPath);
+  const configResult = await configManager.load();
+  if (!configResult.success) {
+    console.error('Configuration error:', configResult.errors?.join('\n'));
+    process.exit(1);
+  }
+  const config = configManager.config;
+
+  const logger = new Logger({ level: 'error', path: workspace.logPath('openclaw.log') });
+  // The core tools are registered too, so name clashes show up as errors
+  const toolSystem = createToolSystem(config, workspace);
+  const loader = await loadPlugins(toolSystem, config, workspace, logger);
+  const plugins = loader.list();
+  await loader.unload();
+
+  const dir = config.plugins.dir ?? workspace.pluginsDir;
+  if (!config.plugins.enabled) {
+    console.log('Plugins are disabled (plugins.enabled is false).');
+    return;
+  }
+  if (plugins.length === 0) {
+    console.log(`No plugins found in ${dir}`);
+    return;
+  }
+
+  console.log(`Plugins in ${dir}:\n`);
+  for (const plugin of plugins) {
+    console.log(formatPlugin(plugin));
+  }
+}
+
+/**
+ * Renders one plugin for `plugins list`
+ */
+function formatPlugin(plugin: PluginStatus): string {
+  const lines = [`${plugin.name}${plugin.version ? ` ${plugin.version}` : ''}  [${plugin.state}]`];
+  if (plugin.description) {
+    lines.push(`  ${plugin.description}`);
+  }
+  lines.push(`  Permissions: ${plugin.permissions.length > 0 ? plugin.permissions.join(', ') : 'none'}`);
+  if (plugin.tools.length > 0) {
+    lines.push(`  Tools:       ${plugin.tools.join(', ')}`);
+  }
+  if (plugin.error) {
+    lines.push(`  Error:       ${plugin.error}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Sets `plugins.entries.<name>.enabled` in the config file
+ */
+async function setPluginEnabled(name: string, enabled: boolean): Promise<void> {
+  const workspace = new Workspace();
+  if (!(await workspace.exists())) {
+    await workspace.initialize();
+  }
+
+  const configManager = new ConfigManager(workspace.configPath);
+  await configManager.load();
+
+  const result = configManager.set(`plugins.entries.${name}.enabled`, enabled);
+  if (!result.success) {
+    console.error('Invalid configuration:');
+    for (const error of result.errors ?? []) {
+      console.error(`  - ${error}`);
+    }
+    process.exit(1);
+  }
+
+  try {
+    await configManager.save();
+    console.log(`Plugin ${name} ${enabled ? 'enabled' : 'disabled'}. Restart the gateway to apply.`);
+  } catch (error) {
+    console.error('Failed to save configuration:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
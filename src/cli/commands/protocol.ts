@@ -0,0 +1,40 @@
+/**
+ * Protocol command - Export the Gateway WebSocket protocol as JSON Schema
+ */
+
+import { Command } from 'commander';
+import { writeFile } from 'node:fs/promises';
+import { protocolJsonSchema } from '../../gateway/protocol.js';
+
+interface ProtocolOptions {
+  output?: string;
+}
+
+/**
+ * Creates the protocol command
+ */
+export function protocolCommand(): Command {
+  const cmd = new Command('protocol');
+
+  cmd
+    .description('Print the JSON Schema of the Gateway WebSocket protocol')
+    .option('-o, --output <file>', 'Write the schema to a file instead of stdout')
+    .action(async (options: ProtocolOptions) => {
+      await runProtocol(options);
+    });
+
+  return cmd;
+}
+
+/**
+ * Runs the protocol command
+ */
+async function runProtocol(options: ProtocolOptions): Promise<void> {
+  const schema = JSON.stringify(protocolJsonSchema(), null, 2) + '\n';
+  if (options.output) {
+    await writeFile(options.output, schema);
+    console.log(`Wrote protocol schema to ${options.output}`);
+  } else {
+    process.stdout.write(schema);
+  }
+}
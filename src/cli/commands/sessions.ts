@@ -7,7 +7,7 @@
 
 import { Command } from 'commander';
 import { Workspace } from '../../storage/workspace.js';
-import { SessionManager } from '../../session/session-manager.js';
+import { SessionManager, type TranscriptEntry } from '../../session/session-manager.js';
 import { Logger } from '../../logging/logger.js';
 
 /**
@@ -112,8 +112,8 @@ async function showSession(sessionId: string): Promise<void> {
       for (const entry of history) {
         const time = new Date(entry.timestamp).toLocaleTimeString();
         const role = entry.role.toUpperCase().padEnd(10);
-        console.log(`[${time}] ${role}`);
-        console.log(entry.content);
+        console.log(`[${time}] ${role}${entry.cancelled ? ' (cancelled)' : ''}`);
+        console.log(formatEntryContent(entry));
         console.log('─'.repeat(60));
       }
     }
@@ -123,6 +123,29 @@ async function showSession(sessionId: string): Promise<void> {
   }
 }
 
+/**
+ * Longest tool output shown by `sessions show`
+ */
+const MAX_TOOL_OUTPUT_CHARS = 500;
+
+/**
+ * Renders an entry's body; tool entries show the call or its (truncated) result
+ */
+function formatEntryContent(entry: TranscriptEntry): string {
+  if (entry.toolCall) {
+    return `→ ${entry.toolCall.name} ${entry.toolCall.arguments}  (call ${entry.toolCall.id})`;
+  }
+  if (entry.toolResult) {
+    const { output } = entry.toolResult;
+    const shown = output.length > MAX_TOOL_OUTPUT_CHARS
+      ? `${output.slice(0, MAX_TOOL_OUTPUT_CHARS)}... [${output.length - MAX_TOOL_OUTPUT_CHARS} more chars]`
+      : output;
+    const status = entry.toolResult.success ? 'ok' : 'error';
+    return `← ${status} (call ${entry.toolResult.callId})\n${shown}`;
+  }
+  return entry.content;
+}
+
 /**
  * Deletes a session
  */
@@ -11,11 +11,14 @@ import { Workspace } from '../../storage/workspace.js';
 import { ConfigManager, DEFAULT_CONFIG } from '../../config/config-manager.js';
 import { Logger } from '../../logging/logger.js';
 import { SecurityManager } from '../../security/security-manager.js';
+import { ApprovalPolicy } from '../../security/approval-policy.js';
 import { SessionManager } from '../../session/session-manager.js';
 import { AgentRuntime } from '../../agent/agent-runtime.js';
 import { GatewayServer, DEFAULT_GATEWAY_CONFIG } from '../../gateway/gateway-server.js';
-import { ToolSystem, createCoreTools } from '../../tools/index.js';
+import { McpManager } from '../../mcp/mcp-manager.js';
 import { MemorySystem } from '../../memory/memory-system.js';
+import { HeuristicSummarizer, LlmSummarizer } from '../../memory/summarizer.js';
+import { createToolSystem, loadPlugins } from '../utils/tools.js';
 
 interface StartOptions {
   port?: number;
@@ -118,30 +121,56 @@ async function startForeground(
   // Initialize session manager
   const sessionManager = new SessionManager(workspace, logger);
 
-  // Initialize tool system
-  const toolSystem = new ToolSystem();
-  createCoreTools(toolSystem);
+  // Initialize tool system; file tools are confined to the configured roots
+  // and shell commands are subject to the shell policy
+  const toolSystem = createToolSystem(config, workspace);
 
-  // Initialize memory system
+  // Add plugin tools; a plugin that fails to load is reported and skipped
+  const plugins = await loadPlugins(toolSystem, config, workspace, logger);
+  for (const plugin of plugins.list().filter(p => p.state === 'failed')) {
+    console.error(`Plugin ${plugin.name} failed to load: ${plugin.error}`);
+  }
+
+  // Add the tools of configured MCP servers; a server that fails to start is skipped
+  const mcpManager = new McpManager(toolSystem, config.mcp.servers, logger);
+  await mcpManager.start();
+
+  // Initialize agent runtime with logger
+  const agentRuntime = new AgentRuntime(toolSystem, {
+    backend: config.agent.backend,
+    claudeCliPath: config.agent.claudeCliPath,
+    outputFormat: config.agent.outputFormat,
+    ...(config.agent.command ? { command: config.agent.command } : {}),
+    commandArgs: config.agent.commandArgs,
+    scriptedResponses: config.agent.scriptedResponses,
+    model: config.agent.model,
+    maxTokens: config.agent.maxTokens,
+    maxIterations: config.agent.maxIterations,
+    maxParallelTools: config.agent.maxParallelTools,
+  }, logger, undefined, new ApprovalPolicy(config.tools.approval));
+
+  // Initialize memory system; the LLM summarizer reuses the agent's backend
+  const summarizer = config.memory.summarizer === 'llm'
+    ? new LlmSummarizer(agentRuntime.getBackend(), { model: config.agent.model }, logger)
+    : new HeuristicSummarizer();
   const memorySystem = new MemorySystem(workspace, {
     workspacePath: workspace.workspaceDir,
     maxContextTokens: config.memory.maxContextTokens,
     temporalDecayHalfLife: config.memory.temporalDecayHalfLife,
-  }, logger);
+  }, logger, summarizer);
   
   // Index workspace for memory search
   await memorySystem.indexWorkspace();
 
-  // Initialize agent runtime with logger
-  const agentRuntime = new AgentRuntime(toolSystem, {
-    claudeCliPath: config.agent.claudeCliPath,
-    model: config.agent.model,
-    maxTokens: config.agent.maxTokens,
-  }, logger);
-
   // Create and start gateway with all components wired together
   const gateway = new GatewayServer(
-    { port, host: config.gateway.host },
+    {
+      port,
+      host: config.gateway.host,
+      maxQueueDepth: config.gateway.maxQueueDepth,
+      maxConcurrentRuns: config.gateway.maxConcurrentRuns,
+      replayBufferSize: config.gateway.replayBufferSize,
+    },
     logger,
     securityManager,
     sessionManager,
@@ -155,6 +184,9 @@ async function startForeground(
   const shutdown = async () => {
     console.log('\nShutting down...');
     await gateway.stop();
+    await mcpManager.stop();
+    await plugins.unload();
+    await toolSystem.close();
     process.exit(0);
   };
 
@@ -17,6 +17,9 @@ import { messageCommand } from './commands/message.js';
 import { sessionsCommand } from './commands/sessions.js';
 import { configCommand } from './commands/config.js';
 import { logsCommand } from './commands/logs.js';
+import { mcpServeCommand } from './commands/mcp-serve.js';
+import { pluginsCommand } from './commands/plugins.js';
+import { protocolCommand } from './commands/protocol.js';
 
 // Get package version
 const __filename = fileURLToPath(import.meta.url);
@@ -47,6 +50,9 @@ export function createProgram(): Command {
   program.addCommand(sessionsCommand());
   program.addCommand(configCommand());
   program.addCommand(logsCommand());
+  program.addCommand(mcpServeCommand());
+  program.addCommand(pluginsCommand());
+  program.addCommand(protocolCommand());
 
   return program;
 }
@@ -0,0 +1,61 @@
+/**
+ * Tool setup shared by the commands that run tools (start, mcp-serve)
+ */
+
+import type { OpenClawConfig } from '../../config/config-manager.js';
+import type { Logger } from '../../logging/logger.js';
+import type { Workspace } from '../../storage/workspace.js';
+import { ToolSystem, createCoreTools, FsSandbox, defaultFsRoots, ShellPolicy } from '../../tools/index.js';
+import { PluginLoader } from '../../plugins/plugin-loader.js';
+
+/**
+ * Creates a ToolSystem with the core tools, confined to the configured
+ * filesystem roots and subject to the shell policy, and with the configured
+ * isolation and limits
+ */
+export function createToolSystem(config: OpenClawConfig, workspace: Workspace): ToolSystem {
+  const { isolation } = config.tools;
+  const toolSystem = new ToolSystem({
+    isolation: isolation.mode,
+    timeoutMs: isolation.timeoutMs,
+    memoryMb: isolation.memoryMb,
+    maxWorkers: isolation.maxWorkers,
+    tools: Object.fromEntries(Object.entries(isolation.tools).map(([name, limits]) => [name, {
+      isolation: limits.mode,
+      timeoutMs: limits.timeoutMs,
+      memoryMb: limits.memoryMb,
+    }])),
+  });
+  createCoreTools(toolSystem, {
+    sandbox: createSandbox(config, workspace),
+    shellPolicy: new ShellPolicy(config.tools.shell),
+  });
+  return toolSystem;
+}
+
+/**
+ * Adds the tools of the enabled plugins to a ToolSystem
+ * Plugins that fail to load are logged and reported by the loader; with
+ * `plugins.enabled` off nothing is loaded.
+ */
+export async function loadPlugins(
+  toolSystem: ToolSystem,
+  config: OpenClawConfig,
+  workspace: Workspace,
+  logger: Logger
+): Promise<PluginLoader> {
+  const loader = new PluginLoader(toolSystem, {
+    dir: config.plugins.dir ?? workspace.pluginsDir,
+    plugins: config.plugins.entries,
+    sandbox: createSandbox(config, workspace),
+    logger: logger.child({ component: 'plugins' }),
+  });
+  if (config.plugins.enabled) {
+    await loader.load();
+  }
+  return loader;
+}
+
+function createSandbox(config: OpenClawConfig, workspace: Workspace): FsSandbox {
+  return new FsSandbox(config.tools.fsRoots ?? defaultFsRoots(workspace));
+}
@@ -62,6 +62,47 @@ describe('ConfigManager', () => {
       expect(result.errors?.[0]).toContain('logging.level');
     });
 
+    it('should require a command for the command agent backend', () => {
+      const manager = new ConfigManager(configPath);
+      const result = manager.validate({ agent: { backend: 'command' } });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('agent.command');
+    });
+
+    it('should fill MCP server defaults and reject unusable server names', () => {
+      const manager = new ConfigManager(configPath);
+      const valid = manager.validate({ mcp: { servers: { github: { command: 'github-mcp' } } } });
+      const invalid = manager.validate({ mcp: { servers: { 'my server': { command: 'x' } } } });
+
+      expect(valid.config?.mcp.servers['github']).toMatchObject({ args: [], env: {}, enabled: true, timeoutMs: 60000 });
+      expect(invalid.success).toBe(false);
+      expect(invalid.errors?.[0]).toContain('mcp.servers.my server');
+    });
+
+    it('should isolate tools in workers by default with per-tool overrides', () => {
+      const manager = new ConfigManager(configPath);
+      const result = manager.validate({ tools: { isolation: { tools: { execute_shell: { timeoutMs: 600000 } } } } });
+
+      expect(result.config?.tools.isolation).toEqual({
+        mode: 'worker',
+        timeoutMs: 300000,
+        memoryMb: 256,
+        maxWorkers: 2,
+        tools: { execute_shell: { timeoutMs: 600000 } },
+      });
+    });
+
+    it('should fill plugin defaults and reject unusable plugin names', () => {
+      const manager = new ConfigManager(configPath);
+      const valid = manager.validate({ plugins: { entries: { weather: { enabled: false } } } });
+      const invalid = manager.validate({ plugins: { entries: { 'my.plugin': {} } } });
+
+      expect(valid.config?.plugins).toEqual({ enabled: true, entries: { weather: { enabled: false, config: {} } } });
+      expect(invalid.success).toBe(false);
+      expect(invalid.errors?.[0]).toContain('plugins.entries.my.plugin');
+    });
+
     it('should accept valid partial configuration', () => {
       const manager = new ConfigManager(configPath);
       const result = manager.validate({ gateway: { port: 9000 } });
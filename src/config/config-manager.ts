@@ -2,6 +2,20 @@ import { z } from 'zod';
 import { readFile, writeFile, rename, access, constants } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
 import { randomUUID } from 'node:crypto';
+import { DEFAULT_APPROVAL_RULES } from '../security/approval-policy.js';
+import { DEFAULT_BLOCKED_ENV } from '../tools/shell-policy.js';
+
+/**
+ * Checks that a string compiles as a regular expression
+ */
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
 
 /**
  * Configuration schema using Zod for validation
@@ -11,20 +25,110 @@ export const OpenClawConfigSchema = z.object({
   gateway: z.object({
     port: z.number().int().min(1).max(65535).default(18789),
     host: z.string().min(1).default('127.0.0.1'),
+    maxQueueDepth: z.number().int().min(0).max(1000).default(10),
+    maxConcurrentRuns: z.number().int().min(1).max(100).default(4),
+    replayBufferSize: z.number().int().min(1).max(100000).default(1000),
   }).default({}),
   
   agent: z.object({
+    backend: z.enum(['claude-cli', 'command', 'scripted']).default('claude-cli'),
     claudeCliPath: z.string().min(1).default('claude'),
+    outputFormat: z.enum(['text', 'stream-json']).default('stream-json'),
+    command: z.string().min(1).optional(),
+    commandArgs: z.array(z.string()).default([]),
+    scriptedResponses: z.array(z.string()).default([]),
     model: z.string().min(1).default('sonnet'),
     maxTokens: z.number().int().min(1).max(200000).default(8192),
+    maxIterations: z.number().int().min(1).max(100).default(10),
+    // Read-only tool calls of one turn that may run at the same time
+    maxParallelTools: z.number().int().min(1).max(32).default(4),
+  }).refine(agent => agent.backend !== 'command' || agent.command !== undefined, {
+    message: "agent.command is required when agent.backend is 'command'",
+    path: ['command'],
   }).default({}),
   
   memory: z.object({
     workspacePath: z.string().min(1).default('~/.openclaw/workspace'),
     maxContextTokens: z.number().int().min(1000).max(200000).default(100000),
     temporalDecayHalfLife: z.number().positive().default(7),
+    summarizer: z.enum(['heuristic', 'llm']).default('heuristic'),
   }).default({}),
   
+  tools: z.object({
+    // Directories file tools may touch; defaults to the project directory and the workspace
+    fsRoots: z.array(z.object({
+      path: z.string().min(1),
+      mode: z.enum(['ro', 'rw']).default('rw'),
+    })).min(1).optional(),
+    // Which tool calls run, need the user's approval or are refused
+    approval: z.object({
+      defaultDecision: z.enum(['allow', 'ask', 'deny']).default('allow'),
+      timeoutMs: z.number().int().min(1000).max(3600000).default(60000),
+      rules: z.array(z.object({
+        tool: z.string().min(1),
+        decision: z.enum(['allow', 'ask', 'deny']),
+        argument: z.string().min(1).optional(),
+        pattern: z.string().refine(isValidRegExp, 'Invalid regular expression').optional(),
+        outside: z.string().min(1).optional(),
+        format: z.enum(['path', 'patch']).optional(),
+      })).default(DEFAULT_APPROVAL_RULES),
+    }).default({}),
+    // What execute_shell may run and with which environment, limits and network access
+    shell: z.object({
+      allow: z.array(z.string().trim().min(1)).default([]),
+      deny: z.array(z.string().trim().min(1)).default([]),
+      blockedEnv: z.array(z.string().min(1)).default(DEFAULT_BLOCKED_ENV),
+      maxOutputBytes: z.number().int().min(1024).max(100 * 1024 * 1024).default(1024 * 1024),
+      cpuSeconds: z.number().int().min(1).optional(),
+      memoryMb: z.number().int().min(16).optional(),
+      network: z.enum(['allow', 'deny']).default('allow'),
+    }).default({}),
+    // Where tool handlers run and how long and how much memory a call may use;
+    // core tools run inline unless listed under `tools` with mode 'worker'
+    isolation: z.object({
+      mode: z.enum(['inline', 'worker']).default('worker'),
+      timeoutMs: z.number().int().min(100).max(3600000).default(300000),
+      memoryMb: z.number().int().min(16).max(16384).default(256),
+      maxWorkers: z.number().int().min(1).max(64).default(2),
+      tools: z.record(z.string().min(1), z.object({
+        mode: z.enum(['inline', 'worker']).optional(),
+        timeoutMs: z.number().int().min(100).max(3600000).optional(),
+        memoryMb: z.number().int().min(16).max(16384).optional(),
+      })).default({}),
+    }).default({}),
+  }).default({}),
+
+  mcp: z.object({
+    // stdio MCP servers whose tools are offered to the agent, keyed by a name used as the tool prefix
+    servers: z.record(
+      z.string().regex(/^[A-Za-z0-9_-]+$/, 'MCP server names may only contain letters, digits, _ and -'),
+      z.object({
+        command: z.string().min(1),
+        args: z.array(z.string()).default([]),
+        env: z.record(z.string()).default({}),
+        cwd: z.string().min(1).optional(),
+        enabled: z.boolean().default(true),
+        timeoutMs: z.number().int().min(1000).max(3600000).default(60000),
+        maxRestarts: z.number().int().min(0).max(100).default(5),
+        restartDelayMs: z.number().int().min(0).max(60000).default(1000),
+      })
+    ).default({}),
+  }).default({}),
+
+  plugins: z.object({
+    enabled: z.boolean().default(true),
+    // Directory holding one subdirectory per plugin; defaults to ~/.openclaw/plugins
+    dir: z.string().min(1).optional(),
+    // Per-plugin settings keyed by the manifest name; plugins without an entry are enabled
+    entries: z.record(
+      z.string().regex(/^[A-Za-z0-9_-]+$/, 'Plugin names may only contain letters, digits, _ and -'),
+      z.object({
+        enabled: z.boolean().default(true),
+        config: z.record(z.unknown()).default({}),
+      })
+    ).default({}),
+  }).default({}),
+
   logging: z.object({
     level: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
     path: z.string().min(1).default('~/.openclaw/logs'),
@@ -60,12 +164,33 @@ const ENV_PREFIX = 'OPENCLAW_';
 const ENV_MAPPINGS: Record<string, string[]> = {
   [`${ENV_PREFIX}GATEWAY_PORT`]: ['gateway', 'port'],
   [`${ENV_PREFIX}GATEWAY_HOST`]: ['gateway', 'host'],
+  [`${ENV_PREFIX}GATEWAY_MAX_QUEUE_DEPTH`]: ['gateway', 'maxQueueDepth'],
+  [`${ENV_PREFIX}GATEWAY_MAX_CONCURRENT_RUNS`]: ['gateway', 'maxConcurrentRuns'],
+  [`${ENV_PREFIX}GATEWAY_REPLAY_BUFFER_SIZE`]: ['gateway', 'replayBufferSize'],
+  [`${ENV_PREFIX}AGENT_BACKEND`]: ['agent', 'backend'],
   [`${ENV_PREFIX}AGENT_CLAUDE_CLI_PATH`]: ['agent', 'claudeCliPath'],
+  [`${ENV_PREFIX}AGENT_OUTPUT_FORMAT`]: ['agent', 'outputFormat'],
+  [`${ENV_PREFIX}AGENT_COMMAND`]: ['agent', 'command'],
   [`${ENV_PREFIX}AGENT_MODEL`]: ['agent', 'model'],
   [`${ENV_PREFIX}AGENT_MAX_TOKENS`]: ['agent', 'maxTokens'],
+  [`${ENV_PREFIX}AGENT_MAX_ITERATIONS`]: ['agent', 'maxIterations'],
+  [`${ENV_PREFIX}AGENT_MAX_PARALLEL_TOOLS`]: ['agent', 'maxParallelTools'],
   [`${ENV_PREFIX}MEMORY_WORKSPACE_PATH`]: ['memory', 'workspacePath'],
   [`${ENV_PREFIX}MEMORY_MAX_CONTEXT_TOKENS`]: ['memory', 'maxContextTokens'],
   [`${ENV_PREFIX}MEMORY_TEMPORAL_DECAY_HALF_LIFE`]: ['memory', 'temporalDecayHalfLife'],
+  [`${ENV_PREFIX}MEMORY_SUMMARIZER`]: ['memory', 'summarizer'],
+  [`${ENV_PREFIX}TOOLS_APPROVAL_DEFAULT_DECISION`]: ['tools', 'approval', 'defaultDecision'],
+  [`${ENV_PREFIX}TOOLS_APPROVAL_TIMEOUT_MS`]: ['tools', 'approval', 'timeoutMs'],
+  [`${ENV_PREFIX}TOOLS_SHELL_MAX_OUTPUT_BYTES`]: ['tools', 'shell', 'maxOutputBytes'],
+  [`${ENV_PREFIX}TOOLS_SHELL_CPU_SECONDS`]: ['tools', 'shell', 'cpuSeconds'],
+  [`${ENV_PREFIX}TOOLS_SHELL_MEMORY_MB`]: ['tools', 'shell', 'memoryMb'],
+  [`${ENV_PREFIX}TOOLS_SHELL_NETWORK`]: ['tools', 'shell', 'network'],
+  [`${ENV_PREFIX}TOOLS_ISOLATION_MODE`]: ['tools', 'isolation', 'mode'],
+  [`${ENV_PREFIX}TOOLS_ISOLATION_TIMEOUT_MS`]: ['tools', 'isolation', 'timeoutMs'],
+  [`${ENV_PREFIX}TOOLS_ISOLATION_MEMORY_MB`]: ['tools', 'isolation', 'memoryMb'],
+  [`${ENV_PREFIX}TOOLS_ISOLATION_MAX_WORKERS`]: ['tools', 'isolation', 'maxWorkers'],
+  [`${ENV_PREFIX}PLUGINS_ENABLED`]: ['plugins', 'enabled'],
+  [`${ENV_PREFIX}PLUGINS_DIR`]: ['plugins', 'dir'],
   [`${ENV_PREFIX}LOGGING_LEVEL`]: ['logging', 'level'],
   [`${ENV_PREFIX}LOGGING_PATH`]: ['logging', 'path'],
   [`${ENV_PREFIX}LOGGING_MAX_SIZE`]: ['logging', 'maxSize'],
@@ -244,7 +369,7 @@ export class ConfigManager {
     const key = path[path.length - 1];
     
     // Numeric fields
-    if (['port', 'maxTokens', 'maxContextTokens', 'maxSize', 'maxFiles'].includes(key ?? '')) {
+    if (['port', 'maxQueueDepth', 'maxConcurrentRuns', 'replayBufferSize', 'maxTokens', 'maxIterations', 'maxParallelTools', 'maxContextTokens', 'maxSize', 'maxFiles', 'timeoutMs', 'maxOutputBytes', 'cpuSeconds', 'memoryMb', 'maxWorkers'].includes(key ?? '')) {
       const num = parseInt(value, 10);
       if (isNaN(num)) {
         throw new Error(`Invalid numeric value for ${path.join('.')}: ${value}`);
@@ -260,7 +385,15 @@ export class ConfigManager {
       }
       return num;
     }
-    
+
+    // Boolean fields
+    if (key === 'enabled') {
+      if (value !== 'true' && value !== 'false') {
+        throw new Error(`Invalid boolean value for ${path.join('.')}: ${value}`);
+      }
+      return value === 'true';
+    }
+
     // String fields
     return value;
   }
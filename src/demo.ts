@@ -23,6 +23,7 @@ import { SecurityManager } from './security/security-manager.js';
 import { Logger } from './logging/logger.js';
 import { ToolSystem } from './tools/tool-system.js';
 import { createCoreTools } from './tools/core-tools.js';
+import { FsSandbox, defaultFsRoots } from './tools/fs-sandbox.js';
 import { GatewayServer } from './gateway/gateway-server.js';
 import { AgentRuntime } from './agent/agent-runtime.js';
 import { join } from 'node:path';
@@ -190,7 +191,7 @@ Preferences: Concise responses, TypeScript focus`);
     console.log('7. TOOL SYSTEM');
     console.log('━'.repeat(50));
     const toolSystem = new ToolSystem();
-    createCoreTools(toolSystem);
+    createCoreTools(toolSystem, { sandbox: new FsSandbox(defaultFsRoots(workspace)) });
     
     const tools = toolSystem.list();
     console.log(`✓ Registered ${tools.length} core tools:`);
@@ -300,7 +301,7 @@ A developer testing the OpenClaw system.`);
     console.log('✓ Memory system initialized');
 
     const toolSystem = new ToolSystem();
-    createCoreTools(toolSystem);
+    createCoreTools(toolSystem, { sandbox: new FsSandbox(defaultFsRoots(workspace)) });
     console.log('✓ Tool system initialized');
 
     // Create a mock agent runtime (since we don't have Claude CLI in demo)
@@ -5,8 +5,12 @@ import { Logger } from '../logging/logger.js';
 import { SecurityManager } from '../security/security-manager.js';
 import { SessionManager } from '../session/session-manager.js';
 import { AgentRuntime } from '../agent/agent-runtime.js';
+import type { AgentBackend } from '../agent/agent-backend.js';
 import { ConfigManager } from '../config/config-manager.js';
 import { ToolSystem } from '../tools/tool-system.js';
+import { MemorySystem } from '../memory/memory-system.js';
+import { ScriptedBackend } from '../agent/scripted-backend.js';
+import { ApprovalPolicy } from '../security/approval-policy.js';
 import { Workspace } from '../storage/workspace.js';
 import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
@@ -62,6 +66,69 @@ describe('GatewayServer', () => {
     await rm(tempDir, { recursive: true, force: true });
   });
 
+  async function connectAndAuth(port: number, host: string, token: string): Promise<WebSocket> {
+    const ws = new WebSocket(`ws://${host}:${port}`);
+    
+    // Wait for initial message
+    await new Promise<void>((resolve) => {
+      ws.on('open', () => {
+        ws.once('message', () => resolve());
+      });
+    });
+    
+    // Authenticate
+    ws.send(JSON.stringify({ type: 'auth', token }));
+    await new Promise<void>((resolve) => {
+      ws.once('message', () => resolve());
+    });
+    
+    return ws;
+  }
+
+  /**
+   * Resolves with the next message from the server matching the predicate
+   */
+  function nextMessage(
+    ws: WebSocket,
+    predicate: (message: Record<string, unknown>) => boolean
+  ): Promise<Record<string, unknown>> {
+    return new Promise((resolve) => {
+      const onMessage = (data: unknown): void => {
+        const message = JSON.parse(String(data)) as Record<string, unknown>;
+        if (predicate(message)) {
+          ws.off('message', onMessage);
+          resolve(message);
+        }
+      };
+      ws.on('message', onMessage);
+    });
+  }
+
+  /**
+   * Replaces the gateway with one whose backend streams part of a reply and
+   * then waits to be cancelled, and starts it
+   */
+  async function startWithSlowBackend(config: { maxQueueDepth?: number; replayBufferSize?: number } = {}): Promise<void> {
+    const slowBackend: AgentBackend = {
+      name: 'slow',
+      async *invoke(request) {
+        yield { type: 'text_delta', content: 'Partial answer' };
+        if (!request.signal?.aborted) {
+          await new Promise<void>((resolve) => request.signal?.addEventListener('abort', () => resolve()));
+        }
+      },
+    };
+    gateway = new GatewayServer(
+      { port: gateway.getConfig().port, host: '127.0.0.1', ...config },
+      logger,
+      securityManager,
+      sessionManager,
+      new AgentRuntime(new ToolSystem(), {}, logger, slowBackend),
+      configManager
+    );
+    await gateway.start();
+  }
+
   describe('start/stop', () => {
     it('should start and accept connections', async () => {
       await gateway.start();
@@ -178,26 +245,64 @@ describe('GatewayServer', () => {
     });
   });
 
-  describe('session management', () => {
-    async function connectAndAuth(port: number, host: string, token: string): Promise<WebSocket> {
-      const ws = new WebSocket(`ws://${host}:${port}`);
-      
-      // Wait for initial message
-      await new Promise<void>((resolve) => {
-        ws.on('open', () => {
-          ws.once('message', () => resolve());
-        });
-      });
-      
-      // Authenticate
-      ws.send(JSON.stringify({ type: 'auth', token }));
-      await new Promise<void>((resolve) => {
-        ws.once('message', () => resolve());
-      });
-      
+  describe('protocol', () => {
+    async function connect(): Promise<WebSocket> {
+      const config = gateway.getConfig();
+      const ws = new WebSocket(`ws://${config.host}:${config.port}`);
+      await nextMessage(ws, m => m['type'] === 'auth_result');
       return ws;
     }
 
+    it('should negotiate the version and capabilities with hello before authenticating', async () => {
+      await gateway.start();
+      const ws = await connect();
+
+      const hello = nextMessage(ws, m => m['type'] === 'hello');
+      ws.send(JSON.stringify({ type: 'hello', requestId: 'h1', protocolVersions: [1, 7], capabilities: ['usage', 'telepathy'] }));
+      const unsupported = nextMessage(ws, m => m['type'] === 'protocol_error');
+      ws.send(JSON.stringify({ type: 'hello', requestId: 'h2', protocolVersions: [7] }));
+      const auth = nextMessage(ws, m => m['type'] === 'auth_result');
+      ws.send(JSON.stringify({ type: 'auth', token: authToken, requestId: 'a1' }));
+
+      expect(await hello).toEqual({ type: 'hello', requestId: 'h1', protocolVersion: 1, capabilities: ['usage'] });
+      expect(await unsupported).toMatchObject({
+        requestId: 'h2',
+        payload: { code: 'unsupported_version', field: 'protocolVersions', supportedVersions: [1] },
+      });
+      expect(await auth).toEqual({ type: 'auth_result', requestId: 'a1', success: true });
+
+      ws.close();
+    });
+
+    it('should answer malformed messages with a protocol_error naming the field', async () => {
+      await gateway.start();
+      const config = gateway.getConfig();
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      const errors: Array<Record<string, unknown>> = [];
+      ws.on('message', (data) => {
+        const message = JSON.parse(String(data)) as Record<string, unknown>;
+        if (message['type'] === 'protocol_error') errors.push(message);
+      });
+
+      ws.send('not json');
+      ws.send(JSON.stringify({ type: 'load_session', requestId: 'l1' }));
+      ws.send(JSON.stringify({ type: 'teleport' }));
+      const created = nextMessage(ws, m => m['type'] === 'session_created');
+      ws.send(JSON.stringify({ type: 'create_session', requestId: 'c1' }));
+
+      expect(await created).toMatchObject({ requestId: 'c1', success: true });
+      expect(errors.map(e => e['payload'])).toMatchObject([
+        { code: 'invalid_json' },
+        { code: 'invalid_message', field: 'sessionId' },
+        { code: 'invalid_message', field: 'type' },
+      ]);
+      expect(errors[1]).toMatchObject({ requestId: 'l1', error: 'Invalid message: sessionId: Required' });
+
+      ws.close();
+    });
+  });
+
+  describe('session management', () => {
     it('should create a new session', async () => {
       await gateway.start();
       const config = gateway.getConfig();
@@ -267,6 +372,478 @@ describe('GatewayServer', () => {
     });
   });
 
+  describe('cancellation', () => {
+    it('should cancel an in-flight request and mark the partial reply', async () => {
+      await startWithSlowBackend();
+      const config = gateway.getConfig();
+      const session = await sessionManager.create();
+
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      ws.send(JSON.stringify({ type: 'load_session', sessionId: session.id }));
+      await nextMessage(ws, m => m['type'] === 'session_loaded');
+
+      ws.send(JSON.stringify({ type: 'message', content: 'Hello', requestId: 'req-1' }));
+      const delta = await nextMessage(ws, m => m['type'] === 'text_delta');
+      expect(delta['requestId']).toBe('req-1');
+
+      ws.send(JSON.stringify({ type: 'cancel', requestId: 'req-1' }));
+      const cancelled = await nextMessage(ws, m => m['type'] === 'cancelled');
+
+      expect(cancelled['requestId']).toBe('req-1');
+      expect(cancelled['content']).toBe('Partial answer');
+
+      const history = await sessionManager.getHistory(session.id);
+      expect(history[history.length - 1]).toMatchObject({
+        role: 'assistant',
+        content: 'Partial answer',
+        cancelled: true,
+      });
+
+      ws.close();
+    });
+
+    it('should report an error when there is nothing to cancel', async () => {
+      await gateway.start();
+      const config = gateway.getConfig();
+
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      ws.send(JSON.stringify({ type: 'cancel', requestId: 'missing' }));
+      const response = await nextMessage(ws, () => true);
+
+      expect(response['type']).toBe('error');
+      expect(response['requestId']).toBe('missing');
+
+      ws.close();
+    });
+  });
+
+  describe('resume', () => {
+    it('should replay missed events and stream the rest of the run to the new connection', async () => {
+      await startWithSlowBackend();
+      const config = gateway.getConfig();
+      const session = await sessionManager.create();
+
+      const first = await connectAndAuth(config.port, config.host, authToken);
+      first.send(JSON.stringify({ type: 'load_session', sessionId: session.id }));
+      await nextMessage(first, m => m['type'] === 'session_loaded');
+      first.send(JSON.stringify({ type: 'message', content: 'Hello', requestId: 'req-1' }));
+      const delta = await nextMessage(first, m => m['type'] === 'text_delta');
+      expect(delta['seq']).toBe(1);
+
+      // The run keeps going without a client
+      await new Promise<void>((resolve) => {
+        first.on('close', () => resolve());
+        first.close();
+      });
+
+      const second = await connectAndAuth(config.port, config.host, authToken);
+      const resumed = nextMessage(second, m => m['type'] === 'resumed');
+      const replayed = nextMessage(second, m => m['type'] === 'text_delta');
+      second.send(JSON.stringify({ type: 'resume', requestId: 'req-1', lastSeq: 0 }));
+
+      expect(await resumed).toEqual({
+        type: 'resumed',
+        requestId: 'req-1',
+        sessionId: session.id,
+        payload: { replayed: 1, lastSeq: 1 },
+      });
+      expect(await replayed).toMatchObject({ requestId: 'req-1', seq: 1, content: 'Partial answer' });
+
+      // The new connection owns the run now
+      second.send(JSON.stringify({ type: 'cancel', requestId: 'req-1' }));
+      const cancelled = await nextMessage(second, m => m['type'] === 'cancelled');
+      expect(cancelled).toMatchObject({ requestId: 'req-1', seq: 2, content: 'Partial answer' });
+
+      second.close();
+    });
+
+    it('should refuse unknown requests and events no longer buffered', async () => {
+      await startWithSlowBackend({ replayBufferSize: 1 });
+      const config = gateway.getConfig();
+      const session = await sessionManager.create();
+
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      ws.send(JSON.stringify({ type: 'resume', requestId: 'missing', lastSeq: 0 }));
+      const unknown = await nextMessage(ws, m => m['type'] === 'error');
+      expect(unknown).toMatchObject({ requestId: 'missing', payload: { code: 'unknown_request' } });
+
+      ws.send(JSON.stringify({ type: 'load_session', sessionId: session.id }));
+      await nextMessage(ws, m => m['type'] === 'session_loaded');
+      ws.send(JSON.stringify({ type: 'message', content: 'Hello', requestId: 'req-1' }));
+      await nextMessage(ws, m => m['type'] === 'text_delta');
+      ws.send(JSON.stringify({ type: 'cancel', requestId: 'req-1' }));
+      await nextMessage(ws, m => m['type'] === 'cancelled');
+
+      // Only the last event fits in the buffer
+      ws.send(JSON.stringify({ type: 'resume', requestId: 'req-1', lastSeq: 0 }));
+      const gap = await nextMessage(ws, m => m['type'] === 'error');
+      expect(gap).toMatchObject({ requestId: 'req-1', payload: { code: 'replay_unavailable' } });
+
+      // A finished run can still be resumed for its buffered tail
+      ws.send(JSON.stringify({ type: 'resume', requestId: 'req-1', lastSeq: 1 }));
+      const resumed = await nextMessage(ws, m => m['type'] === 'resumed');
+      expect(resumed['payload']).toEqual({ replayed: 1, lastSeq: 2 });
+
+      ws.close();
+    });
+  });
+
+  describe('request queue', () => {
+    it('should queue requests on a busy session and reject them when the queue is full', async () => {
+      await startWithSlowBackend({ maxQueueDepth: 1 });
+      const config = gateway.getConfig();
+      const session = await sessionManager.create();
+
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      ws.send(JSON.stringify({ type: 'load_session', sessionId: session.id }));
+      await nextMessage(ws, m => m['type'] === 'session_loaded');
+
+      ws.send(JSON.stringify({ type: 'message', content: 'First', requestId: 'r1' }));
+      await nextMessage(ws, m => m['type'] === 'text_delta');
+
+      ws.send(JSON.stringify({ type: 'message', content: 'Second', requestId: 'r2' }));
+      const queued = await nextMessage(ws, m => m['type'] === 'queued');
+      expect(queued).toMatchObject({ requestId: 'r2', payload: { position: 1 } });
+
+      ws.send(JSON.stringify({ type: 'message', content: 'Third', requestId: 'r3' }));
+      const rejected = await nextMessage(ws, m => m['type'] === 'error');
+      expect(rejected).toMatchObject({
+        requestId: 'r3',
+        payload: { code: 'queue_full', sessionId: session.id, maxQueueDepth: 1 },
+      });
+
+      // Only the running request has touched the transcript
+      const history = await sessionManager.getHistory(session.id);
+      expect(history.map(e => e.content)).toEqual(['First']);
+
+      // The queued request starts once the running one is cancelled
+      ws.send(JSON.stringify({ type: 'cancel', requestId: 'r1' }));
+      const next = await nextMessage(ws, m => m['type'] === 'text_delta');
+      expect(next['requestId']).toBe('r2');
+
+      ws.send(JSON.stringify({ type: 'cancel' }));
+      await nextMessage(ws, m => m['type'] === 'cancelled' && m['requestId'] === 'r2');
+
+      ws.close();
+    });
+  });
+
+  describe('context compaction', () => {
+    it('should compact long history once and report the token counts', async () => {
+      const backend = new ScriptedBackend(['First reply', 'Second reply']);
+      gateway = new GatewayServer(
+        { port: gateway.getConfig().port, host: '127.0.0.1' },
+        logger,
+        securityManager,
+        sessionManager,
+        new AgentRuntime(new ToolSystem(), { maxTokens: 100 }, logger, backend),
+        configManager,
+        new MemorySystem(workspace, { maxContextTokens: 1000 }, logger)
+      );
+      await gateway.start();
+      const config = gateway.getConfig();
+
+      const session = await sessionManager.create();
+      for (let i = 0; i < 4; i++) {
+        await sessionManager.appendMessage(session.id, { role: 'user', content: `Old message ${i}. `.repeat(120) });
+      }
+
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      ws.send(JSON.stringify({ type: 'load_session', sessionId: session.id }));
+      await nextMessage(ws, m => m['type'] === 'session_loaded');
+
+      // Both arrive in quick succession, so listen for them up front
+      const compactedMessage = nextMessage(ws, m => m['type'] === 'context_compacted');
+      const firstDone = nextMessage(ws, m => m['type'] === 'done');
+      ws.send(JSON.stringify({ type: 'message', content: 'Hello', requestId: 'r1' }));
+      const compacted = await compactedMessage;
+      const counts = compacted['payload'] as { tokensBefore: number; tokensAfter: number };
+      expect(compacted['requestId']).toBe('r1');
+      expect(counts.tokensAfter).toBeLessThan(counts.tokensBefore);
+      await firstDone;
+
+      const history = await sessionManager.getHistory(session.id);
+      expect(history.filter(e => e.role === 'summary')).toHaveLength(1);
+
+      // The stored summary keeps the next run within budget
+      const seen: string[] = [];
+      ws.on('message', (data) => seen.push((JSON.parse(String(data)) as { type: string }).type));
+      const secondDone = nextMessage(ws, m => m['type'] === 'done');
+      ws.send(JSON.stringify({ type: 'message', content: 'Again', requestId: 'r2' }));
+      await secondDone;
+
+      expect(seen).not.toContain('context_compacted');
+      expect(backend.requests[1]?.prompt).not.toContain('Old message 0');
+
+      ws.close();
+    });
+  });
+
+  describe('tool transcript', () => {
+    it('should persist tool calls and results linked by call id', async () => {
+      const toolSystem = new ToolSystem();
+      toolSystem.register(
+        {
+          name: 'echo',
+          description: 'Echoes its input',
+          parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        },
+        async (args) => String(args['text'])
+      );
+      const backend = new ScriptedBackend([
+        'Let me check.\n<tool_call name="echo">{"text": "hi"}</tool_call>',
+        'It said hi.',
+      ]);
+      const runtime = new AgentRuntime(toolSystem, {}, logger, backend);
+      gateway = new GatewayServer(
+        { port: gateway.getConfig().port, host: '127.0.0.1' },
+        logger,
+        securityManager,
+        sessionManager,
+        runtime,
+        configManager
+      );
+      await gateway.start();
+      const config = gateway.getConfig();
+
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      ws.send(JSON.stringify({ type: 'create_session' }));
+      const created = await nextMessage(ws, m => m['type'] === 'session_created');
+      const sessionId = created['sessionId'] as string;
+
+      const done = nextMessage(ws, m => m['type'] === 'done');
+      ws.send(JSON.stringify({ type: 'message', content: 'Echo hi', requestId: 'r1' }));
+      await done;
+
+      const history = await sessionManager.getHistory(sessionId);
+      expect(history.map(e => e.role)).toEqual(['user', 'assistant', 'tool', 'tool', 'assistant']);
+      const [, before, call, result, after] = history;
+      expect(before?.content).toBe('Let me check.');
+      expect(call?.toolCall).toMatchObject({ name: 'echo', arguments: '{"text":"hi"}' });
+      expect(result?.toolResult).toEqual({ callId: call?.toolCall?.id, success: true, output: 'hi' });
+      expect(after?.content).toBe('It said hi.');
+
+      // A resumed session sees the tool activity
+      expect(runtime.formatHistory(history)).toContain('[Tool Call: echo {"text":"hi"}]\n\n[Tool Result: hi]');
+
+      ws.close();
+    });
+  });
+
+  describe('tool output streaming', () => {
+    it('should forward live tool output before the result', async () => {
+      const toolSystem = new ToolSystem();
+      toolSystem.register(
+        {
+          name: 'build',
+          description: 'Reports progress',
+          parameters: { type: 'object', properties: {} },
+        },
+        async (_args, context) => {
+          context.onOutput?.({ stream: 'stdout', content: 'compiling\n' });
+          return 'ok';
+        }
+      );
+      const backend = new ScriptedBackend(['<tool_call name="build">{}</tool_call>', 'Built.']);
+      gateway = new GatewayServer(
+        { port: gateway.getConfig().port, host: '127.0.0.1' },
+        logger,
+        securityManager,
+        sessionManager,
+        new AgentRuntime(toolSystem, {}, logger, backend),
+        configManager
+      );
+      await gateway.start();
+      const config = gateway.getConfig();
+
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      const created = nextMessage(ws, m => m['type'] === 'session_created');
+      ws.send(JSON.stringify({ type: 'create_session' }));
+      await created;
+
+      const types: string[] = [];
+      ws.on('message', (data) => types.push((JSON.parse(String(data)) as Record<string, unknown>)['type'] as string));
+      const delta = nextMessage(ws, m => m['type'] === 'tool_output_delta');
+      const done = nextMessage(ws, m => m['type'] === 'done');
+      ws.send(JSON.stringify({ type: 'message', content: 'Build', requestId: 'r1' }));
+
+      expect(await delta).toMatchObject({
+        requestId: 'r1',
+        payload: { stream: 'stdout', content: 'compiling\n', callId: expect.any(String) },
+      });
+      await done;
+      expect(types.indexOf('tool_output_delta')).toBeGreaterThan(types.indexOf('tool_call'));
+      expect(types.indexOf('tool_output_delta')).toBeLessThan(types.indexOf('tool_result'));
+
+      ws.close();
+    });
+  });
+
+  describe('tool approval', () => {
+    let executed: string[];
+
+    beforeEach(async () => {
+      executed = [];
+      const toolSystem = new ToolSystem();
+      toolSystem.register(
+        {
+          name: 'echo',
+          description: 'Echoes its input',
+          parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        },
+        async (args) => {
+          executed.push(String(args['text']));
+          return String(args['text']);
+        }
+      );
+      const call = '<tool_call name="echo">{"text": "hi"}</tool_call>';
+      const backend = new ScriptedBackend([call, 'First done.', call, 'Second done.', call, 'Third done.']);
+      const policy = new ApprovalPolicy({ rules: [{ tool: 'echo', decision: 'ask' }] });
+      gateway = new GatewayServer(
+        { port: gateway.getConfig().port, host: '127.0.0.1' },
+        logger,
+        securityManager,
+        sessionManager,
+        new AgentRuntime(toolSystem, {}, logger, backend, policy),
+        configManager
+      );
+      await gateway.start();
+    });
+
+    async function openSession(): Promise<WebSocket> {
+      const config = gateway.getConfig();
+      const ws = await connectAndAuth(config.port, config.host, authToken);
+      const created = nextMessage(ws, m => m['type'] === 'session_created');
+      ws.send(JSON.stringify({ type: 'create_session' }));
+      await created;
+      return ws;
+    }
+
+    it('should run the tool only after the client approves it', async () => {
+      const ws = await openSession();
+
+      const request = nextMessage(ws, m => m['type'] === 'approval_request');
+      ws.send(JSON.stringify({ type: 'message', content: 'Echo', requestId: 'r1' }));
+      const approval = await request;
+      const payload = approval['payload'] as Record<string, unknown>;
+
+      expect(approval['requestId']).toBe('r1');
+      expect(payload['toolCall']).toMatchObject({ name: 'echo', arguments: { text: 'hi' } });
+      expect(payload['reason']).toBe('Policy rule for echo');
+      expect(executed).toEqual([]);
+
+      const result = nextMessage(ws, m => m['type'] === 'tool_result');
+      ws.send(JSON.stringify({ type: 'approval_response', approvalId: payload['approvalId'], decision: 'allow' }));
+      expect(await result).toMatchObject({ payload: { success: true, output: 'hi' } });
+      expect(executed).toEqual(['hi']);
+
+      ws.close();
+    });
+
+    it('should report a denied call as a permission_denied tool result', async () => {
+      const ws = await openSession();
+
+      const request = nextMessage(ws, m => m['type'] === 'approval_request');
+      ws.send(JSON.stringify({ type: 'message', content: 'Echo', requestId: 'r1' }));
+      const payload = (await request)['payload'] as Record<string, unknown>;
+
+      const result = nextMessage(ws, m => m['type'] === 'tool_result');
+      const done = nextMessage(ws, m => m['type'] === 'done');
+      ws.send(JSON.stringify({ type: 'approval_response', approvalId: payload['approvalId'], decision: 'deny' }));
+
+      expect(await result).toMatchObject({
+        payload: { success: false, error: { errorType: 'permission_denied', message: 'Tool call denied by user' } },
+      });
+      await done;
+      expect(executed).toEqual([]);
+
+      ws.close();
+    });
+
+    it('should stop asking for the rule in this session after "always"', async () => {
+      const ws = await openSession();
+
+      const request = nextMessage(ws, m => m['type'] === 'approval_request');
+      const firstDone = nextMessage(ws, m => m['type'] === 'done');
+      ws.send(JSON.stringify({ type: 'message', content: 'Echo', requestId: 'r1' }));
+      const payload = (await request)['payload'] as Record<string, unknown>;
+      ws.send(JSON.stringify({ type: 'approval_response', approvalId: payload['approvalId'], decision: 'always' }));
+      await firstDone;
+
+      const asked: unknown[] = [];
+      ws.on('message', (data) => {
+        const message = JSON.parse(String(data)) as Record<string, unknown>;
+        if (message['type'] === 'approval_request') asked.push(message);
+      });
+      const secondDone = nextMessage(ws, m => m['type'] === 'done');
+      ws.send(JSON.stringify({ type: 'message', content: 'Echo again', requestId: 'r2' }));
+      await secondDone;
+
+      expect(asked).toEqual([]);
+      expect(executed).toEqual(['hi', 'hi']);
+
+      ws.close();
+    });
+
+    it('should keep an approval pending across a disconnect so the resuming client can answer', async () => {
+      const first = await openSession();
+      const request = nextMessage(first, m => m['type'] === 'approval_request');
+      first.send(JSON.stringify({ type: 'message', content: 'Echo', requestId: 'r1' }));
+      const approval = await request;
+      await new Promise<void>((resolve) => {
+        first.on('close', () => resolve());
+        first.close();
+      });
+
+      const config = gateway.getConfig();
+      const second = await connectAndAuth(config.port, config.host, authToken);
+      const replayed = nextMessage(second, m => m['type'] === 'approval_request');
+      second.send(JSON.stringify({ type: 'resume', requestId: 'r1', lastSeq: 0 }));
+      expect(await replayed).toEqual(approval);
+      expect(executed).toEqual([]);
+
+      const result = nextMessage(second, m => m['type'] === 'tool_result');
+      const payload = approval['payload'] as Record<string, unknown>;
+      second.send(JSON.stringify({ type: 'approval_response', approvalId: payload['approvalId'], decision: 'allow' }));
+      expect(await result).toMatchObject({ payload: { success: true, output: 'hi' } });
+      expect(executed).toEqual(['hi']);
+
+      second.close();
+    });
+
+    it('should reject answers to unknown approval requests', async () => {
+      const ws = await openSession();
+
+      const error = nextMessage(ws, m => m['type'] === 'error');
+      ws.send(JSON.stringify({ type: 'approval_response', approvalId: 'nope', decision: 'allow' }));
+
+      expect((await error)['error']).toBe('No pending approval nope');
+
+      ws.close();
+    });
+
+    it('should deny calls that need approval when the client did not negotiate approvals', async () => {
+      const ws = await openSession();
+      const hello = nextMessage(ws, m => m['type'] === 'hello');
+      ws.send(JSON.stringify({ type: 'hello', protocolVersions: [1], capabilities: ['tool_output'] }));
+      expect((await hello)['capabilities']).toEqual(['tool_output']);
+
+      const types: string[] = [];
+      ws.on('message', (data) => types.push((JSON.parse(String(data)) as Record<string, unknown>)['type'] as string));
+      const result = nextMessage(ws, m => m['type'] === 'tool_result');
+      ws.send(JSON.stringify({ type: 'message', content: 'Echo', requestId: 'r1' }));
+
+      expect((await result)['payload']).toMatchObject({
+        success: false,
+        error: { errorType: 'permission_denied', details: { outcome: 'unavailable' } },
+      });
+      expect(types).not.toContain('approval_request');
+      expect(executed).toEqual([]);
+
+      ws.close();
+    });
+  });
+
   describe('graceful shutdown', () => {
     it('should close all connections on shutdown', async () => {
       await gateway.start();
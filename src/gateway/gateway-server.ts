@@ -3,20 +3,41 @@ import { createServer, type Server as HttpServer, type IncomingMessage } from 'n
 import { randomUUID } from 'node:crypto';
 import { Logger } from '../logging/logger.js';
 import { SecurityManager } from '../security/security-manager.js';
-import { SessionManager } from '../session/session-manager.js';
+import type { ApprovalRequest } from '../security/approval-policy.js';
+import { SessionManager, type TranscriptEntry } from '../session/session-manager.js';
 import { AgentRuntime, type AgentEvent } from '../agent/agent-runtime.js';
 import { ConfigManager } from '../config/config-manager.js';
 import { MemorySystem } from '../memory/memory-system.js';
 import { ToolSystem } from '../tools/tool-system.js';
+import { RequestQueue, DEFAULT_REQUEST_QUEUE_CONFIG, type QueueSlot } from './request-queue.js';
+import { HttpApi } from './http-api.js';
+import { RequestStream, DEFAULT_REPLAY_BUFFER_SIZE, FINISHED_STREAM_RETENTION_MS } from './request-stream.js';
+import { createGatewayMetrics, type GatewayMetrics } from './metrics.js';
+import { checkBackend, checkMemoryIndex, checkWritable, type ReadinessReport } from './health.js';
+import {
+  GATEWAY_CAPABILITIES,
+  PROTOCOL_VERSION,
+  negotiateVersion,
+  parseClientMessage,
+  protocolError,
+  type ClientMessage,
+  type GatewayCapability,
+  type ServerMessage,
+} from './protocol.js';
 import { watch, type FSWatcher } from 'node:fs';
 
 /**
  * Gateway configuration
  * Requirement 1.1: Bind to configurable port
+ * `maxQueueDepth` and `maxConcurrentRuns` bound the request queue;
+ * `replayBufferSize` is how many events of each request are kept for `resume`
  */
 export interface GatewayConfig {
   port: number;
   host: string;
+  maxQueueDepth: number;
+  maxConcurrentRuns: number;
+  replayBufferSize: number;
 }
 
 /**
@@ -25,10 +46,14 @@ export interface GatewayConfig {
 export const DEFAULT_GATEWAY_CONFIG: GatewayConfig = {
   port: 18789,
   host: '127.0.0.1',
+  ...DEFAULT_REQUEST_QUEUE_CONFIG,
+  replayBufferSize: DEFAULT_REPLAY_BUFFER_SIZE,
 };
 
 /**
  * Client connection state
+ * `protocolVersion` and `capabilities` are negotiated by `hello`; a client
+ * that skips it gets version 1 with every capability.
  */
 interface ClientConnection {
   id: string;
@@ -36,39 +61,39 @@ interface ClientConnection {
   authenticated: boolean;
   sessionId?: string;
   connectedAt: number;
+  protocolVersion: number;
+  capabilities: ReadonlySet<GatewayCapability>;
 }
 
 /**
- * Gateway event types for broadcasting
+ * Receiver of a run's events: a WebSocket connection or an HTTP request
+ * `signal`, when given, cancels the run once it fires.
  */
-export interface GatewayEvent {
-  type: 'message' | 'tool_call' | 'tool_result' | 'error' | 'session_update';
-  sessionId: string;
-  payload: unknown;
-  timestamp: number;
+export interface RunClient {
+  id: string;
+  capabilities: ReadonlySet<GatewayCapability>;
+  send(message: ServerMessage): void;
+  signal?: AbortSignal;
 }
 
 /**
- * Client message types
+ * Per-run overrides of what the session provides
+ * `history` stands in for the session transcript, and the run is then not
+ * recorded; `instructions` are appended to the system prompt.
  */
-interface ClientMessage {
-  type: 'auth' | 'message' | 'create_session' | 'load_session';
-  token?: string;
-  sessionId?: string;
-  content?: string;
+export interface RunOptions {
+  history?: TranscriptEntry[];
+  instructions?: string;
 }
 
 /**
- * Server response types
+ * Gateway event types for broadcasting
  */
-interface ServerResponse {
-  type: 'auth_result' | 'session_created' | 'session_loaded' | 'text_delta' | 
-        'tool_call' | 'tool_result' | 'done' | 'error';
-  success?: boolean;
-  sessionId?: string;
-  content?: string;
-  error?: string;
-  payload?: unknown;
+export interface GatewayEvent {
+  type: 'message' | 'tool_call' | 'tool_result' | 'error' | 'session_update';
+  sessionId: string;
+  payload: unknown;
+  timestamp: number;
 }
 
 /**
@@ -81,6 +106,17 @@ interface InFlightRequest {
   abortController: AbortController;
 }
 
+/**
+ * A tool call waiting for the client's approval
+ */
+interface PendingApproval {
+  clientId: string;
+  sessionId: string;
+  requestId: string;
+  key: string;
+  resolve: (approved: boolean) => void;
+}
+
 
 /**
  * GatewayServer - WebSocket server for coordinating message handling
@@ -99,6 +135,12 @@ export class GatewayServer {
   private wss: WebSocketServer | null = null;
   private clients: Map<string, ClientConnection> = new Map();
   private inFlightRequests: Map<string, InFlightRequest> = new Map();
+  // Event streams of runs a client can resume, kept for a while after they end
+  private streams: Map<string, RequestStream> = new Map();
+  private pendingApprovals: Map<string, PendingApproval> = new Map();
+  // Policy rules the client answered "always" to, per session
+  private sessionApprovals: Map<string, Set<string>> = new Map();
+  private requestQueue: RequestQueue;
   private isShuttingDown = false;
   private configWatcher: FSWatcher | null = null;
   
@@ -109,6 +151,8 @@ export class GatewayServer {
   private configManager: ConfigManager;
   private memorySystem: MemorySystem | null = null;
   private toolSystem: ToolSystem | null = null;
+  private httpApi: HttpApi;
+  readonly metrics: GatewayMetrics;
 
   constructor(
     config: Partial<GatewayConfig>,
@@ -121,6 +165,10 @@ export class GatewayServer {
     toolSystem?: ToolSystem
   ) {
     this.config = { ...DEFAULT_GATEWAY_CONFIG, ...config };
+    this.requestQueue = new RequestQueue({
+      maxQueueDepth: this.config.maxQueueDepth,
+      maxConcurrentRuns: this.config.maxConcurrentRuns,
+    });
     this.logger = logger;
     this.securityManager = securityManager;
     this.sessionManager = sessionManager;
@@ -128,6 +176,26 @@ export class GatewayServer {
     this.configManager = configManager;
     this.memorySystem = memorySystem ?? null;
     this.toolSystem = toolSystem ?? null;
+    this.metrics = createGatewayMetrics({
+      connectedClients: () => this.clients.size,
+      inFlightRequests: () => this.inFlightRequests.size,
+      transcriptBytesWritten: () => sessionManager.transcriptBytesWritten,
+    });
+    this.httpApi = new HttpApi({
+      logger,
+      securityManager,
+      sessionManager,
+      memorySystem: this.memorySystem,
+      metrics: this.metrics,
+      checkReadiness: () => this.checkReadiness(),
+      runMessage: (client, sessionId, content, requestId, options) =>
+        this.runMessage(client, sessionId, content, requestId, options),
+      isSessionBusy: (sessionId) => [...this.inFlightRequests.values()].some(r => r.sessionId === sessionId),
+      // Drop the session's "always" answers along with it
+      onSessionDeleted: (sessionId) => this.sessionApprovals.delete(sessionId),
+      isRequestInFlight: (requestId) => this.inFlightRequests.has(requestId),
+      isShuttingDown: () => this.isShuttingDown,
+    });
   }
 
   /**
@@ -158,6 +226,23 @@ export class GatewayServer {
     return this.httpServer !== null && this.httpServer.listening;
   }
 
+  /**
+   * Checks whether the gateway can serve requests: it is not shutting
+   * down, the workspace is writable, the agent backend's program resolves
+   * and the memory index is loaded
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    const checks = {
+      gateway: this.isShuttingDown
+        ? { ok: false, detail: 'Shutting down' }
+        : { ok: true, detail: 'Accepting requests' },
+      workspace: await checkWritable(this.sessionManager.sessionsDir),
+      backend: await checkBackend(this.agentRuntime.getBackend()),
+      memory: checkMemoryIndex(this.memorySystem),
+    };
+    return { ready: Object.values(checks).every(check => check.ok), checks };
+  }
+
   /**
    * Starts the Gateway server
    * Requirement 1.1: Bind to configurable port and accept WebSocket connections
@@ -170,8 +255,10 @@ export class GatewayServer {
     // Initialize security manager to ensure token exists
     await this.securityManager.initialize();
 
-    // Create HTTP server
-    this.httpServer = createServer();
+    // Create HTTP server; plain requests go to the REST API
+    this.httpServer = createServer((req, res) => {
+      this.httpApi.handle(req, res).catch(() => {});
+    });
 
     // Create WebSocket server
     this.wss = new WebSocketServer({ 
@@ -219,6 +306,8 @@ export class GatewayServer {
       ws,
       authenticated: false,
       connectedAt: Date.now(),
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: new Set(GATEWAY_CAPABILITIES),
     };
 
     this.clients.set(clientId, connection);
@@ -254,20 +343,21 @@ export class GatewayServer {
     const connection = this.clients.get(clientId);
     if (!connection) return;
 
-    let message: ClientMessage;
-    try {
-      message = JSON.parse(data.toString()) as ClientMessage;
-    } catch {
-      this.send(connection.ws, {
-        type: 'error',
-        error: 'Invalid JSON message',
-      });
+    // Malformed messages get a protocol_error naming the offending field
+    const parsed = parseClientMessage(data.toString());
+    if (!parsed.success) {
+      this.send(connection.ws, parsed.error);
       return;
     }
+    const message = parsed.message;
 
-    // Handle authentication
+    // Version negotiation and authentication come before everything else
+    if (message.type === 'hello') {
+      this.handleHello(connection, message);
+      return;
+    }
     if (message.type === 'auth') {
-      await this.handleAuth(connection, message.token ?? '');
+      await this.handleAuth(connection, message.token, message.requestId);
       return;
     }
 
@@ -275,6 +365,7 @@ export class GatewayServer {
     if (!connection.authenticated) {
       this.send(connection.ws, {
         type: 'error',
+        ...(message.requestId ? { requestId: message.requestId } : {}),
         error: 'Not authenticated',
       });
       return;
@@ -283,27 +374,70 @@ export class GatewayServer {
     // Route message based on type
     switch (message.type) {
       case 'create_session':
-        await this.handleCreateSession(connection);
+        await this.handleCreateSession(connection, message.requestId);
         break;
       case 'load_session':
-        await this.handleLoadSession(connection, message.sessionId ?? '');
+        await this.handleLoadSession(connection, message.sessionId, message.requestId);
         break;
       case 'message':
-        await this.handleUserMessage(connection, message.content ?? '');
+        await this.handleUserMessage(connection, message.content, message.requestId);
+        break;
+      case 'cancel':
+        this.handleCancel(connection, message.requestId);
+        break;
+      case 'approval_response':
+        this.handleApprovalResponse(connection, message);
+        break;
+      case 'resume':
+        this.handleResume(connection, message);
         break;
-      default:
-        this.send(connection.ws, {
-          type: 'error',
-          error: `Unknown message type: ${(message as { type: string }).type}`,
-        });
     }
   }
 
+  /**
+   * Negotiates the protocol version and capabilities
+   * The reply lists the capabilities both sides support. If no version is
+   * shared, the connection keeps its current version and the client may
+   * try again.
+   */
+  private handleHello(connection: ClientConnection, message: Extract<ClientMessage, { type: 'hello' }>): void {
+    const requestId = message.requestId;
+    const version = negotiateVersion(message.protocolVersions);
+    if (version === null) {
+      this.send(connection.ws, protocolError(
+        'unsupported_version',
+        `Unsupported protocol version: ${message.protocolVersions.join(', ')}`,
+        [{ field: 'protocolVersions', message: `No version in common with ${PROTOCOL_VERSION}` }],
+        requestId
+      ));
+      return;
+    }
+
+    const capabilities = GATEWAY_CAPABILITIES.filter(capability => message.capabilities.includes(capability));
+    connection.protocolVersion = version;
+    connection.capabilities = new Set(capabilities);
+
+    this.send(connection.ws, {
+      type: 'hello',
+      ...(requestId ? { requestId } : {}),
+      protocolVersion: version,
+      capabilities,
+    });
+
+    this.logger.info('Client negotiated protocol', {
+      operation: 'client_hello',
+      clientId: connection.id,
+      protocolVersion: version,
+      capabilities,
+      ...(message.client ? { client: message.client } : {}),
+    }).catch(() => {});
+  }
+
   /**
    * Handles authentication requests
    * Requirement 1.2: Authenticate connections using local token
    */
-  private async handleAuth(connection: ClientConnection, token: string): Promise<void> {
+  private async handleAuth(connection: ClientConnection, token: string, requestId?: string): Promise<void> {
     const result = await this.securityManager.validateToken(token, {
       clientId: connection.id,
     });
@@ -312,6 +446,7 @@ export class GatewayServer {
       connection.authenticated = true;
       this.send(connection.ws, {
         type: 'auth_result',
+        ...(requestId ? { requestId } : {}),
         success: true,
       });
       await this.logger.info('Client authenticated', {
@@ -319,8 +454,10 @@ export class GatewayServer {
         clientId: connection.id,
       });
     } else {
+      this.metrics.authFailures.inc({ transport: 'websocket' });
       this.send(connection.ws, {
         type: 'auth_result',
+        ...(requestId ? { requestId } : {}),
         success: false,
         error: result.reason ?? 'Authentication failed',
       });
@@ -330,13 +467,14 @@ export class GatewayServer {
   /**
    * Handles session creation requests
    */
-  private async handleCreateSession(connection: ClientConnection): Promise<void> {
+  private async handleCreateSession(connection: ClientConnection, requestId?: string): Promise<void> {
     try {
       const session = await this.sessionManager.create();
       connection.sessionId = session.id;
       
       this.send(connection.ws, {
         type: 'session_created',
+        ...(requestId ? { requestId } : {}),
         success: true,
         sessionId: session.id,
       });
@@ -349,6 +487,7 @@ export class GatewayServer {
     } catch (error) {
       this.send(connection.ws, {
         type: 'error',
+        ...(requestId ? { requestId } : {}),
         error: `Failed to create session: ${error instanceof Error ? error.message : String(error)}`,
       });
     }
@@ -357,13 +496,14 @@ export class GatewayServer {
   /**
    * Handles session loading requests
    */
-  private async handleLoadSession(connection: ClientConnection, sessionId: string): Promise<void> {
+  private async handleLoadSession(connection: ClientConnection, sessionId: string, requestId?: string): Promise<void> {
     try {
       const session = await this.sessionManager.load(sessionId);
       connection.sessionId = session.id;
       
       this.send(connection.ws, {
         type: 'session_loaded',
+        ...(requestId ? { requestId } : {}),
         success: true,
         sessionId: session.id,
       });
@@ -376,6 +516,7 @@ export class GatewayServer {
     } catch (error) {
       this.send(connection.ws, {
         type: 'error',
+        ...(requestId ? { requestId } : {}),
         error: `Failed to load session: ${error instanceof Error ? error.message : String(error)}`,
       });
     }
@@ -385,44 +526,149 @@ export class GatewayServer {
    * Handles user messages and routes to Agent Runtime
    * Requirement 1.3: Route messages to Agent_Runtime
    */
-  private async handleUserMessage(connection: ClientConnection, content: string): Promise<void> {
+  private async handleUserMessage(
+    connection: ClientConnection,
+    content: string,
+    clientRequestId?: string
+  ): Promise<void> {
     if (!connection.sessionId) {
       this.send(connection.ws, {
         type: 'error',
+        ...(clientRequestId ? { requestId: clientRequestId } : {}),
         error: 'No session selected. Create or load a session first.',
       });
       return;
     }
 
+    await this.runMessage(this.wsClient(connection), connection.sessionId, content, clientRequestId);
+  }
+
+  /**
+   * Wraps a WebSocket connection as the receiver of a run's events
+   */
+  private wsClient(connection: ClientConnection): RunClient {
+    return {
+      id: connection.id,
+      capabilities: connection.capabilities,
+      send: (message) => this.send(connection.ws, message),
+    };
+  }
+
+  /**
+   * Runs a user message through the Agent Runtime, streaming its events
+   * to the client and recording the exchange in the session transcript
+   * With `options.history` the run is stateless and `sessionId` only
+   * keys the request queue. Events are numbered and buffered by a
+   * RequestStream; runs whose client has no `signal` outlive it and can be
+   * resumed from another connection.
+   * Requirement 1.3: Route messages to Agent_Runtime
+   */
+  async runMessage(
+    client: RunClient,
+    sessionId: string,
+    content: string,
+    clientRequestId?: string,
+    options: RunOptions = {}
+  ): Promise<void> {
     if (this.isShuttingDown) {
-      this.send(connection.ws, {
+      client.send({
         type: 'error',
+        ...(clientRequestId ? { requestId: clientRequestId } : {}),
         error: 'Server is shutting down. Please try again later.',
       });
       return;
     }
 
-    const sessionId = connection.sessionId;
-    const requestId = randomUUID();
+    if (clientRequestId && this.inFlightRequests.has(clientRequestId)) {
+      client.send({
+        type: 'error',
+        requestId: clientRequestId,
+        error: `Request ${clientRequestId} is already in flight`,
+      });
+      return;
+    }
+
+    const requestId = clientRequestId ?? randomUUID();
+    const stream = new RequestStream(requestId, sessionId, client, this.config.replayBufferSize);
     const abortController = new AbortController();
+    const onClientGone = (): void => abortController.abort();
+    if (client.signal?.aborted) {
+      onClientGone();
+    }
+    client.signal?.addEventListener('abort', onClientGone, { once: true });
+
+    // Runs on a session are serialized; wait for our turn
+    const queued = this.requestQueue.enqueue(sessionId, requestId, {
+      signal: abortController.signal,
+      onPosition: (position) => {
+        stream.send({
+          type: 'queued',
+          sessionId,
+          requestId,
+          payload: { position },
+        });
+      },
+    });
+
+    if (!queued.accepted) {
+      client.signal?.removeEventListener('abort', onClientGone);
+      await this.logger.warn('Request rejected: session queue full', {
+        operation: 'message_queue',
+        clientId: client.id,
+        sessionId,
+        requestId,
+      });
+      stream.send({
+        type: 'error',
+        sessionId,
+        requestId,
+        error: queued.error.message,
+        payload: queued.error,
+      });
+      return;
+    }
 
-    // Track in-flight request
+    // Track in-flight request (queued requests count, so they can be cancelled)
     this.inFlightRequests.set(requestId, {
       sessionId,
-      clientId: connection.id,
+      clientId: client.id,
       startedAt: Date.now(),
       abortController,
     });
+    if (!client.signal) {
+      this.streams.set(requestId, stream);
+    }
 
+    let slot: QueueSlot | null = null;
+    let startedAt: number | null = null;
+    let outcome: 'done' | 'cancelled' | 'error' = 'error';
     try {
-      // Append user message to transcript
-      await this.sessionManager.appendMessage(sessionId, {
-        role: 'user',
-        content,
-      });
+      slot = await queued.ready;
+      if (!slot) {
+        // Cancelled before it started
+        stream.send({
+          type: 'cancelled',
+          sessionId,
+          requestId,
+          content: '',
+        });
+        return;
+      }
 
-      // Get session history
-      const history = await this.sessionManager.getHistory(sessionId);
+      const persist = options.history === undefined;
+      let history: TranscriptEntry[];
+      if (options.history) {
+        history = options.history;
+      } else {
+        // Append user message to transcript
+        await this.sessionManager.appendMessage(sessionId, {
+          role: 'user',
+          content,
+        });
+
+        // Get session history
+        history = await this.sessionManager.getHistory(sessionId);
+      }
 
       // Build system prompt from memory system
       let systemPrompt = '';
@@ -438,6 +684,14 @@ export class GatewayServer {
             .join('\n\n');
           systemPrompt += `\n\n## Relevant Context\n${contextSection}`;
         }
+
+        // Requirement 5.3: Summarize older messages when context exceeds limit
+        if (persist) {
+          history = await this.compactContext(stream, sessionId, requestId, history, systemPrompt);
+        }
+      }
+      if (options.instructions) {
+        systemPrompt = systemPrompt ? `${systemPrompt}\n\n${options.instructions}` : options.instructions;
       }
 
       // Get tool definitions
@@ -450,29 +704,80 @@ export class GatewayServer {
         history,
         userMessage: content,
         tools,
+        signal: abortController.signal,
+        // A client without the approvals capability cannot answer, so asks are denied
+        ...(client.capabilities.has('approvals')
+          ? {
+              approve: (request: ApprovalRequest, signal: AbortSignal) =>
+                this.requestApproval(stream, requestId, request, signal),
+            }
+          : {}),
       };
 
+      // Assistant text since the last tool call; each segment becomes its own
+      // transcript entry so tool calls stay in order between replies
       let fullResponse = '';
-      
+      let segment = '';
+      const toolNames = new Map<string, string>();
+      startedAt = Date.now();
+
       for await (const event of this.agentRuntime.run(agentParams)) {
-        // Check if request was aborted (during shutdown)
-        if (abortController.signal.aborted) {
-          break;
+        // Once cancelled (by the client or at shutdown) nothing more is
+        // streamed; the runtime stops the backend and tools and winds down.
+        // Tool activity is still recorded so every call keeps its result.
+        const aborted = abortController.signal.aborted;
+        if (!aborted) {
+          this.streamAgentEvent(stream, sessionId, requestId, event);
         }
 
-        // Stream events to client
-        this.streamAgentEvent(connection.ws, sessionId, event);
-
-        // Collect full response
-        if (event.type === 'text_delta') {
-          fullResponse += event.content;
+        switch (event.type) {
+          case 'text_delta':
+            if (!aborted) {
+              fullResponse += event.content;
+              segment += event.content;
+            }
+            break;
+          case 'tool_call':
+            toolNames.set(event.toolCall.id, event.toolCall.name);
+            this.metrics.toolCalls.inc({ tool: event.toolCall.name });
+            if (persist) {
+              await this.appendAssistantSegment(sessionId, segment, false);
+              await this.sessionManager.appendToolCall(sessionId, event.toolCall);
+            }
+            segment = '';
+            break;
+          case 'tool_result':
+            if (!event.toolResult.success) {
+              this.metrics.toolFailures.inc({
+                tool: event.toolResult.error?.toolName ?? toolNames.get(event.toolResult.callId) ?? 'unknown',
+                error_type: event.toolResult.error?.errorType ?? 'execution',
+              });
+            }
+            if (persist) {
+              await this.sessionManager.appendToolResult(sessionId, event.toolResult);
+            }
+            break;
+          case 'done':
+            outcome = 'done';
+            break;
         }
       }
 
-      // Append assistant response to transcript
-      if (fullResponse) {
-        await this.sessionManager.appendMessage(sessionId, {
-          role: 'assistant',
+      const cancelled = abortController.signal.aborted;
+      if (cancelled) {
+        outcome = 'cancelled';
+      }
+
+      // Append the rest of the assistant response to the transcript
+      if (persist) {
+        await this.appendAssistantSegment(sessionId, segment, cancelled);
+      }
+
+      if (cancelled) {
+        stream.send({
+          type: 'cancelled',
+          sessionId,
+          requestId,
           content: fullResponse,
         });
       }
@@ -480,60 +785,336 @@ export class GatewayServer {
     } catch (error) {
       await this.logger.error('Error processing message', error, {
         operation: 'message_process',
-        clientId: connection.id,
+        clientId: client.id,
         sessionId,
       });
 
-      this.send(connection.ws, {
+      stream.send({
         type: 'error',
+        sessionId,
+        requestId,
         error: `Failed to process message: ${error instanceof Error ? error.message : String(error)}`,
       });
     } finally {
+      if (startedAt !== null) {
+        this.metrics.agentRunDuration.observe((Date.now() - startedAt) / 1000, { outcome });
+      }
+      client.signal?.removeEventListener('abort', onClientGone);
+      slot?.release();
       this.inFlightRequests.delete(requestId);
+      this.retireStream(stream);
+    }
+  }
+
+  /**
+   * Keeps a finished run's stream resumable for a while, so a client that
+   * reconnects just after the end still gets the last events
+   */
+  private retireStream(stream: RequestStream): void {
+    if (this.streams.get(stream.requestId) !== stream) {
+      return;
+    }
+    setTimeout(() => {
+      // A later run may have reused the request id
+      if (this.streams.get(stream.requestId) === stream) {
+        this.streams.delete(stream.requestId);
+      }
+    }, FINISHED_STREAM_RETENTION_MS).unref();
+  }
+
+  /**
+   * Appends a stretch of assistant text to the transcript
+   * Tool call markup is stripped, since the calls are stored as tool entries.
+   */
+  private async appendAssistantSegment(sessionId: string, segment: string, cancelled: boolean): Promise<void> {
+    const text = this.agentRuntime.parseResponse(segment).text;
+    if (!text) {
+      return;
+    }
+    await this.sessionManager.appendMessage(sessionId, {
+      role: 'assistant',
+      content: text,
+      ...(cancelled ? { cancelled: true } : {}),
+    });
+  }
+
+  /**
+   * Compacts the history so the prompt fits the context window
+   * The system prompt and room for the reply (agent.maxTokens) come out of
+   * memory.maxContextTokens. A new summary is stored in the transcript, so
+   * later runs reuse it instead of summarizing again.
+   */
+  private async compactContext(
+    client: RunClient,
+    sessionId: string,
+    requestId: string,
+    history: TranscriptEntry[],
+    systemPrompt: string
+  ): Promise<TranscriptEntry[]> {
+    const memorySystem = this.memorySystem!;
+    const budget = Math.max(
+      0,
+      memorySystem.getConfig().maxContextTokens -
+        this.agentRuntime.getConfig().maxTokens -
+        memorySystem.estimateTokens(systemPrompt)
+    );
+
+    const result = await memorySystem.compact(history, budget);
+    if (result.summary) {
+      const { role, content, summary } = result.summary;
+      await this.sessionManager.appendMessage(sessionId, { role, content, ...(summary ? { summary } : {}) });
+
+      client.send({
+        type: 'context_compacted',
+        sessionId,
+        requestId,
+        payload: {
+          tokensBefore: result.tokensBefore,
+          tokensAfter: result.tokensAfter,
+          compactedMessages: summary?.compactedMessages ?? 0,
+        },
+      });
+    }
+
+    return result.compactedHistory;
+  }
+
+  /**
+   * Cancels the client's in-flight request, or all of them when no request
+   * id is given
+   * The `cancelled` event is sent by the request itself once it has stopped.
+   */
+  private handleCancel(connection: ClientConnection, requestId?: string): void {
+    const targets = [...this.inFlightRequests.entries()].filter(([id, request]) =>
+      request.clientId === connection.id && (requestId === undefined || id === requestId)
+    );
+
+    if (targets.length === 0) {
+      this.send(connection.ws, {
+        type: 'error',
+        ...(requestId ? { requestId } : {}),
+        error: requestId ? `No in-flight request ${requestId}` : 'No in-flight request to cancel',
+      });
+      return;
+    }
+
+    for (const [id, request] of targets) {
+      this.logger.info('Cancelling request', {
+        operation: 'request_cancel',
+        clientId: connection.id,
+        sessionId: request.sessionId,
+        requestId: id,
+      }).catch(() => {});
+      request.abortController.abort();
+    }
+  }
+
+
+  /**
+   * Asks the client to approve a tool call
+   * Resolves false if the request is withdrawn (timeout or cancellation), or
+   * if the client disconnects before answering and the run cannot be resumed.
+   */
+  private requestApproval(
+    client: RunClient,
+    requestId: string,
+    request: ApprovalRequest,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    if (this.sessionApprovals.get(request.sessionId)?.has(request.key)) {
+      return Promise.resolve(true);
     }
+
+    return new Promise((resolve) => {
+      const settle = (approved: boolean): void => {
+        this.pendingApprovals.delete(request.id);
+        signal.removeEventListener('abort', onWithdraw);
+        resolve(approved);
+      };
+      const onWithdraw = (): void => settle(false);
+      signal.addEventListener('abort', onWithdraw, { once: true });
+
+      this.pendingApprovals.set(request.id, {
+        clientId: client.id,
+        sessionId: request.sessionId,
+        requestId,
+        key: request.key,
+        resolve: settle,
+      });
+      client.send({
+        type: 'approval_request',
+        sessionId: request.sessionId,
+        requestId,
+        payload: {
+          approvalId: request.id,
+          toolCall: request.toolCall,
+          reason: request.reason,
+          timeoutMs: request.timeoutMs,
+        },
+      });
+    });
   }
 
+  /**
+   * Applies the client's answer to a pending approval request
+   */
+  private handleApprovalResponse(
+    connection: ClientConnection,
+    message: Extract<ClientMessage, { type: 'approval_response' }>
+  ): void {
+    const { approvalId, decision, requestId } = message;
+    const pending = this.pendingApprovals.get(approvalId);
+    if (!pending || pending.clientId !== connection.id) {
+      this.send(connection.ws, {
+        type: 'error',
+        ...(requestId ? { requestId } : {}),
+        error: `No pending approval ${approvalId}`,
+      });
+      return;
+    }
+
+    if (decision === 'always') {
+      const approved = this.sessionApprovals.get(pending.sessionId) ?? new Set<string>();
+      approved.add(pending.key);
+      this.sessionApprovals.set(pending.sessionId, approved);
+    }
+    pending.resolve(decision !== 'deny');
+  }
+
+  /**
+   * Reattaches a run's event stream to this connection
+   * The events after `lastSeq` are replayed, following a `resumed` message,
+   * and the rest of the run is streamed here. The connection takes over the
+   * run: it may cancel it and answer its pending approvals.
+   */
+  private handleResume(
+    connection: ClientConnection,
+    message: Extract<ClientMessage, { type: 'resume' }>
+  ): void {
+    const { requestId, lastSeq } = message;
+    const stream = this.streams.get(requestId);
+    if (!stream) {
+      this.send(connection.ws, {
+        type: 'error',
+        requestId,
+        error: `No resumable request ${requestId}`,
+        payload: { code: 'unknown_request' },
+      });
+      return;
+    }
+
+    const missed = stream.attach(this.wsClient(connection), lastSeq);
+    if (!missed) {
+      this.send(connection.ws, {
+        type: 'error',
+        sessionId: stream.sessionId,
+        requestId,
+        error: `Events after ${lastSeq} of request ${requestId} are no longer buffered`,
+        payload: { code: 'replay_unavailable' },
+      });
+      return;
+    }
+
+    const inFlight = this.inFlightRequests.get(requestId);
+    if (inFlight) {
+      inFlight.clientId = connection.id;
+    }
+    for (const pending of this.pendingApprovals.values()) {
+      if (pending.requestId === requestId) {
+        pending.clientId = connection.id;
+      }
+    }
+    connection.sessionId = stream.sessionId;
+
+    this.logger.info('Request resumed', {
+      operation: 'request_resume',
+      clientId: connection.id,
+      sessionId: stream.sessionId,
+      requestId,
+      lastSeq,
+      replayed: missed.length,
+    }).catch(() => {});
+
+    this.send(connection.ws, {
+      type: 'resumed',
+      requestId,
+      sessionId: stream.sessionId,
+      payload: { replayed: missed.length, lastSeq: stream.lastSeq },
+    });
+    for (const event of missed) {
+      this.send(connection.ws, event);
+    }
+  }
 
   /**
    * Streams agent events to the client
+   * Tool output and usage only go to clients with that capability.
    */
-  private streamAgentEvent(ws: WebSocket, sessionId: string, event: AgentEvent): void {
+  private streamAgentEvent(client: RunClient, sessionId: string, requestId: string, event: AgentEvent): void {
+    const { capabilities } = client;
     switch (event.type) {
       case 'text_delta':
-        this.send(ws, {
+        client.send({
           type: 'text_delta',
           sessionId,
+          requestId,
           content: event.content,
         });
         break;
       case 'tool_call':
-        this.send(ws, {
+        client.send({
           type: 'tool_call',
           sessionId,
+          requestId,
           payload: event.toolCall,
         });
         break;
+      case 'tool_output_delta':
+        if (!capabilities.has('tool_output')) break;
+        client.send({
+          type: 'tool_output_delta',
+          sessionId,
+          requestId,
+          payload: { callId: event.callId, stream: event.stream, content: event.content },
+        });
+        break;
       case 'tool_result':
-        this.send(ws, {
+        client.send({
           type: 'tool_result',
           sessionId,
+          requestId,
           payload: event.toolResult,
         });
         break;
+      case 'usage':
+        if (!capabilities.has('usage')) break;
+        client.send({
+          type: 'usage',
+          sessionId,
+          requestId,
+          payload: event.usage,
+        });
+        break;
       case 'done':
-        this.send(ws, {
+        client.send({
           type: 'done',
           sessionId,
+          requestId,
           content: event.fullResponse,
+          ...(event.stopReason ? { payload: { stopReason: event.stopReason } } : {}),
         });
         break;
       case 'error':
-        this.send(ws, {
+        client.send({
           type: 'error',
           sessionId,
+          requestId,
           error: event.error.message,
         });
         break;
+      case 'cancelled':
+        // Reported by handleUserMessage once the transcript is updated
+        break;
     }
   }
 
@@ -544,6 +1125,14 @@ export class GatewayServer {
     const connection = this.clients.get(clientId);
     if (connection) {
       this.clients.delete(clientId);
+      // A resumable run keeps its approvals pending until they time out, so
+      // a reconnecting client can still answer them; other approvals are
+      // denied, as nobody is left to answer
+      for (const pending of [...this.pendingApprovals.values()]) {
+        if (pending.clientId === clientId && !this.streams.has(pending.requestId)) {
+          pending.resolve(false);
+        }
+      }
       this.logger.info('Client disconnected', {
         operation: 'client_disconnect',
         clientId,
@@ -588,7 +1177,7 @@ export class GatewayServer {
   /**
    * Sends a message to a WebSocket client
    */
-  private send(ws: WebSocket, message: ServerResponse): void {
+  private send(ws: WebSocket, message: ServerMessage): void {
     if (ws.readyState === WebSocket.OPEN) {
       ws.send(JSON.stringify(message));
     }
@@ -652,6 +1241,10 @@ export class GatewayServer {
 
         // Update non-restart-requiring config
         this.config = { ...this.config, ...newGatewayConfig };
+        this.requestQueue.configure({
+          maxQueueDepth: this.config.maxQueueDepth,
+          maxConcurrentRuns: this.config.maxConcurrentRuns,
+        });
 
         await this.logger.info('Configuration reloaded', {
           operation: 'config_reload',
@@ -705,6 +1298,8 @@ export class GatewayServer {
       request.abortController.abort();
     }
     this.inFlightRequests.clear();
+    this.streams.clear();
+    this.sessionApprovals.clear();
 
     // Close all client connections
     for (const connection of this.clients.values()) {
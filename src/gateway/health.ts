@@ -0,0 +1,82 @@
+import { access, constants, rm, writeFile } from 'node:fs/promises';
+import { delimiter, isAbsolute, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import type { AgentBackend } from '../agent/agent-backend.js';
+import type { MemorySystem } from '../memory/memory-system.js';
+
+/**
+ * Outcome of one readiness check; `detail` says what was found or why it failed
+ */
+export interface CheckResult {
+  ok: boolean;
+  detail: string;
+}
+
+/**
+ * Answer of the readiness probe
+ */
+export interface ReadinessReport {
+  ready: boolean;
+  checks: Record<string, CheckResult>;
+}
+
+/**
+ * Checks that files can be created in a directory by writing and removing
+ * a probe file
+ */
+export async function checkWritable(dir: string): Promise<CheckResult> {
+  const probe = join(dir, `.ready-${randomUUID()}`);
+  try {
+    await writeFile(probe, '', { mode: 0o600 });
+    await rm(probe, { force: true });
+    return { ok: true, detail: dir };
+  } catch (error) {
+    return { ok: false, detail: `${dir} is not writable: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+/**
+ * Finds an executable by path or on the PATH
+ */
+export async function resolveExecutable(command: string): Promise<string | null> {
+  const candidates = isAbsolute(command) || command.includes('/')
+    ? [command]
+    : (process.env['PATH'] ?? '').split(delimiter).filter(Boolean).map(dir => join(dir, command));
+
+  for (const candidate of candidates) {
+    try {
+      await access(candidate, constants.X_OK);
+      return candidate;
+    } catch {
+      // Not here
+    }
+  }
+  return null;
+}
+
+/**
+ * Checks that the program an agent backend runs can be found
+ * Backends that run in-process have nothing to check.
+ */
+export async function checkBackend(backend: AgentBackend): Promise<CheckResult> {
+  if (!backend.executable) {
+    return { ok: true, detail: `${backend.name} backend runs in-process` };
+  }
+  const resolved = await resolveExecutable(backend.executable);
+  return resolved
+    ? { ok: true, detail: resolved }
+    : { ok: false, detail: `${backend.executable} not found` };
+}
+
+/**
+ * Checks that the memory index has been built
+ */
+export function checkMemoryIndex(memorySystem: MemorySystem | null): CheckResult {
+  if (!memorySystem) {
+    return { ok: false, detail: 'Memory system not configured' };
+  }
+  if (!memorySystem.isIndexed) {
+    return { ok: false, detail: 'Memory index not loaded' };
+  }
+  return { ok: true, detail: `${memorySystem.getIndex().size} documents indexed` };
+}
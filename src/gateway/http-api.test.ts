@@ -0,0 +1,425 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GatewayServer } from './gateway-server.js';
+import { Logger } from '../logging/logger.js';
+import { SecurityManager } from '../security/security-manager.js';
+import { SessionManager } from '../session/session-manager.js';
+import { AgentRuntime } from '../agent/agent-runtime.js';
+import type { AgentBackend } from '../agent/agent-backend.js';
+import { ScriptedBackend } from '../agent/scripted-backend.js';
+import { CommandBackend } from '../agent/command-backend.js';
+import { ConfigManager } from '../config/config-manager.js';
+import { MemorySystem } from '../memory/memory-system.js';
+import { ToolSystem } from '../tools/tool-system.js';
+import { Workspace } from '../storage/workspace.js';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+describe('HttpApi', () => {
+  let tempDir: string;
+  let workspace: Workspace;
+  let logger: Logger;
+  let securityManager: SecurityManager;
+  let sessionManager: SessionManager;
+  let gateway: GatewayServer;
+  let authToken: string;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'openclaw-http-test-'));
+    workspace = new Workspace(tempDir);
+    await workspace.initialize();
+    logger = new Logger({ level: 'error', path: join(tempDir, 'test.log'), maxSize: 1024 * 1024, maxFiles: 1 });
+    securityManager = new SecurityManager(workspace.authPath, logger);
+    sessionManager = new SessionManager(workspace, logger);
+    authToken = await securityManager.initialize();
+  });
+
+  afterEach(async () => {
+    if (gateway?.isRunning) {
+      await gateway.stop();
+    }
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Starts a gateway on a random port whose agent uses the given backend
+   */
+  async function startGateway(backend: AgentBackend, options: { toolSystem?: ToolSystem; memorySystem?: MemorySystem } = {}): Promise<void> {
+    const toolSystem = options.toolSystem ?? new ToolSystem();
+    const port = 19789 + Math.floor(Math.random() * 1000);
+    gateway = new GatewayServer(
+      { port, host: '127.0.0.1' },
+      logger,
+      securityManager,
+      sessionManager,
+      new AgentRuntime(toolSystem, {}, logger, backend),
+      new ConfigManager(workspace.configPath),
+      options.memorySystem,
+      toolSystem
+    );
+    await gateway.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  function api(path: string, init: RequestInit = {}, token: string | null = authToken): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (token !== null) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(`${baseUrl}${path}`, { ...init, headers });
+  }
+
+  function post(path: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return api(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+  }
+
+  it('should require a valid bearer token', async () => {
+    await startGateway(new ScriptedBackend());
+
+    const missing = await api('/v1/sessions', {}, null);
+    const wrong = await api('/v1/sessions', {}, 'nope');
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer');
+    expect(await missing.json()).toEqual({ error: { code: 'unauthorized', message: 'Missing bearer token' } });
+    expect(wrong.status).toBe(401);
+    expect(((await wrong.json()) as { error: { message: string } }).error.message).toBe('Invalid authentication token');
+  });
+
+  it('should create, list, read and delete sessions', async () => {
+    await startGateway(new ScriptedBackend(['Hello there.']));
+
+    const created = await api('/v1/sessions', { method: 'POST' });
+    const session = (await created.json()) as { id: string };
+    await post(`/v1/sessions/${session.id}/messages`, { content: 'Hi' });
+    const listed = (await (await api('/v1/sessions')).json()) as { sessions: Array<Record<string, unknown>> };
+    const messages = (await (await api(`/v1/sessions/${session.id}/messages`)).json()) as {
+      messages: Array<{ role: string; content: string }>;
+    };
+    const deleted = await api(`/v1/sessions/${session.id}`, { method: 'DELETE' });
+    const afterDelete = await api(`/v1/sessions/${session.id}/messages`);
+
+    expect(created.status).toBe(201);
+    expect(listed.sessions).toEqual([expect.objectContaining({ id: session.id, messageCount: 2 })]);
+    expect(listed.sessions[0]).not.toHaveProperty('transcriptPath');
+    expect(messages.messages.map(m => [m.role, m.content])).toEqual([['user', 'Hi'], ['assistant', 'Hello there.']]);
+    expect(deleted.status).toBe(204);
+    expect(afterDelete.status).toBe(404);
+  });
+
+  it('should reply to a message with the finished run', async () => {
+    const toolSystem = new ToolSystem();
+    toolSystem.register(
+      { name: 'echo', description: 'Echoes', parameters: { type: 'object', properties: { text: { type: 'string' } } } },
+      async (args) => String(args['text'])
+    );
+    await startGateway(new ScriptedBackend([
+      '<tool_call name="echo">{"text": "hi"}</tool_call>',
+      'It said hi.',
+    ]), { toolSystem });
+    const { id } = (await (await api('/v1/sessions', { method: 'POST' })).json()) as { id: string };
+
+    const response = await post(`/v1/sessions/${id}/messages`, { content: 'Echo hi', requestId: 'r1' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      requestId: 'r1',
+      sessionId: id,
+      content: expect.stringContaining('It said hi.'),
+      toolCalls: [expect.objectContaining({ name: 'echo', arguments: { text: 'hi' } })],
+      toolResults: [expect.objectContaining({ success: true, output: 'hi' })],
+    });
+  });
+
+  it('should stream a run as server-sent events', async () => {
+    await startGateway(new ScriptedBackend([[
+      { type: 'text_delta', content: 'Hel' },
+      { type: 'text_delta', content: 'lo' },
+    ]]));
+    const { id } = (await (await api('/v1/sessions', { method: 'POST' })).json()) as { id: string };
+
+    const response = await post(`/v1/sessions/${id}/messages?stream=true`, { content: 'Hi', requestId: 'r1' });
+    const text = await response.text();
+    const events = text.trim().split('\n\n').map(frame => {
+      const [event, data] = frame.split('\n');
+      return { event: event!.slice('event: '.length), data: JSON.parse(data!.slice('data: '.length)) as Record<string, unknown> };
+    });
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(events.map(e => e.event)).toEqual(['text_delta', 'text_delta', 'done']);
+    expect(events[2]!.data).toMatchObject({ type: 'done', sessionId: id, requestId: 'r1', content: 'Hello' });
+  });
+
+  it('should cancel the run when a streaming client disconnects', async () => {
+    let aborted = false;
+    await startGateway({
+      name: 'slow',
+      async *invoke(request) {
+        yield { type: 'text_delta', content: 'Partial' };
+        await new Promise<void>((resolve) => request.signal?.addEventListener('abort', () => resolve()));
+        aborted = true;
+      },
+    });
+    const { id } = (await (await api('/v1/sessions', { method: 'POST' })).json()) as { id: string };
+    const controller = new AbortController();
+
+    const response = await api(`/v1/sessions/${id}/messages`, {
+      method: 'POST',
+      headers: { Accept: 'text/event-stream' },
+      body: JSON.stringify({ content: 'Hi' }),
+      signal: controller.signal,
+    });
+    const reader = response.body!.getReader();
+    await reader.read();
+    expect((await api(`/v1/sessions/${id}`, { method: 'DELETE' })).status).toBe(409);
+    controller.abort();
+
+    await vi.waitFor(() => expect(aborted && gateway.inFlightCount === 0).toBe(true));
+    const history = await sessionManager.getHistory(id);
+    expect(history.at(-1)).toMatchObject({ role: 'assistant', content: 'Partial', cancelled: true });
+  });
+
+  it('should search memory', async () => {
+    const memorySystem = new MemorySystem(workspace, {}, logger);
+    await memorySystem.addDocument('notes.md', 'The deploy key rotates every Friday.');
+    await startGateway(new ScriptedBackend(), { memorySystem });
+
+    const found = (await (await api('/v1/memory/search?q=deploy%20key&limit=3')).json()) as {
+      query: string;
+      results: Array<{ path: string }>;
+    };
+    const missing = await api('/v1/memory/search');
+
+    expect(found.query).toBe('deploy key');
+    expect(found.results.map(r => r.path)).toEqual(['notes.md']);
+    expect(missing.status).toBe(400);
+    expect(await missing.json()).toMatchObject({ error: { code: 'invalid_request', field: 'q' } });
+  });
+
+  it('should answer bad requests with JSON errors', async () => {
+    await startGateway(new ScriptedBackend());
+    const { id } = (await (await api('/v1/sessions', { method: 'POST' })).json()) as { id: string };
+
+    const unknown = await api('/v1/nope');
+    const method = await api('/v1/sessions', { method: 'PUT' });
+    const invalidJson = await post(`/v1/sessions/${id}/messages`, '{ nope');
+    const noContent = await post(`/v1/sessions/${id}/messages`, { content: '' });
+    const badId = await api('/v1/sessions/..%2Fauth/messages');
+    const noSession = await post('/v1/sessions/missing/messages', { content: 'Hi' });
+    const tooLarge = await post(`/v1/sessions/${id}/messages`, { content: 'x'.repeat(1024 * 1024) });
+    const noMemory = await api('/v1/memory/search?q=x');
+
+    expect(unknown.status).toBe(404);
+    expect(method.status).toBe(405);
+    expect(method.headers.get('allow')).toBe('POST, GET');
+    expect(invalidJson.status).toBe(400);
+    expect(await noContent.json()).toMatchObject({ error: { code: 'invalid_request', field: 'content' } });
+    expect(badId.status).toBe(400);
+    expect(noSession.status).toBe(404);
+    expect(tooLarge.status).toBe(413);
+    expect(noMemory.status).toBe(503);
+  });
+
+  describe('chat completions', () => {
+    /**
+     * Parses an OpenAI-style event stream into its data payloads
+     */
+    async function readChunks(response: Response): Promise<unknown[]> {
+      const text = await response.text();
+      return text.trim().split('\n\n').map(frame => {
+        const data = frame.slice('data: '.length);
+        return data === '[DONE]' ? data : JSON.parse(data) as unknown;
+      });
+    }
+
+    it('should run a stateless completion with bootstrap and memory context', async () => {
+      const memorySystem = new MemorySystem(workspace, {}, logger);
+      await writeFile(workspace.soulPath, 'You are Claw.');
+      await memorySystem.addDocument('notes.md', 'The deploy key rotates every Friday.');
+      const backend = new ScriptedBackend([
+        [{ type: 'text_delta', content: 'Fridays.' }, { type: 'usage', usage: { inputTokens: 12, outputTokens: 3 } }],
+      ]);
+      await startGateway(backend, { memorySystem });
+
+      const response = await post('/v1/chat/completions', {
+        model: 'gpt-4o',
+        temperature: 0.2,
+        messages: [
+          { role: 'system', content: 'Answer in one word.' },
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello!' },
+          { role: 'user', content: 'When does the deploy key rotate?' },
+        ],
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        id: expect.stringMatching(/^chatcmpl-/),
+        object: 'chat.completion',
+        created: expect.any(Number),
+        model: 'gpt-4o',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Fridays.' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+      });
+      const prompt = backend.requests[0]!.prompt;
+      expect(prompt).toContain('You are Claw.');
+      expect(prompt).toContain('The deploy key rotates every Friday.');
+      expect(prompt).toContain('Answer in one word.');
+      expect(prompt).toContain('Human: Hi\n\nAssistant: Hello!');
+      expect(await sessionManager.list()).toEqual([]);
+    });
+
+    it('should stream chunks with tool calls in the OpenAI format', async () => {
+      const toolSystem = new ToolSystem();
+      toolSystem.register(
+        { name: 'echo', description: 'Echoes', parameters: { type: 'object', properties: { text: { type: 'string' } } } },
+        async (args) => String(args['text'])
+      );
+      await startGateway(new ScriptedBackend([
+        [{ type: 'tool_call', toolCall: { id: 'call_1', name: 'echo', arguments: { text: 'hi' } } }],
+        [{ type: 'text_delta', content: 'It said hi.' }, { type: 'usage', usage: { inputTokens: 5, outputTokens: 4 } }],
+      ]), { toolSystem });
+
+      const response = await post('/v1/chat/completions', {
+        stream: true,
+        stream_options: { include_usage: true },
+        messages: [{ role: 'user', content: 'Echo hi' }],
+      });
+      const chunks = await readChunks(response) as Array<{ choices: Array<{ delta: unknown; finish_reason: string | null }>; usage?: unknown }>;
+
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+      expect(chunks.at(-1)).toBe('[DONE]');
+      expect(chunks.slice(0, -2).map(c => c.choices[0])).toEqual([
+        { index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null },
+        {
+          index: 0,
+          delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'echo', arguments: '{"text":"hi"}' } }] },
+          finish_reason: null,
+        },
+        { index: 0, delta: { content: 'It said hi.' }, finish_reason: null },
+        { index: 0, delta: {}, finish_reason: 'stop' },
+      ]);
+      expect(chunks.at(-2)).toMatchObject({ object: 'chat.completion.chunk', choices: [], usage: { total_tokens: 9 } });
+    });
+
+    it('should continue the session named by the session header', async () => {
+      const backend = new ScriptedBackend(['First reply.', 'Second reply.']);
+      await startGateway(backend);
+      const { id } = (await (await api('/v1/sessions', { method: 'POST' })).json()) as { id: string };
+      await post(`/v1/sessions/${id}/messages`, { content: 'First question' });
+
+      const response = await post('/v1/chat/completions', {
+        messages: [{ role: 'user', content: 'ignored' }, { role: 'user', content: 'Second question' }],
+      }, { 'X-OpenClaw-Session-Id': id });
+
+      expect(((await response.json()) as { choices: Array<{ message: { content: string } }> }).choices[0]!.message.content)
+        .toBe('Second reply.');
+      expect(backend.requests[1]!.prompt).toContain('Human: First question\n\nAssistant: First reply.');
+      expect(backend.requests[1]!.prompt).not.toContain('ignored');
+      const history = await sessionManager.getHistory(id);
+      expect(history.map(e => e.content)).toEqual(['First question', 'First reply.', 'Second question', 'Second reply.']);
+    });
+
+    it('should answer errors in the OpenAI error format', async () => {
+      await startGateway(new ScriptedBackend());
+
+      const noUser = await post('/v1/chat/completions', { messages: [{ role: 'system', content: 'Be nice.' }] });
+      const badSession = await post('/v1/chat/completions', { messages: [{ role: 'user', content: 'Hi' }] }, {
+        'X-OpenClaw-Session-Id': 'missing',
+      });
+      const failed = await post('/v1/chat/completions', { messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(noUser.status).toBe(400);
+      expect(await noUser.json()).toEqual({
+        error: {
+          message: 'The last message must have role "user"',
+          type: 'invalid_request_error',
+          param: 'messages.0.role',
+          code: 'invalid_request',
+        },
+      });
+      expect(badSession.status).toBe(404);
+      expect(failed.status).toBe(500);
+      expect(await failed.json()).toMatchObject({ error: { type: 'server_error', message: 'Scripted backend has no responses left' } });
+    });
+  });
+
+  describe('health and metrics', () => {
+    it('should answer the health probe without a token', async () => {
+      await startGateway(new ScriptedBackend());
+
+      const response = await api('/healthz', {}, null);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ status: 'ok', uptimeSeconds: expect.any(Number) });
+    });
+
+    it('should report readiness checks', async () => {
+      const memorySystem = new MemorySystem(workspace, {}, logger);
+      await startGateway(new ScriptedBackend(), { memorySystem });
+
+      const before = await api('/readyz', {}, null);
+      await memorySystem.indexWorkspace();
+      const after = await api('/readyz', {}, null);
+
+      expect(before.status).toBe(503);
+      expect(await before.json()).toMatchObject({
+        status: 'not_ready',
+        checks: { memory: { ok: false, detail: 'Memory index not loaded' } },
+      });
+      expect(after.status).toBe(200);
+      expect(await after.json()).toEqual({
+        status: 'ready',
+        checks: {
+          gateway: { ok: true, detail: 'Accepting requests' },
+          workspace: { ok: true, detail: workspace.sessionsDir },
+          backend: { ok: true, detail: 'scripted backend runs in-process' },
+          memory: { ok: true, detail: '0 documents indexed' },
+        },
+      });
+    });
+
+    it('should fail readiness when the backend program is missing', async () => {
+      await startGateway(new CommandBackend({ command: 'openclaw-no-such-binary', args: [] }), {
+        memorySystem: new MemorySystem(workspace, {}, logger),
+      });
+
+      const body = (await (await api('/readyz', {}, null)).json()) as { checks: Record<string, unknown> };
+
+      expect(body.checks['backend']).toEqual({ ok: false, detail: 'openclaw-no-such-binary not found' });
+    });
+
+    it('should expose Prometheus metrics behind the token', async () => {
+      const toolSystem = new ToolSystem();
+      toolSystem.register({ name: 'fail', description: 'Fails', parameters: { type: 'object' } }, async () => {
+        throw new Error('nope');
+      });
+      await startGateway(new ScriptedBackend([
+        [{ type: 'tool_call', toolCall: { id: 'c1', name: 'fail', arguments: {} } }],
+        'Done.',
+      ]), { toolSystem });
+      const { id } = (await (await api('/v1/sessions', { method: 'POST' })).json()) as { id: string };
+      await post(`/v1/sessions/${id}/messages`, { content: 'Try it' });
+      await api('/v1/sessions', {}, 'wrong');
+
+      const unauthorized = await api('/metrics', {}, null);
+      const response = await api('/metrics');
+      const text = await response.text();
+
+      expect(unauthorized.status).toBe(401);
+      expect(response.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+      expect(text).toContain('openclaw_connected_clients 0\n');
+      expect(text).toContain('openclaw_inflight_requests 0\n');
+      expect(text).toContain('openclaw_tool_calls_total{tool="fail"} 1\n');
+      expect(text).toContain('openclaw_tool_call_failures_total{tool="fail",error_type="execution"} 1\n');
+      expect(text).toContain('openclaw_auth_failures_total{transport="http"} 2\n');
+      expect(text).toContain('openclaw_agent_run_duration_seconds_count{outcome="done"} 1\n');
+      expect(text).toMatch(/openclaw_transcript_bytes_written_total [1-9]\d*\n/);
+    });
+  });
+});
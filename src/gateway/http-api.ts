@@ -0,0 +1,741 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import type { Logger } from '../logging/logger.js';
+import type { SecurityManager } from '../security/security-manager.js';
+import type { Session, SessionManager } from '../session/session-manager.js';
+import type { MemorySystem } from '../memory/memory-system.js';
+import type { ToolCall, ToolResult } from '../tools/tool-system.js';
+import type { AgentUsage } from '../agent/agent-runtime.js';
+import type { GatewayCapability, ServerMessage } from './protocol.js';
+import type { RunClient, RunOptions } from './gateway-server.js';
+import type { ReadinessReport } from './health.js';
+import { PROMETHEUS_CONTENT_TYPE, type GatewayMetrics } from './metrics.js';
+import {
+  ChatCompletionRequestSchema,
+  ChatRequestError,
+  DEFAULT_COMPLETION_MODEL,
+  SESSION_HEADER,
+  finishReason,
+  toAgentConversation,
+  toChatToolCall,
+  toChatUsage,
+  type ChatCompletion,
+  type ChatCompletionChunk,
+  type ChatToolCall,
+} from './openai-compat.js';
+
+/**
+ * What the REST routes need from the gateway
+ * `runMessage` is the same entry point WebSocket messages go through, so
+ * HTTP runs share the session queue, transcript and memory handling.
+ */
+export interface HttpApiContext {
+  logger: Logger;
+  securityManager: SecurityManager;
+  sessionManager: SessionManager;
+  memorySystem: MemorySystem | null;
+  metrics: GatewayMetrics;
+  checkReadiness(): Promise<ReadinessReport>;
+  runMessage(client: RunClient, sessionId: string, content: string, requestId?: string, options?: RunOptions): Promise<void>;
+  isSessionBusy(sessionId: string): boolean;
+  onSessionDeleted(sessionId: string): void;
+  isRequestInFlight(requestId: string): boolean;
+  isShuttingDown(): boolean;
+}
+
+/**
+ * Error codes returned in REST error bodies
+ */
+export type HttpErrorCode =
+  | 'unauthorized'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'invalid_request'
+  | 'payload_too_large'
+  | 'conflict'
+  | 'queue_full'
+  | 'unavailable'
+  | 'internal_error';
+
+/**
+ * Error raised by a route handler and rendered as `{ error: { code, message, field? } }`
+ */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: HttpErrorCode,
+    message: string,
+    readonly field?: string,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Largest accepted JSON request body
+ */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Session ids as created by SessionManager; anything else is rejected
+ * before it reaches the filesystem
+ */
+const SESSION_ID_PATTERN = /^[\w-]{1,128}$/;
+
+const PostMessageSchema = z.object({
+  content: z.string().min(1),
+  requestId: z.string().min(1).optional(),
+});
+
+/**
+ * Capabilities of an HTTP run: there is nobody to answer approval
+ * requests, so calls that need approval are denied
+ */
+const HTTP_CAPABILITIES: ReadonlySet<GatewayCapability> = new Set(['tool_output', 'usage']);
+
+type RouteParams = Record<string, string>;
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, url: URL, params: RouteParams) => Promise<void>;
+
+/**
+ * A REST route; `errors: 'openai'` renders its failures the way OpenAI
+ * clients expect, and `public` routes skip authentication
+ */
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+  errors?: 'openai';
+  public?: boolean;
+}
+
+/**
+ * Identity of a chat completion, repeated on every chunk
+ */
+interface CompletionInfo {
+  id: string;
+  created: number;
+  model: string;
+}
+
+/**
+ * HttpApi - REST routes served next to the WebSocket endpoint
+ *
+ * Every route except the health probes requires `Authorization: Bearer
+ * <token>` with the gateway token. Routes:
+ * - POST   /v1/sessions                 create a session
+ * - GET    /v1/sessions                 list sessions
+ * - GET    /v1/sessions/:id/messages    read a session transcript
+ * - POST   /v1/sessions/:id/messages    run a message; `?stream=true` or
+ *                                       `Accept: text/event-stream` streams
+ *                                       the run as server-sent events
+ * - DELETE /v1/sessions/:id             delete a session
+ * - GET    /v1/memory/search?q=         search memory
+ * - POST   /v1/chat/completions          OpenAI-compatible chat completions
+ * - GET    /healthz                      liveness probe (no token needed)
+ * - GET    /readyz                       readiness probe (no token needed)
+ * - GET    /metrics                      Prometheus metrics
+ */
+export class HttpApi {
+  private context: HttpApiContext;
+  private routes: Route[];
+
+  constructor(context: HttpApiContext) {
+    this.context = context;
+    this.routes = [
+      { method: 'POST', pattern: /^\/v1\/sessions$/, handler: (_req, res) => this.createSession(res) },
+      { method: 'GET', pattern: /^\/v1\/sessions$/, handler: (_req, res) => this.listSessions(res) },
+      {
+        method: 'GET',
+        pattern: /^\/v1\/sessions\/(?<id>[^/]+)\/messages$/,
+        handler: (_req, res, _url, params) => this.getMessages(res, params),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/v1\/sessions\/(?<id>[^/]+)\/messages$/,
+        handler: (req, res, url, params) => this.postMessage(req, res, url, params),
+      },
+      {
+        method: 'DELETE',
+        pattern: /^\/v1\/sessions\/(?<id>[^/]+)$/,
+        handler: (_req, res, _url, params) => this.deleteSession(res, params),
+      },
+      { method: 'GET', pattern: /^\/v1\/memory\/search$/, handler: (_req, res, url) => this.searchMemory(res, url) },
+      {
+        method: 'POST',
+        pattern: /^\/v1\/chat\/completions$/,
+        handler: (req, res) => this.chatCompletions(req, res),
+        errors: 'openai',
+      },
+      { method: 'GET', pattern: /^\/healthz$/, handler: (_req, res) => this.health(res), public: true },
+      { method: 'GET', pattern: /^\/readyz$/, handler: (_req, res) => this.readiness(res), public: true },
+      { method: 'GET', pattern: /^\/metrics$/, handler: (_req, res) => this.renderMetrics(res) },
+    ];
+  }
+
+  /**
+   * Handles one HTTP request, answering every failure with a JSON error body
+   */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    let route: Route | undefined;
+    try {
+      const matches = this.routes
+        .map(route => ({ route, match: route.pattern.exec(url.pathname) }))
+        .filter(({ match }) => match !== null);
+      if (matches.length === 0) {
+        throw new HttpError(404, 'not_found', `No route for ${url.pathname}`);
+      }
+      const found = matches.find(({ route }) => route.method === req.method);
+      if (!found) {
+        const allow = matches.map(({ route }) => route.method).join(', ');
+        throw new HttpError(405, 'method_not_allowed', `Method ${req.method} not allowed`, undefined, { Allow: allow });
+      }
+
+      route = found.route;
+      if (!route.public) {
+        await this.authenticate(req);
+      }
+      await route.handler(req, res, url, this.decodeParams(found.match!.groups ?? {}));
+    } catch (error) {
+      this.sendError(res, error, route?.errors);
+    }
+  }
+
+  /**
+   * Checks the bearer token against the gateway token
+   */
+  private async authenticate(req: IncomingMessage): Promise<void> {
+    const header = req.headers.authorization ?? '';
+    const match = /^Bearer\s+(.+)$/i.exec(header);
+    const challenge = { 'WWW-Authenticate': 'Bearer' };
+    if (!match) {
+      this.context.metrics.authFailures.inc({ transport: 'http' });
+      throw new HttpError(401, 'unauthorized', 'Missing bearer token', undefined, challenge);
+    }
+
+    const result = await this.context.securityManager.validateToken(match[1]!.trim(), {
+      remoteAddress: req.socket.remoteAddress,
+      transport: 'http',
+    });
+    if (!result.valid) {
+      this.context.metrics.authFailures.inc({ transport: 'http' });
+      throw new HttpError(401, 'unauthorized', result.reason ?? 'Authentication failed', undefined, challenge);
+    }
+  }
+
+  private decodeParams(groups: Record<string, string>): RouteParams {
+    const params: RouteParams = {};
+    for (const [key, value] of Object.entries(groups)) {
+      try {
+        params[key] = decodeURIComponent(value);
+      } catch {
+        throw new HttpError(400, 'invalid_request', `Malformed path parameter: ${key}`, key);
+      }
+    }
+    return params;
+  }
+
+  /**
+   * POST /v1/sessions
+   */
+  private async createSession(res: ServerResponse): Promise<void> {
+    const session = await this.context.sessionManager.create();
+    await this.context.logger.info('Session created', {
+      operation: 'session_create',
+      transport: 'http',
+      sessionId: session.id,
+    });
+    this.sendJson(res, 201, toSessionInfo(session));
+  }
+
+  /**
+   * GET /v1/sessions
+   */
+  private async listSessions(res: ServerResponse): Promise<void> {
+    const sessions = await this.context.sessionManager.list();
+    this.sendJson(res, 200, { sessions: sessions.map(toSessionInfo) });
+  }
+
+  /**
+   * GET /v1/sessions/:id/messages
+   */
+  private async getMessages(res: ServerResponse, params: RouteParams): Promise<void> {
+    const sessionId = this.sessionId(params['id']);
+    await this.requireSession(sessionId);
+    const messages = await this.context.sessionManager.getHistory(sessionId);
+    this.sendJson(res, 200, { sessionId, messages });
+  }
+
+  /**
+   * POST /v1/sessions/:id/messages
+   * Replies with the finished run as JSON, or streams it as server-sent
+   * events whose `event` is the protocol message type and whose `data` is
+   * the protocol message.
+   */
+  private async postMessage(req: IncomingMessage, res: ServerResponse, url: URL, params: RouteParams): Promise<void> {
+    const sessionId = this.sessionId(params['id']);
+    const body = parseBody(PostMessageSchema, await this.readJson(req));
+    await this.requireSession(sessionId);
+
+    this.checkAvailable();
+    const requestId = body.requestId ?? randomUUID();
+    if (this.context.isRequestInFlight(requestId)) {
+      throw new HttpError(409, 'conflict', `Request ${requestId} is already in flight`, 'requestId');
+    }
+
+    const signal = disconnectSignal(res);
+    const accept = req.headers.accept ?? '';
+    if (url.searchParams.get('stream') === 'true' || accept.includes('text/event-stream')) {
+      await this.streamMessage(res, sessionId, body.content, requestId, signal);
+    } else {
+      await this.completeMessage(res, sessionId, body.content, requestId, signal);
+    }
+  }
+
+  private async streamMessage(
+    res: ServerResponse,
+    sessionId: string,
+    content: string,
+    requestId: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    startEventStream(res);
+
+    await this.context.runMessage({
+      id: `http-${requestId}`,
+      capabilities: HTTP_CAPABILITIES,
+      signal,
+      send: (message) => {
+        if (!res.writableEnded) {
+          res.write(`event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+        }
+      },
+    }, sessionId, content, requestId);
+    res.end();
+  }
+
+  private async completeMessage(
+    res: ServerResponse,
+    sessionId: string,
+    content: string,
+    requestId: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    const toolCalls: ToolCall[] = [];
+    const toolResults: ToolResult[] = [];
+    // Assigned from the send callback, which control flow analysis cannot see
+    let final = null as Extract<ServerMessage, { type: 'done' | 'cancelled' | 'error' }> | null;
+
+    await this.context.runMessage({
+      id: `http-${requestId}`,
+      capabilities: HTTP_CAPABILITIES,
+      signal,
+      send: (message) => {
+        switch (message.type) {
+          case 'tool_call':
+            toolCalls.push(message.payload);
+            break;
+          case 'tool_result':
+            toolResults.push(message.payload as ToolResult);
+            break;
+          case 'done':
+          case 'cancelled':
+          case 'error':
+            final ??= message;
+            break;
+        }
+      },
+    }, sessionId, content, requestId);
+
+    if (final?.type === 'error') {
+      throw runError(final);
+    }
+
+    this.sendJson(res, 200, {
+      requestId,
+      sessionId,
+      content: final?.type === 'done' || final?.type === 'cancelled' ? final.content : '',
+      ...(final?.type === 'done' && final.payload ? { stopReason: final.payload.stopReason } : {}),
+      ...(final?.type === 'cancelled' ? { cancelled: true } : {}),
+      toolCalls,
+      toolResults,
+    });
+  }
+
+  /**
+   * DELETE /v1/sessions/:id
+   */
+  private async deleteSession(res: ServerResponse, params: RouteParams): Promise<void> {
+    const sessionId = this.sessionId(params['id']);
+    await this.requireSession(sessionId);
+    if (this.context.isSessionBusy(sessionId)) {
+      throw new HttpError(409, 'conflict', `Session ${sessionId} has a run in progress`);
+    }
+
+    await this.context.sessionManager.delete(sessionId);
+    this.context.onSessionDeleted(sessionId);
+    await this.context.logger.info('Session deleted', {
+      operation: 'session_delete',
+      transport: 'http',
+      sessionId,
+    });
+    res.writeHead(204);
+    res.end();
+  }
+
+  /**
+   * GET /v1/memory/search?q=&limit=
+   */
+  private async searchMemory(res: ServerResponse, url: URL): Promise<void> {
+    const query = url.searchParams.get('q')?.trim() ?? '';
+    if (!query) {
+      throw new HttpError(400, 'invalid_request', 'Query parameter q is required', 'q');
+    }
+    const limitParam = url.searchParams.get('limit');
+    const limit = limitParam === null ? 10 : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new HttpError(400, 'invalid_request', 'limit must be an integer from 1 to 100', 'limit');
+    }
+    if (!this.context.memorySystem) {
+      throw new HttpError(503, 'unavailable', 'Memory is not available on this gateway');
+    }
+
+    this.sendJson(res, 200, { query, results: this.context.memorySystem.search(query, limit) });
+  }
+
+  /**
+   * POST /v1/chat/completions
+   * Without the session header the run is stateless: `messages` supply the
+   * history and nothing is recorded. With it, the last user message is sent
+   * to that session and its transcript supplies the history.
+   */
+  private async chatCompletions(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = parseBody(ChatCompletionRequestSchema, await this.readJson(req));
+    let conversation;
+    try {
+      conversation = toAgentConversation(body.messages);
+    } catch (error) {
+      if (error instanceof ChatRequestError) {
+        throw new HttpError(400, 'invalid_request', error.message, error.field);
+      }
+      throw error;
+    }
+
+    const requestId = randomUUID();
+    const header = req.headers[SESSION_HEADER];
+    let sessionId: string;
+    let options: RunOptions;
+    if (typeof header === 'string' && header) {
+      sessionId = this.sessionId(header, SESSION_HEADER);
+      await this.requireSession(sessionId);
+      options = conversation.instructions ? { instructions: conversation.instructions } : {};
+    } else {
+      sessionId = `completion-${requestId}`;
+      options = { history: conversation.history, instructions: conversation.instructions };
+    }
+    this.checkAvailable();
+
+    const completion: CompletionInfo = {
+      id: `chatcmpl-${requestId}`,
+      created: Math.floor(Date.now() / 1000),
+      model: body.model ?? DEFAULT_COMPLETION_MODEL,
+    };
+    const signal = disconnectSignal(res);
+    const run = (send: (message: ServerMessage) => void): Promise<void> => this.context.runMessage(
+      { id: `http-${requestId}`, capabilities: HTTP_CAPABILITIES, signal, send },
+      sessionId,
+      conversation.content,
+      requestId,
+      options
+    );
+
+    if (body.stream) {
+      await this.streamCompletion(res, completion, run, body.stream_options?.include_usage ?? false);
+    } else {
+      await this.completeCompletion(res, completion, run);
+    }
+  }
+
+  private async completeCompletion(
+    res: ServerResponse,
+    completion: CompletionInfo,
+    run: (send: (message: ServerMessage) => void) => Promise<void>
+  ): Promise<void> {
+    const toolCalls: ChatToolCall[] = [];
+    let usage = null as AgentUsage | null;
+    // Assigned from the send callback, which control flow analysis cannot see
+    let final = null as Extract<ServerMessage, { type: 'done' | 'cancelled' | 'error' }> | null;
+
+    await run((message) => {
+      switch (message.type) {
+        case 'tool_call':
+          toolCalls.push(toChatToolCall(message.payload));
+          break;
+        case 'usage':
+          usage = addUsage(usage, message.payload);
+          break;
+        case 'done':
+        case 'cancelled':
+        case 'error':
+          final ??= message;
+          break;
+      }
+    });
+
+    if (final?.type === 'error') {
+      throw runError(final);
+    }
+
+    const body: ChatCompletion = {
+      ...completion,
+      object: 'chat.completion',
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: final?.type === 'done' || final?.type === 'cancelled' ? final.content : '',
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: finishReason(final?.type === 'done' ? final.payload?.stopReason : undefined),
+      }],
+      ...(usage ? { usage: toChatUsage(usage) } : {}),
+    };
+    this.sendJson(res, 200, body);
+  }
+
+  /**
+   * Streams a completion as `chat.completion.chunk` events ending in
+   * `data: [DONE]`
+   */
+  private async streamCompletion(
+    res: ServerResponse,
+    completion: CompletionInfo,
+    run: (send: (message: ServerMessage) => void) => Promise<void>,
+    includeUsage: boolean
+  ): Promise<void> {
+    const write = (data: unknown): void => {
+      if (!res.writableEnded) {
+        res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+      }
+    };
+    const chunk = (
+      delta: ChatCompletionChunk['choices'][number]['delta'],
+      finish: string | null = null
+    ): ChatCompletionChunk => ({
+      ...completion,
+      object: 'chat.completion.chunk',
+      choices: [{ index: 0, delta, finish_reason: finish }],
+    });
+
+    startEventStream(res);
+    write(chunk({ role: 'assistant', content: '' }));
+
+    let toolCallIndex = 0;
+    let usage = null as AgentUsage | null;
+    await run((message) => {
+      switch (message.type) {
+        case 'text_delta':
+          write(chunk({ content: message.content }));
+          break;
+        case 'tool_call':
+          write(chunk({ tool_calls: [{ index: toolCallIndex++, ...toChatToolCall(message.payload) }] }));
+          break;
+        case 'usage':
+          usage = addUsage(usage, message.payload);
+          break;
+        case 'done':
+          write(chunk({}, finishReason(message.payload?.stopReason)));
+          break;
+        case 'error': {
+          const error = runError(message);
+          write({ error: openAiError(error) });
+          break;
+        }
+      }
+    });
+
+    if (includeUsage && usage) {
+      write({ ...completion, object: 'chat.completion.chunk', choices: [], usage: toChatUsage(usage) });
+    }
+    write('[DONE]');
+    res.end();
+  }
+
+  /**
+   * GET /healthz
+   * Answers as long as the process is serving requests.
+   */
+  private async health(res: ServerResponse): Promise<void> {
+    this.sendJson(res, 200, { status: 'ok', uptimeSeconds: Math.round(process.uptime()) });
+  }
+
+  /**
+   * GET /readyz
+   */
+  private async readiness(res: ServerResponse): Promise<void> {
+    const report = await this.context.checkReadiness();
+    this.sendJson(res, report.ready ? 200 : 503, {
+      status: report.ready ? 'ready' : 'not_ready',
+      checks: report.checks,
+    });
+  }
+
+  /**
+   * GET /metrics
+   */
+  private async renderMetrics(res: ServerResponse): Promise<void> {
+    res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+    res.end(this.context.metrics.registry.render());
+  }
+
+  private sessionId(value: string | undefined, field = 'id'): string {
+    const sessionId = value ?? '';
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new HttpError(400, 'invalid_request', `Invalid session ID: ${sessionId}`, field);
+    }
+    return sessionId;
+  }
+
+  private checkAvailable(): void {
+    if (this.context.isShuttingDown()) {
+      throw new HttpError(503, 'unavailable', 'Server is shutting down. Please try again later.');
+    }
+  }
+
+  private async requireSession(sessionId: string): Promise<void> {
+    try {
+      await this.context.sessionManager.load(sessionId);
+    } catch {
+      throw new HttpError(404, 'not_found', `Session not found: ${sessionId}`);
+    }
+  }
+
+  /**
+   * Reads and parses a JSON request body of at most MAX_BODY_BYTES
+   */
+  private async readJson(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'payload_too_large', `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch (error) {
+      throw new HttpError(400, 'invalid_request', `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private sendError(res: ServerResponse, error: unknown, format?: Route['errors']): void {
+    const httpError = error instanceof HttpError
+      ? error
+      : new HttpError(500, 'internal_error', error instanceof Error ? error.message : String(error));
+    if (httpError.status === 500) {
+      this.context.logger.error('HTTP request failed', error, { operation: 'http_request' }).catch(() => {});
+    }
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    res.writeHead(httpError.status, { 'Content-Type': 'application/json', ...httpError.headers });
+    res.end(JSON.stringify({
+      error: format === 'openai'
+        ? openAiError(httpError)
+        : {
+            code: httpError.code,
+            message: httpError.message,
+            ...(httpError.field ? { field: httpError.field } : {}),
+          },
+    }));
+  }
+}
+
+/**
+ * Validates a request body, naming the first bad field
+ */
+function parseBody<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issue = result.error.issues[0]!;
+    const field = issue.path.join('.') || '(body)';
+    throw new HttpError(400, 'invalid_request', `${field}: ${issue.message}`, field);
+  }
+  return result.data;
+}
+
+/**
+ * Aborts when the client goes away before the response is finished, which
+ * cancels its run
+ */
+function disconnectSignal(res: ServerResponse): AbortSignal {
+  const disconnected = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      disconnected.abort();
+    }
+  });
+  return disconnected.signal;
+}
+
+function startEventStream(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+}
+
+/**
+ * Maps the error that ended a run to an HTTP error
+ */
+function runError(message: Extract<ServerMessage, { type: 'error' }>): HttpError {
+  const payload = message.payload as { code?: string } | undefined;
+  if (payload?.code === 'queue_full') {
+    return new HttpError(429, 'queue_full', message.error);
+  }
+  return new HttpError(500, 'internal_error', message.error);
+}
+
+/**
+ * Renders an error in the OpenAI error format
+ */
+function openAiError(error: HttpError): { message: string; type: string; param: string | null; code: string } {
+  return {
+    message: error.message,
+    type: error.status >= 500 ? 'server_error' : 'invalid_request_error',
+    param: error.field ?? null,
+    code: error.code,
+  };
+}
+
+/**
+ * Sums the usage of a run's backend invocations
+ */
+function addUsage(total: AgentUsage | null, usage: Pick<AgentUsage, 'inputTokens' | 'outputTokens'>): AgentUsage {
+  return total
+    ? { inputTokens: total.inputTokens + usage.inputTokens, outputTokens: total.outputTokens + usage.outputTokens }
+    : { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens };
+}
+
+/**
+ * Session metadata without server-side paths
+ */
+function toSessionInfo(session: Session): Omit<Session, 'transcriptPath'> {
+  const { transcriptPath: _transcriptPath, ...info } = session;
+  return info;
+}
@@ -7,4 +7,93 @@ export {
   DEFAULT_GATEWAY_CONFIG,
   type GatewayConfig,
   type GatewayEvent,
+  type RunClient,
+  type RunOptions,
 } from './gateway-server.js';
+
+export {
+  ChatCompletionRequestSchema,
+  ChatRequestError,
+  DEFAULT_COMPLETION_MODEL,
+  SESSION_HEADER,
+  toAgentConversation,
+  toChatToolCall,
+  toChatUsage,
+  messageText,
+  finishReason,
+  type ChatCompletionRequest,
+  type ChatMessage,
+  type ChatToolCall,
+  type ChatCompletion,
+  type ChatCompletionChunk,
+  type ChatCompletionUsage,
+  type AgentConversation,
+} from './openai-compat.js';
+
+export {
+  HttpApi,
+  HttpError,
+  MAX_BODY_BYTES,
+  type HttpApiContext,
+  type HttpErrorCode,
+} from './http-api.js';
+
+export {
+  MetricsRegistry,
+  Counter,
+  Gauge,
+  Histogram,
+  PROMETHEUS_CONTENT_TYPE,
+  RUN_DURATION_BUCKETS,
+  createGatewayMetrics,
+  type Labels,
+  type GatewayMetrics,
+  type GatewayMetricSources,
+} from './metrics.js';
+
+export {
+  checkWritable,
+  checkBackend,
+  checkMemoryIndex,
+  resolveExecutable,
+  type CheckResult,
+  type ReadinessReport,
+} from './health.js';
+
+export {
+  RequestQueue,
+  DEFAULT_REQUEST_QUEUE_CONFIG,
+  type RequestQueueConfig,
+  type QueueFullError,
+  type QueueSlot,
+  type EnqueueOptions,
+  type EnqueueResult,
+} from './request-queue.js';
+
+export {
+  RequestStream,
+  DEFAULT_REPLAY_BUFFER_SIZE,
+  FINISHED_STREAM_RETENTION_MS,
+  isStreamEvent,
+  type SequencedEvent,
+} from './request-stream.js';
+
+export {
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  GATEWAY_CAPABILITIES,
+  STREAM_EVENT_TYPES,
+  ClientMessageSchema,
+  ServerMessageSchema,
+  parseClientMessage,
+  parseServerMessage,
+  protocolError,
+  negotiateVersion,
+  protocolJsonSchema,
+  type GatewayCapability,
+  type ClientMessage,
+  type ServerMessage,
+  type StreamEvent,
+  type ProtocolErrorMessage,
+  type ParseResult,
+} from './protocol.js';
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry, createGatewayMetrics } from './metrics.js';
+
+describe('MetricsRegistry', () => {
+  it('should render counters, gauges and histograms in the Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const calls = registry.counter('calls_total', 'Calls made');
+    registry.gauge('clients', 'Connected clients', () => 3);
+    const latency = registry.histogram('latency_seconds', 'Latency', [1, 0.5]);
+
+    calls.inc({ tool: 'read_file' });
+    calls.inc({ tool: 'read_file' }, 2);
+    calls.inc({ tool: 'say "hi"\\' });
+    latency.observe(0.2, { outcome: 'done' });
+    latency.observe(0.7, { outcome: 'done' });
+    latency.observe(4, { outcome: 'done' });
+
+    expect(calls.get({ tool: 'read_file' })).toBe(3);
+    expect(registry.render()).toBe([
+      '# HELP calls_total Calls made',
+      '# TYPE calls_total counter',
+      'calls_total{tool="read_file"} 3',
+      'calls_total{tool="say \\"hi\\"\\\\"} 1',
+      '# HELP clients Connected clients',
+      '# TYPE clients gauge',
+      'clients 3',
+      '# HELP latency_seconds Latency',
+      '# TYPE latency_seconds histogram',
+      'latency_seconds_bucket{outcome="done",le="0.5"} 1',
+      'latency_seconds_bucket{outcome="done",le="1"} 2',
+      'latency_seconds_bucket{outcome="done",le="+Inf"} 3',
+      'latency_seconds_sum{outcome="done"} 4.9',
+      'latency_seconds_count{outcome="done"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  it('should reject duplicate metric names', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('dup_total', 'First');
+
+    expect(() => registry.gauge('dup_total', 'Second', () => 0)).toThrow('Metric dup_total is already registered');
+  });
+
+  it('should read gateway gauges and the transcript counter from their sources', () => {
+    let bytes = 10;
+    const metrics = createGatewayMetrics({
+      connectedClients: () => 2,
+      inFlightRequests: () => 1,
+      transcriptBytesWritten: () => bytes,
+    });
+    bytes = 25;
+
+    const text = metrics.registry.render();
+
+    expect(text).toContain('openclaw_connected_clients 2\n');
+    expect(text).toContain('openclaw_inflight_requests 1\n');
+    expect(text).toContain('openclaw_transcript_bytes_written_total 25\n');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Label values of one metric series
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default buckets for agent run latency, in seconds
+ */
+export const RUN_DURATION_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+interface Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: 'counter' | 'gauge' | 'histogram';
+  samples(): Array<{ suffix?: string; labels: Labels; value: number }>;
+}
+
+/**
+ * Counter - A value that only goes up, per label set
+ * With `collect` the value is read from the source at scrape time instead.
+ */
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(readonly name: string, readonly help: string, private collect?: () => number) {}
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = seriesKey(labels);
+    const series = this.values.get(key) ?? { labels, value: 0 };
+    series.value += amount;
+    this.values.set(key, series);
+  }
+
+  get(labels: Labels = {}): number {
+    if (this.collect) {
+      return this.collect();
+    }
+    return this.values.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  samples(): Array<{ labels: Labels; value: number }> {
+    if (this.collect) {
+      return [{ labels: {}, value: this.collect() }];
+    }
+    return [...this.values.values()].map(({ labels, value }) => ({ labels, value }));
+  }
+}
+
+/**
+ * Gauge - A value read from its source at scrape time
+ */
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+
+  constructor(readonly name: string, readonly help: string, private collect: () => number) {}
+
+  samples(): Array<{ labels: Labels; value: number }> {
+    return [{ labels: {}, value: this.collect() }];
+  }
+}
+
+/**
+ * Histogram - Observations counted into cumulative buckets, per label set
+ */
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.counts[i]!++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  samples(): Array<{ suffix: string; labels: Labels; value: number }> {
+    const samples: Array<{ suffix: string; labels: Labels; value: number }> = [];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        samples.push({ suffix: '_bucket', labels: { ...labels, le: String(bound) }, value: counts[i]! });
+      });
+      samples.push({ suffix: '_bucket', labels: { ...labels, le: '+Inf' }, value: count });
+      samples.push({ suffix: '_sum', labels, value: sum });
+      samples.push({ suffix: '_count', labels, value: count });
+    }
+    return samples;
+  }
+}
+
+/**
+ * MetricsRegistry - Holds metrics and renders them in the Prometheus text format
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string, collect?: () => number): Counter {
+    return this.register(new Counter(name, help, collect));
+  }
+
+  gauge(name: string, help: string, collect: () => number): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      for (const { suffix, labels, value } of metric.samples()) {
+        lines.push(`${metric.name}${suffix ?? ''}${formatLabels(labels)} ${formatValue(value)}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.some(m => m.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escaped = entries.map(([name, value]) =>
+    `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${escaped.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * The metrics a Gateway exposes on /metrics
+ */
+export interface GatewayMetrics {
+  registry: MetricsRegistry;
+  /** Labelled by `outcome`: done, cancelled or error */
+  agentRunDuration: Histogram;
+  /** Labelled by `tool` */
+  toolCalls: Counter;
+  /** Labelled by `tool` and `error_type` */
+  toolFailures: Counter;
+  /** Labelled by `transport`: websocket or http */
+  authFailures: Counter;
+  transcriptBytes: Counter;
+}
+
+/**
+ * Where the Gateway's point-in-time values are read from at scrape time
+ */
+export interface GatewayMetricSources {
+  connectedClients: () => number;
+  inFlightRequests: () => number;
+  transcriptBytesWritten: () => number;
+}
+
+/**
+ * Creates the Gateway's metrics in a fresh registry
+ */
+export function createGatewayMetrics(sources: GatewayMetricSources): GatewayMetrics {
+  const registry = new MetricsRegistry();
+  registry.gauge('openclaw_connected_clients', 'WebSocket clients currently connected', sources.connectedClients);
+  registry.gauge('openclaw_inflight_requests', 'Requests queued or running', sources.inFlightRequests);
+  return {
+    registry,
+    agentRunDuration: registry.histogram(
+      'openclaw_agent_run_duration_seconds',
+      'Duration of agent runs from start to finish',
+      RUN_DURATION_BUCKETS
+    ),
+    toolCalls: registry.counter('openclaw_tool_calls_total', 'Tool calls made by the agent'),
+    toolFailures: registry.counter('openclaw_tool_call_failures_total', 'Tool calls that failed'),
+    authFailures: registry.counter('openclaw_auth_failures_total', 'Rejected authentication attempts'),
+    transcriptBytes: registry.counter(
+      'openclaw_transcript_bytes_written_total',
+      'Bytes written to session transcripts',
+      sources.transcriptBytesWritten
+    ),
+  };
+}
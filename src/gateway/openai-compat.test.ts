@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ChatRequestError,
+  finishReason,
+  messageText,
+  toAgentConversation,
+  toChatToolCall,
+} from './openai-compat.js';
+
+describe('openai-compat', () => {
+  describe('toAgentConversation', () => {
+    it('should map earlier messages to history and system messages to instructions', () => {
+      const conversation = toAgentConversation([
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'What is in notes.md?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"notes.md"}' } }],
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: 'buy milk' },
+        { role: 'assistant', content: 'It says: buy milk.' },
+        { role: 'developer', content: [{ type: 'text', text: 'Answer in English.' }] },
+        { role: 'user', content: [{ type: 'text', text: 'Anything ' }, { type: 'image_url' }, { type: 'text', text: 'else?' }] },
+      ]);
+
+      expect(conversation.instructions).toBe('Be brief.\n\nAnswer in English.');
+      expect(conversation.content).toBe('Anything else?');
+      expect(conversation.history.map(({ role, content, toolCall, toolResult }) => ({ role, content, toolCall, toolResult }))).toEqual([
+        { role: 'user', content: 'What is in notes.md?', toolCall: undefined, toolResult: undefined },
+        { role: 'tool', content: '', toolCall: { id: 'call_1', name: 'read_file', arguments: '{"path":"notes.md"}' }, toolResult: undefined },
+        { role: 'tool', content: 'buy milk', toolCall: undefined, toolResult: { callId: 'call_1', success: true, output: 'buy milk' } },
+        { role: 'assistant', content: 'It says: buy milk.', toolCall: undefined, toolResult: undefined },
+      ]);
+    });
+
+    it('should require a final user message with text', () => {
+      const notUser = (): unknown => toAgentConversation([{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }]);
+      const empty = (): unknown => toAgentConversation([{ role: 'user', content: '  ' }]);
+
+      expect(notUser).toThrow(ChatRequestError);
+      expect(notUser).toThrow('The last message must have role "user"');
+      expect(empty).toThrow('The last user message has no text');
+    });
+  });
+
+  it('should convert tool calls, content and stop reasons', () => {
+    expect(toChatToolCall({ id: 'c1', name: 'glob', arguments: { pattern: '*.md' } })).toEqual({
+      id: 'c1',
+      type: 'function',
+      function: { name: 'glob', arguments: '{"pattern":"*.md"}' },
+    });
+    expect(messageText(null)).toBe('');
+    expect(finishReason('max_tokens')).toBe('length');
+    expect(finishReason('max_iterations')).toBe('stop');
+    expect(finishReason()).toBe('stop');
+  });
+});
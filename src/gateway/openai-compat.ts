@@ -0,0 +1,218 @@
+import { z } from 'zod';
+import type { TranscriptEntry } from '../session/session-manager.js';
+import type { ToolCall } from '../tools/tool-system.js';
+import type { AgentUsage } from '../agent/agent-runtime.js';
+
+/**
+ * Header binding a chat completion to an OpenClaw session
+ */
+export const SESSION_HEADER = 'x-openclaw-session-id';
+
+/**
+ * Model name reported when the request does not name one
+ */
+export const DEFAULT_COMPLETION_MODEL = 'openclaw';
+
+const ContentPartSchema = z.object({
+  type: z.string(),
+  text: z.string().optional(),
+}).passthrough();
+
+const ChatToolCallSchema = z.object({
+  id: z.string(),
+  type: z.literal('function'),
+  function: z.object({
+    name: z.string(),
+    arguments: z.string(),
+  }),
+});
+
+const ChatMessageSchema = z.object({
+  role: z.enum(['system', 'developer', 'user', 'assistant', 'tool']),
+  content: z.union([z.string(), z.array(ContentPartSchema)]).nullable().optional(),
+  name: z.string().optional(),
+  tool_calls: z.array(ChatToolCallSchema).optional(),
+  tool_call_id: z.string().optional(),
+});
+
+/**
+ * The part of an OpenAI chat completion request the gateway uses
+ * Sampling parameters and client-side `tools` are accepted and ignored:
+ * the agent runs with the gateway's own tools.
+ */
+export const ChatCompletionRequestSchema = z.object({
+  model: z.string().optional(),
+  messages: z.array(ChatMessageSchema).min(1),
+  stream: z.boolean().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).optional(),
+});
+
+export type ChatCompletionRequest = z.infer<typeof ChatCompletionRequestSchema>;
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+/**
+ * A tool call in the OpenAI format
+ */
+export interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatCompletion {
+  id: string;
+  object: 'chat.completion';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: 0;
+    message: { role: 'assistant'; content: string; tool_calls?: ChatToolCall[] };
+    finish_reason: string;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+export interface ChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: Array<{
+    index: 0;
+    delta: { role?: 'assistant'; content?: string; tool_calls?: Array<ChatToolCall & { index: number }> };
+    finish_reason: string | null;
+  }>;
+  usage?: ChatCompletionUsage;
+}
+
+/**
+ * A chat request translated for the agent: the earlier messages as
+ * transcript entries, system messages as instructions, and the final user
+ * message as the one to answer
+ */
+export interface AgentConversation {
+  history: TranscriptEntry[];
+  instructions: string;
+  content: string;
+}
+
+/**
+ * Thrown when the messages cannot be mapped to an agent run
+ */
+export class ChatRequestError extends Error {
+  constructor(message: string, readonly field: string) {
+    super(message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+/**
+ * Flattens string or content-part message content to text
+ * Non-text parts (images, audio) are dropped.
+ */
+export function messageText(content: ChatMessage['content']): string {
+  if (content === null || content === undefined) {
+    return '';
+  }
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter(part => part.type === 'text' && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('');
+}
+
+/**
+ * Maps chat messages to an agent conversation
+ * The last message must come from the user. Assistant tool calls and tool
+ * messages become tool transcript entries linked by call id.
+ */
+export function toAgentConversation(messages: ChatMessage[]): AgentConversation {
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== 'user') {
+    throw new ChatRequestError('The last message must have role "user"', `messages.${messages.length - 1}.role`);
+  }
+  const content = messageText(last.content);
+  if (!content.trim()) {
+    throw new ChatRequestError('The last user message has no text', `messages.${messages.length - 1}.content`);
+  }
+
+  const instructions: string[] = [];
+  const history: TranscriptEntry[] = [];
+  const timestamp = Date.now();
+  const entry = (fields: Omit<TranscriptEntry, 'id' | 'timestamp'>): void => {
+    history.push({ id: `message-${history.length}`, timestamp, ...fields });
+  };
+
+  for (const message of messages.slice(0, -1)) {
+    const text = messageText(message.content);
+    switch (message.role) {
+      case 'system':
+      case 'developer':
+        instructions.push(text);
+        break;
+      case 'user':
+        entry({ role: 'user', content: text });
+        break;
+      case 'assistant':
+        if (text) {
+          entry({ role: 'assistant', content: text });
+        }
+        for (const call of message.tool_calls ?? []) {
+          entry({
+            role: 'tool',
+            content: '',
+            toolCall: { id: call.id, name: call.function.name, arguments: call.function.arguments },
+          });
+        }
+        break;
+      case 'tool':
+        entry({
+          role: 'tool',
+          content: text,
+          toolResult: { callId: message.tool_call_id ?? '', success: true, output: text },
+        });
+        break;
+    }
+  }
+
+  return { history, instructions: instructions.filter(Boolean).join('\n\n'), content };
+}
+
+/**
+ * Converts an OpenClaw tool call to the OpenAI format
+ */
+export function toChatToolCall(toolCall: ToolCall): ChatToolCall {
+  return {
+    id: toolCall.id,
+    type: 'function',
+    function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) },
+  };
+}
+
+/**
+ * Converts accumulated agent usage to the OpenAI format
+ */
+export function toChatUsage(usage: AgentUsage): ChatCompletionUsage {
+  return {
+    prompt_tokens: usage.inputTokens,
+    completion_tokens: usage.outputTokens,
+    total_tokens: usage.inputTokens + usage.outputTokens,
+  };
+}
+
+/**
+ * Maps an agent stop reason to an OpenAI finish reason
+ * Tool calls are run by the gateway, so a finished run never ends with
+ * `tool_calls`.
+ */
+export function finishReason(stopReason?: string): string {
+  return stopReason === 'max_tokens' || stopReason === 'length' ? 'length' : 'stop';
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PROTOCOL_VERSION,
+  negotiateVersion,
+  parseClientMessage,
+  parseServerMessage,
+  protocolJsonSchema,
+  type ServerMessage,
+} from './protocol.js';
+import { validateSchema } from '../tools/json-schema.js';
+
+describe('protocol', () => {
+  describe('parseClientMessage', () => {
+    it('should accept valid messages and fill defaults', () => {
+      const hello = parseClientMessage(JSON.stringify({ type: 'hello', protocolVersions: [1] }));
+      const message = parseClientMessage(JSON.stringify({ type: 'message', content: 'hi', requestId: 'r1' }));
+
+      expect(hello).toEqual({ success: true, message: { type: 'hello', protocolVersions: [1], capabilities: [] } });
+      expect(message).toEqual({ success: true, message: { type: 'message', content: 'hi', requestId: 'r1' } });
+    });
+
+    it('should name the failing field and echo the request id', () => {
+      const result = parseClientMessage(JSON.stringify({ type: 'load_session', requestId: 'r2' }));
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          type: 'protocol_error',
+          requestId: 'r2',
+          error: 'Invalid message: sessionId: Required',
+          payload: { code: 'invalid_message', field: 'sessionId', issues: [{ field: 'sessionId', message: 'Required' }] },
+        },
+      });
+    });
+
+    it('should report nested fields, unknown types and invalid JSON', () => {
+      const decision = parseClientMessage(JSON.stringify({ type: 'approval_response', approvalId: 'a', decision: 'maybe' }));
+      const unknown = parseClientMessage(JSON.stringify({ type: 'shout' }));
+      const notObject = parseClientMessage('[]');
+      const json = parseClientMessage('{ nope');
+
+      expect(!decision.success && decision.error.payload.field).toBe('decision');
+      expect(!unknown.success && unknown.error.payload).toMatchObject({ code: 'invalid_message', field: 'type' });
+      expect(!notObject.success && notObject.error.payload.field).toBe('(message)');
+      expect(!json.success && json.error.payload).toEqual({ code: 'invalid_json', issues: [] });
+      expect(!json.success && json.error.error).toMatch(/^Invalid JSON message: /);
+    });
+  });
+
+  describe('parseServerMessage', () => {
+    it('should check payloads against the event type', () => {
+      const valid = parseServerMessage(JSON.stringify({
+        type: 'tool_result',
+        sessionId: 's',
+        requestId: 'r',
+        payload: { callId: 'c', success: false, error: { toolName: 't', errorType: 'timeout', message: 'slow' } },
+      }));
+      const invalid = parseServerMessage(JSON.stringify({ type: 'queued', sessionId: 's', requestId: 'r', payload: { position: 'first' } }));
+
+      expect(valid.success).toBe(true);
+      expect(!invalid.success && invalid.error.payload.field).toBe('payload.position');
+    });
+  });
+
+  describe('negotiateVersion', () => {
+    it('should pick the highest shared version', () => {
+      expect(negotiateVersion([PROTOCOL_VERSION, 99])).toBe(PROTOCOL_VERSION);
+      expect(negotiateVersion([99])).toBeNull();
+    });
+  });
+
+  describe('protocolJsonSchema', () => {
+    const schema = protocolJsonSchema();
+
+    it('should describe both directions', () => {
+      const defs = schema.$defs as Record<string, { oneOf: Array<{ properties: { type: { const: string } } }> }>;
+      const types = (name: string) => defs[name]!.oneOf.map(variant => variant.properties.type.const);
+
+      expect(types('ClientMessage')).toEqual(['hello', 'auth', 'create_session', 'load_session', 'message', 'cancel', 'approval_response', 'resume']);
+      expect(types('ServerMessage')).toContain('protocol_error');
+      expect(defs['ClientMessage']!.oneOf[0]).toMatchObject({
+        required: ['type', 'protocolVersions'],
+        properties: { protocolVersions: { type: 'array', items: { type: 'integer', exclusiveMinimum: 0 }, minItems: 1 }, capabilities: { default: [] } },
+      });
+    });
+
+    it('should accept the messages zod accepts and reject the ones it rejects', () => {
+      const messages: Array<[unknown, boolean]> = [
+        [{ type: 'auth', token: 'secret', requestId: 'r1' }, true],
+        [{ type: 'approval_response', approvalId: 'a', decision: 'always' }, true],
+        [{ type: 'load_session' }, false],
+        [{ type: 'approval_response', approvalId: 'a', decision: 'maybe' }, false],
+        [{ type: 'hello', protocolVersions: [] }, false],
+        [{ type: 'resume', requestId: 'r1', lastSeq: 0 }, true],
+        [{ type: 'resume', requestId: 'r1', lastSeq: -1 }, false],
+        [{ type: 'resume', lastSeq: 3 }, false],
+      ];
+      const server: ServerMessage = {
+        type: 'approval_request',
+        sessionId: 's',
+        requestId: 'r',
+        seq: 4,
+        payload: { approvalId: 'a', toolCall: { id: 'c', name: 'write_file', arguments: { path: 'x' } }, reason: 'outside', timeoutMs: 1000 },
+      };
+
+      for (const [message, valid] of messages) {
+        expect(parseClientMessage(JSON.stringify(message)).success).toBe(valid);
+        expect(validateSchema(schema, message).length === 0).toBe(valid);
+      }
+      expect(validateSchema(schema, server)).toEqual([]);
+      expect(validateSchema(schema, { ...server, payload: { ...server.payload, timeoutMs: -1 } })).not.toEqual([]);
+      expect(validateSchema(schema, { ...server, seq: 0 })).not.toEqual([]);
+    });
+  });
+});
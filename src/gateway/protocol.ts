@@ -0,0 +1,530 @@
+import { z, ZodFirstPartyTypeKind, type ZodTypeAny } from 'zod';
+import type { JSONSchema } from '../tools/json-schema.js';
+
+/**
+ * Gateway WebSocket protocol
+ *
+ * Every message is a JSON object with a `type`. The schemas here are the
+ * single definition of the protocol: the Gateway validates what clients
+ * send against them, the CLI parses what the Gateway sends with them, and
+ * `protocolJsonSchema()` exports them for clients written in other
+ * languages.
+ *
+ * A client may open with `hello` to negotiate the protocol version and
+ * capabilities; one that does not speaks version 1 with every capability.
+ * Any client message may carry a `requestId`, which the Gateway echoes on
+ * every message it sends in response.
+ *
+ * The events of a run are numbered by `seq`, counting from 1 per request.
+ * A client that lost its connection mid-run sends `resume` with the last
+ * `seq` it saw; the Gateway replays the events it missed and streams the
+ * rest of the run to the new connection.
+ */
+
+/**
+ * Protocol version this Gateway speaks by default
+ */
+export const PROTOCOL_VERSION = 1;
+
+/**
+ * Protocol versions this Gateway can speak
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly number[] = [1];
+
+/**
+ * Optional features a client can opt into with `hello`
+ * - `approvals`: the client answers `approval_request`s; without it, tool
+ *   calls that need approval are denied
+ * - `tool_output`: the client receives `tool_output_delta` events
+ * - `usage`: the client receives `usage` events
+ */
+export const GATEWAY_CAPABILITIES = ['approvals', 'tool_output', 'usage'] as const;
+
+export type GatewayCapability = typeof GATEWAY_CAPABILITIES[number];
+
+const RequestIdSchema = z.string().min(1).max(256);
+
+// Position of an event in its request's stream
+const SeqSchema = z.number().int().positive();
+
+// ---------------------------------------------------------------------------
+// Client → Gateway
+
+const ClientHelloSchema = z.object({
+  type: z.literal('hello'),
+  requestId: RequestIdSchema.optional(),
+  // Versions the client can speak; the Gateway picks the highest it shares
+  protocolVersions: z.array(z.number().int().positive()).min(1),
+  capabilities: z.array(z.string()).default([]),
+  client: z.object({
+    name: z.string().min(1),
+    version: z.string().optional(),
+  }).optional(),
+});
+
+const AuthSchema = z.object({
+  type: z.literal('auth'),
+  requestId: RequestIdSchema.optional(),
+  token: z.string(),
+});
+
+const CreateSessionSchema = z.object({
+  type: z.literal('create_session'),
+  requestId: RequestIdSchema.optional(),
+});
+
+const LoadSessionSchema = z.object({
+  type: z.literal('load_session'),
+  requestId: RequestIdSchema.optional(),
+  sessionId: z.string().min(1),
+});
+
+const UserMessageSchema = z.object({
+  type: z.literal('message'),
+  // Names the run so it can be cancelled; generated by the Gateway if absent
+  requestId: RequestIdSchema.optional(),
+  content: z.string(),
+});
+
+const CancelSchema = z.object({
+  type: z.literal('cancel'),
+  // The run to cancel; without one, all of the client's runs are cancelled
+  requestId: RequestIdSchema.optional(),
+});
+
+const ApprovalResponseSchema = z.object({
+  type: z.literal('approval_response'),
+  requestId: RequestIdSchema.optional(),
+  approvalId: z.string().min(1),
+  // `always` also approves later calls the same policy rule asks about in this session
+  decision: z.enum(['allow', 'deny', 'always']),
+});
+
+const ResumeSchema = z.object({
+  type: z.literal('resume'),
+  // The run to reattach to
+  requestId: RequestIdSchema,
+  // Highest `seq` already received; 0 replays every buffered event
+  lastSeq: z.number().int().nonnegative(),
+});
+
+/**
+ * Any message a client may send
+ */
+export const ClientMessageSchema = z.discriminatedUnion('type', [
+  ClientHelloSchema,
+  AuthSchema,
+  CreateSessionSchema,
+  LoadSessionSchema,
+  UserMessageSchema,
+  CancelSchema,
+  ApprovalResponseSchema,
+  ResumeSchema,
+]);
+
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+
+// ---------------------------------------------------------------------------
+// Gateway → client
+
+const ToolCallSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  arguments: z.record(z.unknown()),
+});
+
+const ToolResultSchema = z.object({
+  callId: z.string(),
+  success: z.boolean(),
+  output: z.string().optional(),
+  error: z.object({
+    toolName: z.string(),
+    errorType: z.enum(['validation', 'execution', 'timeout', 'not_found', 'permission_denied']),
+    message: z.string(),
+    details: z.unknown().optional(),
+  }).optional(),
+});
+
+const ServerHelloSchema = z.object({
+  type: z.literal('hello'),
+  requestId: RequestIdSchema.optional(),
+  protocolVersion: z.number().int().positive(),
+  // Capabilities both sides support; only these are used on the connection
+  capabilities: z.array(z.enum(GATEWAY_CAPABILITIES)),
+});
+
+const AuthResultSchema = z.object({
+  type: z.literal('auth_result'),
+  requestId: RequestIdSchema.optional(),
+  // Sent unprompted with success false when a client connects
+  success: z.boolean(),
+  error: z.string().optional(),
+});
+
+const SessionCreatedSchema = z.object({
+  type: z.literal('session_created'),
+  requestId: RequestIdSchema.optional(),
+  success: z.boolean(),
+  sessionId: z.string(),
+});
+
+const SessionLoadedSchema = z.object({
+  type: z.literal('session_loaded'),
+  requestId: RequestIdSchema.optional(),
+  success: z.boolean(),
+  sessionId: z.string(),
+});
+
+// Sent before the replayed events; later events of the run follow them
+const ResumedSchema = z.object({
+  type: z.literal('resumed'),
+  requestId: RequestIdSchema,
+  sessionId: z.string(),
+  payload: z.object({
+    replayed: z.number().int().nonnegative(),
+    // Highest `seq` sent so far, replayed events included
+    lastSeq: z.number().int().nonnegative(),
+  }),
+});
+
+// Events of a run carry its session and request ids and their `seq`
+const QueuedSchema = z.object({
+  type: z.literal('queued'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  payload: z.object({ position: z.number().int().nonnegative() }),
+});
+
+const ContextCompactedSchema = z.object({
+  type: z.literal('context_compacted'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  payload: z.object({
+    tokensBefore: z.number(),
+    tokensAfter: z.number(),
+    compactedMessages: z.number().int().nonnegative(),
+  }),
+});
+
+const ApprovalRequestSchema = z.object({
+  type: z.literal('approval_request'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  payload: z.object({
+    approvalId: z.string(),
+    toolCall: ToolCallSchema,
+    reason: z.string(),
+    timeoutMs: z.number().int().positive(),
+  }),
+});
+
+const TextDeltaSchema = z.object({
+  type: z.literal('text_delta'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  content: z.string(),
+});
+
+const ToolCallEventSchema = z.object({
+  type: z.literal('tool_call'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  payload: ToolCallSchema,
+});
+
+const ToolOutputDeltaSchema = z.object({
+  type: z.literal('tool_output_delta'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  payload: z.object({
+    callId: z.string(),
+    stream: z.enum(['stdout', 'stderr']),
+    content: z.string(),
+  }),
+});
+
+const ToolResultEventSchema = z.object({
+  type: z.literal('tool_result'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  payload: ToolResultSchema,
+});
+
+const UsageSchema = z.object({
+  type: z.literal('usage'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  payload: z.object({
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    cacheReadTokens: z.number().optional(),
+    cacheCreationTokens: z.number().optional(),
+    costUsd: z.number().optional(),
+  }),
+});
+
+const DoneSchema = z.object({
+  type: z.literal('done'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  content: z.string(),
+  payload: z.object({ stopReason: z.string() }).optional(),
+});
+
+const CancelledSchema = z.object({
+  type: z.literal('cancelled'),
+  sessionId: z.string(),
+  requestId: RequestIdSchema,
+  seq: SeqSchema.optional(),
+  content: z.string(),
+});
+
+const ErrorSchema = z.object({
+  type: z.literal('error'),
+  sessionId: z.string().optional(),
+  requestId: RequestIdSchema.optional(),
+  seq: SeqSchema.optional(),
+  error: z.string(),
+  payload: z.unknown().optional(),
+});
+
+const ProtocolErrorSchema = z.object({
+  type: z.literal('protocol_error'),
+  requestId: RequestIdSchema.optional(),
+  error: z.string(),
+  payload: z.object({
+    code: z.enum(['invalid_json', 'invalid_message', 'unsupported_version']),
+    // Dotted path of the first offending field, e.g. `sessionId`
+    field: z.string().optional(),
+    issues: z.array(z.object({ field: z.string(), message: z.string() })),
+    supportedVersions: z.array(z.number().int().positive()).optional(),
+  }),
+});
+
+/**
+ * Any message the Gateway may send
+ */
+export const ServerMessageSchema = z.discriminatedUnion('type', [
+  ServerHelloSchema,
+  AuthResultSchema,
+  SessionCreatedSchema,
+  SessionLoadedSchema,
+  ResumedSchema,
+  QueuedSchema,
+  ContextCompactedSchema,
+  ApprovalRequestSchema,
+  TextDeltaSchema,
+  ToolCallEventSchema,
+  ToolOutputDeltaSchema,
+  ToolResultEventSchema,
+  UsageSchema,
+  DoneSchema,
+  CancelledSchema,
+  ErrorSchema,
+  ProtocolErrorSchema,
+]);
+
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+/**
+ * Message types a run streams, which carry a `seq`
+ */
+export const STREAM_EVENT_TYPES = [
+  'queued',
+  'context_compacted',
+  'approval_request',
+  'text_delta',
+  'tool_call',
+  'tool_output_delta',
+  'tool_result',
+  'usage',
+  'done',
+  'cancelled',
+  'error',
+] as const;
+
+export type StreamEvent = Extract<ServerMessage, { type: typeof STREAM_EVENT_TYPES[number] }>;
+
+export type ProtocolErrorMessage = z.infer<typeof ProtocolErrorSchema>;
+
+/**
+ * Result of parsing a raw message
+ */
+export type ParseResult<T> =
+  | { success: true; message: T }
+  | { success: false; error: ProtocolErrorMessage };
+
+/**
+ * Parses and validates a client message
+ * A failure carries the `protocol_error` to send back, naming the first
+ * offending field and echoing the request id if one could be read.
+ */
+export function parseClientMessage(data: string): ParseResult<ClientMessage> {
+  return parseMessage(ClientMessageSchema, data);
+}
+
+/**
+ * Parses and validates a Gateway message
+ */
+export function parseServerMessage(data: string): ParseResult<ServerMessage> {
+  return parseMessage(ServerMessageSchema, data);
+}
+
+function parseMessage<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: string): ParseResult<T> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    return {
+      success: false,
+      error: protocolError('invalid_json', `Invalid JSON message: ${error instanceof Error ? error.message : String(error)}`, []),
+    };
+  }
+
+  const result = schema.safeParse(raw);
+  if (result.success) {
+    return { success: true, message: result.data };
+  }
+
+  const issues = result.error.issues.map(issue => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : '(message)',
+    message: issue.message,
+  }));
+  const first = issues[0]!;
+  const requestId = typeof raw === 'object' && raw !== null ? (raw as { requestId?: unknown }).requestId : undefined;
+
+  return {
+    success: false,
+    error: protocolError(
+      'invalid_message',
+      `Invalid message: ${first.field}: ${first.message}`,
+      issues,
+      typeof requestId === 'string' && RequestIdSchema.safeParse(requestId).success ? requestId : undefined
+    ),
+  };
+}
+
+/**
+ * Builds a `protocol_error` message
+ */
+export function protocolError(
+  code: ProtocolErrorMessage['payload']['code'],
+  error: string,
+  issues: Array<{ field: string; message: string }>,
+  requestId?: string
+): ProtocolErrorMessage {
+  const field = issues[0]?.field;
+  return {
+    type: 'protocol_error',
+    ...(requestId ? { requestId } : {}),
+    error,
+    payload: {
+      code,
+      ...(field ? { field } : {}),
+      issues,
+      ...(code === 'unsupported_version' ? { supportedVersions: [...SUPPORTED_PROTOCOL_VERSIONS] } : {}),
+    },
+  };
+}
+
+/**
+ * Picks the highest protocol version both sides speak, or null if none
+ */
+export function negotiateVersion(clientVersions: number[]): number | null {
+  const shared = clientVersions.filter(version => SUPPORTED_PROTOCOL_VERSIONS.includes(version));
+  return shared.length > 0 ? Math.max(...shared) : null;
+}
+
+/**
+ * Builds the JSON Schema (draft 2020-12) of the protocol
+ * `ClientMessage` and `ServerMessage` under `$defs` describe the two
+ * directions; the document itself accepts either.
+ */
+export function protocolJsonSchema(): JSONSchema {
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `urn:openclaw:gateway-protocol:v${PROTOCOL_VERSION}`,
+    title: `OpenClaw Gateway protocol v${PROTOCOL_VERSION}`,
+    $defs: {
+      ClientMessage: toJsonSchema(ClientMessageSchema),
+      ServerMessage: toJsonSchema(ServerMessageSchema),
+    },
+    anyOf: [
+      { $ref: '#/$defs/ClientMessage' },
+      { $ref: '#/$defs/ServerMessage' },
+    ],
+  };
+}
+
+/**
+ * Converts the zod types used by the protocol to JSON Schema
+ */
+function toJsonSchema(schema: ZodTypeAny): JSONSchema {
+  const def = schema._def as { typeName: ZodFirstPartyTypeKind; checks?: Array<{ kind: string; value?: number }> };
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+      const properties: Record<string, JSONSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        if (!value.isOptional()) {
+          required.push(key);
+        }
+      }
+      return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) };
+    }
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JSONSchema = { type: 'string' };
+      for (const check of def.checks ?? []) {
+        if (check.kind === 'min') result.minLength = check.value!;
+        if (check.kind === 'max') result.maxLength = check.value!;
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const checks = (schema as z.ZodNumber)._def.checks;
+      const result: JSONSchema = { type: checks.some(check => check.kind === 'int') ? 'integer' : 'number' };
+      for (const check of checks) {
+        if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return result;
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: (schema as z.ZodLiteral<unknown>).value };
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] };
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const array = schema as z.ZodArray<ZodTypeAny>;
+      const minItems = array._def.minLength?.value;
+      return { type: 'array', items: toJsonSchema(array.element), ...(minItems !== undefined ? { minItems } : {}) };
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: toJsonSchema((schema as z.ZodRecord).valueSchema) };
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema((schema as z.ZodOptional<ZodTypeAny>).unwrap());
+    case ZodFirstPartyTypeKind.ZodDefault: {
+      const inner = schema as z.ZodDefault<ZodTypeAny>;
+      return { ...toJsonSchema(inner.removeDefault()), default: inner._def.defaultValue() };
+    }
+    case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { oneOf: (schema as z.ZodDiscriminatedUnion<string, z.AnyZodObject[]>).options.map(toJsonSchema) };
+    case ZodFirstPartyTypeKind.ZodUnknown:
+      return {};
+    default:
+      throw new Error(`No JSON Schema conversion for ${def.typeName}`);
+  }
+}
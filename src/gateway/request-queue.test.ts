@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { RequestQueue, type EnqueueResult, type QueueSlot } from './request-queue.js';
+
+/**
+ * Awaits an accepted request's slot
+ */
+async function started(result: EnqueueResult): Promise<QueueSlot> {
+  if (!result.accepted) {
+    throw new Error('Request was rejected');
+  }
+  const slot = await result.ready;
+  if (!slot) {
+    throw new Error('Request was cancelled');
+  }
+  return slot;
+}
+
+/**
+ * Checks whether an accepted request has started, without waiting for it
+ */
+async function hasStarted(result: EnqueueResult): Promise<boolean> {
+  if (!result.accepted) {
+    return false;
+  }
+  let slot: QueueSlot | null | undefined;
+  void result.ready.then((value) => {
+    slot = value;
+  });
+  await new Promise(resolve => setImmediate(resolve));
+  return slot !== undefined && slot !== null;
+}
+
+describe('RequestQueue', () => {
+  it('should start a request on an idle session immediately', async () => {
+    const queue = new RequestQueue();
+
+    const first = queue.enqueue('s1', 'r1');
+
+    expect(await hasStarted(first)).toBe(true);
+    expect(queue.runningCount).toBe(1);
+  });
+
+  it('should run requests on the same session one at a time, in order', async () => {
+    const queue = new RequestQueue();
+    const positions: number[] = [];
+
+    const first = queue.enqueue('s1', 'r1');
+    const second = queue.enqueue('s1', 'r2', { onPosition: p => positions.push(p) });
+    const third = queue.enqueue('s1', 'r3');
+
+    const slot = await started(first);
+    expect(await hasStarted(second)).toBe(false);
+    expect(positions).toEqual([1]);
+    expect(queue.waitingCount('s1')).toBe(2);
+
+    slot.release();
+    const secondSlot = await started(second);
+    expect(await hasStarted(third)).toBe(false);
+
+    secondSlot.release();
+    expect(await hasStarted(third)).toBe(true);
+  });
+
+  it('should report new positions as requests ahead leave the line', async () => {
+    const queue = new RequestQueue();
+    const positions: number[] = [];
+
+    const first = queue.enqueue('s1', 'r1');
+    queue.enqueue('s1', 'r2');
+    queue.enqueue('s1', 'r3', { onPosition: p => positions.push(p) });
+
+    (await started(first)).release();
+
+    expect(positions).toEqual([2, 1]);
+  });
+
+  it('should run different sessions concurrently up to the global cap', async () => {
+    const queue = new RequestQueue({ maxConcurrentRuns: 2 });
+
+    const a = queue.enqueue('a', 'r1');
+    const b = queue.enqueue('b', 'r2');
+    const c = queue.enqueue('c', 'r3');
+
+    expect(await hasStarted(a)).toBe(true);
+    expect(await hasStarted(b)).toBe(true);
+    expect(await hasStarted(c)).toBe(false);
+
+    (await started(a)).release();
+    expect(await hasStarted(c)).toBe(true);
+  });
+
+  it('should reject requests beyond the session queue depth', async () => {
+    const queue = new RequestQueue({ maxQueueDepth: 1 });
+
+    queue.enqueue('s1', 'r1');
+    queue.enqueue('s1', 'r2');
+    const rejected = queue.enqueue('s1', 'r3');
+
+    expect(rejected).toEqual({
+      accepted: false,
+      error: {
+        code: 'queue_full',
+        message: expect.stringContaining('s1') as string,
+        sessionId: 's1',
+        maxQueueDepth: 1,
+      },
+    });
+    // Other sessions are unaffected
+    expect(queue.enqueue('s2', 'r4').accepted).toBe(true);
+  });
+
+  it('should drop a waiting request when its signal is aborted', async () => {
+    const queue = new RequestQueue();
+    const controller = new AbortController();
+
+    const first = queue.enqueue('s1', 'r1');
+    const second = queue.enqueue('s1', 'r2', { signal: controller.signal });
+    const third = queue.enqueue('s1', 'r3');
+
+    controller.abort();
+    expect(second.accepted && (await second.ready)).toBe(null);
+    expect(queue.waitingCount('s1')).toBe(1);
+
+    (await started(first)).release();
+    expect(await hasStarted(third)).toBe(true);
+  });
+
+  it('should start waiting requests when the cap is raised', async () => {
+    const queue = new RequestQueue({ maxConcurrentRuns: 1 });
+
+    queue.enqueue('a', 'r1');
+    const b = queue.enqueue('b', 'r2');
+    expect(await hasStarted(b)).toBe(false);
+
+    queue.configure({ maxConcurrentRuns: 2 });
+    expect(await hasStarted(b)).toBe(true);
+  });
+
+  it('should ignore a second release of the same slot', async () => {
+    const queue = new RequestQueue();
+
+    const slot = await started(queue.enqueue('s1', 'r1'));
+    slot.release();
+    slot.release();
+
+    expect(queue.runningCount).toBe(0);
+  });
+});
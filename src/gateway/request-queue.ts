@@ -0,0 +1,219 @@
+/**
+ * Request queue limits
+ * - maxQueueDepth: requests allowed to wait per session, not counting the one running
+ * - maxConcurrentRuns: agent runs allowed at once across all sessions
+ */
+export interface RequestQueueConfig {
+  maxQueueDepth: number;
+  maxConcurrentRuns: number;
+}
+
+/**
+ * Default request queue limits
+ */
+export const DEFAULT_REQUEST_QUEUE_CONFIG: RequestQueueConfig = {
+  maxQueueDepth: 10,
+  maxConcurrentRuns: 4,
+};
+
+/**
+ * Structured error returned when a session's queue has no room left
+ */
+export interface QueueFullError {
+  code: 'queue_full';
+  message: string;
+  sessionId: string;
+  maxQueueDepth: number;
+}
+
+/**
+ * Options for a queued request
+ * `onPosition` is called with the request's 1-based place in its session's
+ * line whenever that changes while it waits; aborting `signal` removes it
+ */
+export interface EnqueueOptions {
+  signal?: AbortSignal;
+  onPosition?: (position: number) => void;
+}
+
+/**
+ * A started request; `release` must be called once it finishes
+ */
+export interface QueueSlot {
+  release(): void;
+}
+
+/**
+ * Result of enqueueing a request
+ * `ready` resolves with a slot once the request may run, or with null if
+ * it was cancelled while waiting
+ */
+export type EnqueueResult =
+  | { accepted: true; ready: Promise<QueueSlot | null> }
+  | { accepted: false; error: QueueFullError };
+
+interface QueueEntry {
+  sessionId: string;
+  requestId: string;
+  options: EnqueueOptions;
+  resolve: (slot: QueueSlot | null) => void;
+  lastPosition: number;
+}
+
+/**
+ * RequestQueue - Serializes agent runs per session and caps them globally
+ *
+ * Only one request per session runs at a time, so transcript writes and the
+ * history a run is built from never interleave. Waiting requests start in
+ * arrival order as soon as both their session and a global slot are free.
+ */
+export class RequestQueue {
+  private config: RequestQueueConfig;
+  private waiting: QueueEntry[] = [];
+  private activeSessions: Set<string> = new Set();
+  private running = 0;
+
+  constructor(config: Partial<RequestQueueConfig> = {}) {
+    this.config = { ...DEFAULT_REQUEST_QUEUE_CONFIG, ...config };
+  }
+
+  /**
+   * Updates the limits; waiting requests start if the cap was raised
+   */
+  configure(config: Partial<RequestQueueConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.drain();
+  }
+
+  /**
+   * Gets the current limits
+   */
+  getConfig(): RequestQueueConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Number of requests currently running
+   */
+  get runningCount(): number {
+    return this.running;
+  }
+
+  /**
+   * Number of requests waiting, optionally for one session only
+   */
+  waitingCount(sessionId?: string): number {
+    return sessionId === undefined
+      ? this.waiting.length
+      : this.waiting.filter(entry => entry.sessionId === sessionId).length;
+  }
+
+  /**
+   * Adds a request to its session's line
+   * Rejects it when the session already has `maxQueueDepth` requests waiting.
+   */
+  enqueue(sessionId: string, requestId: string, options: EnqueueOptions = {}): EnqueueResult {
+    const mustWait = this.activeSessions.has(sessionId) || this.running >= this.config.maxConcurrentRuns;
+    if (mustWait && this.waitingCount(sessionId) >= this.config.maxQueueDepth) {
+      return {
+        accepted: false,
+        error: {
+          code: 'queue_full',
+          message: `Session ${sessionId} already has ${this.config.maxQueueDepth} queued requests`,
+          sessionId,
+          maxQueueDepth: this.config.maxQueueDepth,
+        },
+      };
+    }
+
+    const ready = new Promise<QueueSlot | null>((resolve) => {
+      const entry: QueueEntry = { sessionId, requestId, options, resolve, lastPosition: 0 };
+      this.waiting.push(entry);
+
+      const { signal } = options;
+      if (signal) {
+        const onAbort = (): void => this.remove(entry);
+        if (signal.aborted) {
+          onAbort();
+          return;
+        }
+        signal.addEventListener('abort', onAbort, { once: true });
+        // Started requests no longer need the listener
+        entry.resolve = (slot) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(slot);
+        };
+      }
+    });
+
+    this.drain();
+    this.notifyPositions();
+    return { accepted: true, ready };
+  }
+
+  /**
+   * Removes a waiting request, resolving it as cancelled
+   */
+  private remove(entry: QueueEntry): void {
+    const index = this.waiting.indexOf(entry);
+    if (index === -1) {
+      return;
+    }
+    this.waiting.splice(index, 1);
+    entry.resolve(null);
+    this.notifyPositions();
+  }
+
+  /**
+   * Starts every waiting request whose session is idle while global slots remain
+   */
+  private drain(): void {
+    for (let i = 0; i < this.waiting.length && this.running < this.config.maxConcurrentRuns; ) {
+      const entry = this.waiting[i]!;
+      if (this.activeSessions.has(entry.sessionId)) {
+        i++;
+        continue;
+      }
+
+      this.waiting.splice(i, 1);
+      this.activeSessions.add(entry.sessionId);
+      this.running++;
+      entry.resolve(this.createSlot(entry.sessionId));
+    }
+  }
+
+  /**
+   * Creates the slot for a started request; releasing it is idempotent
+   */
+  private createSlot(sessionId: string): QueueSlot {
+    let released = false;
+    return {
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.activeSessions.delete(sessionId);
+        this.running--;
+        this.drain();
+        this.notifyPositions();
+      },
+    };
+  }
+
+  /**
+   * Reports changed positions to waiting requests
+   */
+  private notifyPositions(): void {
+    const positions = new Map<string, number>();
+    for (const entry of this.waiting) {
+      const position = (positions.get(entry.sessionId) ?? 0) + 1;
+      positions.set(entry.sessionId, position);
+
+      if (position !== entry.lastPosition) {
+        entry.lastPosition = position;
+        entry.options.onPosition?.(position);
+      }
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { RequestStream } from './request-stream.js';
+import type { RunClient } from './gateway-server.js';
+import type { ServerMessage } from './protocol.js';
+
+function recordingClient(id: string): RunClient & { received: ServerMessage[] } {
+  const received: ServerMessage[] = [];
+  return { id, capabilities: new Set(['usage']), received, send: (message) => received.push(message) };
+}
+
+function delta(content: string): ServerMessage {
+  return { type: 'text_delta', sessionId: 's1', requestId: 'r1', content };
+}
+
+describe('RequestStream', () => {
+  it('should number events and forward them to the attached client', () => {
+    const client = recordingClient('c1');
+    const stream = new RequestStream('r1', 's1', client);
+
+    stream.send(delta('Hel'));
+    stream.send(delta('lo'));
+    stream.send({ type: 'hello', protocolVersion: 1, capabilities: [] });
+
+    expect(client.received).toEqual([
+      { ...delta('Hel'), seq: 1 },
+      { ...delta('lo'), seq: 2 },
+      { type: 'hello', protocolVersion: 1, capabilities: [] },
+    ]);
+    expect(stream.lastSeq).toBe(2);
+    expect(stream.id).toBe('c1');
+  });
+
+  it('should replay missed events to a new client and stream the rest there', () => {
+    const first = recordingClient('c1');
+    const second = recordingClient('c2');
+    const stream = new RequestStream('r1', 's1', first);
+    stream.send(delta('a'));
+    stream.send(delta('b'));
+    stream.send(delta('c'));
+
+    const missed = stream.attach(second, 1);
+    stream.send(delta('d'));
+
+    expect(missed?.map(event => event.seq)).toEqual([2, 3]);
+    expect(second.received).toEqual([{ ...delta('d'), seq: 4 }]);
+    expect(first.received).toHaveLength(3);
+    expect(stream.id).toBe('c2');
+  });
+
+  it('should refuse to attach when missed events were dropped from the buffer', () => {
+    const first = recordingClient('c1');
+    const stream = new RequestStream('r1', 's1', first, 2);
+    stream.send(delta('a'));
+    stream.send(delta('b'));
+    stream.send(delta('c'));
+
+    expect(stream.attach(recordingClient('c2'), 0)).toBeNull();
+    expect(stream.id).toBe('c1');
+    expect(stream.attach(recordingClient('c3'), 1)?.map(event => event.seq)).toEqual([2, 3]);
+    expect(stream.attach(recordingClient('c4'), 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import type { RunClient } from './gateway-server.js';
+import { STREAM_EVENT_TYPES, type ServerMessage, type StreamEvent } from './protocol.js';
+
+/**
+ * Default number of events kept per request for replay
+ */
+export const DEFAULT_REPLAY_BUFFER_SIZE = 1000;
+
+/**
+ * How long a finished request can still be resumed, in milliseconds
+ */
+export const FINISHED_STREAM_RETENTION_MS = 60_000;
+
+/**
+ * A streamed event with its position in the request's stream
+ */
+export type SequencedEvent = StreamEvent & { seq: number };
+
+/**
+ * RequestStream - Numbers the events of one request and keeps the latest
+ * ones so a client that reconnects can pick up where it left off
+ *
+ * The stream stands in for the client of the run: events sent to it get the
+ * next `seq`, are buffered, and go on to whichever client is attached at
+ * the time. Events sent while no live client is attached are only buffered.
+ */
+export class RequestStream implements RunClient {
+  private buffer: SequencedEvent[] = [];
+  private nextSeq = 1;
+
+  constructor(
+    readonly requestId: string,
+    readonly sessionId: string,
+    private client: RunClient,
+    private capacity: number = DEFAULT_REPLAY_BUFFER_SIZE
+  ) {}
+
+  /**
+   * Id of the attached client
+   */
+  get id(): string {
+    return this.client.id;
+  }
+
+  /**
+   * Capabilities of the attached client
+   */
+  get capabilities(): RunClient['capabilities'] {
+    return this.client.capabilities;
+  }
+
+  /**
+   * Highest `seq` handed out so far, 0 before the first event
+   */
+  get lastSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  /**
+   * Numbers, buffers and forwards an event of the run
+   * The oldest event is dropped once the buffer is full.
+   */
+  send(message: ServerMessage): void {
+    if (!isStreamEvent(message)) {
+      this.client.send(message);
+      return;
+    }
+    const event: SequencedEvent = { ...message, seq: this.nextSeq++ };
+    this.buffer.push(event);
+    if (this.buffer.length > this.capacity) {
+      this.buffer.shift();
+    }
+    this.client.send(event);
+  }
+
+  /**
+   * Attaches a new client and returns the events it missed after `lastSeq`
+   * Returns null, leaving the current client attached, if some of those
+   * events have already been dropped from the buffer.
+   */
+  attach(client: RunClient, lastSeq: number): SequencedEvent[] | null {
+    const oldest = this.buffer[0]?.seq ?? this.nextSeq;
+    if (lastSeq + 1 < oldest) {
+      return null;
+    }
+    this.client = client;
+    return this.buffer.filter(event => event.seq > lastSeq);
+  }
+}
+
+/**
+ * Whether a message is one of the events a run streams
+ */
+export function isStreamEvent(message: ServerMessage): message is StreamEvent {
+  return (STREAM_EVENT_TYPES as readonly string[]).includes(message.type);
+}
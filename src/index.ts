@@ -14,18 +14,44 @@ export {
 
 export {
   ToolSystem,
+  ToolHandlerError,
+  FsSandbox,
+  defaultFsRoots,
   createCoreTools,
   READ_FILE_TOOL,
   WRITE_FILE_TOOL,
   LIST_DIRECTORY_TOOL,
   EXECUTE_SHELL_TOOL,
+  EDIT_FILE_TOOL,
+  APPLY_PATCH_TOOL,
+  GLOB_TOOL,
+  SEARCH_FILES_TOOL,
+  parseUnifiedDiff,
+  terminateProcess,
+  ShellPolicy,
+  DEFAULT_SHELL_POLICY_CONFIG,
+  SchemaValidator,
+  validateSchema,
+  WorkerPool,
   type ToolDefinition,
   type ToolCall,
   type ToolResult,
   type ToolError,
   type ToolHandler,
+  type ToolContext,
+  type ToolIsolation,
+  type ToolOptions,
+  type ToolSystemOptions,
+  type WorkerHandlerSpec,
+  type ToolOutputDelta,
   type JSONSchema,
   type JSONSchemaProperty,
+  type SchemaValidationError,
+  type FsRoot,
+  type CoreToolsOptions,
+  type ShellPolicyConfig,
+  type ShellPolicyReport,
+  type EditReport,
 } from './tools/index.js';
 
 export {
@@ -37,38 +63,116 @@ export {
   type AgentTextDeltaEvent,
   type AgentToolCallEvent,
   type AgentToolResultEvent,
+  type AgentToolOutputDeltaEvent,
+  type AgentUsageEvent,
   type AgentDoneEvent,
+  type AgentCancelledEvent,
   type AgentErrorEvent,
   type AgentError,
+  type AgentUsage,
   type ParsedResponse,
+  type AgentTurn,
+  createAgentBackend,
+  AGENT_BACKENDS,
+  ClaudeCliBackend,
+  CommandBackend,
+  ScriptedBackend,
+  StreamJsonParser,
+  type AgentBackend,
+  type AgentBackendName,
+  type AgentBackendRequest,
+  type AgentBackendEvent,
+  type ClaudeCliBackendConfig,
+  type ClaudeOutputFormat,
+  type CommandBackendConfig,
+  type BackendOutputParser,
+  type ScriptedResponse,
 } from './agent/index.js';
 
 export {
   GatewayServer,
   DEFAULT_GATEWAY_CONFIG,
+  RequestQueue,
+  HttpApi,
+  MetricsRegistry,
+  PROTOCOL_VERSION,
+  GATEWAY_CAPABILITIES,
+  ClientMessageSchema,
+  ServerMessageSchema,
+  parseClientMessage,
+  parseServerMessage,
+  protocolJsonSchema,
   type GatewayConfig,
   type GatewayEvent,
+  type RunClient,
+  type RunOptions,
+  type GatewayMetrics,
+  type ReadinessReport,
+  type ChatCompletionRequest,
+  type ChatCompletion,
+  type ChatCompletionChunk,
+  type RequestQueueConfig,
+  type QueueFullError,
+  type GatewayCapability,
+  type ClientMessage,
+  type ServerMessage,
+  type ProtocolErrorMessage,
 } from './gateway/index.js';
 
 export {
   MemorySystem,
+  HeuristicSummarizer,
+  LlmSummarizer,
   type MemoryConfig,
   type SearchResult,
   type Document,
+  type CompactionResult,
+  type Summarizer,
+  type SummarizerStrategy,
+  type StructuredSummary,
 } from './memory/index.js';
 
 export {
   SessionManager,
   type Session,
   type TranscriptEntry,
+  type SummaryInfo,
 } from './session/index.js';
 
 export {
   SecurityManager,
+  ApprovalPolicy,
+  DEFAULT_APPROVAL_RULES,
   type AuthStore,
   type TokenValidationResult,
+  type ApprovalDecision,
+  type ApprovalRule,
+  type ApprovalPolicyConfig,
+  type ApprovalRequest,
+  type ToolApprover,
 } from './security/index.js';
 
+export {
+  McpClient,
+  McpManager,
+  McpStdioServer,
+  mcpToolName,
+  type McpServerConfig,
+  type McpServerState,
+  type McpServerStatus,
+  type McpTool,
+} from './mcp/index.js';
+
+export {
+  PluginLoader,
+  PLUGIN_PERMISSIONS,
+  type PluginManifest,
+  type PluginPermission,
+  type PluginStatus,
+  type PluginApi,
+  type PluginModule,
+} from './plugins/index.js';
+
 export {
   Logger,
   LOG_LEVELS,
@@ -0,0 +1,48 @@
+/**
+ * MCP - Model Context Protocol client for external tool servers, and a
+ * server exposing OpenClaw's own tools
+ */
+
+export {
+  McpClient,
+  MCP_PROTOCOL_VERSION,
+  MCP_CLIENT_INFO,
+  DEFAULT_MCP_SERVER_CONFIG,
+  type McpServerConfig,
+  type McpServerState,
+  type McpServerInfo,
+  type McpTool,
+  type McpContent,
+  type McpCallToolResult,
+  type McpClientHooks,
+} from './mcp-client.js';
+
+export {
+  McpManager,
+  MCP_TOOL_SEPARATOR,
+  mcpToolName,
+  formatMcpResult,
+  type McpServerStatus,
+} from './mcp-manager.js';
+
+export {
+  McpStdioServer,
+  MEMORY_SEARCH_TOOL,
+  MCP_SERVER_INFO,
+  MCP_SUPPORTED_PROTOCOL_VERSIONS,
+  SESSION_RESOURCE_PREFIX,
+  type McpStdioServerOptions,
+} from './mcp-server.js';
+
+export {
+  JsonRpcConnection,
+  JsonRpcError,
+  JSON_RPC_ERRORS,
+  type JsonRpcId,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type JsonRpcErrorObject,
+  type JsonRpcRequestHandler,
+  type JsonRpcNotificationHandler,
+  type JsonRpcConnectionOptions,
+} from './json-rpc.js';
@@ -0,0 +1,296 @@
+import type { Readable, Writable } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+
+/**
+ * JSON-RPC request or response id
+ */
+export type JsonRpcId = number | string;
+
+/**
+ * A JSON-RPC 2.0 request; without an id it is a notification
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method: string;
+  params?: unknown;
+}
+
+/**
+ * Error member of a JSON-RPC response
+ */
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * A JSON-RPC 2.0 response
+ */
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+/**
+ * Standard JSON-RPC error codes
+ */
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+/**
+ * Error carried by a JSON-RPC error response
+ * Request handlers throw it to answer with a specific code; requests reject
+ * with it when the peer answers with an error.
+ */
+export class JsonRpcError extends Error {
+  readonly code: number;
+  readonly data: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'JsonRpcError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * Handles a request from the peer; the resolved value is the result
+ * `signal` is aborted when the peer cancels the request.
+ */
+export type JsonRpcRequestHandler = (method: string, params: unknown, signal: AbortSignal) => Promise<unknown>;
+
+/**
+ * Handles a notification from the peer
+ */
+export type JsonRpcNotificationHandler = (method: string, params: unknown) => void;
+
+/**
+ * Options for a JSON-RPC connection
+ * `onCancel` is called when a pending request is abandoned through its
+ * signal, so the protocol on top can tell the peer.
+ */
+export interface JsonRpcConnectionOptions {
+  onRequest?: JsonRpcRequestHandler;
+  onNotification?: JsonRpcNotificationHandler;
+  onCancel?: (id: JsonRpcId, reason: unknown) => void;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  cleanup: () => void;
+}
+
+/**
+ * JsonRpcConnection - JSON-RPC 2.0 over newline-delimited JSON streams
+ *
+ * Used for MCP's stdio transport: each message is one line of JSON. Both
+ * sides may send requests; batches (JSON arrays) are accepted on input.
+ */
+export class JsonRpcConnection {
+  private output: Writable;
+  private options: JsonRpcConnectionOptions;
+  private pending: Map<JsonRpcId, PendingRequest> = new Map();
+  private incoming: Map<JsonRpcId, AbortController> = new Map();
+  private handling: Set<Promise<void>> = new Set();
+  private nextId = 1;
+  private buffer = '';
+  private closed = false;
+
+  constructor(input: Readable, output: Writable, options: JsonRpcConnectionOptions = {}) {
+    this.output = output;
+    this.options = options;
+
+    const decoder = new StringDecoder('utf-8');
+    input.on('data', (chunk: Buffer | string) => {
+      this.receive(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+    });
+    // A closed pipe shows up as an error on write; the owner learns of it through close()
+    output.on('error', () => {});
+  }
+
+  /**
+   * Number of requests waiting for a response
+   */
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Sends a request and resolves with the peer's result
+   * Rejects with a JsonRpcError when the peer answers with an error, and
+   * with the signal's reason when the signal is aborted first.
+   */
+  request(method: string, params?: unknown, signal?: AbortSignal): Promise<unknown> {
+    if (this.closed) {
+      return Promise.reject(new Error('Connection is closed'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        this.pending.delete(id);
+        this.options.onCancel?.(id, signal!.reason);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(id, {
+        resolve,
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      });
+      this.send({ jsonrpc: '2.0', id, method, ...(params !== undefined ? { params } : {}) });
+    });
+  }
+
+  /**
+   * Sends a notification
+   */
+  notify(method: string, params?: unknown): void {
+    if (this.closed) return;
+    this.send({ jsonrpc: '2.0', method, ...(params !== undefined ? { params } : {}) });
+  }
+
+  /**
+   * Resolves once every request from the peer has been answered
+   */
+  async drain(): Promise<void> {
+    while (this.handling.size > 0) {
+      await Promise.allSettled([...this.handling]);
+    }
+  }
+
+  /**
+   * Cancels a request from the peer that is still being handled
+   * No response is sent for it.
+   */
+  cancelIncoming(id: JsonRpcId, reason?: unknown): void {
+    this.incoming.get(id)?.abort(reason);
+  }
+
+  /**
+   * Closes the connection, rejecting every pending request with `error`
+   * and cancelling the peer's requests in progress
+   */
+  close(error: Error = new Error('Connection closed')): void {
+    this.closed = true;
+    for (const pending of this.pending.values()) {
+      pending.cleanup();
+      pending.reject(error);
+    }
+    this.pending.clear();
+    for (const controller of this.incoming.values()) {
+      controller.abort(error);
+    }
+    this.incoming.clear();
+  }
+
+  private send(message: JsonRpcRequest | JsonRpcResponse): void {
+    this.output.write(JSON.stringify(message) + '\n');
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).trim();
+      this.buffer = this.buffer.slice(newline + 1);
+      if (line === '') continue;
+
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        this.respond(null, undefined, new JsonRpcError(JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+        continue;
+      }
+
+      for (const item of Array.isArray(message) ? message : [message]) {
+        this.dispatch(item);
+      }
+    }
+  }
+
+  private dispatch(message: unknown): void {
+    if (typeof message !== 'object' || message === null) {
+      this.respond(null, undefined, new JsonRpcError(JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid request'));
+      return;
+    }
+    const record = message as Record<string, unknown>;
+    const id = typeof record['id'] === 'number' || typeof record['id'] === 'string' ? record['id'] : undefined;
+
+    if (typeof record['method'] === 'string') {
+      if (id === undefined) {
+        this.options.onNotification?.(record['method'], record['params']);
+      } else {
+        const handling = this.handleRequest(id, record['method'], record['params']);
+        this.handling.add(handling);
+        void handling.finally(() => this.handling.delete(handling));
+      }
+      return;
+    }
+
+    // A response to one of our requests
+    const pending = id !== undefined ? this.pending.get(id) : undefined;
+    if (!pending) return;
+    this.pending.delete(id!);
+    pending.cleanup();
+
+    const error = record['error'] as JsonRpcErrorObject | undefined;
+    if (error) {
+      pending.reject(new JsonRpcError(error.code, error.message, error.data));
+    } else {
+      pending.resolve(record['result']);
+    }
+  }
+
+  private async handleRequest(id: JsonRpcId, method: string, params: unknown): Promise<void> {
+    if (!this.options.onRequest) {
+      this.respond(id, undefined, new JsonRpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`));
+      return;
+    }
+    const controller = new AbortController();
+    this.incoming.set(id, controller);
+    try {
+      const result = await this.options.onRequest(method, params, controller.signal);
+      if (!controller.signal.aborted) this.respond(id, result);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this.respond(id, undefined, error instanceof JsonRpcError
+          ? error
+          : new JsonRpcError(JSON_RPC_ERRORS.INTERNAL_ERROR, error instanceof Error ? error.message : String(error)));
+      }
+    } finally {
+      if (this.incoming.get(id) === controller) this.incoming.delete(id);
+    }
+  }
+
+  private respond(id: JsonRpcId | null, result: unknown, error?: JsonRpcError): void {
+    if (this.closed) return;
+    this.send(error
+      ? {
+          jsonrpc: '2.0',
+          id,
+          error: {
+            code: error.code,
+            message: error.message,
+            ...(error.data !== undefined ? { data: error.data } : {}),
+          },
+        }
+      : { jsonrpc: '2.0', id, result: result ?? {} });
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { rm } from 'node:fs/promises';
+import { McpClient, type McpServerConfig, type McpTool } from './mcp-client.js';
+import { JsonRpcError } from './json-rpc.js';
+import { ToolHandlerError } from '../tools/tool-system.js';
+import { Logger } from '../logging/logger.js';
+
+const FIXTURE = fileURLToPath(new URL('../../test/fixtures/mcp-server.cjs', import.meta.url));
+const logger = new Logger({ level: 'error', path: join(tmpdir(), 'openclaw-mcp-test.log') });
+
+describe('McpClient', () => {
+  let client: McpClient | undefined;
+
+  function createClient(config: Partial<McpServerConfig> = {}, onToolsChanged?: (tools: McpTool[]) => void): McpClient {
+    client = new McpClient('fixture', {
+      command: process.execPath,
+      args: [FIXTURE],
+      restartDelayMs: 10,
+      ...config,
+    }, logger, onToolsChanged ? { onToolsChanged } : {});
+    return client;
+  }
+
+  afterEach(async () => {
+    await client?.stop();
+    client = undefined;
+  });
+
+  it('should perform the handshake and list tools across pages', async () => {
+    const tools = await createClient().start();
+
+    expect(tools.map(tool => tool.name)).toEqual(['echo', 'add', 'fail', 'crash', 'slow', 'cancellations', 'grow']);
+    expect(tools[0]!.inputSchema).toMatchObject({ type: 'object', required: ['text'] });
+    expect(client!.getServerInfo()).toEqual({ name: 'fixture', version: '1.2.3', protocolVersion: '2025-03-26' });
+    expect(client!.state).toBe('running');
+  });
+
+  it('should call tools', async () => {
+    await createClient().start();
+
+    const result = await client!.callTool('add', { a: 2, b: 3 });
+
+    expect(result.content).toEqual([{ type: 'text', text: '5' }]);
+  });
+
+  it('should reject with the server error', async () => {
+    await createClient().start();
+
+    const error = await client!.callTool('missing', {}).then(() => null, (e: unknown) => e);
+
+    expect(error).toBeInstanceOf(JsonRpcError);
+    expect((error as JsonRpcError).code).toBe(-32602);
+  });
+
+  it('should time out and cancel calls the server does not answer', async () => {
+    await createClient({ timeoutMs: 200 }).start();
+
+    const error = await client!.callTool('slow', {}).then(() => null, (e: unknown) => e);
+    const cancelled = await client!.callTool('cancellations', {});
+
+    expect(error).toBeInstanceOf(ToolHandlerError);
+    expect((error as ToolHandlerError).errorType).toBe('timeout');
+    expect(JSON.parse(cancelled.content[0]!.text!)).toHaveLength(1);
+  });
+
+  it('should cancel calls when the signal is aborted', async () => {
+    await createClient().start();
+    const controller = new AbortController();
+
+    const call = client!.callTool('slow', {}, controller.signal);
+    controller.abort(new Error('stop'));
+
+    await expect(call).rejects.toThrow('stop');
+  });
+
+  it('should fail calls in flight and restart after a crash', async () => {
+    const onToolsChanged = vi.fn<[McpTool[]], void>();
+    await createClient({}, onToolsChanged).start();
+
+    await expect(client!.callTool('crash', {})).rejects.toThrow(/exited \(code 1\)/);
+    const result = await client!.callTool('echo', { text: 'back' });
+
+    expect(result.content[0]!.text).toBe('back');
+    expect(client!.state).toBe('running');
+    expect(onToolsChanged).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after maxRestarts failed restarts', async () => {
+    const marker = join(tmpdir(), `openclaw-mcp-marker-${randomUUID()}`);
+    try {
+      await createClient({ maxRestarts: 2, env: { MCP_FIXTURE_MARKER: marker } }).start();
+
+      await expect(client!.callTool('crash', {})).rejects.toThrow();
+      const error = await client!.callTool('echo', { text: 'x' }).then(() => null, (e: unknown) => e);
+
+      expect(client!.state).toBe('failed');
+      expect((error as ToolHandlerError).errorType).toBe('execution');
+      expect((error as ToolHandlerError).message).toContain('is not running');
+    } finally {
+      await rm(marker, { force: true });
+    }
+  });
+
+  it('should reject start when the process is not an MCP server', async () => {
+    const start = createClient({ args: ['-e', 'process.stderr.write("no mcp here"); process.exit(2)'] }).start();
+
+    await expect(start).rejects.toThrow(/exited \(code 2\): no mcp here/);
+    expect(client!.state).toBe('failed');
+  });
+
+  it('should reject start when the command does not exist', async () => {
+    await expect(createClient({ command: 'openclaw-no-such-mcp-server' }).start()).rejects.toThrow(/ENOENT/);
+  });
+});
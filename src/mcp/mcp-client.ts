@@ -0,0 +1,437 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { Logger } from '../logging/logger.js';
+import { terminateProcess } from '../tools/child-process.js';
+import { ToolHandlerError, type JSONSchema } from '../tools/tool-system.js';
+import { JsonRpcConnection, JsonRpcError, JSON_RPC_ERRORS } from './json-rpc.js';
+
+/**
+ * MCP protocol revision requested in the initialize handshake
+ */
+export const MCP_PROTOCOL_VERSION = '2025-03-26';
+
+/**
+ * Name and version reported to servers
+ */
+export const MCP_CLIENT_INFO = { name: 'openclaw', version: '0.1.0' };
+
+/**
+ * Longest wait between restart attempts
+ */
+const MAX_RESTART_DELAY_MS = 30000;
+
+/**
+ * A server that ran at least this long before exiting starts a fresh
+ * series of restart attempts
+ */
+const STABLE_RUN_MS = 60000;
+
+/**
+ * Lines of server stderr kept for error messages
+ */
+const STDERR_TAIL_LINES = 10;
+
+/**
+ * How to launch one stdio MCP server
+ * `env` is added to the Gateway's environment. `timeoutMs` bounds every
+ * request, including the handshake. After a crash the server is restarted
+ * up to `maxRestarts` times in a row, waiting `restartDelayMs` (doubling
+ * each attempt) before each one.
+ */
+export interface McpServerConfig {
+  command: string;
+  args: string[];
+  env: Record<string, string>;
+  cwd?: string | undefined;
+  enabled?: boolean | undefined;
+  timeoutMs: number;
+  maxRestarts: number;
+  restartDelayMs: number;
+}
+
+/**
+ * Default server settings
+ */
+export const DEFAULT_MCP_SERVER_CONFIG: Omit<McpServerConfig, 'command'> = {
+  args: [],
+  env: {},
+  timeoutMs: 60000,
+  maxRestarts: 5,
+  restartDelayMs: 1000,
+};
+
+/**
+ * A tool as listed by `tools/list`
+ */
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: JSONSchema;
+  /** Hints about the tool's behaviour; `readOnlyHint` marks it side-effect free */
+  annotations?: { readOnlyHint?: boolean };
+}
+
+/**
+ * One item of a tool result's content
+ */
+export interface McpContent {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  uri?: string;
+  resource?: { uri: string; text?: string; mimeType?: string };
+}
+
+/**
+ * Result of `tools/call`
+ */
+export interface McpCallToolResult {
+  content: McpContent[];
+  isError?: boolean;
+  structuredContent?: unknown;
+}
+
+/**
+ * What the server reported about itself in the handshake
+ */
+export interface McpServerInfo {
+  name: string;
+  version: string;
+  protocolVersion: string;
+}
+
+/**
+ * Lifecycle state of a server connection
+ */
+export type McpServerState = 'stopped' | 'starting' | 'running' | 'restarting' | 'failed';
+
+/**
+ * Callbacks from a client
+ * `onToolsChanged` fires with a fresh tool list after a restart, and when
+ * the server announces that its tools changed.
+ */
+export interface McpClientHooks {
+  onToolsChanged?: (tools: McpTool[]) => void;
+}
+
+/**
+ * McpClient - Connection to one Model Context Protocol server over stdio
+ *
+ * Launches the server, performs the initialize handshake and lists its
+ * tools. If the server exits unexpectedly, calls in flight fail and the
+ * server is restarted with backoff; calls made meanwhile wait for it.
+ */
+export class McpClient {
+  readonly name: string;
+  private config: McpServerConfig;
+  private logger: Logger;
+  private hooks: McpClientHooks;
+  private child: ChildProcess | null = null;
+  private connection: JsonRpcConnection | null = null;
+  private currentState: McpServerState = 'stopped';
+  private ready: Promise<void> = Promise.resolve();
+  private tools: McpTool[] = [];
+  private serverInfo: McpServerInfo | null = null;
+  private restarts = 0;
+  private startedAt = 0;
+  private stderrTail: string[] = [];
+  private stopping = false;
+  private wakeRestart: (() => void) | null = null;
+
+  constructor(
+    name: string,
+    config: Pick<McpServerConfig, 'command'> & Partial<McpServerConfig>,
+    logger?: Logger,
+    hooks: McpClientHooks = {}
+  ) {
+    this.name = name;
+    this.config = { ...DEFAULT_MCP_SERVER_CONFIG, ...config };
+    this.logger = logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
+    this.hooks = hooks;
+  }
+
+  /**
+   * Current lifecycle state
+   */
+  get state(): McpServerState {
+    return this.currentState;
+  }
+
+  /**
+   * Tools the server offers, as last listed
+   */
+  getTools(): McpTool[] {
+    return this.tools;
+  }
+
+  /**
+   * What the server reported in the last handshake
+   */
+  getServerInfo(): McpServerInfo | null {
+    return this.serverInfo;
+  }
+
+  /**
+   * Launches the server and lists its tools
+   * Rejects if the server cannot be started or fails the handshake; it is
+   * not restarted in that case.
+   */
+  async start(): Promise<McpTool[]> {
+    this.stopping = false;
+    this.restarts = 0;
+    this.currentState = 'starting';
+    this.ready = this.launch();
+    try {
+      await this.ready;
+    } catch (error) {
+      if (!this.stopping) this.currentState = 'failed';
+      throw error;
+    }
+    return this.tools;
+  }
+
+  /**
+   * Calls a tool
+   * Waits for a restarting server. Fails with a `timeout` ToolHandlerError
+   * after `timeoutMs`, and with the signal's reason when it is aborted; in
+   * both cases the server is told the request was cancelled.
+   */
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpCallToolResult> {
+    if (this.currentState === 'starting' || this.currentState === 'restarting') {
+      await this.ready.catch(() => {});
+    }
+    if (this.currentState !== 'running') {
+      throw new ToolHandlerError('execution', `MCP server '${this.name}' is not running`, {
+        server: this.name,
+        state: this.currentState,
+      });
+    }
+
+    const result = await this.request('tools/call', { name, arguments: args }, signal) as McpCallToolResult | null;
+    return { ...result, content: Array.isArray(result?.content) ? result.content : [] };
+  }
+
+  /**
+   * Stops the server: closes its stdin, then terminates it
+   */
+  async stop(): Promise<void> {
+    this.stopping = true;
+    this.wakeRestart?.();
+    this.currentState = 'stopped';
+
+    const child = this.child;
+    this.child = null;
+    this.connection?.close(new Error(`MCP server '${this.name}' was stopped`));
+    this.connection = null;
+
+    if (child) {
+      child.stdin?.end();
+      await terminateProcess(child);
+    }
+  }
+
+  /**
+   * Spawns the server and runs the handshake
+   */
+  private async launch(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args, {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      env: { ...process.env, ...this.config.env },
+      ...(this.config.cwd !== undefined ? { cwd: this.config.cwd } : {}),
+    });
+    const connection = new JsonRpcConnection(child.stdout!, child.stdin!, {
+      onRequest: (method) => this.handleServerRequest(method),
+      onNotification: (method, params) => this.handleNotification(method, params),
+      onCancel: (id, reason) => {
+        connection.notify('notifications/cancelled', {
+          requestId: id,
+          reason: reason instanceof Error ? reason.message : String(reason),
+        });
+      },
+    });
+    this.child = child;
+    this.connection = connection;
+    this.startedAt = Date.now();
+    this.stderrTail = [];
+
+    child.stderr!.setEncoding('utf-8');
+    child.stderr!.on('data', (chunk: string) => {
+      for (const line of chunk.split('\n').filter(l => l.trim() !== '')) {
+        this.stderrTail = [...this.stderrTail, line].slice(-STDERR_TAIL_LINES);
+        void this.logger.debug('MCP server stderr', { server: this.name, line });
+      }
+    });
+    child.on('error', (error) => this.handleExit(child, error.message));
+    child.on('exit', (code, signal) => this.handleExit(child, signal ? `signal ${signal}` : `code ${code}`));
+
+    try {
+      const result = await this.request('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: MCP_CLIENT_INFO,
+      }) as {
+        protocolVersion?: string;
+        capabilities?: { tools?: unknown };
+        serverInfo?: { name?: string; version?: string };
+      } | null;
+
+      if (typeof result?.protocolVersion !== 'string') {
+        throw new Error(`MCP server '${this.name}' sent an invalid initialize result`);
+      }
+      connection.notify('notifications/initialized');
+
+      this.serverInfo = {
+        name: result.serverInfo?.name ?? this.name,
+        version: result.serverInfo?.version ?? '',
+        protocolVersion: result.protocolVersion,
+      };
+      this.tools = result.capabilities?.tools !== undefined ? await this.listTools() : [];
+    } catch (error) {
+      if (this.child === child) {
+        this.child = null;
+        this.connection = null;
+        connection.close();
+        await terminateProcess(child);
+      }
+      throw error;
+    }
+
+    this.currentState = 'running';
+    await this.logger.info('MCP server started', {
+      server: this.name,
+      serverName: this.serverInfo.name,
+      tools: this.tools.length,
+    });
+  }
+
+  /**
+   * Fetches every page of `tools/list`
+   */
+  private async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request('tools/list', cursor !== undefined ? { cursor } : {}) as {
+        tools?: McpTool[];
+        nextCursor?: string;
+      } | null;
+      tools.push(...(page?.tools ?? []).filter(tool => typeof tool?.name === 'string'));
+      cursor = page?.nextCursor;
+    } while (cursor !== undefined);
+    return tools;
+  }
+
+  /**
+   * Sends a request bounded by `timeoutMs` and the caller's signal
+   */
+  private async request(method: string, params: unknown, signal?: AbortSignal): Promise<unknown> {
+    const connection = this.connection;
+    if (!connection) {
+      throw new ToolHandlerError('execution', `MCP server '${this.name}' is not running`, { server: this.name });
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      controller.abort(new ToolHandlerError(
+        'timeout',
+        `MCP server '${this.name}' did not answer ${method} within ${this.config.timeoutMs} ms`,
+        { server: this.name, method, timeoutMs: this.config.timeoutMs }
+      ));
+    }, this.config.timeoutMs);
+    const onAbort = (): void => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await connection.request(method, params, controller.signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async handleServerRequest(method: string): Promise<unknown> {
+    if (method === 'ping') {
+      return {};
+    }
+    throw new JsonRpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+
+  private handleNotification(method: string, params: unknown): void {
+    if (method === 'notifications/tools/list_changed' && this.currentState === 'running') {
+      this.listTools().then((tools) => {
+        this.tools = tools;
+        this.hooks.onToolsChanged?.(tools);
+      }).catch((error) => {
+        void this.logger.warn('Failed to refresh MCP tools', { server: this.name, error: String(error) });
+      });
+    } else if (method === 'notifications/message') {
+      const { level, data } = (params ?? {}) as { level?: string; data?: unknown };
+      void this.logger.debug('MCP server log', { server: this.name, level, data });
+    }
+  }
+
+  /**
+   * Cleans up after the server process exits and schedules a restart if
+   * it was running
+   */
+  private handleExit(child: ChildProcess, how: string): void {
+    if (this.child !== child) {
+      return;
+    }
+    const wasRunning = this.currentState === 'running';
+    const stderr = this.stderrTail.length > 0 ? `: ${this.stderrTail.join('\n')}` : '';
+    this.child = null;
+    this.connection?.close(new Error(`MCP server '${this.name}' exited (${how})${stderr}`));
+    this.connection = null;
+
+    if (!wasRunning || this.stopping) {
+      return;
+    }
+    void this.logger.warn('MCP server exited', { server: this.name, exit: how });
+    if (Date.now() - this.startedAt >= STABLE_RUN_MS) {
+      this.restarts = 0;
+    }
+    this.currentState = 'restarting';
+    this.ready = this.restart();
+  }
+
+  /**
+   * Relaunches the server with exponential backoff until it comes up or
+   * `maxRestarts` attempts have failed
+   */
+  private async restart(): Promise<void> {
+    while (!this.stopping) {
+      if (this.restarts >= this.config.maxRestarts) {
+        this.currentState = 'failed';
+        await this.logger.error('MCP server failed; giving up after restarts', undefined, {
+          server: this.name,
+          restarts: this.restarts,
+        });
+        return;
+      }
+
+      const delay = Math.min(this.config.restartDelayMs * 2 ** this.restarts, MAX_RESTART_DELAY_MS);
+      this.restarts++;
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delay);
+        this.wakeRestart = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wakeRestart = null;
+      if (this.stopping) return;
+
+      try {
+        await this.launch();
+        this.hooks.onToolsChanged?.(this.tools);
+        return;
+      } catch (error) {
+        await this.logger.warn('MCP server restart failed', {
+          server: this.name,
+          attempt: this.restarts,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+}
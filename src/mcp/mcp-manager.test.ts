@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { fileURLToPath } from 'node:url';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { McpManager, mcpToolName, formatMcpResult } from './mcp-manager.js';
+import { DEFAULT_MCP_SERVER_CONFIG, type McpServerConfig } from './mcp-client.js';
+import { ToolSystem } from '../tools/tool-system.js';
+import { Logger } from '../logging/logger.js';
+
+const FIXTURE = fileURLToPath(new URL('../../test/fixtures/mcp-server.cjs', import.meta.url));
+const logger = new Logger({ level: 'error', path: join(tmpdir(), 'openclaw-mcp-test.log') });
+
+function server(config: Partial<McpServerConfig> = {}): McpServerConfig {
+  return { ...DEFAULT_MCP_SERVER_CONFIG, command: process.execPath, args: [FIXTURE], ...config };
+}
+
+describe('mcpToolName', () => {
+  it('should prefix the server name and replace unsupported characters', () => {
+    expect(mcpToolName('github', 'create_issue')).toBe('github__create_issue');
+    expect(mcpToolName('fs', 'read.file/v2')).toBe('fs__read_file_v2');
+    expect(mcpToolName('s', 'x'.repeat(100))).toHaveLength(64);
+  });
+});
+
+describe('formatMcpResult', () => {
+  it('should join text and describe other content', () => {
+    expect(formatMcpResult({
+      content: [
+        { type: 'text', text: 'first' },
+        { type: 'image', mimeType: 'image/png' },
+        { type: 'resource', resource: { uri: 'file:///a.txt', text: 'embedded' } },
+        { type: 'resource_link', uri: 'file:///b.txt' },
+      ],
+    })).toBe('first\n[image image/png]\nembedded\n[resource_link file:///b.txt]');
+  });
+
+  it('should fall back to structured content', () => {
+    expect(formatMcpResult({ content: [], structuredContent: { ok: true } })).toBe('{"ok":true}');
+  });
+});
+
+describe('McpManager', () => {
+  let toolSystem: ToolSystem;
+  let manager: McpManager | undefined;
+
+  beforeEach(() => {
+    toolSystem = new ToolSystem();
+  });
+
+  afterEach(async () => {
+    await manager?.stop();
+    manager = undefined;
+  });
+
+  it('should register namespaced tools and route calls to the server', async () => {
+    manager = new McpManager(toolSystem, { fx: server() }, logger);
+    await manager.start();
+
+    const result = await toolSystem.execute({ id: 'mcp-1', name: 'fx__echo', arguments: { text: 'hello' } });
+
+    expect(toolSystem.get('fx__add')).toMatchObject({ description: 'Add two numbers', parameters: { required: ['a', 'b'] }, readOnly: true });
+    expect(toolSystem.get('fx__echo')?.readOnly).toBeUndefined();
+    expect(result).toEqual({ callId: 'mcp-1', success: true, output: 'hello' });
+  });
+
+  it('should validate arguments against the server schema', async () => {
+    manager = new McpManager(toolSystem, { fx: server() }, logger);
+    await manager.start();
+
+    const result = await toolSystem.execute({ id: 'mcp-2', name: 'fx__add', arguments: { a: 1 } });
+
+    expect(result.error?.errorType).toBe('validation');
+  });
+
+  it('should report tool errors as execution errors', async () => {
+    manager = new McpManager(toolSystem, { fx: server() }, logger);
+    await manager.start();
+
+    const result = await toolSystem.execute({ id: 'mcp-3', name: 'fx__fail', arguments: {} });
+
+    expect(result.error).toMatchObject({ errorType: 'execution', message: 'something broke' });
+  });
+
+  it('should register tools the server adds later', async () => {
+    manager = new McpManager(toolSystem, { fx: server() }, logger);
+    await manager.start();
+
+    await toolSystem.execute({ id: 'mcp-4', name: 'fx__grow', arguments: {} });
+    await vi.waitFor(() => expect(toolSystem.has('fx__extra')).toBe(true));
+  });
+
+  it('should skip disabled and failing servers and unregister tools on stop', async () => {
+    manager = new McpManager(toolSystem, {
+      fx: server(),
+      off: server({ enabled: false }),
+      broken: server({ args: ['-e', 'process.exit(1)'] }),
+    }, logger);
+    await manager.start();
+
+    expect(manager.status().map(s => [s.name, s.state])).toEqual([['fx', 'running'], ['broken', 'failed']]);
+    expect(manager.status()[0]!.tools).toContain('fx__echo');
+
+    await manager.stop();
+
+    expect(toolSystem.list()).toEqual([]);
+  });
+});
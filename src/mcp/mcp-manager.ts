@@ -0,0 +1,192 @@
+import { Logger } from '../logging/logger.js';
+import { ToolHandlerError, type ToolHandler, type ToolSystem } from '../tools/tool-system.js';
+import { JsonRpcError, JSON_RPC_ERRORS } from './json-rpc.js';
+import {
+  McpClient,
+  type McpCallToolResult,
+  type McpServerConfig,
+  type McpServerInfo,
+  type McpServerState,
+  type McpTool,
+} from './mcp-client.js';
+
+/**
+ * Separates the server name from the tool name in registered tool names
+ */
+export const MCP_TOOL_SEPARATOR = '__';
+
+/**
+ * Longest tool name model APIs accept
+ */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Status of one configured server
+ */
+export interface McpServerStatus {
+  name: string;
+  state: McpServerState;
+  serverInfo: McpServerInfo | null;
+  tools: string[];
+}
+
+/**
+ * Builds the registered name of a server's tool: `<server>__<tool>`
+ * Characters model APIs reject in tool names are replaced with `_`.
+ */
+export function mcpToolName(server: string, tool: string): string {
+  return `${server}${MCP_TOOL_SEPARATOR}${tool}`.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Flattens a tool result's content into text
+ * Text and embedded text resources are kept; other content (images,
+ * audio, links) is represented by a placeholder.
+ */
+export function formatMcpResult(result: McpCallToolResult): string {
+  const parts = result.content.map((item) => {
+    if (item.type === 'text') return item.text ?? '';
+    if (item.type === 'resource' && item.resource?.text !== undefined) return item.resource.text;
+    const uri = item.uri ?? item.resource?.uri;
+    return `[${item.type}${item.mimeType ? ` ${item.mimeType}` : ''}${uri ? ` ${uri}` : ''}]`;
+  });
+  if (parts.length === 0 && result.structuredContent !== undefined) {
+    return JSON.stringify(result.structuredContent);
+  }
+  return parts.join('\n');
+}
+
+/**
+ * McpManager - Exposes the tools of configured MCP servers through a
+ * ToolSystem
+ *
+ * Each server's tools are registered as `<server>__<tool>` and calls are
+ * routed to `tools/call`. The registrations follow the server's tool list
+ * across restarts and `list_changed` notifications.
+ */
+export class McpManager {
+  private toolSystem: ToolSystem;
+  private logger: Logger;
+  private clients: Map<string, McpClient> = new Map();
+  private registered: Map<string, Set<string>> = new Map();
+
+  constructor(toolSystem: ToolSystem, servers: Record<string, McpServerConfig>, logger?: Logger) {
+    this.toolSystem = toolSystem;
+    this.logger = logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
+
+    for (const [name, config] of Object.entries(servers)) {
+      if (config.enabled === false) continue;
+      const client: McpClient = new McpClient(name, config, this.logger, {
+        onToolsChanged: (tools) => this.syncTools(client, tools),
+      });
+      this.clients.set(name, client);
+    }
+  }
+
+  /**
+   * Starts every enabled server and registers its tools
+   * A server that fails to start is logged and left out; the others are
+   * still started.
+   */
+  async start(): Promise<void> {
+    await Promise.all([...this.clients.values()].map(async (client) => {
+      try {
+        this.syncTools(client, await client.start());
+      } catch (error) {
+        await this.logger.error('Failed to start MCP server', error, { server: client.name });
+      }
+    }));
+  }
+
+  /**
+   * Stops every server and unregisters its tools
+   */
+  async stop(): Promise<void> {
+    await Promise.all([...this.clients.values()].map(async (client) => {
+      this.syncTools(client, []);
+      await client.stop();
+    }));
+  }
+
+  /**
+   * Gets the client of a configured server
+   */
+  getClient(name: string): McpClient | undefined {
+    return this.clients.get(name);
+  }
+
+  /**
+   * Reports each configured server's state and registered tools
+   */
+  status(): McpServerStatus[] {
+    return [...this.clients.values()].map(client => ({
+      name: client.name,
+      state: client.state,
+      serverInfo: client.getServerInfo(),
+      tools: [...(this.registered.get(client.name) ?? [])],
+    }));
+  }
+
+  /**
+   * Makes a server's registered tools match its tool list
+   */
+  private syncTools(client: McpClient, tools: McpTool[]): void {
+    const previous = this.registered.get(client.name) ?? new Set<string>();
+    const current = new Set<string>();
+
+    for (const name of previous) {
+      this.toolSystem.unregister(name);
+    }
+
+    for (const tool of tools) {
+      const name = mcpToolName(client.name, tool.name);
+      try {
+        this.toolSystem.register({
+          name,
+          description: tool.description || `${tool.name} (MCP server ${client.name})`,
+          parameters: tool.inputSchema ?? { type: 'object' },
+          ...(tool.annotations?.readOnlyHint ? { readOnly: true } : {}),
+        }, this.createHandler(client, tool.name));
+        current.add(name);
+      } catch (error) {
+        void this.logger.warn('Skipping MCP tool', {
+          server: client.name,
+          tool: tool.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    this.registered.set(client.name, current);
+  }
+
+  /**
+   * Routes a ToolSystem call to the server's `tools/call`
+   */
+  private createHandler(client: McpClient, tool: string): ToolHandler {
+    return async (args, context) => {
+      let result: McpCallToolResult;
+      try {
+        result = await client.callTool(tool, args, context.signal);
+      } catch (error) {
+        if (error instanceof JsonRpcError) {
+          const errorType = error.code === JSON_RPC_ERRORS.INVALID_PARAMS ? 'validation'
+            : error.code === JSON_RPC_ERRORS.METHOD_NOT_FOUND ? 'not_found'
+            : 'execution';
+          throw new ToolHandlerError(errorType, error.message, {
+            server: client.name,
+            code: error.code,
+            ...(error.data !== undefined ? { data: error.data } : {}),
+          });
+        }
+        throw error;
+      }
+
+      const output = formatMcpResult(result);
+      if (result.isError) {
+        throw new ToolHandlerError('execution', output || `Tool '${tool}' failed`, { server: client.name, tool });
+      }
+      return output;
+    };
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { rm } from 'node:fs/promises';
+import { McpStdioServer, SESSION_RESOURCE_PREFIX, type McpStdioServerOptions } from './mcp-server.js';
+import { JsonRpcConnection, JsonRpcError } from './json-rpc.js';
+import { ToolSystem } from '../tools/tool-system.js';
+import { ApprovalPolicy } from '../security/approval-policy.js';
+import { SessionManager } from '../session/session-manager.js';
+import { MemorySystem } from '../memory/memory-system.js';
+import { Workspace } from '../storage/workspace.js';
+import { Logger } from '../logging/logger.js';
+
+describe('McpStdioServer', () => {
+  let testDir: string;
+  let workspace: Workspace;
+  let logger: Logger;
+  let toolSystem: ToolSystem;
+  let clientInput: PassThrough;
+  let served: Promise<void>;
+  let waitStarted: boolean;
+  let waitAborted: boolean;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `openclaw-mcp-serve-${randomUUID()}`);
+    workspace = new Workspace(testDir);
+    await workspace.initialize();
+    logger = new Logger({ level: 'error', path: join(testDir, 'test.log') });
+
+    waitStarted = false;
+    waitAborted = false;
+    toolSystem = new ToolSystem();
+    toolSystem.register({
+      name: 'shout',
+      description: 'Upper-case the text',
+      parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    }, async (args) => (args['text'] as string).toUpperCase());
+    toolSystem.register({
+      name: 'wait',
+      description: 'Wait until cancelled',
+      parameters: { type: 'object' },
+    }, (_args, context) => new Promise((_resolve, reject) => {
+      waitStarted = true;
+      context.signal?.addEventListener('abort', () => {
+        waitAborted = true;
+        reject(new Error('aborted'));
+      });
+    }));
+  });
+
+  afterEach(async () => {
+    clientInput?.end();
+    await served;
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Starts a server and returns a JSON-RPC client connected to it
+   */
+  function connect(options: Partial<McpStdioServerOptions> = {}, onRequest?: (method: string, params: unknown) => Promise<unknown>): JsonRpcConnection {
+    const toServer = new PassThrough();
+    const fromServer = new PassThrough();
+    clientInput = toServer;
+    served = new McpStdioServer({ toolSystem, logger, ...options }).serve(toServer, fromServer);
+    const client: JsonRpcConnection = new JsonRpcConnection(fromServer, toServer, {
+      ...(onRequest ? { onRequest } : {}),
+      onCancel: (id, reason) => client.notify('notifications/cancelled', { requestId: id, reason: String(reason) }),
+    });
+    return client;
+  }
+
+  async function initialize(client: JsonRpcConnection, capabilities: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
+    return await client.request('initialize', {
+      protocolVersion: '2025-03-26',
+      capabilities,
+      clientInfo: { name: 'test', version: '1' },
+    }) as Record<string, unknown>;
+  }
+
+  it('should negotiate the protocol version in the handshake', async () => {
+    const client = connect({ sessionManager: new SessionManager(workspace, logger) });
+
+    const result = await initialize(client);
+    const fallback = await client.request('initialize', { protocolVersion: '1999-01-01', capabilities: {} });
+
+    expect(result).toMatchObject({
+      protocolVersion: '2025-03-26',
+      capabilities: { tools: {}, resources: {} },
+      serverInfo: { name: 'openclaw' },
+    });
+    expect((fallback as { protocolVersion: string }).protocolVersion).toBe('2025-06-18');
+  });
+
+  it('should list tools with their input schemas, including memory_search', async () => {
+    const client = connect({ memorySystem: new MemorySystem(workspace, {}, logger) });
+    await initialize(client);
+
+    const { tools } = await client.request('tools/list') as {
+      tools: Array<{ name: string; inputSchema: unknown; annotations?: unknown }>;
+    };
+
+    expect(tools.map(tool => tool.name)).toEqual(['shout', 'wait', 'memory_search']);
+    expect(tools[0]!.inputSchema).toMatchObject({ required: ['text'] });
+    expect(tools[0]!.annotations).toBeUndefined();
+    expect(tools[2]!.annotations).toEqual({ readOnlyHint: true });
+  });
+
+  it('should run tool calls and report failures as tool errors', async () => {
+    const client = connect();
+    await initialize(client);
+
+    const ok = await client.request('tools/call', { name: 'shout', arguments: { text: 'hi' } });
+    const invalid = await client.request('tools/call', { name: 'shout', arguments: {} }) as { isError: boolean; content: Array<{ text: string }> };
+    const unknown = await client.request('tools/call', { name: 'nope', arguments: {} }).then(() => null, (e: unknown) => e);
+
+    expect(ok).toEqual({ content: [{ type: 'text', text: 'HI' }] });
+    expect(invalid.isError).toBe(true);
+    expect(invalid.content[0]!.text).toMatch(/^validation: /);
+    expect((unknown as JsonRpcError).code).toBe(-32602);
+  });
+
+  it('should search memory', async () => {
+    const memorySystem = new MemorySystem(workspace, {}, logger);
+    await memorySystem.addDocument('MEMORY.md', 'The deploy key rotates every Tuesday.');
+    const client = connect({ memorySystem });
+    await initialize(client);
+
+    const result = await client.request('tools/call', { name: 'memory_search', arguments: { query: 'deploy key' } }) as {
+      content: Array<{ text: string }>;
+    };
+
+    expect(result.content[0]!.text).toContain('## MEMORY.md');
+    expect(result.content[0]!.text).toContain('rotates every Tuesday');
+  });
+
+  it('should enforce the approval policy', async () => {
+    const approvalPolicy = new ApprovalPolicy({
+      rules: [
+        { tool: 'wait', decision: 'deny' },
+        { tool: 'shout', decision: 'ask' },
+      ],
+    });
+    const client = connect({ approvalPolicy });
+    await initialize(client);
+
+    const denied = await client.request('tools/call', { name: 'wait', arguments: {} }) as { isError: boolean; content: Array<{ text: string }> };
+    const unanswerable = await client.request('tools/call', { name: 'shout', arguments: { text: 'x' } }) as { content: Array<{ text: string }> };
+
+    expect(denied.isError).toBe(true);
+    expect(denied.content[0]!.text).toContain('permission_denied: Denied by policy');
+    expect(unanswerable.content[0]!.text).toContain('cannot ask the user');
+  });
+
+  it('should ask the user through elicitation', async () => {
+    const approvalPolicy = new ApprovalPolicy({ rules: [{ tool: 'shout', decision: 'ask' }] });
+    const asked: unknown[] = [];
+    let approve = true;
+    const client = connect({ approvalPolicy }, async (method, params) => {
+      asked.push({ method, params });
+      return { action: 'accept', content: { approve } };
+    });
+    await initialize(client, { elicitation: {} });
+
+    const approved = await client.request('tools/call', { name: 'shout', arguments: { text: 'yes' } });
+    approve = false;
+    const declined = await client.request('tools/call', { name: 'shout', arguments: { text: 'no' } }) as { content: Array<{ text: string }> };
+
+    expect(asked[0]).toMatchObject({ method: 'elicitation/create', params: { message: expect.stringContaining('Allow shout?') } });
+    expect(approved).toEqual({ content: [{ type: 'text', text: 'YES' }] });
+    expect(declined.content[0]!.text).toBe('permission_denied: Tool call denied by user');
+  });
+
+  it('should abort a tool call the client cancels', async () => {
+    const client = connect();
+    await initialize(client);
+    const controller = new AbortController();
+
+    const call = client.request('tools/call', { name: 'wait', arguments: {} }, controller.signal);
+    await vi.waitFor(() => expect(waitStarted).toBe(true));
+    controller.abort(new Error('user cancelled'));
+    await expect(call).rejects.toThrow('user cancelled');
+    await vi.waitFor(() => expect(waitAborted).toBe(true));
+    const next = await client.request('tools/call', { name: 'shout', arguments: { text: 'after' } });
+
+    expect(next).toEqual({ content: [{ type: 'text', text: 'AFTER' }] });
+  });
+
+  it('should expose session transcripts as resources', async () => {
+    const sessionManager = new SessionManager(workspace, logger);
+    const session = await sessionManager.create();
+    await sessionManager.appendMessage(session.id, { role: 'user', content: 'remember the milk' });
+    const client = connect({ sessionManager });
+    await initialize(client);
+
+    const { resources } = await client.request('resources/list') as { resources: Array<{ uri: string }> };
+    const read = await client.request('resources/read', { uri: `${SESSION_RESOURCE_PREFIX}${session.id}` }) as {
+      contents: Array<{ text: string; mimeType: string }>;
+    };
+    const missing = await client.request('resources/read', { uri: `${SESSION_RESOURCE_PREFIX}../../config` })
+      .then(() => null, (e: unknown) => e);
+
+    expect(resources.map(r => r.uri)).toEqual([`${SESSION_RESOURCE_PREFIX}${session.id}`]);
+    expect(read.contents[0]!.mimeType).toBe('application/json');
+    expect(JSON.parse(read.contents[0]!.text)).toMatchObject([{ role: 'user', content: 'remember the milk' }]);
+    expect((missing as JsonRpcError).code).toBe(-32002);
+  });
+});
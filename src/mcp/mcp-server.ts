@@ -0,0 +1,324 @@
+import { randomUUID } from 'node:crypto';
+import type { Readable, Writable } from 'node:stream';
+import { Logger } from '../logging/logger.js';
+import type { MemorySystem } from '../memory/memory-system.js';
+import type { SessionManager } from '../session/session-manager.js';
+import type { ApprovalPolicy } from '../security/approval-policy.js';
+import type { ToolCall, ToolDefinition, ToolSystem } from '../tools/tool-system.js';
+import { JsonRpcConnection, JsonRpcError, JSON_RPC_ERRORS, type JsonRpcId } from './json-rpc.js';
+import { MCP_PROTOCOL_VERSION, type McpCallToolResult } from './mcp-client.js';
+
+/**
+ * Protocol revisions the server speaks, newest first
+ */
+export const MCP_SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', MCP_PROTOCOL_VERSION, '2024-11-05'];
+
+/**
+ * Name and version reported to clients
+ */
+export const MCP_SERVER_INFO = { name: 'openclaw', version: '0.1.0' };
+
+/**
+ * URI prefix of session transcript resources
+ */
+export const SESSION_RESOURCE_PREFIX = 'openclaw://sessions/';
+
+/**
+ * MCP error code for an unknown resource
+ */
+const RESOURCE_NOT_FOUND = -32002;
+
+/**
+ * memory_search tool definition
+ */
+export const MEMORY_SEARCH_TOOL: ToolDefinition = {
+  name: 'memory_search',
+  description: 'Search the OpenClaw workspace memory (notes and memory files) for relevant passages',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'What to search for',
+        minLength: 1,
+      },
+      limit: {
+        type: 'integer',
+        description: 'Maximum number of results (default: 5)',
+        minimum: 1,
+        maximum: 50,
+      },
+    },
+    required: ['query'],
+    additionalProperties: false,
+  },
+  readOnly: true,
+};
+
+/**
+ * What the MCP server exposes
+ * With `memorySystem`, a memory_search tool is registered in `toolSystem`.
+ * Without `sessionManager` there are no resources. Tool calls are checked
+ * against `approvalPolicy` before they run.
+ */
+export interface McpStdioServerOptions {
+  toolSystem: ToolSystem;
+  memorySystem?: MemorySystem;
+  sessionManager?: SessionManager;
+  approvalPolicy?: ApprovalPolicy;
+  logger?: Logger;
+}
+
+/**
+ * McpStdioServer - Serves OpenClaw's tools, memory and sessions over MCP
+ *
+ * Tools come from the ToolSystem, so they run inside the same sandbox and
+ * shell policy as the Gateway's. Calls the approval policy denies fail;
+ * calls it would ask about are put to the user through the client's
+ * elicitation support, and denied if the client has none.
+ * Session transcripts are resources at `openclaw://sessions/<id>`.
+ */
+export class McpStdioServer {
+  private toolSystem: ToolSystem;
+  private sessionManager: SessionManager | null;
+  private approvalPolicy: ApprovalPolicy | null;
+  private logger: Logger;
+  private connection: JsonRpcConnection | null = null;
+  private clientCapabilities: Record<string, unknown> = {};
+
+  constructor(options: McpStdioServerOptions) {
+    this.toolSystem = options.toolSystem;
+    this.sessionManager = options.sessionManager ?? null;
+    this.approvalPolicy = options.approvalPolicy ?? null;
+    this.logger = options.logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
+
+    const memorySystem = options.memorySystem;
+    if (memorySystem && !this.toolSystem.has(MEMORY_SEARCH_TOOL.name)) {
+      this.toolSystem.register(MEMORY_SEARCH_TOOL, async (args) => {
+        const results = memorySystem.search(args['query'] as string, (args['limit'] as number | undefined) ?? 5);
+        return results.length === 0
+          ? 'No results'
+          : results.map(r => `## ${r.path} (score ${r.score.toFixed(3)})\n${r.content}`).join('\n\n');
+      });
+    }
+  }
+
+  /**
+   * Serves one client over a pair of streams
+   * Resolves when the input ends (the client closed the connection) and
+   * the requests already received have been answered.
+   */
+  serve(input: Readable, output: Writable): Promise<void> {
+    const connection = new JsonRpcConnection(input, output, {
+      onRequest: (method, params, signal) => this.handleRequest(method, params, signal),
+      onNotification: (method, params) => {
+        if (method === 'notifications/cancelled') {
+          const { requestId, reason } = (params ?? {}) as { requestId?: JsonRpcId; reason?: string };
+          if (requestId !== undefined) connection.cancelIncoming(requestId, new Error(reason ?? 'Cancelled by client'));
+        }
+      },
+    });
+    this.connection = connection;
+
+    return new Promise((resolve) => {
+      input.once('end', () => {
+        void connection.drain().then(() => {
+          connection.close();
+          this.connection = null;
+          resolve();
+        });
+      });
+    });
+  }
+
+  /**
+   * Lists the tools offered to clients
+   */
+  listTools(): ToolDefinition[] {
+    return this.toolSystem.list();
+  }
+
+  private async handleRequest(method: string, params: unknown, signal: AbortSignal): Promise<unknown> {
+    const args = (params ?? {}) as Record<string, unknown>;
+
+    switch (method) {
+      case 'initialize':
+        return this.initialize(args);
+      case 'ping':
+        return {};
+      case 'tools/list':
+        return {
+          tools: this.listTools().map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            inputSchema: tool.parameters,
+            ...(tool.readOnly ? { annotations: { readOnlyHint: true } } : {}),
+          })),
+        };
+      case 'tools/call':
+        return this.callTool(args, signal);
+      case 'resources/list':
+        return { resources: await this.listResources() };
+      case 'resources/templates/list':
+        return {
+          resourceTemplates: this.sessionManager
+            ? [{
+                uriTemplate: `${SESSION_RESOURCE_PREFIX}{sessionId}`,
+                name: 'Session transcript',
+                mimeType: 'application/json',
+              }]
+            : [],
+        };
+      case 'resources/read':
+        return this.readResource(args['uri']);
+      default:
+        throw new JsonRpcError(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private initialize(params: Record<string, unknown>): unknown {
+    const requested = params['protocolVersion'];
+    this.clientCapabilities = (params['capabilities'] ?? {}) as Record<string, unknown>;
+    const clientInfo = params['clientInfo'] as { name?: string } | undefined;
+    void this.logger.info('MCP client connected', { client: clientInfo?.name, protocolVersion: requested });
+
+    return {
+      protocolVersion: typeof requested === 'string' && MCP_SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+        ? requested
+        : MCP_SUPPORTED_PROTOCOL_VERSIONS[0],
+      capabilities: {
+        tools: { listChanged: false },
+        ...(this.sessionManager ? { resources: {} } : {}),
+      },
+      serverInfo: MCP_SERVER_INFO,
+    };
+  }
+
+  private async callTool(params: Record<string, unknown>, signal: AbortSignal): Promise<McpCallToolResult> {
+    const name = params['name'];
+    if (typeof name !== 'string' || !this.toolSystem.has(name)) {
+      throw new JsonRpcError(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${String(name)}`);
+    }
+    const toolCall: ToolCall = {
+      id: randomUUID(),
+      name,
+      arguments: (params['arguments'] ?? {}) as Record<string, unknown>,
+    };
+
+    const denial = await this.authorize(toolCall, signal);
+    if (denial !== null) {
+      await this.logger.info('MCP tool call denied', { toolName: name, reason: denial });
+      return { content: [{ type: 'text', text: denial }], isError: true };
+    }
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+
+    // Forward output as progress when the client asked for it
+    const progressToken = (params['_meta'] as { progressToken?: string | number } | undefined)?.progressToken;
+    let progress = 0;
+    const result = await this.toolSystem.execute(toolCall, {
+      signal,
+      ...(progressToken !== undefined
+        ? {
+            onOutput: (delta) => this.connection?.notify('notifications/progress', {
+              progressToken,
+              progress: ++progress,
+              message: delta.content,
+            }),
+          }
+        : {}),
+    });
+
+    await this.logger.info('MCP tool call', { toolName: name, success: result.success });
+    return result.success
+      ? { content: [{ type: 'text', text: result.output ?? '' }] }
+      : {
+          content: [{ type: 'text', text: `${result.error?.errorType}: ${result.error?.message}` }],
+          isError: true,
+          structuredContent: { error: result.error },
+        };
+  }
+
+  /**
+   * Checks a call against the approval policy
+   * Returns why the call may not run, or null if it may.
+   */
+  private async authorize(toolCall: ToolCall, signal: AbortSignal): Promise<string | null> {
+    if (!this.approvalPolicy) {
+      return null;
+    }
+
+    const evaluation = this.approvalPolicy.evaluate(toolCall);
+    if (evaluation.decision === 'allow') {
+      return null;
+    }
+    if (evaluation.decision === 'deny') {
+      return `permission_denied: Denied by policy: ${evaluation.reason}`;
+    }
+    if (!this.clientCapabilities['elicitation'] || !this.connection) {
+      return `permission_denied: Approval required but the MCP client cannot ask the user: ${evaluation.reason}`;
+    }
+
+    const timeoutMs = this.approvalPolicy.getConfig().timeoutMs;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new Error('timeout')), timeoutMs);
+    const onAbort = (): void => controller.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const answer = await this.connection.request('elicitation/create', {
+        message: `Allow ${toolCall.name}? ${evaluation.reason}\n${JSON.stringify(toolCall.arguments, null, 2)}`,
+        requestedSchema: {
+          type: 'object',
+          properties: { approve: { type: 'boolean', title: 'Run this tool call' } },
+          required: ['approve'],
+        },
+      }, controller.signal) as { action?: string; content?: { approve?: boolean } } | null;
+
+      return answer?.action === 'accept' && answer.content?.approve !== false
+        ? null
+        : 'permission_denied: Tool call denied by user';
+    } catch (error) {
+      return controller.signal.aborted && !signal.aborted
+        ? `permission_denied: Approval timed out after ${timeoutMs}ms`
+        : `permission_denied: Approval failed: ${error instanceof Error ? error.message : String(error)}`;
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async listResources(): Promise<unknown[]> {
+    if (!this.sessionManager) {
+      return [];
+    }
+    const sessions = await this.sessionManager.list();
+    return sessions.map(session => ({
+      uri: `${SESSION_RESOURCE_PREFIX}${session.id}`,
+      name: `Session ${session.id}`,
+      description: `${session.messageCount} messages, last updated ${new Date(session.updatedAt).toISOString()}`,
+      mimeType: 'application/json',
+    }));
+  }
+
+  private async readResource(uri: unknown): Promise<unknown> {
+    const sessionId = typeof uri === 'string' && uri.startsWith(SESSION_RESOURCE_PREFIX)
+      ? uri.slice(SESSION_RESOURCE_PREFIX.length)
+      : '';
+    // Session ids are UUIDs; anything else could name a file outside the sessions directory
+    if (!this.sessionManager || !/^[A-Za-z0-9-]+$/.test(sessionId)) {
+      throw new JsonRpcError(RESOURCE_NOT_FOUND, `Resource not found: ${String(uri)}`, { uri });
+    }
+
+    let history;
+    try {
+      history = await this.sessionManager.getHistory(sessionId);
+    } catch {
+      throw new JsonRpcError(RESOURCE_NOT_FOUND, `Resource not found: ${uri as string}`, { uri });
+    }
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(history, null, 2) }],
+    };
+  }
+}
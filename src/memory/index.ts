@@ -1,2 +1,20 @@
-export { MemorySystem, type MemoryConfig, type SearchResult, type Document } from './memory-system.js';
+export {
+  MemorySystem,
+  type MemoryConfig,
+  type SearchResult,
+  type Document,
+  type CompactionResult,
+} from './memory-system.js';
 export { BM25Index } from './bm25.js';
+export {
+  HeuristicSummarizer,
+  LlmSummarizer,
+  SUMMARIZER_STRATEGIES,
+  SUMMARY_HEADER,
+  DEFAULT_LLM_SUMMARIZER_OPTIONS,
+  type Summarizer,
+  type SummarizerStrategy,
+  type SummaryResult,
+  type StructuredSummary,
+  type LlmSummarizerOptions,
+} from './summarizer.js';
@@ -218,6 +218,124 @@ describe('MemorySystem', () => {
       const hasRecent = compactedHistory.some(e => e.content === recentContent);
       expect(hasRecent).toBe(true);
     });
+
+    it('should return a summary entry covering the compacted messages', async () => {
+      const longContent = 'The deploy target is staging. '.repeat(50);
+      const history: TranscriptEntry[] = [
+        { id: '1', role: 'user', content: longContent, timestamp: 1 },
+        { id: '2', role: 'assistant', content: longContent, timestamp: 2 },
+        { id: '3', role: 'user', content: 'Recent message', timestamp: 3 },
+      ];
+
+      const result = await memorySystem.compact(history, 200);
+
+      expect(result.summary).toMatchObject({
+        role: 'summary',
+        summary: { coversThrough: '2', compactedMessages: 2 },
+      });
+      expect(result.summary?.content).toContain('The deploy target is staging');
+      expect(result.compactedHistory).toEqual([result.summary, history[2]]);
+      expect(result.tokensBefore).toBe(memorySystem.estimateHistoryTokens(history));
+      expect(result.tokensAfter).toBe(memorySystem.estimateHistoryTokens(result.compactedHistory));
+      expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+    });
+
+    it('should reuse a stored summary instead of compacting again', async () => {
+      const longContent = 'The deploy target is staging. '.repeat(50);
+      const first = await memorySystem.compact([
+        { id: '1', role: 'user', content: longContent, timestamp: 1 },
+        { id: '2', role: 'user', content: 'Recent message', timestamp: 2 },
+      ], 200);
+
+      // The transcript keeps raw entries; the summary is appended after them
+      const transcript: TranscriptEntry[] = [
+        { id: '1', role: 'user', content: longContent, timestamp: 1 },
+        { id: '2', role: 'user', content: 'Recent message', timestamp: 2 },
+        first.summary!,
+        { id: '3', role: 'assistant', content: 'Reply', timestamp: 3 },
+      ];
+
+      const second = await memorySystem.compact(transcript, 200);
+
+      expect(second.summary).toBeUndefined();
+      expect(second.compactedHistory.map(e => e.id)).toEqual([first.summary!.id, '2', '3']);
+    });
+
+    it('should fold an earlier summary into the next one', async () => {
+      const history: TranscriptEntry[] = [
+        {
+          id: 's1',
+          role: 'summary',
+          content: '[Context Summary]\n- The user prefers tabs',
+          timestamp: 1,
+          summary: { coversThrough: '0', compactedMessages: 4, tokensBefore: 900, tokensAfter: 100 },
+        },
+        { id: '1', role: 'user', content: 'The database is Postgres. '.repeat(40), timestamp: 2 },
+        { id: '2', role: 'user', content: 'Recent message', timestamp: 3 },
+      ];
+
+      const { summary, flushedFacts } = await memorySystem.compact(history, 200);
+
+      expect(summary?.content).toContain('- The user prefers tabs');
+      expect(summary?.content).toContain('The database is Postgres');
+      expect(summary?.summary?.compactedMessages).toBe(5);
+      // Only new facts are flushed to disk
+      expect(flushedFacts.every(f => !f.includes('tabs'))).toBe(true);
+    });
+
+    it('should count tool payloads and keep a tool result with its call', async () => {
+      const history: TranscriptEntry[] = [
+        {
+          id: '1',
+          role: 'tool',
+          content: '',
+          timestamp: 1,
+          toolCall: {
+            id: 'call1',
+            name: 'write_file',
+            arguments: JSON.stringify({ path: 'src/app.ts', content: 'x'.repeat(800) }),
+          },
+        },
+        {
+          id: '2',
+          role: 'tool',
+          content: '',
+          timestamp: 2,
+          toolResult: { callId: 'call1', success: true, output: 'Wrote 800 bytes' },
+        },
+        { id: '3', role: 'user', content: 'Recent message', timestamp: 3 },
+      ];
+
+      expect(memorySystem.estimateHistoryTokens(history)).toBeGreaterThan(200);
+
+      const { summary, compactedHistory } = await memorySystem.compact(history, 200);
+
+      expect(summary?.summary?.coversThrough).toBe('2');
+      expect(summary?.content).toContain('Used write_file on src/app.ts');
+      expect(compactedHistory.map(e => e.id)).toEqual([summary!.id, '3']);
+    });
+  });
+
+  describe('applySummaries', () => {
+    it('should return history unchanged when there is no summary', () => {
+      const history: TranscriptEntry[] = [
+        { id: '1', role: 'user', content: 'Hello', timestamp: 1 },
+      ];
+      expect(memorySystem.applySummaries(history)).toBe(history);
+    });
+
+    it('should use only the latest summary', () => {
+      const summaryInfo = { compactedMessages: 1, tokensBefore: 10, tokensAfter: 5 };
+      const history: TranscriptEntry[] = [
+        { id: '1', role: 'user', content: 'a', timestamp: 1 },
+        { id: 's1', role: 'summary', content: 'old', timestamp: 2, summary: { ...summaryInfo, coversThrough: '1' } },
+        { id: '2', role: 'user', content: 'b', timestamp: 3 },
+        { id: 's2', role: 'summary', content: 'new', timestamp: 4, summary: { ...summaryInfo, coversThrough: '2' } },
+        { id: '3', role: 'user', content: 'c', timestamp: 5 },
+      ];
+
+      expect(memorySystem.applySummaries(history).map(e => e.id)).toEqual(['s2', '3']);
+    });
   });
 
   describe('estimateTokens', () => {
@@ -1,9 +1,11 @@
 import { readFile, readdir, stat, writeFile, access, constants } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
 import { join, relative } from 'node:path';
 import { Workspace } from '../storage/workspace.js';
 import { Logger } from '../logging/logger.js';
 import { BM25Index, type IndexedDocument } from './bm25.js';
 import type { TranscriptEntry, Session } from '../session/session-manager.js';
+import { HeuristicSummarizer, type Summarizer } from './summarizer.js';
 
 /**
  * Memory system configuration
@@ -33,6 +35,19 @@ export interface SearchResult {
   timestamp: number;
 }
 
+/**
+ * Outcome of a compaction pass
+ * `summary` is set only when older messages were folded into a new summary
+ * entry; callers persist it so the work is not repeated on the next turn
+ */
+export interface CompactionResult {
+  compactedHistory: TranscriptEntry[];
+  flushedFacts: string[];
+  summary?: TranscriptEntry;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
 /**
  * Document representation
  */
@@ -58,12 +73,15 @@ export class MemorySystem {
   private config: MemoryConfig;
   private bm25Index: BM25Index;
   private bootstrapCache: { soul: string; user: string } | null = null;
+  private summarizer: Summarizer;
+  private indexed = false;
 
-  constructor(workspace: Workspace, config: Partial<MemoryConfig> = {}, logger?: Logger) {
+  constructor(workspace: Workspace, config: Partial<MemoryConfig> = {}, logger?: Logger, summarizer?: Summarizer) {
     this.workspace = workspace;
     this.config = { ...DEFAULT_MEMORY_CONFIG, ...config };
     this.logger = logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
     this.bm25Index = new BM25Index();
+    this.summarizer = summarizer ?? new HeuristicSummarizer();
   }
 
   /**
@@ -125,6 +143,7 @@ export class MemorySystem {
       await access(memoryDir, constants.F_OK);
     } catch {
       await this.logger.debug('Memory directory does not exist');
+      this.indexed = true;
       return 0;
     }
 
@@ -149,9 +168,17 @@ export class MemorySystem {
     }
 
     await this.logger.debug('Indexed workspace files', { count: indexedCount });
+    this.indexed = true;
     return indexedCount;
   }
 
+  /**
+   * Whether indexWorkspace has completed
+   */
+  get isIndexed(): boolean {
+    return this.indexed;
+  }
+
   /**
    * Recursively walks a directory and returns files matching the extension
    */
@@ -315,48 +342,89 @@ export class MemorySystem {
     return Math.ceil(text.length / 4);
   }
 
+  /**
+   * Replaces everything covered by the latest stored summary with that summary
+   * Transcripts keep all raw entries; this yields the history a run should see.
+   */
+  applySummaries(history: TranscriptEntry[]): TranscriptEntry[] {
+    let summaryIndex = -1;
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i]?.role === 'summary') {
+        summaryIndex = i;
+        break;
+      }
+    }
+
+    if (summaryIndex === -1) {
+      return history;
+    }
+
+    const summary = history[summaryIndex]!;
+    const coveredIndex = history.findIndex(entry => entry.id === summary.summary?.coversThrough);
+    // Without a usable marker, the summary covers what came before it
+    const firstKept = coveredIndex === -1 ? summaryIndex + 1 : coveredIndex + 1;
+
+    return [summary, ...history.slice(firstKept).filter(entry => entry.role !== 'summary')];
+  }
+
+  /**
+   * Estimates the tokens one transcript entry takes up
+   * Tool entries keep their payload in `toolCall`/`toolResult`, not `content`.
+   */
+  estimateEntryTokens(entry: TranscriptEntry): number {
+    let text = entry.content;
+    if (entry.toolCall) {
+      text += entry.toolCall.name + entry.toolCall.arguments;
+    }
+    if (entry.toolResult) {
+      text += entry.toolResult.output;
+    }
+    return this.estimateTokens(text);
+  }
+
+  /**
+   * Estimates the tokens a list of transcript entries takes up
+   */
+  estimateHistoryTokens(history: TranscriptEntry[]): number {
+    return history.reduce((total, entry) => total + this.estimateEntryTokens(entry), 0);
+  }
+
   /**
    * Compacts context when it exceeds the maximum token limit
+   * Stored summaries are applied first, so a summary only has to be
+   * recomputed once the history has outgrown the limit again.
    * Requirement 5.3: Summarize older messages when context exceeds limit
    */
-  async compact(
-    history: TranscriptEntry[],
-    maxTokens?: number
-  ): Promise<{ compactedHistory: TranscriptEntry[]; flushedFacts: string[] }> {
+  async compact(history: TranscriptEntry[], maxTokens?: number): Promise<CompactionResult> {
     const limit = maxTokens ?? this.config.maxContextTokens;
+    const effective = this.applySummaries(history);
     
     // Calculate current token usage
-    let totalTokens = 0;
-    for (const entry of history) {
-      totalTokens += this.estimateTokens(entry.content);
-    }
+    const totalTokens = this.estimateHistoryTokens(effective);
 
     // If within limit, no compaction needed
     if (totalTokens <= limit) {
-      return { compactedHistory: history, flushedFacts: [] };
+      return { compactedHistory: effective, flushedFacts: [], tokensBefore: totalTokens, tokensAfter: totalTokens };
     }
 
     await this.logger.info('Compacting context', { 
       currentTokens: totalTokens, 
       limit,
-      messageCount: history.length 
+      messageCount: effective.length 
     });
 
     // Strategy: Keep recent messages, summarize older ones
-    const compactedHistory: TranscriptEntry[] = [];
-    const flushedFacts: string[] = [];
-    
     // Keep the most recent messages that fit within 70% of limit
     const recentLimit = Math.floor(limit * 0.7);
     let recentTokens = 0;
     const recentMessages: TranscriptEntry[] = [];
     
     // Work backwards from most recent
-    for (let i = history.length - 1; i >= 0; i--) {
-      const entry = history[i];
-      if (!entry) continue;
+    for (let i = effective.length - 1; i >= 0; i--) {
+      const entry = effective[i];
+      if (!entry || entry.role === 'summary') break;
       
-      const entryTokens = this.estimateTokens(entry.content);
+      const entryTokens = this.estimateEntryTokens(entry);
       if (recentTokens + entryTokens <= recentLimit) {
         recentMessages.unshift(entry);
         recentTokens += entryTokens;
@@ -365,77 +433,55 @@ export class MemorySystem {
       }
     }
 
-    // Extract important facts from older messages
-    const olderMessages = history.slice(0, history.length - recentMessages.length);
-    const facts = this.extractFacts(olderMessages);
-    
-    // Create a summary entry if there are older messages
-    if (olderMessages.length > 0 && facts.length > 0) {
-      const summaryContent = `[Context Summary: ${facts.join('; ')}]`;
-      const summaryEntry: TranscriptEntry = {
-        id: 'summary-' + Date.now(),
-        role: 'assistant',
-        content: summaryContent,
-        timestamp: olderMessages[0]?.timestamp ?? Date.now(),
-      };
-      compactedHistory.push(summaryEntry);
-      flushedFacts.push(...facts);
+    // A tool result must not outlive its call; summarize them together
+    while (recentMessages[0]?.toolResult) {
+      recentTokens -= this.estimateEntryTokens(recentMessages.shift()!);
+    }
+
+    const olderMessages = effective.slice(0, effective.length - recentMessages.length);
+    const lastOlder = olderMessages[olderMessages.length - 1];
+    if (!lastOlder) {
+      return { compactedHistory: effective, flushedFacts: [], tokensBefore: totalTokens, tokensAfter: totalTokens };
     }
 
-    // Add recent messages
-    compactedHistory.push(...recentMessages);
+    // Summarize older messages, folding in any earlier summary
+    const { content: summaryContent, facts: flushedFacts } = await this.summarizer.summarize(olderMessages);
+    const compactedMessages = olderMessages
+      .filter(entry => entry.role !== 'summary')
+      .length + (olderMessages[0]?.summary?.compactedMessages ?? 0);
+
+    const tokensAfter = this.estimateTokens(summaryContent) + recentTokens;
+
+    const summary: TranscriptEntry = {
+      id: randomUUID(),
+      role: 'summary',
+      content: summaryContent,
+      timestamp: Date.now(),
+      summary: {
+        coversThrough: lastOlder.id,
+        compactedMessages,
+        tokensBefore: totalTokens,
+        tokensAfter,
+      },
+    };
 
     // Flush facts to disk
     if (flushedFacts.length > 0) {
       await this.flushFactsToDisk(flushedFacts);
     }
 
+    const compactedHistory = [summary, ...recentMessages];
+
     await this.logger.info('Context compacted', {
-      originalMessages: history.length,
+      summarizer: this.summarizer.name,
+      originalMessages: effective.length,
       compactedMessages: compactedHistory.length,
       flushedFacts: flushedFacts.length,
+      tokensBefore: totalTokens,
+      tokensAfter,
     });
 
-    return { compactedHistory, flushedFacts };
-  }
-
-
-  /**
-   * Extracts important facts from transcript entries
-   * Simple heuristic: look for statements, definitions, preferences
-   */
-  private extractFacts(entries: TranscriptEntry[]): string[] {
-    const facts: string[] = [];
-    
-    for (const entry of entries) {
-      // Skip tool entries
-      if (entry.role === 'tool') continue;
-      
-      // Extract sentences that look like facts
-      const sentences = entry.content.split(/[.!?]+/).filter(s => s.trim().length > 10);
-      
-      for (const sentence of sentences) {
-        const trimmed = sentence.trim();
-        
-        // Heuristics for fact-like sentences
-        const isDefinition = /\b(is|are|was|were|means|refers to)\b/i.test(trimmed);
-        const isPreference = /\b(prefer|like|want|need|should|must)\b/i.test(trimmed);
-        const isStatement = /\b(always|never|usually|typically|important)\b/i.test(trimmed);
-        
-        if (isDefinition || isPreference || isStatement) {
-          // Limit fact length
-          const fact = trimmed.length > 100 ? trimmed.slice(0, 100) + '...' : trimmed;
-          facts.push(fact);
-          
-          // Limit total facts
-          if (facts.length >= 10) break;
-        }
-      }
-      
-      if (facts.length >= 10) break;
-    }
-    
-    return facts;
+    return { compactedHistory, flushedFacts, summary, tokensBefore: totalTokens, tokensAfter };
   }
 
   /**
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { HeuristicSummarizer, LlmSummarizer, SUMMARY_HEADER } from './summarizer.js';
+import { ScriptedBackend } from '../agent/scripted-backend.js';
+import { Logger } from '../logging/logger.js';
+import type { TranscriptEntry } from '../session/session-manager.js';
+
+const logger = new Logger({ level: 'error', path: join(tmpdir(), 'openclaw-summarizer-test.log') });
+
+const entries: TranscriptEntry[] = [
+  { id: '1', role: 'user', content: 'Please use tabs. The config file is src/config.ts.', timestamp: 1 },
+  { id: '2', role: 'assistant', content: 'I updated src/config.ts to use tabs.', timestamp: 2 },
+];
+
+const toolEntries: TranscriptEntry[] = [
+  { id: '3', role: 'tool', content: '', timestamp: 3, toolCall: { id: 'c1', name: 'read_file', arguments: '{"path":"src/config.ts"}' } },
+  { id: '4', role: 'tool', content: '', timestamp: 4, toolResult: { callId: 'c1', success: true, output: 'export const indent = "tabs";' } },
+];
+
+describe('HeuristicSummarizer', () => {
+  it('should keep fact-like sentences', async () => {
+    const summarizer = new HeuristicSummarizer();
+
+    const result = await summarizer.summarize(entries);
+
+    expect(result.content.startsWith(SUMMARY_HEADER)).toBe(true);
+    expect(result.facts).toContain('The config file is src/config');
+  });
+
+  it('should carry facts from an earlier summary without flushing them again', async () => {
+    const summarizer = new HeuristicSummarizer();
+    const previous: TranscriptEntry = {
+      id: 's', role: 'summary', content: `${SUMMARY_HEADER}\n- The user prefers tabs`, timestamp: 0,
+    };
+
+    const result = await summarizer.summarize([previous, ...entries]);
+
+    expect(result.content).toContain('- The user prefers tabs');
+    expect(result.facts).not.toContain('The user prefers tabs');
+  });
+
+  it('should record the files tools were used on', async () => {
+    const summarizer = new HeuristicSummarizer();
+
+    const result = await summarizer.summarize([
+      ...toolEntries,
+      { id: '5', role: 'tool', content: '', timestamp: 5, toolCall: { id: 'c3', name: 'execute_shell', arguments: '{"command":"ls"}' } },
+    ]);
+
+    expect(result.facts).toEqual(['Used read_file on src/config.ts']);
+  });
+
+  it('should note how many messages were compacted when no facts are found', async () => {
+    const summarizer = new HeuristicSummarizer();
+
+    const result = await summarizer.summarize([{ id: '1', role: 'user', content: 'ok', timestamp: 1 }]);
+
+    expect(result.content).toBe(`${SUMMARY_HEADER}\n- 1 earlier messages were compacted`);
+    expect(result.facts).toEqual([]);
+  });
+});
+
+describe('LlmSummarizer', () => {
+  it('should produce a structured summary from the model reply', async () => {
+    const backend = new ScriptedBackend([
+      'Here you go:\n```json\n' + JSON.stringify({
+        decisions: ['Switched indentation to tabs'],
+        openQuestions: ['Should tests use tabs too?'],
+        preferences: ['Use tabs'],
+        filePaths: ['src/config.ts'],
+      }) + '\n```',
+    ]);
+    const summarizer = new LlmSummarizer(backend, { model: 'haiku' }, logger);
+
+    const result = await summarizer.summarize(entries);
+
+    expect(result.content).toBe([
+      SUMMARY_HEADER,
+      'Decisions:',
+      '- Switched indentation to tabs',
+      'Open questions:',
+      '- Should tests use tabs too?',
+      'User preferences:',
+      '- Use tabs',
+      'Files touched:',
+      '- src/config.ts',
+    ].join('\n'));
+    expect(result.facts).toContain('Files touched: src/config.ts');
+    expect(backend.requests[0]?.model).toBe('haiku');
+    expect(backend.requests[0]?.prompt).toContain('User: Please use tabs.');
+  });
+
+  it('should include an earlier summary in the prompt', () => {
+    const summarizer = new LlmSummarizer(new ScriptedBackend(), {}, logger);
+    const previous: TranscriptEntry = {
+      id: 's', role: 'summary', content: `${SUMMARY_HEADER}\nDecisions:\n- Use pnpm`, timestamp: 0,
+    };
+
+    const prompt = summarizer.buildPrompt([previous, ...entries]);
+
+    expect(prompt).toContain('Earlier summary:');
+    expect(prompt).toContain('- Use pnpm');
+  });
+
+  it('should include tool calls and results in the prompt', () => {
+    const summarizer = new LlmSummarizer(new ScriptedBackend(), {}, logger);
+
+    const prompt = summarizer.buildPrompt([...entries, ...toolEntries]);
+
+    expect(prompt).toContain('Tool call: read_file {"path":"src/config.ts"}');
+    expect(prompt).toContain('Tool result: export const indent = "tabs";');
+  });
+
+  it('should ignore malformed items in the reply', () => {
+    const summarizer = new LlmSummarizer(new ScriptedBackend(), {}, logger);
+
+    const summary = summarizer.parseSummary('{"decisions": ["a", 3, " "], "filePaths": "nope"}');
+
+    expect(summary).toEqual({ decisions: ['a'], openQuestions: [], preferences: [], filePaths: [] });
+  });
+
+  it('should fall back to the heuristic when the reply is not JSON', async () => {
+    const summarizer = new LlmSummarizer(new ScriptedBackend(['I cannot do that']), {}, logger);
+
+    const result = await summarizer.summarize(entries);
+    const heuristic = await new HeuristicSummarizer().summarize(entries);
+
+    expect(result).toEqual(heuristic);
+  });
+
+  it('should fall back when the backend fails', async () => {
+    // An empty script makes the backend report an error
+    const summarizer = new LlmSummarizer(new ScriptedBackend(), {}, logger);
+
+    const result = await summarizer.summarize(entries);
+
+    expect(result.content.startsWith(SUMMARY_HEADER)).toBe(true);
+    expect(result.facts).toContain('The config file is src/config');
+  });
+});
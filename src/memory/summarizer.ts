@@ -0,0 +1,338 @@
+import { Logger } from '../logging/logger.js';
+import type { AgentBackend } from '../agent/agent-backend.js';
+import type { TranscriptEntry } from '../session/session-manager.js';
+
+/**
+ * Summary of compacted messages
+ * `content` replaces the messages in the prompt; `facts` are the new
+ * findings worth flushing to disk for later retrieval
+ */
+export interface SummaryResult {
+  content: string;
+  facts: string[];
+}
+
+/**
+ * Structured summary produced by the LLM strategy
+ */
+export interface StructuredSummary {
+  decisions: string[];
+  openQuestions: string[];
+  preferences: string[];
+  filePaths: string[];
+}
+
+/**
+ * Summarizer - Condenses older transcript entries during compaction
+ *
+ * The entries may start with an earlier summary entry (role `summary`),
+ * whose content should be carried into the new summary.
+ */
+export interface Summarizer {
+  readonly name: string;
+  summarize(entries: TranscriptEntry[]): Promise<SummaryResult>;
+}
+
+/**
+ * Names of the summarization strategies selectable via `config.memory.summarizer`
+ */
+export const SUMMARIZER_STRATEGIES = ['heuristic', 'llm'] as const;
+
+export type SummarizerStrategy = typeof SUMMARIZER_STRATEGIES[number];
+
+/**
+ * Header every summary entry starts with
+ */
+export const SUMMARY_HEADER = '[Context Summary]';
+
+/**
+ * Most facts a heuristic summary keeps
+ */
+const MAX_SUMMARY_FACTS = 10;
+
+/**
+ * Longest tool output quoted in the LLM summarization prompt
+ */
+const MAX_PROMPT_TOOL_OUTPUT = 2000;
+
+/**
+ * HeuristicSummarizer - Keeps fact-like sentences, no model required
+ *
+ * Sentences containing definitions, preferences or strong statements are
+ * kept (truncated to 100 characters, at most 10), along with the files
+ * tools were used on. Used offline and as the fallback when the LLM
+ * strategy fails.
+ */
+export class HeuristicSummarizer implements Summarizer {
+  readonly name: string = 'heuristic';
+
+  async summarize(entries: TranscriptEntry[]): Promise<SummaryResult> {
+    // Carry facts from an earlier summary forward and add new ones
+    const carriedFacts = entries
+      .filter(entry => entry.role === 'summary')
+      .flatMap(entry => this.summaryFacts(entry));
+    const newFacts = [...new Set([...this.extractFacts(entries), ...this.toolFacts(entries)])];
+    const facts = [...new Set([...carriedFacts, ...newFacts])].slice(-MAX_SUMMARY_FACTS);
+
+    const compacted = entries.filter(entry => entry.role !== 'summary').length;
+    const content = [
+      SUMMARY_HEADER,
+      ...(facts.length > 0 ? facts.map(f => `- ${f}`) : [`- ${compacted} earlier messages were compacted`]),
+    ].join('\n');
+
+    return { content, facts: newFacts };
+  }
+
+  /**
+   * Extracts important facts from transcript entries
+   * Simple heuristic: look for statements, definitions, preferences
+   */
+  extractFacts(entries: TranscriptEntry[]): string[] {
+    const facts: string[] = [];
+
+    for (const entry of entries) {
+      // Skip tool entries and earlier summaries
+      if (entry.role === 'tool' || entry.role === 'summary') continue;
+
+      // Extract sentences that look like facts
+      const sentences = entry.content.split(/[.!?]+/).filter(s => s.trim().length > 10);
+
+      for (const sentence of sentences) {
+        const trimmed = sentence.trim();
+
+        // Heuristics for fact-like sentences
+        const isDefinition = /\b(is|are|was|were|means|refers to)\b/i.test(trimmed);
+        const isPreference = /\b(prefer|like|want|need|should|must)\b/i.test(trimmed);
+        const isStatement = /\b(always|never|usually|typically|important)\b/i.test(trimmed);
+
+        if (isDefinition || isPreference || isStatement) {
+          // Limit fact length
+          const fact = trimmed.length > 100 ? trimmed.slice(0, 100) + '...' : trimmed;
+          facts.push(fact);
+
+          // Limit total facts
+          if (facts.length >= MAX_SUMMARY_FACTS) break;
+        }
+      }
+
+      if (facts.length >= MAX_SUMMARY_FACTS) break;
+    }
+
+    return facts;
+  }
+
+  /**
+   * Notes which files the compacted tool calls touched
+   * e.g. `Used write_file on src/app.ts`
+   */
+  toolFacts(entries: TranscriptEntry[]): string[] {
+    const facts: string[] = [];
+    for (const entry of entries) {
+      if (!entry.toolCall) continue;
+
+      let args: unknown;
+      try {
+        args = JSON.parse(entry.toolCall.arguments);
+      } catch {
+        continue;
+      }
+      const path = (args as Record<string, unknown> | null)?.path;
+      if (typeof path === 'string' && path.trim()) {
+        facts.push(`Used ${entry.toolCall.name} on ${path.trim()}`);
+      }
+    }
+    return facts;
+  }
+
+  /**
+   * Reads the bullet items of an earlier summary entry
+   */
+  private summaryFacts(entry: TranscriptEntry): string[] {
+    return entry.content
+      .split('\n')
+      .filter(line => line.startsWith('- '))
+      .map(line => line.slice(2))
+      .filter(line => !/^\d+ earlier messages were compacted$/.test(line));
+  }
+}
+
+/**
+ * LLM summarizer options
+ */
+export interface LlmSummarizerOptions {
+  model: string;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+/**
+ * Default LLM summarizer options
+ */
+export const DEFAULT_LLM_SUMMARIZER_OPTIONS: LlmSummarizerOptions = {
+  model: 'sonnet',
+  maxTokens: 1024,
+  timeoutMs: 60000,
+};
+
+/**
+ * Section titles of a structured summary, in display order
+ */
+const SUMMARY_SECTIONS: Array<[keyof StructuredSummary, string]> = [
+  ['decisions', 'Decisions'],
+  ['openQuestions', 'Open questions'],
+  ['preferences', 'User preferences'],
+  ['filePaths', 'Files touched'],
+];
+
+/**
+ * LlmSummarizer - Asks the agent backend for a structured summary
+ *
+ * The model is given the dropped messages (including any earlier summary)
+ * and asked for JSON with decisions, open questions, user preferences and
+ * file paths touched. If the backend fails, times out or returns something
+ * unparseable, the fallback strategy is used instead.
+ */
+export class LlmSummarizer implements Summarizer {
+  readonly name: string = 'llm';
+  private backend: AgentBackend;
+  private options: LlmSummarizerOptions;
+  private fallback: Summarizer;
+  private logger: Logger;
+
+  constructor(
+    backend: AgentBackend,
+    options: Partial<LlmSummarizerOptions> = {},
+    logger?: Logger,
+    fallback?: Summarizer
+  ) {
+    this.backend = backend;
+    this.options = { ...DEFAULT_LLM_SUMMARIZER_OPTIONS, ...options };
+    this.logger = logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
+    this.fallback = fallback ?? new HeuristicSummarizer();
+  }
+
+  async summarize(entries: TranscriptEntry[]): Promise<SummaryResult> {
+    try {
+      const reply = await this.complete(this.buildPrompt(entries));
+      const summary = this.parseSummary(reply);
+      return {
+        content: this.formatSummary(summary),
+        facts: SUMMARY_SECTIONS.flatMap(([key, title]) => summary[key].map(item => `${title}: ${item}`)),
+      };
+    } catch (error) {
+      await this.logger.warn('LLM summarization failed, using fallback', {
+        fallback: this.fallback.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.fallback.summarize(entries);
+    }
+  }
+
+  /**
+   * Builds the summarization prompt
+   */
+  buildPrompt(entries: TranscriptEntry[]): string {
+    const transcript = entries.map(entry => {
+      if (entry.role === 'summary') {
+        return `Earlier summary:\n${entry.content}`;
+      }
+      if (entry.toolCall) {
+        return `Tool call: ${entry.toolCall.name} ${entry.toolCall.arguments}`;
+      }
+      if (entry.toolResult) {
+        const { output } = entry.toolResult;
+        const shown = output.length > MAX_PROMPT_TOOL_OUTPUT
+          ? `${output.slice(0, MAX_PROMPT_TOOL_OUTPUT)}... [truncated]`
+          : output;
+        return `Tool ${entry.toolResult.success ? 'result' : 'error'}: ${shown}`;
+      }
+      if (entry.role === 'tool') {
+        return `Tool: ${entry.content}`;
+      }
+      return `${entry.role === 'user' ? 'User' : 'Assistant'}: ${entry.content}`;
+    }).join('\n\n');
+
+    return [
+      'Summarize the conversation below so it can replace the original messages.',
+      'Merge any earlier summary into the new one. Keep only what later turns need.',
+      'Reply with JSON only, in exactly this shape:',
+      '{"decisions": [], "openQuestions": [], "preferences": [], "filePaths": []}',
+      '- decisions: what was decided or done',
+      '- openQuestions: unresolved questions and pending work',
+      '- preferences: how the user wants things done',
+      '- filePaths: files that were read, created or changed',
+      '',
+      '<conversation>',
+      transcript,
+      '</conversation>',
+    ].join('\n');
+  }
+
+  /**
+   * Parses the model's reply into a structured summary
+   * Tolerates prose or code fences around the JSON object.
+   */
+  parseSummary(reply: string): StructuredSummary {
+    const start = reply.indexOf('{');
+    const end = reply.lastIndexOf('}');
+    if (start === -1 || end < start) {
+      throw new Error('Summary reply contains no JSON object');
+    }
+
+    const parsed = JSON.parse(reply.slice(start, end + 1)) as Record<string, unknown>;
+    const list = (key: keyof StructuredSummary): string[] => {
+      const value = parsed[key];
+      return Array.isArray(value)
+        ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim())
+        : [];
+    };
+
+    return {
+      decisions: list('decisions'),
+      openQuestions: list('openQuestions'),
+      preferences: list('preferences'),
+      filePaths: list('filePaths'),
+    };
+  }
+
+  /**
+   * Renders a structured summary as the content of a summary entry
+   */
+  formatSummary(summary: StructuredSummary): string {
+    const lines = [SUMMARY_HEADER];
+    for (const [key, title] of SUMMARY_SECTIONS) {
+      if (summary[key].length > 0) {
+        lines.push(`${title}:`, ...summary[key].map(item => `- ${item}`));
+      }
+    }
+    if (lines.length === 1) {
+      lines.push('- Nothing from the earlier conversation needs to be kept');
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Runs one backend invocation and returns its text
+   */
+  private async complete(prompt: string): Promise<string> {
+    let text = '';
+    for await (const event of this.backend.invoke({
+      sessionId: 'memory-compaction',
+      prompt,
+      model: this.options.model,
+      maxTokens: this.options.maxTokens,
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    })) {
+      if (event.type === 'text_delta') {
+        text += event.content;
+      } else if (event.type === 'error') {
+        throw new Error(event.message);
+      }
+    }
+
+    if (!text.trim()) {
+      throw new Error('Summary reply was empty');
+    }
+    return text;
+  }
+}
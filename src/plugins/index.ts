@@ -0,0 +1,19 @@
+/**
+ * Plugins - Custom tools loaded from ~/.openclaw/plugins/
+ */
+
+export {
+  PluginLoader,
+  PluginManifestSchema,
+  PLUGIN_MANIFEST_FILE,
+  PLUGIN_PERMISSIONS,
+  type PluginManifest,
+  type PluginPermission,
+  type PluginSettings,
+  type PluginLoaderOptions,
+  type PluginState,
+  type PluginStatus,
+  type PluginApi,
+  type PluginTool,
+  type PluginModule,
+} from './plugin-loader.js';
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { PluginLoader, type PluginLoaderOptions } from './plugin-loader.js';
+import { ToolSystem } from '../tools/tool-system.js';
+import { FsSandbox } from '../tools/fs-sandbox.js';
+import { Logger } from '../logging/logger.js';
+
+describe('PluginLoader', () => {
+  let testDir: string;
+  let pluginsDir: string;
+  let logger: Logger;
+  let toolSystem: ToolSystem;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `openclaw-plugins-${randomUUID()}`);
+    pluginsDir = join(testDir, 'plugins');
+    await mkdir(pluginsDir, { recursive: true });
+    logger = new Logger({ level: 'error', path: join(testDir, 'test.log') });
+    toolSystem = new ToolSystem();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Writes a plugin directory with a manifest and an entry module
+   */
+  async function writePlugin(dir: string, manifest: unknown, source: string | null, main = 'index.js'): Promise<void> {
+    await mkdir(join(pluginsDir, dir), { recursive: true });
+    await writeFile(join(pluginsDir, dir, 'plugin.json'), typeof manifest === 'string' ? manifest : JSON.stringify(manifest));
+    if (source !== null) {
+      await mkdir(dirname(join(pluginsDir, dir, main)), { recursive: true });
+      await writeFile(join(pluginsDir, dir, main), source);
+    }
+  }
+
+  function createLoader(options: Partial<PluginLoaderOptions> = {}): PluginLoader {
+    return new PluginLoader(toolSystem, { dir: pluginsDir, logger, ...options });
+  }
+
+  async function run(name: string, args: Record<string, unknown> = {}) {
+    return toolSystem.execute({ id: randomUUID(), name, arguments: args });
+  }
+
+  const SHOUT = `
+    export const definition = {
+      name: 'shout',
+      description: 'Upper-case the text',
+      parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+    };
+    export async function handler(args) {
+      return args.text.toUpperCase();
+    }
+  `;
+
+  it('should load a plugin exporting a definition and handler', async () => {
+    await writePlugin('shout', { name: 'shout', version: '1.0.0', description: 'Shouting' }, SHOUT);
+
+    const plugins = await createLoader().load();
+
+    expect(plugins).toEqual([{
+      name: 'shout',
+      version: '1.0.0',
+      description: 'Shouting',
+      path: join(pluginsDir, 'shout'),
+      permissions: [],
+      state: 'loaded',
+      tools: ['shout'],
+    }]);
+    expect((await run('shout', { text: 'hi' })).output).toBe('HI');
+    expect((await run('shout', {})).error?.errorType).toBe('validation');
+  });
+
+  it('should call register with the plugin api and its config', async () => {
+    await writePlugin('greeter', { name: 'greeter', version: '0.2.0', main: 'lib/main.mjs' }, `
+      export function register(api) {
+        api.registerTool(
+          { name: 'greet', description: 'Greet', parameters: { type: 'object' } },
+          async () => api.config.greeting + ' from ' + api.name,
+        );
+        api.registerTool(
+          { name: 'farewell', description: 'Bye', parameters: { type: 'object' } },
+          async () => 'bye',
+        );
+      }
+    `, 'lib/main.mjs');
+
+    const plugins = await createLoader({ plugins: { greeter: { config: { greeting: 'hello' } } } }).load();
+
+    expect(plugins[0]).toMatchObject({ state: 'loaded', tools: ['greet', 'farewell'] });
+    expect((await run('greet')).output).toBe('hello from greeter');
+  });
+
+  it('should load a tools array', async () => {
+    await writePlugin('math', { name: 'math', version: '1.0.0' }, `
+      export const tools = [
+        { definition: { name: 'double', description: 'x2', parameters: { type: 'object' } }, handler: async (a) => String(a.n * 2) },
+        { definition: { name: 'square', description: 'x^2', parameters: { type: 'object' } }, handler: async (a) => String(a.n * a.n) },
+      ];
+    `);
+
+    const plugins = await createLoader().load();
+
+    expect(plugins[0]!.tools).toEqual(['double', 'square']);
+    expect((await run('square', { n: 3 })).output).toBe('9');
+  });
+
+  it('should skip disabled plugins without importing them', async () => {
+    await writePlugin('off', { name: 'off', version: '1.0.0' }, 'throw new Error("imported")');
+
+    const plugins = await createLoader({ plugins: { off: { enabled: false } } }).load();
+
+    expect(plugins[0]).toMatchObject({ name: 'off', state: 'disabled', tools: [] });
+    expect(plugins[0]!.error).toBeUndefined();
+  });
+
+  it('should isolate load errors and keep loading the other plugins', async () => {
+    await writePlugin('a-no-manifest-dir', '{ not json', null);
+    await writePlugin('b-bad-manifest', { name: 'bad name', version: '' }, null);
+    await writePlugin('c-throws', { name: 'throws', version: '1.0.0' }, 'throw new Error("boom at import");');
+    await writePlugin('d-partial', { name: 'partial', version: '1.0.0' }, `
+      export function register(api) {
+        api.registerTool({ name: 'partial_ok', description: '', parameters: { type: 'object' } }, async () => 'ok');
+        throw new Error('register failed');
+      }
+    `);
+    await writePlugin('e-empty', { name: 'empty', version: '1.0.0' }, 'export const nothing = 1;');
+    await writePlugin('f-escape', { name: 'escape', version: '1.0.0', main: '../c-throws/index.js' }, null);
+    await writePlugin('g-good', { name: 'good', version: '1.0.0' }, SHOUT);
+    await mkdir(join(pluginsDir, 'h-no-manifest'));
+
+    const plugins = await createLoader().load();
+    const byName = Object.fromEntries(plugins.map(p => [p.name, p]));
+
+    expect(plugins.map(p => p.state)).toEqual(['failed', 'failed', 'failed', 'failed', 'failed', 'failed', 'loaded', 'failed']);
+    expect(byName['a-no-manifest-dir']!.error).toContain('Invalid plugin.json');
+    expect(byName['b-bad-manifest']!.error).toMatch(/name: .*version: /);
+    expect(byName['throws']!.error).toBe('boom at import');
+    expect(byName['partial']).toMatchObject({ error: 'register failed', tools: [] });
+    expect(byName['empty']!.error).toContain('exports neither');
+    expect(byName['escape']!.error).toContain('outside the plugin directory');
+    expect(byName['h-no-manifest']!.error).toBe('Missing plugin.json');
+    expect(toolSystem.list().map(t => t.name)).toEqual(['shout']);
+  });
+
+  it('should report tool name clashes as load errors', async () => {
+    toolSystem.register({ name: 'shout', description: 'core', parameters: { type: 'object' } }, async () => 'core');
+    await writePlugin('shout', { name: 'shout', version: '1.0.0' }, SHOUT);
+    await writePlugin('shout-copy', { name: 'shout', version: '2.0.0' }, SHOUT);
+
+    const plugins = await createLoader().load();
+
+    expect(plugins[0]).toMatchObject({ state: 'failed', error: "Tool 'shout' is already registered" });
+    expect(plugins[1]).toMatchObject({ state: 'failed', error: "Another plugin is already named 'shout'" });
+    expect((await run('shout')).output).toBe('core');
+  });
+
+  it('should enforce declared filesystem permissions in resolvePath', async () => {
+    const source = `
+      export function register(api) {
+        api.registerTool({ name: api.name + '_resolve', description: '', parameters: { type: 'object' } },
+          async (args) => api.resolvePath(args.path, args.access));
+      }
+    `;
+    await writePlugin('reader', { name: 'reader', version: '1.0.0', permissions: ['fs:read'] }, source);
+    await writePlugin('writer', { name: 'writer', version: '1.0.0', permissions: ['fs:write'] }, source);
+    await writePlugin('none', { name: 'none', version: '1.0.0', permissions: ['network'] }, source);
+    const sandbox = new FsSandbox([{ path: testDir, mode: 'rw' }]);
+
+    await createLoader({ sandbox }).load();
+
+    expect((await run('reader_resolve', { path: 'a.txt', access: 'read' })).output).toContain('a.txt');
+    expect((await run('reader_resolve', { path: 'a.txt', access: 'write' })).error?.errorType).toBe('permission_denied');
+    expect((await run('writer_resolve', { path: 'a.txt', access: 'read' })).success).toBe(true);
+    expect((await run('writer_resolve', { path: '/etc/passwd', access: 'read' })).error?.message).toContain('outside the allowed directories');
+    expect((await run('none_resolve', { path: 'a.txt', access: 'read' })).error?.message).toBe("Plugin 'none' may not read files");
+  });
+
+  it('should run plugin tools in workers when the ToolSystem isolates them', async () => {
+    toolSystem = new ToolSystem({ isolation: 'worker', timeoutMs: 300 });
+    await writePlugin('stuck', { name: 'stuck', version: '1.0.0', permissions: ['fs:read'] }, `
+      import { threadId } from 'node:worker_threads';
+      export function register(api) {
+        api.registerTool({ name: 'stuck_loop', description: '', parameters: { type: 'object' } }, async () => {
+          for (;;) {}
+        });
+        api.registerTool({ name: 'stuck_where', description: '', parameters: { type: 'object' } },
+          async (args) => threadId + ' ' + await api.resolvePath(args.path, 'read'));
+      }
+    `);
+    const sandbox = new FsSandbox([{ path: testDir, mode: 'rw' }]);
+    await createLoader({ sandbox }).load();
+
+    try {
+      const loop = await run('stuck_loop');
+      const where = await run('stuck_where', { path: 'a.txt' });
+      const outside = await run('stuck_where', { path: '/etc/passwd' });
+
+      expect(loop.error).toMatchObject({ errorType: 'timeout' });
+      const [threadId, path] = where.output!.split(' ');
+      expect(Number(threadId)).toBeGreaterThan(0);
+      expect(path).toBe(join(testDir, 'a.txt'));
+      expect(outside.error?.errorType).toBe('permission_denied');
+    } finally {
+      await toolSystem.close();
+    }
+  });
+
+  it('should unregister tools and run cleanup on unload', async () => {
+    const marker = join(testDir, 'disposed');
+    await writePlugin('clean', { name: 'clean', version: '1.0.0' }, `
+      import { writeFileSync } from 'node:fs';
+      export function register(api) {
+        api.registerTool({ name: 'clean_tool', description: '', parameters: { type: 'object' } }, async () => 'ok');
+        return () => writeFileSync(${JSON.stringify(marker)}, 'yes');
+      }
+    `);
+    const loader = createLoader();
+    await loader.load();
+
+    await loader.unload();
+
+    expect(toolSystem.has('clean_tool')).toBe(false);
+    expect(loader.list()).toEqual([]);
+    expect(await readFile(marker, 'utf-8')).toBe('yes');
+  });
+
+  it('should treat a missing plugins directory as no plugins', async () => {
+    const plugins = await createLoader({ dir: join(testDir, 'missing') }).load();
+
+    expect(plugins).toEqual([]);
+  });
+});
@@ -0,0 +1,353 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve, sep } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { z } from 'zod';
+import { Logger, type LogContext, type LogLevel } from '../logging/logger.js';
+import { expandHome, type FsAccess, type FsSandbox } from '../tools/fs-sandbox.js';
+import { ToolHandlerError, type ToolDefinition, type ToolHandler, type ToolSystem } from '../tools/tool-system.js';
+import type { WorkerHandlerSpec, WorkerHostHandler } from '../tools/worker-pool.js';
+
+/**
+ * Name of the manifest file in each plugin directory
+ */
+export const PLUGIN_MANIFEST_FILE = 'plugin.json';
+
+/**
+ * Permissions a plugin can declare
+ */
+export const PLUGIN_PERMISSIONS = ['fs:read', 'fs:write', 'shell', 'network'] as const;
+
+/**
+ * A declared plugin permission
+ */
+export type PluginPermission = typeof PLUGIN_PERMISSIONS[number];
+
+/**
+ * Schema of `plugin.json`
+ */
+export const PluginManifestSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Plugin names may only contain letters, digits, _ and -'),
+  version: z.string().min(1),
+  description: z.string().optional(),
+  // Entry module, relative to the plugin directory
+  main: z.string().min(1).default('index.js'),
+  permissions: z.array(z.enum(PLUGIN_PERMISSIONS)).default([]),
+});
+
+/**
+ * A parsed plugin manifest
+ */
+export type PluginManifest = z.infer<typeof PluginManifestSchema>;
+
+/**
+ * Per-plugin settings from `plugins.entries`
+ */
+export interface PluginSettings {
+  enabled?: boolean | undefined;
+  config?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Where plugins are found and how they are set up
+ * Without `sandbox`, `api.resolvePath` denies every path.
+ */
+export interface PluginLoaderOptions {
+  dir: string;
+  plugins?: Record<string, PluginSettings> | undefined;
+  sandbox?: FsSandbox | undefined;
+  logger?: Logger | undefined;
+}
+
+/**
+ * Load state of a plugin
+ */
+export type PluginState = 'loaded' | 'disabled' | 'failed';
+
+/**
+ * What `list()` reports for one plugin directory
+ */
+export interface PluginStatus {
+  name: string;
+  version: string | null;
+  description?: string;
+  path: string;
+  permissions: PluginPermission[];
+  state: PluginState;
+  tools: string[];
+  error?: string;
+}
+
+/**
+ * What a plugin's `register` function is given
+ */
+export interface PluginApi {
+  /** Plugin name from the manifest */
+  readonly name: string;
+  /** `plugins.entries.<name>.config` */
+  readonly config: Record<string, unknown>;
+  /** Logger tagged with the plugin name */
+  readonly logger: Logger;
+  /** Adds a tool; throws if the name is taken */
+  registerTool(definition: ToolDefinition, handler: ToolHandler): void;
+  /**
+   * Checks a path against the filesystem sandbox and returns its real path
+   * Needs the `fs:read` or `fs:write` permission.
+   */
+  resolvePath(path: string, access: FsAccess): Promise<string>;
+}
+
+/**
+ * A tool exported by a plugin module
+ */
+export interface PluginTool {
+  definition: ToolDefinition;
+  handler: ToolHandler;
+}
+
+/**
+ * Shape of a plugin's entry module
+ * `register` may return a function that is called when the plugin is
+ * unloaded.
+ */
+export interface PluginModule {
+  register?: (api: PluginApi) => void | (() => unknown) | Promise<void | (() => unknown)>;
+  tools?: PluginTool[];
+  definition?: ToolDefinition;
+  handler?: ToolHandler;
+}
+
+interface LoadedPlugin {
+  status: PluginStatus;
+  dispose: (() => unknown) | null;
+}
+
+/**
+ * PluginLoader - Adds custom tools from plugin directories to a ToolSystem
+ *
+ * Each subdirectory of `dir` holding a `plugin.json` is a plugin. Its entry
+ * module (ESM) either exports `register(api)`, a `tools` array, or a single
+ * `definition` and `handler`. A plugin that fails to load is reported in
+ * `list()` and logged; any tools it registered before failing are removed,
+ * and the other plugins still load.
+ *
+ * Plugin tools follow the ToolSystem's isolation setting: in worker mode
+ * each call runs in a worker thread that imports the plugin module again
+ * (and, for `register` plugins, runs `register` there), with a hard timeout
+ * and heap limit. Either way plugins run with the Gateway's privileges.
+ * Permissions are declarations shown to the user; only `api.resolvePath`
+ * enforces them.
+ */
+export class PluginLoader {
+  private toolSystem: ToolSystem;
+  private dir: string;
+  private settings: Record<string, PluginSettings>;
+  private sandbox: FsSandbox | null;
+  private logger: Logger;
+  private plugins: LoadedPlugin[] = [];
+
+  constructor(toolSystem: ToolSystem, options: PluginLoaderOptions) {
+    this.toolSystem = toolSystem;
+    this.dir = resolve(expandHome(options.dir));
+    this.settings = options.plugins ?? {};
+    this.sandbox = options.sandbox ?? null;
+    this.logger = options.logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
+  }
+
+  /**
+   * Loads every plugin directory, in name order
+   * A missing plugins directory means there are no plugins.
+   */
+  async load(): Promise<PluginStatus[]> {
+    let entries;
+    try {
+      entries = await readdir(this.dir, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const dirs = entries
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => entry.name)
+      .sort();
+    for (const name of dirs) {
+      this.plugins.push(await this.loadPlugin(join(this.dir, name), name));
+    }
+    return this.list();
+  }
+
+  /**
+   * Reports every plugin found by `load()`
+   */
+  list(): PluginStatus[] {
+    return this.plugins.map(plugin => ({ ...plugin.status, tools: [...plugin.status.tools] }));
+  }
+
+  /**
+   * Unregisters every plugin tool and runs the plugins' cleanup functions
+   */
+  async unload(): Promise<void> {
+    for (const plugin of this.plugins) {
+      for (const tool of plugin.status.tools) {
+        this.toolSystem.unregister(tool);
+      }
+      try {
+        await plugin.dispose?.();
+      } catch (error) {
+        await this.logger.error('Plugin cleanup failed', error, { plugin: plugin.status.name });
+      }
+    }
+    this.plugins = [];
+  }
+
+  private async loadPlugin(path: string, dirName: string): Promise<LoadedPlugin> {
+    const status: PluginStatus = { name: dirName, version: null, path, permissions: [], state: 'failed', tools: [] };
+
+    let manifest: PluginManifest;
+    try {
+      manifest = await this.readManifest(path);
+    } catch (error) {
+      return this.fail(status, error);
+    }
+    status.name = manifest.name;
+    status.version = manifest.version;
+    status.permissions = manifest.permissions;
+    if (manifest.description !== undefined) status.description = manifest.description;
+
+    if (this.plugins.some(plugin => plugin.status.name === manifest.name)) {
+      return this.fail(status, new Error(`Another plugin is already named '${manifest.name}'`));
+    }
+    const settings = this.settings[manifest.name] ?? {};
+    if (settings.enabled === false) {
+      status.state = 'disabled';
+      return { status, dispose: null };
+    }
+
+    try {
+      const entry = resolve(path, manifest.main);
+      if (!entry.startsWith(path + sep)) {
+        throw new Error(`Entry module '${manifest.main}' is outside the plugin directory`);
+      }
+      const moduleUrl = pathToFileURL(entry).href;
+      const module = await import(moduleUrl) as PluginModule;
+      const dispose = await this.activate(module, moduleUrl, manifest, settings, status);
+      status.state = 'loaded';
+      await this.logger.info('Plugin loaded', { plugin: manifest.name, version: manifest.version, tools: status.tools });
+      return { status, dispose };
+    } catch (error) {
+      for (const tool of status.tools) {
+        this.toolSystem.unregister(tool);
+      }
+      status.tools = [];
+      return this.fail(status, error);
+    }
+  }
+
+  private async readManifest(path: string): Promise<PluginManifest> {
+    let raw: string;
+    try {
+      raw = await readFile(join(path, PLUGIN_MANIFEST_FILE), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Missing ${PLUGIN_MANIFEST_FILE}`);
+      }
+      throw error;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch (error) {
+      throw new Error(`Invalid ${PLUGIN_MANIFEST_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const result = PluginManifestSchema.safeParse(json);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      throw new Error(`Invalid ${PLUGIN_MANIFEST_FILE}: ${issues.join('; ')}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Registers a plugin module's tools
+   * Each tool also gets a worker spec that loads it from the same module, so
+   * the ToolSystem can run it in a worker; calls the worker-side handler makes
+   * to `api.resolvePath` and `api.logger` are answered here.
+   * Returns the module's cleanup function, if any.
+   */
+  private async activate(
+    module: PluginModule,
+    moduleUrl: string,
+    manifest: PluginManifest,
+    settings: PluginSettings,
+    status: PluginStatus
+  ): Promise<(() => unknown) | null> {
+    const config = settings.config ?? {};
+    const logger = this.logger.child({ plugin: manifest.name });
+    const host: WorkerHostHandler = async (method, params) => {
+      if (method === 'resolvePath') {
+        const { path, access } = params as { path: string; access: FsAccess };
+        return this.resolvePath(manifest, path, access);
+      }
+      if (method === 'log') {
+        const { level, message, context } = params as { level: LogLevel; message: string; context?: LogContext };
+        return level === 'error' ? logger.error(message, undefined, context) : logger[level](message, context);
+      }
+      throw new Error(`Unknown host method: ${method}`);
+    };
+
+    const registerTool = (definition: ToolDefinition, handler: ToolHandler, worker: WorkerHandlerSpec): void => {
+      if (typeof definition?.name !== 'string' || typeof handler !== 'function') {
+        throw new Error('A plugin tool needs a definition with a name and a handler function');
+      }
+      this.toolSystem.register(definition, handler, { worker, host });
+      status.tools.push(definition.name);
+    };
+
+    if (typeof module.register === 'function') {
+      const worker: WorkerHandlerSpec = { module: moduleUrl, register: { name: manifest.name, config } };
+      const api: PluginApi = {
+        name: manifest.name,
+        config,
+        logger,
+        registerTool: (definition, handler) => registerTool(definition, handler, worker),
+        resolvePath: (path, access) => this.resolvePath(manifest, path, access),
+      };
+      const dispose = await module.register(api);
+      return typeof dispose === 'function' ? dispose : null;
+    }
+    if (Array.isArray(module.tools)) {
+      module.tools.forEach((tool, index) => {
+        registerTool(tool.definition, tool.handler, { module: moduleUrl, export: `tools.${index}.handler` });
+      });
+      return null;
+    }
+    if (module.definition !== undefined && module.handler !== undefined) {
+      registerTool(module.definition, module.handler, { module: moduleUrl, export: 'handler' });
+      return null;
+    }
+    throw new Error('Plugin module exports neither register(), tools nor definition and handler');
+  }
+
+  private async resolvePath(manifest: PluginManifest, path: string, access: FsAccess): Promise<string> {
+    const needed: PluginPermission = access === 'write' ? 'fs:write' : 'fs:read';
+    const granted = manifest.permissions.includes(needed)
+      || (access === 'read' && manifest.permissions.includes('fs:write'));
+    if (!granted || !this.sandbox) {
+      throw new ToolHandlerError('permission_denied', `Plugin '${manifest.name}' may not ${access} files`, {
+        plugin: manifest.name,
+        path,
+        access,
+        permissions: manifest.permissions,
+      });
+    }
+    return this.sandbox.resolve(path, access);
+  }
+
+  private async fail(status: PluginStatus, error: unknown): Promise<LoadedPlugin> {
+    status.state = 'failed';
+    status.error = error instanceof Error ? error.message : String(error);
+    await this.logger.error('Failed to load plugin', error, { plugin: status.name, path: status.path });
+    return { status, dispose: null };
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { ApprovalPolicy, DEFAULT_APPROVAL_RULES } from './approval-policy.js';
+import type { ToolCall } from '../tools/tool-system.js';
+
+function call(name: string, args: Record<string, unknown>): ToolCall {
+  return { id: 'call-1', name, arguments: args };
+}
+
+describe('ApprovalPolicy', () => {
+  const policy = new ApprovalPolicy({}, '/project');
+
+  describe('default rules', () => {
+    it('should ask before deleting files or pushing', () => {
+      expect(policy.evaluate(call('execute_shell', { command: 'rm -rf build' })).decision).toBe('ask');
+      expect(policy.evaluate(call('execute_shell', { command: 'npm test && git push origin main' })).decision).toBe('ask');
+      expect(policy.evaluate(call('execute_shell', { command: 'ls; rm x' })).decision).toBe('ask');
+    });
+
+    it('should allow shell commands that only mention the words', () => {
+      expect(policy.evaluate(call('execute_shell', { command: 'npm run format' })).decision).toBe('allow');
+      expect(policy.evaluate(call('execute_shell', { command: 'git pushd' })).decision).toBe('allow');
+      expect(policy.evaluate(call('execute_shell', { command: 'echo firm' })).decision).toBe('allow');
+    });
+
+    it('should ask before writing outside the project directory', () => {
+      expect(policy.evaluate(call('write_file', { path: '/etc/hosts', content: '' })).decision).toBe('ask');
+      expect(policy.evaluate(call('write_file', { path: '../sibling/a.txt', content: '' })).decision).toBe('ask');
+      expect(policy.evaluate(call('write_file', { path: 'src/a.ts', content: '' })).decision).toBe('allow');
+      expect(policy.evaluate(call('write_file', { path: '/project/src/a.ts', content: '' })).decision).toBe('allow');
+    });
+
+    it('should ask before patching files outside the project directory', () => {
+      const patch = (path: string): string => `--- a/${path}\n+++ b/${path}\n@@ -1 +1 @@\n-a\n+b\n`;
+      const twoFiles = `${patch('src/a.ts')}--- /dev/null\n+++ /etc/cron.d/job\n@@ -0,0 +1 @@\n+x\n`;
+
+      expect(policy.evaluate(call('apply_patch', { patch: twoFiles }))).toMatchObject({
+        decision: 'ask',
+        reason: 'apply_patch where patch names a file outside /project',
+      });
+      expect(policy.evaluate(call('apply_patch', { patch: patch('../sibling/a.txt') })).decision).toBe('ask');
+      expect(policy.evaluate(call('apply_patch', { patch: '@@ -1 +1 @@\n-a\n+b\n', path: '/etc/hosts' })).decision).toBe('ask');
+      expect(policy.evaluate(call('apply_patch', { patch: patch('src/a.ts') })).decision).toBe('allow');
+      expect(policy.evaluate(call('apply_patch', { patch: '@@ -1 +1 @@\n-a\n+b\n', path: 'src/a.ts' })).decision).toBe('allow');
+    });
+
+    it('should allow tools no rule mentions', () => {
+      expect(policy.evaluate(call('read_file', { path: '/etc/hosts' }))).toEqual({
+        decision: 'allow',
+        reason: 'Default policy for read_file',
+        key: 'read_file#default',
+      });
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should identify the deciding rule in the key and reason', () => {
+      const evaluation = policy.evaluate(call('write_file', { path: '/tmp/out', content: '' }));
+
+      expect(evaluation.key).toBe('write_file#2:/tmp/out');
+      expect(evaluation.rule).toBe(DEFAULT_APPROVAL_RULES[2]);
+      expect(evaluation.reason).toBe('write_file where path is outside /project');
+    });
+
+    it('should key rules on an argument by its normalized value', () => {
+      const remove = policy.evaluate(call('execute_shell', { command: 'rm tmp.txt' }));
+      const spaced = policy.evaluate(call('execute_shell', { command: ' rm   tmp.txt ' }));
+      const recursive = policy.evaluate(call('execute_shell', { command: 'rm -rf src' }));
+      const push = policy.evaluate(call('execute_shell', { command: 'git push origin main' }));
+
+      expect(remove.key).toBe('execute_shell#0:rm tmp.txt');
+      expect(spaced.key).toBe(remove.key);
+      expect(recursive.key).not.toBe(remove.key);
+      expect(push.key).toBe('execute_shell#1:git push origin main');
+    });
+
+    it('should let the first matching rule decide', () => {
+      const ordered = new ApprovalPolicy({
+        rules: [
+          { tool: 'execute_shell', argument: 'command', pattern: '^sudo ', decision: 'deny' },
+          { tool: '*', decision: 'ask' },
+        ],
+      });
+
+      expect(ordered.evaluate(call('execute_shell', { command: 'sudo rm x' })).decision).toBe('deny');
+      expect(ordered.evaluate(call('execute_shell', { command: 'ls' }))).toMatchObject({
+        decision: 'ask',
+        key: 'execute_shell#1',
+        reason: 'Policy rule for any tool',
+      });
+    });
+
+    it('should not match rules whose argument is missing', () => {
+      const strict = new ApprovalPolicy({
+        defaultDecision: 'deny',
+        rules: [{ tool: 'fetch', argument: 'url', decision: 'allow' }],
+      });
+
+      expect(strict.evaluate(call('fetch', { url: 'https://example.com' })).decision).toBe('allow');
+      expect(strict.evaluate(call('fetch', {})).decision).toBe('deny');
+    });
+
+    it('should match non-string arguments as JSON', () => {
+      const rules = new ApprovalPolicy({
+        rules: [{ tool: 'deploy', argument: 'targets', pattern: '"production"', decision: 'ask' }],
+      });
+
+      expect(rules.evaluate(call('deploy', { targets: ['staging', 'production'] })).decision).toBe('ask');
+      expect(rules.evaluate(call('deploy', { targets: ['staging'] })).decision).toBe('allow');
+    });
+  });
+
+  it('should reject invalid patterns at construction', () => {
+    expect(() => new ApprovalPolicy({
+      rules: [{ tool: 'execute_shell', argument: 'command', pattern: '(', decision: 'ask' }],
+    })).toThrow();
+  });
+});
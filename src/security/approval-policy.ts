@@ -0,0 +1,214 @@
+import { isAbsolute, relative, resolve } from 'node:path';
+import { parseUnifiedDiff } from '../tools/patch.js';
+import type { ToolCall } from '../tools/tool-system.js';
+
+/**
+ * What happens to a tool call: run it, ask the user first, or refuse it
+ */
+export type ApprovalDecision = 'allow' | 'ask' | 'deny';
+
+/**
+ * A policy rule; the first rule matching a call decides
+ *
+ * `tool` is a tool name or `*`. Without `argument` the rule matches every
+ * call of the tool. With `argument`, the rule matches when that argument is
+ * present and, if given, its value matches `pattern` (a regular expression;
+ * non-string values are matched as JSON) and/or it is a path that resolves
+ * outside the `outside` directory. With `format: 'patch'` the argument is a
+ * unified diff, and `outside` checks every file named in its headers.
+ */
+export interface ApprovalRule {
+  tool: string;
+  decision: ApprovalDecision;
+  argument?: string | undefined;
+  pattern?: string | undefined;
+  outside?: string | undefined;
+  format?: 'path' | 'patch' | undefined;
+}
+
+/**
+ * Approval policy configuration
+ * `timeoutMs` is how long to wait for the user's answer before denying.
+ */
+export interface ApprovalPolicyConfig {
+  defaultDecision: ApprovalDecision;
+  timeoutMs: number;
+  rules: ApprovalRule[];
+}
+
+/**
+ * Rules applied unless configured otherwise: ask before deleting files or
+ * pushing from the shell, and before writing outside the project directory
+ * (apply_patch's `path` is only used by diffs without file headers)
+ */
+export const DEFAULT_APPROVAL_RULES: ApprovalRule[] = [
+  { tool: 'execute_shell', argument: 'command', pattern: '(^|[\\s;&|(])rm(\\s|$)', decision: 'ask' },
+  { tool: 'execute_shell', argument: 'command', pattern: '(^|[\\s;&|(])git\\s+push(\\s|$)', decision: 'ask' },
+  { tool: 'write_file', argument: 'path', outside: '.', decision: 'ask' },
+  { tool: 'edit_file', argument: 'path', outside: '.', decision: 'ask' },
+  { tool: 'apply_patch', argument: 'patch', format: 'patch', outside: '.', decision: 'ask' },
+  { tool: 'apply_patch', argument: 'path', outside: '.', decision: 'ask' },
+];
+
+/**
+ * Default approval policy configuration
+ */
+export const DEFAULT_APPROVAL_POLICY_CONFIG: ApprovalPolicyConfig = {
+  defaultDecision: 'allow',
+  timeoutMs: 60000,
+  rules: DEFAULT_APPROVAL_RULES,
+};
+
+/**
+ * Outcome of evaluating a tool call
+ * `key` identifies the tool, the deciding rule and, for rules on an
+ * argument, the argument's value with whitespace normalized. An "always
+ * allow" answer applies to later calls with the same key, so approving
+ * `rm tmp.txt` does not approve `rm -rf src`.
+ */
+export interface ApprovalEvaluation {
+  decision: ApprovalDecision;
+  reason: string;
+  key: string;
+  rule?: ApprovalRule;
+}
+
+/**
+ * A request for the user to approve one tool call
+ */
+export interface ApprovalRequest {
+  id: string;
+  sessionId: string;
+  toolCall: ToolCall;
+  reason: string;
+  key: string;
+  timeoutMs: number;
+}
+
+/**
+ * Asks the user about a tool call; resolves true to run it
+ * The signal is aborted when the answer is no longer needed (timeout or
+ * cancellation), so pending prompts can be withdrawn.
+ */
+export type ToolApprover = (request: ApprovalRequest, signal: AbortSignal) => Promise<boolean>;
+
+/**
+ * ApprovalPolicy - Decides whether a tool call may run
+ *
+ * Relative `outside` directories and relative path arguments are resolved
+ * against `baseDir` (the directory the Gateway was started in).
+ */
+export class ApprovalPolicy {
+  private config: ApprovalPolicyConfig;
+  private baseDir: string;
+  private patterns: Map<string, RegExp> = new Map();
+
+  constructor(config: Partial<ApprovalPolicyConfig> = {}, baseDir: string = process.cwd()) {
+    this.config = { ...DEFAULT_APPROVAL_POLICY_CONFIG, ...config };
+    this.baseDir = baseDir;
+
+    // Compile patterns up front so a bad rule fails at startup
+    for (const rule of this.config.rules) {
+      if (rule.pattern !== undefined && !this.patterns.has(rule.pattern)) {
+        this.patterns.set(rule.pattern, new RegExp(rule.pattern));
+      }
+    }
+  }
+
+  /**
+   * Gets the policy configuration
+   */
+  getConfig(): ApprovalPolicyConfig {
+    return this.config;
+  }
+
+  /**
+   * Evaluates a tool call against the rules
+   */
+  evaluate(toolCall: ToolCall): ApprovalEvaluation {
+    const index = this.config.rules.findIndex(rule => this.matches(rule, toolCall));
+    const rule = this.config.rules[index];
+
+    if (!rule) {
+      return {
+        decision: this.config.defaultDecision,
+        reason: `Default policy for ${toolCall.name}`,
+        key: `${toolCall.name}#default`,
+      };
+    }
+
+    return {
+      decision: rule.decision,
+      reason: this.describe(rule),
+      key: rule.argument === undefined
+        ? `${toolCall.name}#${index}`
+        : `${toolCall.name}#${index}:${argumentText(toolCall.arguments[rule.argument]).trim().replace(/\s+/g, ' ')}`,
+      rule,
+    };
+  }
+
+  private matches(rule: ApprovalRule, toolCall: ToolCall): boolean {
+    if (rule.tool !== '*' && rule.tool !== toolCall.name) {
+      return false;
+    }
+    if (rule.argument === undefined) {
+      return true;
+    }
+    if (!Object.hasOwn(toolCall.arguments, rule.argument)) {
+      return false;
+    }
+
+    const text = argumentText(toolCall.arguments[rule.argument]);
+
+    if (rule.pattern !== undefined && !this.patterns.get(rule.pattern)!.test(text)) {
+      return false;
+    }
+    if (rule.outside !== undefined) {
+      const directory = resolve(this.baseDir, rule.outside);
+      const paths = rule.format === 'patch' ? patchPaths(text) : [text];
+      const outside = paths.some(path => {
+        const fromDirectory = relative(directory, resolve(this.baseDir, path));
+        return fromDirectory !== '' && (fromDirectory.startsWith('..') || isAbsolute(fromDirectory));
+      });
+      if (!outside) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private describe(rule: ApprovalRule): string {
+    const target = rule.tool === '*' ? 'any tool' : rule.tool;
+    if (rule.argument === undefined) {
+      return `Policy rule for ${target}`;
+    }
+    const conditions = [
+      ...(rule.pattern !== undefined ? [`matches /${rule.pattern}/`] : []),
+      ...(rule.outside !== undefined
+        ? [`${rule.format === 'patch' ? 'names a file' : 'is'} outside ${resolve(this.baseDir, rule.outside)}`]
+        : []),
+    ];
+    return conditions.length > 0
+      ? `${target} where ${rule.argument} ${conditions.join(' and ')}`
+      : `Policy rule for ${target} with ${rule.argument}`;
+  }
+}
+
+/**
+ * Files named in a unified diff's headers; none if it does not parse
+ */
+function patchPaths(diff: string): string[] {
+  try {
+    return parseUnifiedDiff(diff).flatMap(patch => [patch.oldPath, patch.newPath])
+      .filter((path): path is string => path !== null && path !== '');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Text a rule matches an argument against; non-string values as JSON
+ */
+function argumentText(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+}
@@ -1 +1,13 @@
 export { SecurityManager, type AuthStore, type TokenValidationResult } from './security-manager.js';
+
+export {
+  ApprovalPolicy,
+  DEFAULT_APPROVAL_RULES,
+  DEFAULT_APPROVAL_POLICY_CONFIG,
+  type ApprovalDecision,
+  type ApprovalRule,
+  type ApprovalPolicyConfig,
+  type ApprovalEvaluation,
+  type ApprovalRequest,
+  type ToolApprover,
+} from './approval-policy.js';
@@ -1 +1 @@
-export { SessionManager, type Session, type TranscriptEntry } from './session-manager.js';
+export { SessionManager, type Session, type TranscriptEntry, type SummaryInfo } from './session-manager.js';
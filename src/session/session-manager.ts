@@ -2,16 +2,25 @@ import { randomUUID } from 'node:crypto';
 import { readFile, writeFile, readdir, stat, access, constants } from 'node:fs/promises';
 import { Workspace } from '../storage/workspace.js';
 import { Logger } from '../logging/logger.js';
+import type { ToolCall, ToolResult } from '../tools/tool-system.js';
 
 /**
  * Transcript entry representing a single message in a session
+ * Tool activity is stored as `tool` entries: one carrying `toolCall` when
+ * the agent requests a tool and one carrying `toolResult` when it returns,
+ * linked by `toolResult.callId === toolCall.id`.
+ * `cancelled` marks an assistant reply that was cut short by the client.
+ * A `summary` entry stands in for every entry up to and including
+ * `summary.coversThrough` once the context has been compacted.
  * Requirements: 3.2, 3.3
  */
 export interface TranscriptEntry {
   id: string;
-  role: 'user' | 'assistant' | 'tool';
+  role: 'user' | 'assistant' | 'tool' | 'summary';
   content: string;
   timestamp: number;
+  cancelled?: boolean;
+  summary?: SummaryInfo;
   toolCall?: {
     id: string;
     name: string;
@@ -24,6 +33,16 @@ export interface TranscriptEntry {
   };
 }
 
+/**
+ * Bookkeeping for a compaction summary entry
+ */
+export interface SummaryInfo {
+  coversThrough: string;
+  compactedMessages: number;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
 /**
  * Session metadata
  * Requirement 3.4: Return session metadata including ID, creation time, and message count
@@ -49,12 +68,27 @@ export interface Session {
 export class SessionManager {
   private workspace: Workspace;
   private logger: Logger;
+  private bytesWritten = 0;
 
   constructor(workspace: Workspace, logger?: Logger) {
     this.workspace = workspace;
     this.logger = logger ?? new Logger({ level: 'info', path: 'openclaw.log', maxSize: 10485760, maxFiles: 5 });
   }
 
+  /**
+   * Directory holding the session transcripts
+   */
+  get sessionsDir(): string {
+    return this.workspace.sessionsDir;
+  }
+
+  /**
+   * Bytes written to transcript files by this manager since it was created
+   */
+  get transcriptBytesWritten(): number {
+    return this.bytesWritten;
+  }
+
   /**
    * Creates a new session with a unique ID
    * Requirement 3.1: Generate unique session ID and create transcript file
@@ -72,7 +106,9 @@ export class SessionManager {
     };
     
     // Write metadata as first line (prefixed with #)
-    await writeFile(transcriptPath, `#${JSON.stringify(metadata)}\n`, { mode: 0o600 });
+    const header = `#${JSON.stringify(metadata)}\n`;
+    await writeFile(transcriptPath, header, { mode: 0o600 });
+    this.bytesWritten += Buffer.byteLength(header);
 
     return {
       id,
@@ -171,10 +207,44 @@ export class SessionManager {
     const line = JSON.stringify(entry) + '\n';
     const { appendFile } = await import('node:fs/promises');
     await appendFile(transcriptPath, line, { encoding: 'utf-8' });
+    this.bytesWritten += Buffer.byteLength(line);
 
     return entry;
   }
 
+  /**
+   * Records a tool call requested by the agent
+   * Arguments are stored as a JSON string so the entry round-trips verbatim.
+   */
+  async appendToolCall(sessionId: string, toolCall: ToolCall): Promise<TranscriptEntry> {
+    return this.appendMessage(sessionId, {
+      role: 'tool',
+      content: '',
+      toolCall: {
+        id: toolCall.id,
+        name: toolCall.name,
+        arguments: JSON.stringify(toolCall.arguments),
+      },
+    });
+  }
+
+  /**
+   * Records the result of a tool call; failures store the error message
+   */
+  async appendToolResult(sessionId: string, toolResult: ToolResult): Promise<TranscriptEntry> {
+    return this.appendMessage(sessionId, {
+      role: 'tool',
+      content: '',
+      toolResult: {
+        callId: toolResult.callId,
+        success: toolResult.success,
+        output: toolResult.success
+          ? toolResult.output ?? ''
+          : toolResult.error?.message ?? 'unknown error',
+      },
+    });
+  }
+
   /**
    * Gets the conversation history for a session
    * Requirement 3.3: Reconstruct conversation history from transcript file
@@ -309,6 +379,7 @@ export class SessionManager {
     // Write repaired content
     const repairedContent = validLines.join('\n') + '\n';
     await writeFile(transcriptPath, repairedContent, { mode: 0o600 });
+    this.bytesWritten += Buffer.byteLength(repairedContent);
 
     const repaired = entriesLost > 0;
     if (repaired) {
@@ -15,6 +15,7 @@ const WORKSPACE_DIRS = [
   'workspace',
   'workspace/memory',
   'logs',
+  'plugins',
 ] as const;
 
 /**
@@ -183,6 +184,13 @@ export class Workspace {
     return join(this.rootPath, 'logs');
   }
 
+  /**
+   * Gets the path to the plugins directory
+   */
+  get pluginsDir(): string {
+    return join(this.rootPath, 'plugins');
+  }
+
   /**
    * Gets the path to SOUL.md bootstrap file
    * Requirement 4.3: workspace/SOUL.md location
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { terminateProcess, hasExited } from './child-process.js';
+
+/**
+ * Spawns a node process and waits until it reports it is ready, so signal
+ * handlers are installed before the test sends anything
+ */
+async function spawnReady(script: string): Promise<ChildProcess> {
+  const child = spawn(process.execPath, ['-e', `${script}; process.stdout.write('ready')`], {
+    stdio: ['ignore', 'pipe', 'ignore'],
+  });
+  await new Promise<void>((resolve) => child.stdout!.once('data', () => resolve()));
+  return child;
+}
+
+describe('terminateProcess', () => {
+  it('should stop a process with SIGTERM', async () => {
+    const child = await spawnReady('setInterval(() => {}, 1000)');
+
+    await terminateProcess(child);
+
+    expect(hasExited(child)).toBe(true);
+    expect(child.signalCode).toBe('SIGTERM');
+  });
+
+  it('should fall back to SIGKILL when SIGTERM is ignored', async () => {
+    const child = await spawnReady("process.on('SIGTERM', () => {}); setInterval(() => {}, 1000)");
+
+    await terminateProcess(child, { graceMs: 100 });
+
+    expect(child.signalCode).toBe('SIGKILL');
+  });
+
+  it('should return immediately for a process that already exited', async () => {
+    const child = spawn(process.execPath, ['-e', '']);
+    await new Promise<void>((resolve) => child.once('exit', () => resolve()));
+
+    await expect(terminateProcess(child)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import type { ChildProcess } from 'node:child_process';
+
+/**
+ * Grace period between SIGTERM and SIGKILL
+ */
+export const DEFAULT_KILL_GRACE_MS = 2000;
+
+/**
+ * Options for terminating a child process
+ * `group` signals the whole process group, which requires the child to have
+ * been spawned with `detached: true` so it leads its own group
+ */
+export interface TerminateOptions {
+  graceMs?: number;
+  group?: boolean;
+}
+
+/**
+ * Checks whether a child process has already exited
+ */
+export function hasExited(child: ChildProcess): boolean {
+  return child.exitCode !== null || child.signalCode !== null;
+}
+
+/**
+ * Terminates a child process: SIGTERM first, then SIGKILL if it has not
+ * exited within the grace period
+ * Resolves once the process has exited.
+ */
+export async function terminateProcess(child: ChildProcess, options: TerminateOptions = {}): Promise<void> {
+  if (hasExited(child) || child.pid === undefined) {
+    return;
+  }
+
+  const graceMs = options.graceMs ?? DEFAULT_KILL_GRACE_MS;
+  const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+
+  signal(child, 'SIGTERM', options.group === true);
+
+  const killTimer = setTimeout(() => {
+    if (!hasExited(child)) {
+      signal(child, 'SIGKILL', options.group === true);
+    }
+  }, graceMs);
+
+  await exited;
+  clearTimeout(killTimer);
+}
+
+/**
+ * Sends a signal to a child, or to its process group
+ */
+function signal(child: ChildProcess, name: NodeJS.Signals, group: boolean): void {
+  try {
+    if (group && child.pid !== undefined) {
+      process.kill(-child.pid, name);
+    } else {
+      child.kill(name);
+    }
+  } catch {
+    // The process (or group) is already gone
+  }
+}
@@ -1,7 +1,25 @@
-import { readFile, writeFile, readdir, stat, mkdir } from 'node:fs/promises';
+import { readFile, writeFile, readdir, stat, mkdir, unlink } from 'node:fs/promises';
 import { spawn } from 'node:child_process';
-import { dirname, join, resolve } from 'node:path';
-import { ToolSystem, ToolDefinition, ToolHandler } from './tool-system.js';
+import { StringDecoder } from 'node:string_decoder';
+import { dirname, join } from 'node:path';
+import { ToolSystem, ToolDefinition, ToolContext, ToolHandlerError, type ToolOptions } from './tool-system.js';
+import type { WorkerToolContext } from './worker-pool.js';
+import { terminateProcess } from './child-process.js';
+import { FsSandbox, type FsRoot } from './fs-sandbox.js';
+import { ShellPolicy, BoundedOutput, type ShellPolicyConfig, type ShellPolicyReport } from './shell-policy.js';
+import { globFiles, searchFiles } from './file-search.js';
+import {
+  parseUnifiedDiff,
+  applyHunks,
+  replaceExact,
+  splitLines,
+  joinLines,
+  type FilePatch,
+  type EditReport,
+  type FileEditReport,
+  type HunkReport,
+  type TextLines,
+} from './patch.js';
 
 /**
  * read_file tool definition
@@ -25,6 +43,7 @@ export const READ_FILE_TOOL: ToolDefinition = {
     },
     required: ['path'],
   },
+  readOnly: true,
 };
 
 /**
@@ -54,6 +73,68 @@ export const WRITE_FILE_TOOL: ToolDefinition = {
   },
 };
 
+/**
+ * edit_file tool definition
+ */
+export const EDIT_FILE_TOOL: ToolDefinition = {
+  name: 'edit_file',
+  description: 'Replace an exact string in a file. The string must occur exactly once unless replaceAll is set',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: {
+        type: 'string',
+        description: 'The path to the file to edit',
+      },
+      oldString: {
+        type: 'string',
+        description: 'The exact text to replace, including enough surrounding lines to be unique',
+        minLength: 1,
+      },
+      newString: {
+        type: 'string',
+        description: 'The text to replace it with',
+      },
+      replaceAll: {
+        type: 'boolean',
+        description: 'Replace every occurrence instead of requiring exactly one (default: false)',
+      },
+    },
+    required: ['path', 'oldString', 'newString'],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * apply_patch tool definition
+ */
+export const APPLY_PATCH_TOOL: ToolDefinition = {
+  name: 'apply_patch',
+  description: 'Apply a unified diff to one or more files. Hunks whose context has moved are found nearby',
+  parameters: {
+    type: 'object',
+    properties: {
+      patch: {
+        type: 'string',
+        description: 'The unified diff (as produced by diff -u or git diff)',
+        minLength: 1,
+      },
+      path: {
+        type: 'string',
+        description: 'The file to patch when the diff has no ---/+++ file headers',
+      },
+      fuzz: {
+        type: 'integer',
+        description: 'How many context lines at each end of a hunk may be ignored to make it apply (default: 2)',
+        minimum: 0,
+        maximum: 3,
+      },
+    },
+    required: ['patch'],
+    additionalProperties: false,
+  },
+};
+
 /**
  * list_directory tool definition
  * Requirement 6.1: Provide core tools
@@ -79,6 +160,92 @@ export const LIST_DIRECTORY_TOOL: ToolDefinition = {
     },
     required: ['path'],
   },
+  readOnly: true,
+};
+
+/**
+ * glob tool definition
+ */
+export const GLOB_TOOL: ToolDefinition = {
+  name: 'glob',
+  description: 'Find files whose path matches a glob such as "src/**/*.ts". Skips .gitignored files and node_modules',
+  parameters: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'Glob matched against paths relative to the search directory (*, ?, **, [abc], {a,b})',
+        minLength: 1,
+      },
+      path: {
+        type: 'string',
+        description: 'The directory to search (default: the project directory)',
+      },
+      maxResults: {
+        type: 'integer',
+        description: 'Maximum number of paths to return (default: 200)',
+        minimum: 1,
+        maximum: 1000,
+      },
+      includeIgnored: {
+        type: 'boolean',
+        description: 'Include files that .gitignore excludes, and node_modules (default: false)',
+      },
+    },
+    required: ['pattern'],
+    additionalProperties: false,
+  },
+  readOnly: true,
+};
+
+/**
+ * search_files tool definition
+ */
+export const SEARCH_FILES_TOOL: ToolDefinition = {
+  name: 'search_files',
+  description: 'Search file contents for a regular expression and return matching lines as path:line:text. ' +
+    'Skips binary files, .gitignored files and node_modules',
+  parameters: {
+    type: 'object',
+    properties: {
+      pattern: {
+        type: 'string',
+        description: 'JavaScript regular expression matched against each line',
+        minLength: 1,
+      },
+      path: {
+        type: 'string',
+        description: 'The directory or file to search (default: the project directory)',
+      },
+      include: {
+        type: 'string',
+        description: 'Only search files matching this glob, e.g. "*.ts" (any depth) or "src/**/*.ts"',
+      },
+      ignoreCase: {
+        type: 'boolean',
+        description: 'Match case-insensitively (default: false)',
+      },
+      contextLines: {
+        type: 'integer',
+        description: 'Lines of context to show around each match (default: 0)',
+        minimum: 0,
+        maximum: 10,
+      },
+      maxMatches: {
+        type: 'integer',
+        description: 'Maximum number of matching lines to return (default: 100)',
+        minimum: 1,
+        maximum: 1000,
+      },
+      includeIgnored: {
+        type: 'boolean',
+        description: 'Include files that .gitignore excludes, and node_modules (default: false)',
+      },
+    },
+    required: ['pattern'],
+    additionalProperties: false,
+  },
+  readOnly: true,
 };
 
 /**
@@ -111,8 +278,8 @@ export const EXECUTE_SHELL_TOOL: ToolDefinition = {
 /**
  * Handler for read_file tool
  */
-async function readFileHandler(args: Record<string, unknown>): Promise<string> {
-  const path = args['path'] as string;
+async function readFileHandler(args: Record<string, unknown>, sandbox: FsSandbox): Promise<string> {
+  const path = await sandbox.resolve(args['path'] as string, 'read');
   const encoding = (args['encoding'] as BufferEncoding) ?? 'utf-8';
   
   const content = await readFile(path, { encoding });
@@ -122,8 +289,9 @@ async function readFileHandler(args: Record<string, unknown>): Promise<string> {
 /**
  * Handler for write_file tool
  */
-async function writeFileHandler(args: Record<string, unknown>): Promise<string> {
-  const path = args['path'] as string;
+async function writeFileHandler(args: Record<string, unknown>, sandbox: FsSandbox): Promise<string> {
+  const requested = args['path'] as string;
+  const path = await sandbox.resolve(requested, 'write');
   const content = args['content'] as string;
   const createDirectories = args['createDirectories'] !== false;
   
@@ -133,28 +301,205 @@ async function writeFileHandler(args: Record<string, unknown>): Promise<string>
   }
   
   await writeFile(path, content, { encoding: 'utf-8' });
-  return `Successfully wrote ${content.length} bytes to ${path}`;
+  return `Successfully wrote ${content.length} bytes to ${requested}`;
+}
+
+/**
+ * Handler for edit_file tool
+ */
+async function editFileHandler(args: Record<string, unknown>, sandbox: FsSandbox): Promise<string> {
+  const requested = args['path'] as string;
+  const path = await sandbox.resolve(requested, 'write');
+  const newString = args['newString'] as string;
+  const content = await readFile(path, { encoding: 'utf-8' });
+
+  // Match the file's line endings so multi-line edits of CRLF files apply
+  const eol = (text: string): string => (content.includes('\r\n') ? text.replace(/\r?\n/g, '\r\n') : text);
+  const edit = replaceExact(content, eol(args['oldString'] as string), eol(newString), args['replaceAll'] === true);
+  const report = editReport([{
+    path: requested,
+    status: edit.content === content ? 'unchanged' : 'modified',
+    hunks: edit.reports,
+  }]);
+
+  if (report.rejected > 0) {
+    throw new ToolHandlerError('execution', `Edit rejected: ${edit.reports[0]?.reason}`, report);
+  }
+  await writeFile(path, edit.content, { encoding: 'utf-8' });
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * A file patch with its paths resolved
+ */
+interface ResolvedPatch {
+  patch: FilePatch;
+  displayPath: string;
+  source: string | null;
+  target: string | null;
+}
+
+/**
+ * Handler for apply_patch tool
+ * Every path is checked before any file is written. Sections for the same
+ * file apply in order, and each file is written once. Hunks that apply are
+ * written even if others are rejected; the report lists both.
+ */
+async function applyPatchHandler(args: Record<string, unknown>, sandbox: FsSandbox): Promise<string> {
+  const fuzz = (args['fuzz'] as number | undefined) ?? 2;
+  let patches: FilePatch[];
+  try {
+    patches = parseUnifiedDiff(args['patch'] as string);
+  } catch (error) {
+    throw new ToolHandlerError('validation', `Invalid patch: ${(error as Error).message}`);
+  }
+
+  const resolved: ResolvedPatch[] = [];
+  for (const patch of patches) {
+    const oldPath = patch.oldPath === '' ? (args['path'] as string | undefined) ?? '' : patch.oldPath;
+    const newPath = patch.newPath === '' ? (args['path'] as string | undefined) ?? '' : patch.newPath;
+    if (oldPath === '' || newPath === '') {
+      throw new ToolHandlerError('validation', 'The patch has no file headers; pass the file to patch as path');
+    }
+    resolved.push({
+      patch,
+      displayPath: newPath ?? oldPath!,
+      source: oldPath === null ? null : await sandbox.resolve(oldPath, 'write'),
+      target: newPath === null ? null : await sandbox.resolve(newPath, 'write'),
+    });
+  }
+
+  // Sections are applied in order to in-memory copies of the files, so
+  // several sections for one file build on each other; each file is then
+  // written once. null stands for a file that does not exist.
+  const contents = new Map<string, TextLines | null>();
+  const existed = new Map<string, boolean>();
+  const load = async (path: string): Promise<TextLines | null> => {
+    if (!contents.has(path)) {
+      let text: TextLines | null;
+      try {
+        text = splitLines(await readFile(path, { encoding: 'utf-8' }));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        text = null;
+      }
+      contents.set(path, text);
+      existed.set(path, text !== null);
+    }
+    return contents.get(path)!;
+  };
+
+  const changed = new Set<string>();
+  const files: FileEditReport[] = [];
+  for (const { patch, displayPath, source, target } of resolved) {
+    const rejectAll = (reason: string): void => {
+      files.push({ path: displayPath, status: 'unchanged', hunks: rejectHunks(patch, reason) });
+    };
+
+    if (source === null && target !== null && await load(target) !== null) {
+      rejectAll('File already exists');
+      continue;
+    }
+    const original = source === null ? splitLines('') : await load(source);
+    if (original === null) {
+      rejectAll('File does not exist');
+      continue;
+    }
+
+    const { text, reports } = applyHunks(original, patch.hunks, fuzz);
+    if (!reports.some(r => r.status === 'applied')) {
+      files.push({ path: displayPath, status: 'unchanged', hunks: reports });
+    } else if (target === null) {
+      // Only delete once the patch accounts for the whole file
+      if (reports.some(r => r.status === 'rejected') || text.lines.length > 0) {
+        rejectAll('The patch deletes the file but does not match all of its content');
+        continue;
+      }
+      contents.set(source!, null);
+      changed.add(source!);
+      files.push({ path: displayPath, status: 'deleted', hunks: reports });
+    } else {
+      await load(target);
+      contents.set(target, text);
+      changed.add(target);
+      if (source !== null && source !== target) {
+        contents.set(source, null);
+        changed.add(source);
+      }
+      files.push({ path: displayPath, status: source === null ? 'created' : 'modified', hunks: reports });
+    }
+  }
+
+  for (const path of changed) {
+    const text = contents.get(path);
+    if (text) {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, joinLines(text), { encoding: 'utf-8' });
+    } else if (existed.get(path)) {
+      await unlink(path);
+    }
+  }
+
+  const report = editReport(files);
+  if (report.rejected > 0) {
+    const total = report.applied + report.rejected;
+    throw new ToolHandlerError(
+      'execution',
+      `${report.rejected} of ${total} hunks rejected` + (report.applied > 0 ? '; the other hunks were applied' : ''),
+      report
+    );
+  }
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Reports every hunk of a file patch as rejected
+ */
+function rejectHunks(patch: FilePatch, reason: string): HunkReport[] {
+  return patch.hunks.map((hunk, index) => ({
+    index,
+    status: 'rejected',
+    oldStart: hunk.oldStart ?? 0,
+    oldLines: hunk.lines.filter(l => l.type !== '+').length,
+    newStart: hunk.newStart ?? 0,
+    newLines: hunk.lines.filter(l => l.type !== '-').length,
+    reason,
+  }));
+}
+
+/**
+ * Totals the hunks of per-file reports
+ */
+function editReport(files: FileEditReport[]): EditReport {
+  const hunks = files.flatMap(f => f.hunks);
+  return {
+    files,
+    applied: hunks.filter(h => h.status === 'applied').length,
+    rejected: hunks.filter(h => h.status === 'rejected').length,
+  };
 }
 
 /**
  * Handler for list_directory tool
  */
-async function listDirectoryHandler(args: Record<string, unknown>): Promise<string> {
-  const path = args['path'] as string;
+async function listDirectoryHandler(args: Record<string, unknown>, sandbox: FsSandbox): Promise<string> {
+  const path = await sandbox.resolve(args['path'] as string, 'read');
   const recursive = args['recursive'] === true;
   const includeHidden = args['includeHidden'] === true;
   
-  const entries = await listDir(path, recursive, includeHidden);
+  const entries = await listDir(path, recursive, includeHidden, sandbox);
   return JSON.stringify(entries, null, 2);
 }
 
 /**
  * Recursively lists directory contents
+ * Subdirectories that resolve outside the sandbox are listed but not entered.
  */
 async function listDir(
   dirPath: string,
   recursive: boolean,
   includeHidden: boolean,
+  sandbox: FsSandbox,
   basePath: string = ''
 ): Promise<DirectoryEntry[]> {
   const entries: DirectoryEntry[] = [];
@@ -180,8 +525,8 @@ async function listDir(
     
     entries.push(entry);
     
-    if (recursive && stats.isDirectory()) {
-      const children = await listDir(fullPath, recursive, includeHidden, relativePath);
+    if (recursive && stats.isDirectory() && await sandbox.allows(fullPath, 'read')) {
+      const children = await listDir(fullPath, recursive, includeHidden, sandbox, relativePath);
       entries.push(...children);
     }
   }
@@ -197,51 +542,123 @@ interface DirectoryEntry {
   modified: string;
 }
 
+/**
+ * Handler for glob tool
+ */
+async function globHandler(args: Record<string, unknown>, sandbox: FsSandbox, tokenBudget?: number): Promise<string> {
+  const root = await sandbox.resolve((args['path'] as string | undefined) ?? sandbox.baseDir, 'read');
+
+  return globFiles(root, args['pattern'] as string, {
+    sandbox,
+    includeIgnored: args['includeIgnored'] === true,
+    ...(args['maxResults'] !== undefined ? { maxResults: args['maxResults'] as number } : {}),
+    ...(tokenBudget !== undefined ? { tokenBudget } : {}),
+  });
+}
+
+/**
+ * Handler for search_files tool
+ */
+async function searchFilesHandler(args: Record<string, unknown>, sandbox: FsSandbox, tokenBudget?: number): Promise<string> {
+  const root = await sandbox.resolve((args['path'] as string | undefined) ?? sandbox.baseDir, 'read');
+  const pattern = args['pattern'] as string;
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    throw new ToolHandlerError('validation', `Invalid regular expression: ${(error as Error).message}`, { pattern });
+  }
+
+  return searchFiles(root, pattern, {
+    sandbox,
+    includeIgnored: args['includeIgnored'] === true,
+    ignoreCase: args['ignoreCase'] === true,
+    ...(args['include'] !== undefined ? { include: args['include'] as string } : {}),
+    ...(args['contextLines'] !== undefined ? { contextLines: args['contextLines'] as number } : {}),
+    ...(args['maxMatches'] !== undefined ? { maxMatches: args['maxMatches'] as number } : {}),
+    ...(tokenBudget !== undefined ? { tokenBudget } : {}),
+  });
+}
+
 /**
  * Handler for execute_shell tool
  * Requirement 6.3: Run command and capture stdout/stderr
+ * The shell policy decides whether the command runs and with which
+ * environment, limits and network access.
  */
-async function executeShellHandler(args: Record<string, unknown>): Promise<string> {
+async function executeShellHandler(
+  args: Record<string, unknown>,
+  context: ToolContext,
+  sandbox: FsSandbox,
+  policy: ShellPolicy
+): Promise<string> {
   const command = args['command'] as string;
-  const cwd = args['cwd'] as string | undefined;
+  // The working directory must be inside the sandbox; defaults to its base
+  const cwd = await sandbox.resolve((args['cwd'] as string | undefined) ?? sandbox.baseDir, 'read');
   const timeout = (args['timeout'] as number) ?? 30000;
+  const { signal } = context;
+  const launch = await policy.prepare(command);
+
+  if (signal?.aborted) {
+    throw new Error('Command cancelled');
+  }
   
   return new Promise((resolve, reject) => {
-    const child = spawn(command, {
-      shell: true,
+    // Run in its own process group so cancellation reaches everything the shell started.
+    // The timeout is ours, not spawn's: spawn's would kill only the shell, and
+    // the group would then be skipped as already exited.
+    const child = spawn(launch.file, launch.args, {
       cwd,
-      timeout,
+      env: launch.env,
+      detached: true,
     });
     
-    let stdout = '';
-    let stderr = '';
+    const stdout = new BoundedOutput(launch.report.maxOutputBytes);
+    const stderr = new BoundedOutput(launch.report.maxOutputBytes);
+    const streamStdout = streamOutput('stdout', launch.report.maxOutputBytes, context);
+    const streamStderr = streamOutput('stderr', launch.report.maxOutputBytes, context);
     let timedOut = false;
+    let cancelled = false;
     
     child.stdout.on('data', (data: Buffer) => {
-      stdout += data.toString();
+      stdout.push(data);
+      streamStdout(data);
     });
     
     child.stderr.on('data', (data: Buffer) => {
-      stderr += data.toString();
+      stderr.push(data);
+      streamStderr(data);
     });
     
     const timeoutId = setTimeout(() => {
       timedOut = true;
-      child.kill('SIGTERM');
+      void terminateProcess(child, { group: true });
     }, timeout);
+
+    const onAbort = (): void => {
+      cancelled = true;
+      void terminateProcess(child, { group: true });
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
     
     child.on('close', (code) => {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       
       const result: ShellResult = {
         exitCode: code ?? -1,
-        stdout,
-        stderr,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
         timedOut,
+        policy: {
+          ...launch.report,
+          truncatedBytes: { stdout: stdout.truncatedBytes, stderr: stderr.truncatedBytes },
+        },
       };
       
-      if (timedOut) {
-        reject(new Error(`Command timed out after ${timeout}ms`));
+      if (cancelled) {
+        reject(new Error('Command cancelled'));
+      } else if (timedOut) {
+        reject(new ToolHandlerError('timeout', `Command timed out after ${timeout}ms`, result));
       } else {
         resolve(JSON.stringify(result, null, 2));
       }
@@ -249,25 +666,133 @@ async function executeShellHandler(args: Record<string, unknown>): Promise<strin
     
     child.on('error', (error) => {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
       reject(error);
     });
   });
 }
 
+/**
+ * Forwards a child's output stream to the context's `onOutput` listener
+ * Multi-byte characters split across chunks are reassembled. Streaming stops
+ * with a marker after `maxBytes`; the full (truncated) output is in the result.
+ */
+function streamOutput(
+  stream: 'stdout' | 'stderr',
+  maxBytes: number,
+  context: ToolContext
+): (data: Buffer) => void {
+  const decoder = new StringDecoder('utf8');
+  let streamed = 0;
+
+  return (data) => {
+    if (!context.onOutput || streamed > maxBytes) return;
+
+    streamed += data.length;
+    if (streamed > maxBytes) {
+      context.onOutput({ stream, content: `${decoder.end()}\n[... further ${stream} not streamed ...]\n` });
+      return;
+    }
+    const content = decoder.write(data);
+    if (content) context.onOutput({ stream, content });
+  };
+}
+
 interface ShellResult {
   exitCode: number;
   stdout: string;
   stderr: string;
   timedOut: boolean;
+  policy: ShellPolicyReport;
 }
 
+/**
+ * Options for the core tools
+ * `sandbox` limits which paths the file tools may touch; without one, only
+ * the current directory is allowed. `shellPolicy` governs execute_shell;
+ * without one, the default policy applies.
+ */
+export interface CoreToolsOptions {
+  sandbox?: FsSandbox;
+  shellPolicy?: ShellPolicy;
+  /** Token budget for glob and search_files results */
+  searchTokenBudget?: number;
+}
+
+/**
+ * What a worker needs to rebuild the core tools
+ */
+interface CoreToolsWorkerData {
+  fsRoots: FsRoot[];
+  shell: ShellPolicyConfig;
+  searchTokenBudget?: number;
+}
+
+/**
+ * Core tools rebuilt inside this worker, by their serialized options
+ */
+const workerToolSystems: Map<string, ToolSystem> = new Map();
+
 /**
  * Creates and registers all core tools on a ToolSystem instance
+ * They run inline unless the ToolSystem's per-tool settings move them into
+ * a worker; file operations are asynchronous I/O and execute_shell already
+ * runs in a child process with its own limits.
  * Requirement 6.1: Provide core tools
  */
-export function createCoreTools(toolSystem: ToolSystem): void {
-  toolSystem.register(READ_FILE_TOOL, readFileHandler);
-  toolSystem.register(WRITE_FILE_TOOL, writeFileHandler);
-  toolSystem.register(LIST_DIRECTORY_TOOL, listDirectoryHandler);
-  toolSystem.register(EXECUTE_SHELL_TOOL, executeShellHandler);
+export function createCoreTools(toolSystem: ToolSystem, options: CoreToolsOptions = {}): void {
+  const sandbox = options.sandbox ?? new FsSandbox([{ path: process.cwd(), mode: 'rw' }]);
+  const shellPolicy = options.shellPolicy ?? new ShellPolicy();
+  const data: CoreToolsWorkerData = {
+    fsRoots: sandbox.getRoots(),
+    shell: shellPolicy.getConfig(),
+    ...(options.searchTokenBudget !== undefined ? { searchTokenBudget: options.searchTokenBudget } : {}),
+  };
+  const toolOptions: ToolOptions = {
+    isolation: 'inline',
+    worker: { module: import.meta.url, export: 'coreToolWorkerHandler', data },
+  };
+
+  toolSystem.register(READ_FILE_TOOL, args => readFileHandler(args, sandbox), toolOptions);
+  toolSystem.register(WRITE_FILE_TOOL, args => writeFileHandler(args, sandbox), toolOptions);
+  toolSystem.register(EDIT_FILE_TOOL, args => editFileHandler(args, sandbox), toolOptions);
+  toolSystem.register(APPLY_PATCH_TOOL, args => applyPatchHandler(args, sandbox), toolOptions);
+  toolSystem.register(LIST_DIRECTORY_TOOL, args => listDirectoryHandler(args, sandbox), toolOptions);
+  toolSystem.register(GLOB_TOOL, args => globHandler(args, sandbox, options.searchTokenBudget), toolOptions);
+  toolSystem.register(SEARCH_FILES_TOOL, args => searchFilesHandler(args, sandbox, options.searchTokenBudget), toolOptions);
+  toolSystem.register(EXECUTE_SHELL_TOOL, (args, context) => executeShellHandler(args, context, sandbox, shellPolicy), toolOptions);
+}
+
+/**
+ * Runs a core tool inside a tool worker
+ * The tools are rebuilt from the sandbox roots and shell policy passed in
+ * `context.data`, then the call goes through them as it would inline.
+ * The context's signal is passed on, so a timed out or cancelled
+ * execute_shell call kills the shell's process group before the worker goes.
+ */
+export async function coreToolWorkerHandler(args: Record<string, unknown>, context: WorkerToolContext): Promise<string> {
+  const data = context.data as CoreToolsWorkerData;
+  const key = JSON.stringify(data);
+  let toolSystem = workerToolSystems.get(key);
+  if (!toolSystem) {
+    toolSystem = new ToolSystem();
+    createCoreTools(toolSystem, {
+      sandbox: new FsSandbox(data.fsRoots),
+      shellPolicy: new ShellPolicy(data.shell),
+      ...(data.searchTokenBudget !== undefined ? { searchTokenBudget: data.searchTokenBudget } : {}),
+    });
+    workerToolSystems.set(key, toolSystem);
+  }
+
+  const result = await toolSystem.execute(
+    { id: context.toolName, name: context.toolName, arguments: args },
+    {
+      ...(context.signal ? { signal: context.signal } : {}),
+      ...(context.onOutput ? { onOutput: context.onOutput } : {}),
+    }
+  );
+  if (!result.success) {
+    throw new ToolHandlerError(result.error!.errorType, result.error!.message, result.error!.details);
+  }
+  return result.output ?? '';
 }
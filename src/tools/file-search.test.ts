@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { globToRegExp, parseGitignore, walkFiles, globFiles, searchFiles } from './file-search.js';
+import { mkdir, writeFile, rm, symlink } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { tmpdir } from 'node:os';
+import { randomUUID } from 'node:crypto';
+
+async function createFiles(root: string, files: Record<string, string | Buffer>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  }
+}
+
+async function collect(root: string, options = {}): Promise<string[]> {
+  const paths: string[] = [];
+  for await (const entry of walkFiles(root, options)) paths.push(entry.path);
+  return paths;
+}
+
+describe('globToRegExp', () => {
+  it('should match single segments with * and ?', () => {
+    expect(globToRegExp('*.ts').test('index.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('src/index.ts')).toBe(false);
+    expect(globToRegExp('file?.txt').test('file1.txt')).toBe(true);
+    expect(globToRegExp('file?.txt').test('file10.txt')).toBe(false);
+  });
+
+  it('should match any number of directories with **', () => {
+    const regex = globToRegExp('src/**/*.ts');
+    expect(regex.test('src/index.ts')).toBe(true);
+    expect(regex.test('src/tools/deep/core.ts')).toBe(true);
+    expect(regex.test('lib/index.ts')).toBe(false);
+    expect(globToRegExp('**/test').test('a/b/test')).toBe(true);
+  });
+
+  it('should support classes, alternatives and escapes', () => {
+    expect(globToRegExp('[abc].md').test('b.md')).toBe(true);
+    expect(globToRegExp('[!abc].md').test('b.md')).toBe(false);
+    expect(globToRegExp('*.{ts,js}').test('index.js')).toBe(true);
+    expect(globToRegExp('*.{ts,js}').test('index.md')).toBe(false);
+    expect(globToRegExp('\\*.txt').test('*.txt')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('parseGitignore', () => {
+  it('should skip comments and blank lines', () => {
+    expect(parseGitignore('# comment\n\n*.log\n')).toHaveLength(1);
+  });
+
+  it('should flag negated and directory-only rules', () => {
+    const [negated, directory] = parseGitignore('!keep.log\nbuild/');
+    expect(negated).toMatchObject({ negate: true, dirOnly: false });
+    expect(directory).toMatchObject({ negate: false, dirOnly: true });
+  });
+
+  it('should anchor patterns containing a slash', () => {
+    const [unanchored, anchored, leading] = parseGitignore('*.log\ndocs/*.md\n/dist', 'pkg');
+    expect(unanchored!.base).toBe('pkg');
+    expect(unanchored!.regex.test('deep/dir/out.log')).toBe(true);
+    expect(anchored!.regex.test('docs/a.md')).toBe(true);
+    expect(anchored!.regex.test('x/docs/a.md')).toBe(false);
+    expect(leading!.regex.test('dist')).toBe(true);
+    expect(leading!.regex.test('a/dist')).toBe(false);
+  });
+});
+
+describe('walkFiles', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `openclaw-search-${randomUUID()}`);
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should skip node_modules, .git and .gitignored files', async () => {
+    await createFiles(testDir, {
+      '.gitignore': '*.log\nbuild/\n!important.log\n',
+      'a.ts': '',
+      'debug.log': '',
+      'important.log': '',
+      'build/out.js': '',
+      'node_modules/pkg/index.js': '',
+      '.git/HEAD': '',
+      'src/b.ts': '',
+    });
+
+    expect(await collect(testDir)).toEqual(['.gitignore', 'a.ts', 'important.log', 'src/b.ts']);
+  });
+
+  it('should apply nested .gitignore files to their own directory', async () => {
+    await createFiles(testDir, {
+      'pkg/.gitignore': '/generated.ts\n',
+      'pkg/generated.ts': '',
+      'pkg/sub/generated.ts': '',
+      'generated.ts': '',
+    });
+
+    expect(await collect(testDir)).toEqual(['generated.ts', 'pkg/.gitignore', 'pkg/sub/generated.ts']);
+  });
+
+  it('should include ignored files when asked', async () => {
+    await createFiles(testDir, { '.gitignore': '*.log\n', 'debug.log': '', 'node_modules/x.js': '' });
+
+    expect(await collect(testDir, { includeIgnored: true })).toEqual(['.gitignore', 'debug.log', 'node_modules/x.js']);
+  });
+
+  it('should not follow symlinked directories', async () => {
+    await createFiles(testDir, { 'real/file.txt': '' });
+    await symlink(join(testDir, 'real'), join(testDir, 'link'));
+
+    expect(await collect(testDir)).toEqual(['real/file.txt']);
+  });
+});
+
+describe('globFiles', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `openclaw-search-${randomUUID()}`);
+    await createFiles(testDir, {
+      'src/a.ts': '',
+      'src/b.ts': '',
+      'src/deep/c.ts': '',
+      'src/readme.md': '',
+      'node_modules/pkg/index.ts': '',
+    });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should list matching paths', async () => {
+    expect(await globFiles(testDir, '**/*.ts')).toBe('src/a.ts\nsrc/b.ts\nsrc/deep/c.ts');
+    expect(await globFiles(testDir, './src/*.md')).toBe('src/readme.md');
+  });
+
+  it('should report when nothing matches', async () => {
+    expect(await globFiles(testDir, '*.py')).toBe("No files match '*.py'");
+  });
+
+  it('should note results cut off by maxResults or the token budget', async () => {
+    expect(await globFiles(testDir, '**/*.ts', { maxResults: 1 })).toBe(
+      'src/a.ts\n[2 more of 3 matching files not shown; use a narrower pattern or path]'
+    );
+    expect(await globFiles(testDir, '**/*.ts', { tokenBudget: 5 })).toMatch(/^src\/a\.ts\n\[2 more of 3/);
+  });
+});
+
+describe('searchFiles', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `openclaw-search-${randomUUID()}`);
+    await createFiles(testDir, {
+      'src/a.ts': 'const one = 1;\nconst two = 2;\n// TODO: three\nconst four = 4;\nconst five = 5;\n',
+      'src/b.md': 'TODO in docs\n',
+      'image.png': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x54, 0x4f, 0x44, 0x4f]),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should return matching lines with paths and line numbers', async () => {
+    const output = await searchFiles(testDir, 'TODO');
+
+    expect(output).toBe('src/a.ts:3:// TODO: three\nsrc/b.md:1:TODO in docs\n[2 matches in 2 files; 1 binary files skipped]');
+  });
+
+  it('should filter files by include glob at any depth', async () => {
+    expect(await searchFiles(testDir, 'TODO', { include: '*.md' })).toBe('src/b.md:1:TODO in docs\n[1 matches in 1 files]');
+  });
+
+  it('should show context lines and merge overlapping groups', async () => {
+    const output = await searchFiles(testDir, 'two|four', { include: '*.ts', contextLines: 1 });
+
+    expect(output.split('\n')).toEqual([
+      'src/a.ts-1-const one = 1;',
+      'src/a.ts:2:const two = 2;',
+      'src/a.ts-3-// TODO: three',
+      'src/a.ts:4:const four = 4;',
+      'src/a.ts-5-const five = 5;',
+      '[2 matches in 1 files]',
+    ]);
+  });
+
+  it('should match case-insensitively when asked', async () => {
+    expect(await searchFiles(testDir, 'todo', { include: '*.md' })).toBe('No matches for /todo/');
+    expect(await searchFiles(testDir, 'todo', { include: '*.md', ignoreCase: true })).toContain('src/b.md:1:');
+  });
+
+  it('should stop at maxMatches', async () => {
+    const output = await searchFiles(testDir, 'const', { include: '*.ts', maxMatches: 2 });
+
+    expect(output.split('\n')).toEqual([
+      'src/a.ts:1:const one = 1;',
+      'src/a.ts:2:const two = 2;',
+      '[2 matches in 1 files; stopped after 2 matches; refine the pattern or raise maxMatches]',
+    ]);
+  });
+
+  it('should stop at the token budget', async () => {
+    const output = await searchFiles(testDir, 'const', { tokenBudget: 12 });
+
+    expect(output).toMatch(/^src\/a\.ts:1:const one = 1;\n/);
+    expect(output).toContain('stopped at the output size limit');
+  });
+
+  it('should search a single file', async () => {
+    expect(await searchFiles(join(testDir, 'src', 'a.ts'), 'five')).toBe('a.ts:5:const five = 5;\n[1 matches in 1 files]');
+  });
+});
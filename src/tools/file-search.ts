@@ -0,0 +1,408 @@
+import { open, readdir, readFile, stat } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import type { FsSandbox } from './fs-sandbox.js';
+
+/**
+ * Directories skipped unless ignored files are requested; `.git` is always
+ * skipped
+ */
+export const DEFAULT_IGNORES = ['node_modules/'];
+
+/**
+ * Token budget for one glob or search_files result
+ */
+export const DEFAULT_RESULT_TOKEN_BUDGET = 4000;
+
+/**
+ * Most files looked at by one walk
+ */
+const MAX_FILES_SCANNED = 50000;
+
+/**
+ * Files larger than this are not searched
+ */
+const MAX_SEARCH_FILE_BYTES = 1024 * 1024;
+
+/**
+ * Bytes inspected for NUL characters to detect binary files
+ */
+const BINARY_SNIFF_BYTES = 8000;
+
+/**
+ * Longest line shown in search results
+ */
+const MAX_LINE_CHARS = 300;
+
+/**
+ * Estimates tokens with the same chars/4 heuristic as the memory system
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Converts a glob to a regular expression source (without anchors)
+ * Supports `*` and `?` (within a path segment), `**` (any number of
+ * segments), `[...]`/`[!...]` classes, `{a,b}` alternatives and `\` escapes.
+ */
+function globSource(glob: string): string {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    const segmentStart = i === 0 || glob[i - 1] === '/';
+
+    if (char === '*' && glob[i + 1] === '*' && segmentStart && (glob[i + 2] === '/' || i + 2 === glob.length)) {
+      source += glob[i + 2] === '/' ? '(?:[^/]*/)*' : '.*';
+      i += 2;
+    } else if (char === '*') {
+      source += '[^/]*';
+      while (glob[i + 1] === '*') i++;
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]!);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source + ')'.repeat(braces);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Converts a glob matched against a whole relative path to a RegExp
+ */
+export function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${globSource(glob)}$`);
+}
+
+/**
+ * A compiled .gitignore pattern
+ */
+export interface IgnoreRule {
+  /** Directory (relative to the walk root) of the .gitignore that holds it */
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+/**
+ * Parses .gitignore content into rules for the directory `base`
+ */
+export function parseGitignore(content: string, base: string = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const raw of content.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\')) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    if (line === '') continue;
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    rules.push({
+      base,
+      regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globSource(line)}$`),
+      negate,
+      dirOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Checks a path against .gitignore rules; the last matching rule wins
+ */
+function isIgnored(rules: IgnoreRule[], path: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDirectory) continue;
+    if (rule.base !== '' && !path.startsWith(rule.base + '/')) continue;
+    const local = rule.base === '' ? path : path.slice(rule.base.length + 1);
+    if (rule.regex.test(local)) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * A file found by a walk
+ */
+export interface WalkEntry {
+  /** Path relative to the walk root, with `/` separators */
+  path: string;
+  absolutePath: string;
+}
+
+/**
+ * Options for walking a directory tree
+ * With `includeIgnored`, .gitignore files and the default ignores are not
+ * applied.
+ */
+export interface WalkOptions {
+  includeIgnored?: boolean;
+  sandbox?: FsSandbox;
+}
+
+/**
+ * Walks a directory tree, yielding files
+ * Each directory's files come in name order, before its subdirectories.
+ *
+ * Honors .gitignore files found along the way (including nested ones) and
+ * the default ignores. Symlinked directories are not entered, which avoids
+ * cycles; with a sandbox, symlinked files that resolve outside it are
+ * skipped. Stops after MAX_FILES_SCANNED files.
+ */
+export async function* walkFiles(root: string, options: WalkOptions = {}): AsyncGenerator<WalkEntry> {
+  const initial = options.includeIgnored ? [] : parseGitignore(DEFAULT_IGNORES.join('\n'));
+  const stack: Array<{ directory: string; rules: IgnoreRule[] }> = [{ directory: '', rules: initial }];
+  let scanned = 0;
+
+  while (stack.length > 0) {
+    const { directory, rules: inherited } = stack.pop()!;
+    const absoluteDirectory = join(root, directory);
+
+    let rules = inherited;
+    if (!options.includeIgnored) {
+      const gitignore = await readFile(join(absoluteDirectory, '.gitignore'), 'utf-8').catch(() => null);
+      if (gitignore !== null) rules = [...rules, ...parseGitignore(gitignore, directory)];
+    }
+
+    const entries = await readdir(absoluteDirectory, { withFileTypes: true }).catch(() => []);
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    const subdirectories: string[] = [];
+    for (const entry of entries) {
+      if (entry.name === '.git') continue;
+
+      const path = directory ? `${directory}/${entry.name}` : entry.name;
+      const absolutePath = join(absoluteDirectory, entry.name);
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+
+      if (entry.isSymbolicLink()) {
+        if (options.sandbox && !await options.sandbox.allows(absolutePath, 'read')) continue;
+        const target = await stat(absolutePath).catch(() => null);
+        isFile = target?.isFile() ?? false;
+        isDirectory = false;
+      }
+
+      if (!isDirectory && !isFile) continue;
+      if (!options.includeIgnored && isIgnored(rules, path, isDirectory)) continue;
+
+      if (isDirectory) {
+        subdirectories.push(path);
+      } else {
+        if (++scanned > MAX_FILES_SCANNED) return;
+        yield { path, absolutePath };
+      }
+    }
+
+    // Reversed so the stack visits subdirectories in name order
+    for (const subdirectory of subdirectories.reverse()) {
+      stack.push({ directory: subdirectory, rules });
+    }
+  }
+}
+
+/**
+ * Options for the glob tool
+ */
+export interface GlobOptions extends WalkOptions {
+  maxResults?: number;
+  tokenBudget?: number;
+}
+
+/**
+ * Lists files under `root` whose relative path matches a glob
+ * Returns one path per line, cut off at `maxResults` or the token budget
+ * with a note saying how many more matched.
+ */
+export async function globFiles(root: string, pattern: string, options: GlobOptions = {}): Promise<string> {
+  const regex = globToRegExp(pattern.replace(/^\.\//, ''));
+  const maxResults = options.maxResults ?? 200;
+  const budget = options.tokenBudget ?? DEFAULT_RESULT_TOKEN_BUDGET;
+
+  const lines: string[] = [];
+  let tokens = 0;
+  let total = 0;
+  let full = false;
+
+  for await (const entry of walkFiles(root, options)) {
+    if (!regex.test(entry.path)) continue;
+    total++;
+    const cost = estimateTokens(entry.path) + 1;
+    if (full || lines.length >= maxResults || tokens + cost > budget) {
+      full = true;
+      continue;
+    }
+    lines.push(entry.path);
+    tokens += cost;
+  }
+
+  if (total === 0) {
+    return `No files match '${pattern}'`;
+  }
+  if (lines.length < total) {
+    lines.push(`[${total - lines.length} more of ${total} matching files not shown; use a narrower pattern or path]`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Options for the search_files tool
+ * `include` filters files by glob; a glob without `/` matches file names at
+ * any depth.
+ */
+export interface SearchOptions extends WalkOptions {
+  include?: string;
+  ignoreCase?: boolean;
+  contextLines?: number;
+  maxMatches?: number;
+  tokenBudget?: number;
+}
+
+/**
+ * Searches file contents for a regular expression
+ *
+ * Output follows `grep -n`: `path:line:text` for matches, `path-line-text`
+ * for context lines and, with context, `--` between separate groups. Binary
+ * files (a NUL byte near the start) and files over 1 MiB are skipped.
+ * Results stop at `maxMatches` or the token budget, with a note saying so.
+ */
+export async function searchFiles(root: string, pattern: string, options: SearchOptions = {}): Promise<string> {
+  const regex = new RegExp(pattern, options.ignoreCase ? 'i' : '');
+  const include = options.include
+    ? new RegExp(`^${options.include.includes('/') ? '' : '(?:.*/)?'}${globSource(options.include)}$`)
+    : null;
+  const contextLines = options.contextLines ?? 0;
+  const maxMatches = options.maxMatches ?? 100;
+  const budget = options.tokenBudget ?? DEFAULT_RESULT_TOKEN_BUDGET;
+
+  const rootStats = await stat(root);
+  const files: AsyncIterable<WalkEntry> | WalkEntry[] = rootStats.isFile()
+    ? [{ path: basename(root), absolutePath: root }]
+    : walkFiles(root, options);
+
+  const output: string[] = [];
+  let tokens = 0;
+  let matches = 0;
+  let matchedFiles = 0;
+  let skippedBinary = 0;
+  let skippedLarge = 0;
+  let stopped: 'matches' | 'budget' | null = null;
+
+  for await (const file of files) {
+    if (include && !include.test(file.path)) continue;
+
+    const size = (await stat(file.absolutePath)).size;
+    if (size > MAX_SEARCH_FILE_BYTES) {
+      skippedLarge++;
+      continue;
+    }
+    if (await isBinary(file.absolutePath)) {
+      skippedBinary++;
+      continue;
+    }
+
+    const lines = (await readFile(file.absolutePath, 'utf-8')).split(/\r?\n/);
+    let lastShown = -1;
+    let fileMatched = false;
+
+    for (let index = 0; index < lines.length && stopped === null; index++) {
+      if (!regex.test(lines[index]!)) continue;
+
+      const group: string[] = [];
+      const first = Math.max(lastShown + 1, index - contextLines);
+      if (contextLines > 0 && output.length > 0 && first > lastShown + 1) group.push('--');
+      let last = Math.min(lines.length - 1, index + contextLines);
+      let groupMatches = 0;
+      for (let line = first; line <= last; line++) {
+        const isMatch = line === index || (line > index && regex.test(lines[line]!));
+        if (isMatch) {
+          groupMatches++;
+          // A match inside the context extends the group by its own context
+          last = Math.min(lines.length - 1, Math.max(last, line + contextLines));
+        }
+        const mark = isMatch ? ':' : '-';
+        group.push(`${file.path}${mark}${line + 1}${mark}${clip(lines[line]!)}`);
+      }
+
+      const cost = estimateTokens(group.join('\n')) + group.length;
+      if (tokens + cost > budget) {
+        stopped = 'budget';
+        break;
+      }
+      output.push(...group);
+      tokens += cost;
+      matches += groupMatches;
+      fileMatched = true;
+      lastShown = last;
+      index = last;
+
+      if (matches >= maxMatches) stopped = 'matches';
+    }
+
+    if (fileMatched) matchedFiles++;
+    if (stopped !== null) break;
+  }
+
+  const notes: string[] = [];
+  if (stopped === 'matches') notes.push(`stopped after ${matches} matches; refine the pattern or raise maxMatches`);
+  if (stopped === 'budget') notes.push('stopped at the output size limit; refine the pattern, path or include filter');
+  if (skippedBinary > 0) notes.push(`${skippedBinary} binary files skipped`);
+  if (skippedLarge > 0) notes.push(`${skippedLarge} files over 1 MiB skipped`);
+
+  if (matches === 0) {
+    return [`No matches for /${pattern}/`, ...notes.map(note => `[${note}]`)].join('\n');
+  }
+  return [...output, `[${matches} matches in ${matchedFiles} files${notes.length > 0 ? '; ' + notes.join('; ') : ''}]`].join('\n');
+}
+
+/**
+ * Checks the start of a file for NUL bytes
+ */
+async function isBinary(path: string): Promise<boolean> {
+  const handle = await open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, BINARY_SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    await handle.close();
+  }
+}
+
+function clip(line: string): string {
+  return line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}…` : line;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FsSandbox } from './fs-sandbox.js';
+import { ToolHandlerError } from './tool-system.js';
+
+describe('FsSandbox', () => {
+  let baseDir: string;
+  let project: string;
+  let outside: string;
+
+  beforeEach(async () => {
+    baseDir = await realpath(await mkdtemp(join(tmpdir(), 'openclaw-sandbox-test-')));
+    project = join(baseDir, 'project');
+    outside = join(baseDir, 'outside');
+    await mkdir(join(project, 'vendor'), { recursive: true });
+    await mkdir(outside);
+    await writeFile(join(outside, 'secret.txt'), 'secret');
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should allow paths inside a root and return the real path', async () => {
+    const sandbox = new FsSandbox([{ path: project, mode: 'rw' }]);
+
+    expect(await sandbox.resolve('src/new.ts', 'write')).toBe(join(project, 'src', 'new.ts'));
+    expect(await sandbox.resolve(join(project, 'vendor'), 'read')).toBe(join(project, 'vendor'));
+  });
+
+  it('should deny paths outside every root', async () => {
+    const sandbox = new FsSandbox([{ path: project, mode: 'rw' }]);
+
+    await expect(sandbox.resolve('../outside/secret.txt', 'read')).rejects.toMatchObject({
+      errorType: 'permission_denied',
+      details: { resolvedPath: join(outside, 'secret.txt'), access: 'read' },
+    });
+    // A sibling directory sharing the root's name as a prefix is not inside it
+    await expect(sandbox.resolve(`${project}-other/file`, 'read')).rejects.toBeInstanceOf(ToolHandlerError);
+  });
+
+  it('should resolve symlinks before checking containment', async () => {
+    const sandbox = new FsSandbox([{ path: project, mode: 'rw' }]);
+    await symlink(join(outside, 'secret.txt'), join(project, 'link.txt'));
+    await symlink(outside, join(project, 'linkdir'));
+    await symlink(join(outside, 'planted.txt'), join(project, 'dangling.txt'));
+
+    expect(await sandbox.allows('link.txt', 'read')).toBe(false);
+    expect(await sandbox.allows('linkdir/new.txt', 'write')).toBe(false);
+    // Writing through a dangling link would create a file outside the root
+    expect(await sandbox.allows('dangling.txt', 'write')).toBe(false);
+  });
+
+  it('should refuse writes under read-only roots, letting the innermost root decide', async () => {
+    const sandbox = new FsSandbox([
+      { path: project, mode: 'rw' },
+      { path: join(project, 'vendor'), mode: 'ro' },
+      { path: outside, mode: 'ro' },
+    ]);
+
+    expect(await sandbox.allows(join(outside, 'secret.txt'), 'read')).toBe(true);
+    expect(await sandbox.allows(join(outside, 'secret.txt'), 'write')).toBe(false);
+    expect(await sandbox.allows('vendor/lib.js', 'write')).toBe(false);
+    expect(await sandbox.allows('src/app.ts', 'write')).toBe(true);
+  });
+});
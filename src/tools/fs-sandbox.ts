@@ -0,0 +1,161 @@
+import { lstat, readlink, realpath } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { basename, dirname, isAbsolute, join, resolve, sep } from 'node:path';
+import type { Workspace } from '../storage/workspace.js';
+import { ToolHandlerError } from './tool-system.js';
+
+/**
+ * Access mode of an allowed root: read-only or read-write
+ */
+export type FsRootMode = 'ro' | 'rw';
+
+/**
+ * A directory tools may touch
+ */
+export interface FsRoot {
+  path: string;
+  mode: FsRootMode;
+}
+
+/**
+ * Kind of access a tool needs on a path
+ */
+export type FsAccess = 'read' | 'write';
+
+/**
+ * Most symlinks and path segments followed while resolving one path
+ */
+const MAX_LINK_DEPTH = 40;
+
+/**
+ * Default roots: the project directory and the agent workspace, both writable
+ */
+export function defaultFsRoots(workspace: Workspace, projectDir: string = process.cwd()): FsRoot[] {
+  return [
+    { path: projectDir, mode: 'rw' },
+    { path: workspace.workspaceDir, mode: 'rw' },
+  ];
+}
+
+/**
+ * FsSandbox - Confines file tools to a set of allowed roots
+ *
+ * Paths are resolved against the first root, symlinks are resolved (for
+ * paths that do not exist yet, through the nearest existing ancestor) and
+ * only then checked for containment, so a link cannot lead outside a root.
+ * When roots are nested, the innermost one decides the mode.
+ * Violations throw a `permission_denied` ToolHandlerError.
+ */
+export class FsSandbox {
+  private roots: FsRoot[];
+
+  constructor(roots: FsRoot[]) {
+    if (roots.length === 0) {
+      throw new Error('FsSandbox needs at least one root');
+    }
+    this.roots = roots.map(root => ({ path: resolve(expandHome(root.path)), mode: root.mode }));
+  }
+
+  /**
+   * Gets the allowed roots (absolute, as configured)
+   */
+  getRoots(): FsRoot[] {
+    return this.roots.map(root => ({ ...root }));
+  }
+
+  /**
+   * Directory relative paths are resolved against
+   */
+  get baseDir(): string {
+    return this.roots[0]!.path;
+  }
+
+  /**
+   * Resolves a tool-supplied path and checks it against the roots
+   * Returns the real path the tool should use.
+   */
+  async resolve(path: string, access: FsAccess): Promise<string> {
+    const requested = resolve(this.baseDir, expandHome(path));
+    const real = await realpathAllowMissing(requested);
+
+    let match: FsRoot | undefined;
+    for (const root of this.roots) {
+      const realRoot = await realpathAllowMissing(root.path);
+      if (isWithin(realRoot, real) && (!match || realRoot.length >= match.path.length)) {
+        match = { path: realRoot, mode: root.mode };
+      }
+    }
+
+    if (!match) {
+      throw new ToolHandlerError('permission_denied', `Access denied: '${path}' is outside the allowed directories`, {
+        path,
+        resolvedPath: real,
+        access,
+        roots: this.roots.map(root => root.path),
+      });
+    }
+    if (access === 'write' && match.mode === 'ro') {
+      throw new ToolHandlerError('permission_denied', `Access denied: '${path}' is in a read-only directory`, {
+        path,
+        resolvedPath: real,
+        access,
+        root: match.path,
+      });
+    }
+
+    return real;
+  }
+
+  /**
+   * Checks a path without throwing
+   */
+  async allows(path: string, access: FsAccess): Promise<boolean> {
+    try {
+      await this.resolve(path, access);
+      return true;
+    } catch (error) {
+      if (error instanceof ToolHandlerError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Expands a leading `~` to the home directory
+ */
+export function expandHome(path: string): string {
+  if (path === '~') return homedir();
+  if (path.startsWith('~/')) return join(homedir(), path.slice(2));
+  return path;
+}
+
+/**
+ * Resolves symlinks in a path whose tail may not exist yet
+ * A dangling symlink resolves to its target, so writing through it is
+ * checked against where the data would actually land.
+ */
+async function realpathAllowMissing(path: string, depth: number = 0): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    const parent = dirname(path);
+    if ((code !== 'ENOENT' && code !== 'ENOTDIR') || parent === path || depth > MAX_LINK_DEPTH) {
+      return path;
+    }
+
+    const stats = await lstat(path).catch(() => null);
+    if (stats?.isSymbolicLink()) {
+      const target = resolve(dirname(path), await readlink(path));
+      return realpathAllowMissing(target, depth + 1);
+    }
+    return join(await realpathAllowMissing(parent, depth + 1), basename(path));
+  }
+}
+
+function isWithin(root: string, path: string): boolean {
+  if (!isAbsolute(path)) return false;
+  return path === root || path.startsWith(root.endsWith(sep) ? root : root + sep);
+}
@@ -4,19 +4,111 @@
 
 export {
   ToolSystem,
+  ToolHandlerError,
+  DEFAULT_TOOL_MEMORY_MB,
   type ToolDefinition,
   type ToolCall,
   type ToolResult,
   type ToolError,
   type ToolHandler,
+  type ToolContext,
+  type ToolOutputDelta,
+  type ToolIsolation,
+  type ToolLimits,
+  type ToolOptions,
+  type ToolSystemOptions,
+  type ResolvedToolLimits,
   type JSONSchema,
   type JSONSchemaProperty,
 } from './tool-system.js';
 
+export {
+  WorkerPool,
+  DEFAULT_MAX_WORKERS,
+  type WorkerHandlerSpec,
+  type WorkerHostHandler,
+  type WorkerToolContext,
+  type WorkerRunOptions,
+} from './worker-pool.js';
+
+export {
+  SchemaValidator,
+  validateSchema,
+  escapePointer,
+  type JSONSchemaDefinition,
+  type JSONSchemaType,
+  type SchemaValidationError,
+} from './json-schema.js';
+
 export {
   createCoreTools,
   READ_FILE_TOOL,
   WRITE_FILE_TOOL,
   LIST_DIRECTORY_TOOL,
   EXECUTE_SHELL_TOOL,
+  EDIT_FILE_TOOL,
+  APPLY_PATCH_TOOL,
+  GLOB_TOOL,
+  SEARCH_FILES_TOOL,
+  type CoreToolsOptions,
 } from './core-tools.js';
+
+export {
+  globFiles,
+  searchFiles,
+  walkFiles,
+  globToRegExp,
+  parseGitignore,
+  DEFAULT_IGNORES,
+  DEFAULT_RESULT_TOKEN_BUDGET,
+  type IgnoreRule,
+  type WalkEntry,
+  type WalkOptions,
+  type GlobOptions,
+  type SearchOptions,
+} from './file-search.js';
+
+export {
+  parseUnifiedDiff,
+  applyHunks,
+  replaceExact,
+  splitLines,
+  joinLines,
+  type PatchLine,
+  type PatchHunk,
+  type FilePatch,
+  type HunkReport,
+  type FileEditReport,
+  type EditReport,
+  type TextLines,
+} from './patch.js';
+
+export {
+  FsSandbox,
+  defaultFsRoots,
+  type FsRoot,
+  type FsRootMode,
+  type FsAccess,
+} from './fs-sandbox.js';
+
+export {
+  ShellPolicy,
+  BoundedOutput,
+  parseShellCommand,
+  unwrapCommand,
+  DEFAULT_SHELL_POLICY_CONFIG,
+  DEFAULT_BLOCKED_ENV,
+  type ShellPolicyConfig,
+  type ShellNetworkMode,
+  type ShellPolicyEvaluation,
+  type ShellCommandDecision,
+  type ShellPolicyReport,
+  type ShellLaunch,
+} from './shell-policy.js';
+
+export {
+  terminateProcess,
+  hasExited,
+  DEFAULT_KILL_GRACE_MS,
+  type TerminateOptions,
+} from './child-process.js';
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import { SchemaValidator, validateSchema, escapePointer, type JSONSchema } from './json-schema.js';
+
+/**
+ * Returns the JSON pointers of every failure
+ */
+function paths(schema: JSONSchema, value: unknown): string[] {
+  return validateSchema(schema, value).map(e => e.path);
+}
+
+describe('SchemaValidator', () => {
+  describe('types', () => {
+    it('should tell integers from numbers', () => {
+      expect(paths({ type: 'integer' }, 3)).toEqual([]);
+      expect(validateSchema({ type: 'integer' }, 3.5)[0]?.message).toBe("Parameters must be of type 'integer', got 'number'");
+      expect(paths({ type: 'number' }, 3.5)).toEqual([]);
+    });
+
+    it('should accept any of several types, including null', () => {
+      const schema: JSONSchema = { type: ['string', 'null'] };
+      expect(paths(schema, null)).toEqual([]);
+      expect(paths(schema, 'a')).toEqual([]);
+      expect(paths(schema, 1)).toEqual(['']);
+    });
+
+    it('should treat boolean schemas as accept-all and reject-all', () => {
+      expect(validateSchema(true, { anything: 1 })).toEqual([]);
+      expect(validateSchema(false, 1)[0]?.keyword).toBe('false');
+    });
+  });
+
+  describe('nested objects', () => {
+    const schema: JSONSchema = {
+      type: 'object',
+      properties: {
+        options: {
+          type: 'object',
+          properties: {
+            retries: { type: 'integer', minimum: 0, maximum: 5 },
+            mode: { enum: ['fast', 'safe'] },
+          },
+          required: ['mode'],
+          additionalProperties: false,
+        },
+      },
+      required: ['options'],
+    };
+
+    it('should report nested failures with JSON pointers', () => {
+      const errors = validateSchema(schema, { options: { retries: 9, extra: true } });
+
+      expect(errors).toEqual(expect.arrayContaining([
+        expect.objectContaining({ path: '/options/mode', keyword: 'required', schemaPath: '#/properties/options/required' }),
+        expect.objectContaining({ path: '/options/retries', keyword: 'maximum', schemaPath: '#/properties/options/properties/retries/maximum' }),
+        expect.objectContaining({ path: '/options/extra', keyword: 'additionalProperties' }),
+      ]));
+      expect(errors).toHaveLength(3);
+    });
+
+    it('should escape property names in pointers', () => {
+      expect(escapePointer('a/b~c')).toBe('a~1b~0c');
+      expect(paths({ properties: { 'a/b': { type: 'string' } } }, { 'a/b': 1 })).toEqual(['/a~1b']);
+    });
+  });
+
+  describe('numbers and strings', () => {
+    it('should check exclusive limits and multipleOf', () => {
+      const schema: JSONSchema = { exclusiveMinimum: 0, exclusiveMaximum: 1, multipleOf: 0.1 };
+      expect(paths(schema, 0.3)).toEqual([]);
+      expect(validateSchema(schema, 0).map(e => e.keyword)).toEqual(['exclusiveMinimum']);
+      expect(validateSchema(schema, 0.25).map(e => e.keyword)).toEqual(['multipleOf']);
+    });
+
+    it('should count string length in code points', () => {
+      expect(paths({ maxLength: 2 }, '😀😀')).toEqual([]);
+      expect(validateSchema({ minLength: 3 }, '😀😀')[0]?.keyword).toBe('minLength');
+    });
+
+    it('should match patterns anywhere in the string', () => {
+      expect(paths({ pattern: '^[a-z]+$' }, 'abc')).toEqual([]);
+      expect(paths({ pattern: '\\d' }, 'a1b')).toEqual([]);
+      expect(validateSchema({ pattern: '^[a-z]+$' }, 'ABC')[0]?.message).toBe("Parameters must match pattern '^[a-z]+$'");
+    });
+
+    it('should assert known formats and ignore unknown ones', () => {
+      expect(paths({ format: 'date-time' }, '2024-02-20T10:00:00Z')).toEqual([]);
+      expect(paths({ format: 'date-time' }, 'yesterday')).toEqual(['']);
+      expect(paths({ format: 'email' }, 'a@b.io')).toEqual([]);
+      expect(paths({ format: 'uuid' }, 'not-a-uuid')).toEqual(['']);
+      expect(paths({ format: 'ipv4' }, '256.1.1.1')).toEqual(['']);
+      expect(paths({ format: 'ipv6' }, '::ffff:10.0.0.1')).toEqual([]);
+      expect(paths({ format: 'uri' }, 'https://example.com/x')).toEqual([]);
+      expect(paths({ format: 'x-custom' }, 'anything')).toEqual([]);
+    });
+  });
+
+  describe('arrays', () => {
+    it('should apply prefixItems, then items to the rest', () => {
+      const schema: JSONSchema = { prefixItems: [{ type: 'string' }], items: { type: 'number' } };
+      expect(paths(schema, ['a', 1, 2])).toEqual([]);
+      expect(paths(schema, [1, 'b'])).toEqual(['/0', '/1']);
+    });
+
+    it('should check uniqueness with deep equality', () => {
+      expect(validateSchema({ uniqueItems: true }, [{ a: 1 }, { a: 1 }])[0]?.keyword).toBe('uniqueItems');
+      expect(paths({ uniqueItems: true }, [{ a: 1 }, { a: 2 }])).toEqual([]);
+    });
+
+    it('should count contains matches against minContains and maxContains', () => {
+      const schema: JSONSchema = { contains: { type: 'string' }, minContains: 1, maxContains: 2 };
+      expect(paths(schema, [1, 'a'])).toEqual([]);
+      expect(validateSchema(schema, [1]).map(e => e.keyword)).toEqual(['minContains']);
+      expect(validateSchema(schema, ['a', 'b', 'c']).map(e => e.keyword)).toEqual(['maxContains']);
+    });
+  });
+
+  describe('combinators', () => {
+    it('should require exactly one oneOf branch', () => {
+      const schema: JSONSchema = { oneOf: [{ type: 'integer' }, { minimum: 2 }] };
+      expect(paths(schema, 1)).toEqual([]);
+      expect(validateSchema(schema, 3)[0]?.message).toContain('matched 2');
+      expect(validateSchema(schema, 1.5)[0]?.message).toContain('matched 0');
+    });
+
+    it('should support anyOf, allOf and not', () => {
+      expect(paths({ anyOf: [{ type: 'string' }, { type: 'boolean' }] }, true)).toEqual([]);
+      expect(validateSchema({ allOf: [{ minimum: 1 }, { maximum: 2 }] }, 3).map(e => e.keyword)).toEqual(['maximum']);
+      expect(validateSchema({ not: { type: 'string' } }, 'a')[0]?.keyword).toBe('not');
+    });
+
+    it('should apply then or else depending on if', () => {
+      const schema: JSONSchema = {
+        type: 'object',
+        if: { properties: { kind: { const: 'file' } } },
+        then: { required: ['path'] },
+        else: { required: ['url'] },
+      };
+      expect(paths(schema, { kind: 'file' })).toEqual(['/path']);
+      expect(paths(schema, { kind: 'link' })).toEqual(['/url']);
+    });
+
+    it('should see properties evaluated by subschemas in unevaluatedProperties', () => {
+      const schema: JSONSchema = {
+        allOf: [{ properties: { a: { type: 'string' } } }],
+        properties: { b: { type: 'string' } },
+        unevaluatedProperties: false,
+      };
+      expect(paths(schema, { a: 'x', b: 'y' })).toEqual([]);
+      expect(validateSchema(schema, { a: 'x', c: 'z' })[0]).toMatchObject({ path: '/c', keyword: 'unevaluatedProperties' });
+    });
+
+    it('should reject items no keyword evaluated when unevaluatedItems is false', () => {
+      const schema: JSONSchema = { prefixItems: [{ type: 'string' }], unevaluatedItems: false };
+      expect(paths(schema, ['a'])).toEqual([]);
+      expect(paths(schema, ['a', 'b'])).toEqual(['/1']);
+    });
+  });
+
+  describe('object keywords', () => {
+    it('should check patternProperties, propertyNames and dependentRequired', () => {
+      expect(paths({ patternProperties: { '^x-': { type: 'string' } } }, { 'x-a': 1, b: 1 })).toEqual(['/x-a']);
+      expect(validateSchema({ propertyNames: { pattern: '^[a-z]+$' } }, { Bad: 1 })[0]?.keyword).toBe('propertyNames');
+      expect(validateSchema({ dependentRequired: { user: ['password'] } }, { user: 'a' })[0]).toMatchObject({
+        path: '/password',
+        message: "Missing required parameter: 'password' (required by 'user')",
+      });
+    });
+  });
+
+  describe('references', () => {
+    it('should resolve $defs, anchors and recursive references', () => {
+      const schema: JSONSchema = {
+        $defs: {
+          node: {
+            $anchor: 'node',
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              children: { type: 'array', items: { $ref: '#node' } },
+            },
+            required: ['name'],
+          },
+        },
+        $ref: '#/$defs/node',
+      };
+      const validator = new SchemaValidator(schema);
+
+      expect(validator.validate({ name: 'root', children: [{ name: 'leaf', children: [] }] })).toEqual([]);
+      expect(validator.validate({ name: 'root', children: [{ children: [] }] }).map(e => e.path)).toEqual(['/children/0/name']);
+    });
+
+    it('should report references that cannot be resolved', () => {
+      expect(validateSchema({ $ref: '#/$defs/missing' }, 1)[0]).toMatchObject({
+        keyword: '$ref',
+        message: "Cannot resolve schema reference '#/$defs/missing'",
+      });
+    });
+  });
+});
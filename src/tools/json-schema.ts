@@ -0,0 +1,632 @@
+/**
+ * JSON Schema (draft 2020-12) validation for tool parameters
+ *
+ * Supports the assertion and applicator vocabularies: type, const, enum,
+ * numeric and string limits, pattern, format, array and object keywords,
+ * allOf/anyOf/oneOf/not, if/then/else, dependentRequired/dependentSchemas,
+ * unevaluatedItems/unevaluatedProperties and references within the same
+ * schema ($ref to `#`, JSON pointers, $anchor, $id and $defs). Remote
+ * references are not fetched; $dynamicRef is resolved like $ref.
+ *
+ * Requirement 6.2: Validate parameters against JSON schema
+ */
+
+/**
+ * Primitive types a schema can require
+ */
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * A schema, or `true`/`false` to accept or reject everything
+ */
+export type JSONSchemaDefinition = JSONSchema | boolean;
+
+/**
+ * JSON Schema document (draft 2020-12)
+ */
+export interface JSONSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $dynamicRef?: string;
+  $anchor?: string;
+  $dynamicAnchor?: string;
+  $defs?: Record<string, JSONSchemaDefinition>;
+  $comment?: string;
+  title?: string;
+  description?: string;
+  default?: unknown;
+  examples?: unknown[];
+  deprecated?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+
+  type?: JSONSchemaType | JSONSchemaType[];
+  const?: unknown;
+  enum?: unknown[];
+
+  multipleOf?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+
+  prefixItems?: JSONSchemaDefinition[];
+  items?: JSONSchemaDefinition;
+  contains?: JSONSchemaDefinition;
+  minContains?: number;
+  maxContains?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  unevaluatedItems?: JSONSchemaDefinition;
+
+  properties?: Record<string, JSONSchema>;
+  patternProperties?: Record<string, JSONSchemaDefinition>;
+  additionalProperties?: JSONSchemaDefinition;
+  propertyNames?: JSONSchemaDefinition;
+  required?: string[];
+  minProperties?: number;
+  maxProperties?: number;
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, JSONSchemaDefinition>;
+  unevaluatedProperties?: JSONSchemaDefinition;
+
+  allOf?: JSONSchemaDefinition[];
+  anyOf?: JSONSchemaDefinition[];
+  oneOf?: JSONSchemaDefinition[];
+  not?: JSONSchemaDefinition;
+  if?: JSONSchemaDefinition;
+  then?: JSONSchemaDefinition;
+  else?: JSONSchemaDefinition;
+}
+
+/**
+ * A single validation failure
+ * `path` is a JSON pointer into the validated value (for `required`, the
+ * missing property); `schemaPath` points at the failing keyword.
+ */
+export interface SchemaValidationError {
+  path: string;
+  schemaPath: string;
+  keyword: string;
+  message: string;
+}
+
+/**
+ * Deepest chain of subschemas followed before giving up (guards $ref cycles)
+ */
+const MAX_SCHEMA_DEPTH = 64;
+
+/**
+ * Assertions for the `format` keyword; unknown formats are not checked
+ */
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'date-time': value => /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value) && !Number.isNaN(Date.parse(value)),
+  date: value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)),
+  time: value => /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/.test(value),
+  duration: value => /^P(?!$)(\d+Y)?(\d+M)?(\d+W)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/.test(value),
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  hostname: value => value.length <= 253 && /^(?!-)[A-Za-z0-9-]{1,63}(?<!-)(\.(?!-)[A-Za-z0-9-]{1,63}(?<!-))*$/.test(value),
+  ipv4: value => /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(value),
+  ipv6: value => isIPv6(value),
+  uri: value => /^[A-Za-z][A-Za-z0-9+.-]*:/.test(value) && canParseUrl(value),
+  'uri-reference': value => !/\s/.test(value),
+  uuid: value => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value),
+  regex: value => compilePattern(value) !== null,
+  'json-pointer': value => /^(\/([^~/]|~[01])*)*$/.test(value),
+};
+
+/**
+ * Annotations collected while validating one value against one schema
+ * `properties`/`items` are what unevaluatedProperties/unevaluatedItems skip.
+ */
+interface Evaluation {
+  errors: SchemaValidationError[];
+  properties: Set<string>;
+  items: Set<number>;
+}
+
+/**
+ * SchemaValidator - Validates values against one JSON Schema document
+ *
+ * Construct once per schema (references and patterns are indexed and
+ * cached) and call `validate` for each value.
+ */
+export class SchemaValidator {
+  private root: JSONSchemaDefinition;
+  private identified: Map<string, JSONSchemaDefinition> = new Map();
+
+  constructor(schema: JSONSchemaDefinition) {
+    this.root = schema;
+    this.index(schema, '#');
+  }
+
+  /**
+   * Validates a value, returning every failure (empty when valid)
+   */
+  validate(value: unknown): SchemaValidationError[] {
+    return this.check(this.root, value, '', '#', 0).errors;
+  }
+
+  /**
+   * Records $id and $anchor targets so references can find them
+   */
+  private index(schema: JSONSchemaDefinition, pointer: string): void {
+    if (typeof schema !== 'object' || schema === null) return;
+
+    if (schema.$id && pointer !== '#') this.identified.set(schema.$id.replace(/#$/, ''), schema);
+    if (schema.$anchor) this.identified.set(`#${schema.$anchor}`, schema);
+    if (schema.$dynamicAnchor) this.identified.set(`#${schema.$dynamicAnchor}`, schema);
+
+    for (const [key, child] of Object.entries(schema)) {
+      if (['const', 'default', 'enum', 'examples'].includes(key)) {
+        continue;
+      }
+      if (Array.isArray(child)) {
+        child.forEach((item, i) => this.index(item as JSONSchemaDefinition, `${pointer}/${key}/${i}`));
+      } else if (typeof child === 'object' && child !== null) {
+        if (['properties', 'patternProperties', '$defs', 'dependentSchemas'].includes(key)) {
+          for (const [name, sub] of Object.entries(child as Record<string, JSONSchemaDefinition>)) {
+            this.index(sub, `${pointer}/${key}/${escapePointer(name)}`);
+          }
+        } else {
+          this.index(child as JSONSchemaDefinition, `${pointer}/${key}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Resolves a reference within this schema document
+   */
+  private resolve(ref: string): JSONSchemaDefinition | undefined {
+    const rootId = typeof this.root === 'object' ? this.root.$id?.replace(/#$/, '') : undefined;
+    let target = ref;
+    if (rootId && target.startsWith(rootId)) {
+      target = target.slice(rootId.length) || '#';
+    }
+
+    if (this.identified.has(target)) {
+      return this.identified.get(target);
+    }
+    if (target === '#' || target === '') {
+      return this.root;
+    }
+    if (target.startsWith('#/')) {
+      let node: unknown = this.root;
+      for (const segment of target.slice(2).split('/')) {
+        const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+        if (typeof node !== 'object' || node === null || !Object.hasOwn(node, key)) {
+          return undefined;
+        }
+        node = (node as Record<string, unknown>)[key];
+      }
+      return node as JSONSchemaDefinition;
+    }
+    return undefined;
+  }
+
+  /**
+   * Validates a value against a (sub)schema
+   */
+  private check(
+    schema: JSONSchemaDefinition,
+    value: unknown,
+    path: string,
+    schemaPath: string,
+    depth: number
+  ): Evaluation {
+    const result: Evaluation = { errors: [], properties: new Set(), items: new Set() };
+    const fail = (keyword: string, message: string, at: string = path): void => {
+      result.errors.push({ path: at, schemaPath: `${schemaPath}/${keyword}`, keyword, message });
+    };
+    // Folds in a subschema's outcome; annotations only count when it passed
+    const merge = (sub: Evaluation): void => {
+      result.errors.push(...sub.errors);
+      if (sub.errors.length === 0) {
+        sub.properties.forEach(p => result.properties.add(p));
+        sub.items.forEach(i => result.items.add(i));
+      }
+    };
+    const sub = (subschema: JSONSchemaDefinition, keyword: string, target: unknown = value, at: string = path): Evaluation =>
+      this.check(subschema, target, at, `${schemaPath}/${keyword}`, depth + 1);
+
+    if (schema === true) {
+      return result;
+    }
+    if (schema === false) {
+      result.errors.push({ path, schemaPath, keyword: 'false', message: `${label(path)} is not allowed` });
+      return result;
+    }
+    if (depth > MAX_SCHEMA_DEPTH) {
+      fail('$ref', `Schema nesting exceeds ${MAX_SCHEMA_DEPTH} levels at ${label(path)}`);
+      return result;
+    }
+
+    // References
+    for (const keyword of ['$ref', '$dynamicRef'] as const) {
+      const ref = schema[keyword];
+      if (ref === undefined) continue;
+      const target = this.resolve(ref);
+      if (target === undefined) {
+        fail(keyword, `Cannot resolve schema reference '${ref}'`);
+      } else {
+        merge(sub(target, keyword));
+      }
+    }
+
+    // Type; other checks would only repeat the mismatch
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => matchesType(value, type))) {
+        fail('type', `${label(path)} must be of type '${types.join("' or '")}', got '${typeOf(value)}'`);
+        return result;
+      }
+    }
+
+    if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+      fail('const', `${label(path)} must be ${JSON.stringify(schema.const)}`);
+    }
+    if (schema.enum && !schema.enum.some(option => deepEqual(value, option))) {
+      fail('enum', `${label(path)} must be one of: ${schema.enum.map(formatValue).join(', ')}`);
+    }
+
+    if (typeof value === 'number') {
+      this.checkNumber(schema, value, path, fail);
+    } else if (typeof value === 'string') {
+      this.checkString(schema, value, path, fail);
+    } else if (Array.isArray(value)) {
+      this.checkArray(schema, value, path, result, fail, sub, merge);
+    } else if (isObject(value)) {
+      this.checkObject(schema, value, path, result, fail, sub, merge);
+    }
+
+    // Combinators
+    schema.allOf?.forEach((subschema, i) => merge(sub(subschema, `allOf/${i}`)));
+
+    if (schema.anyOf) {
+      const passed = schema.anyOf.map((subschema, i) => sub(subschema, `anyOf/${i}`)).filter(e => e.errors.length === 0);
+      if (passed.length === 0) {
+        fail('anyOf', `${label(path)} must match at least one schema in anyOf`);
+      }
+      passed.forEach(merge);
+    }
+
+    if (schema.oneOf) {
+      const passed = schema.oneOf.map((subschema, i) => sub(subschema, `oneOf/${i}`)).filter(e => e.errors.length === 0);
+      if (passed.length !== 1) {
+        fail('oneOf', `${label(path)} must match exactly one schema in oneOf, matched ${passed.length}`);
+      } else {
+        merge(passed[0]!);
+      }
+    }
+
+    if (schema.not !== undefined && sub(schema.not, 'not').errors.length === 0) {
+      fail('not', `${label(path)} must not match the schema in 'not'`);
+    }
+
+    if (schema.if !== undefined) {
+      const condition = sub(schema.if, 'if');
+      if (condition.errors.length === 0) {
+        merge(condition);
+        if (schema.then !== undefined) merge(sub(schema.then, 'then'));
+      } else if (schema.else !== undefined) {
+        merge(sub(schema.else, 'else'));
+      }
+    }
+
+    // Unevaluated keywords see annotations from everything above
+    if (Array.isArray(value) && schema.unevaluatedItems !== undefined) {
+      value.forEach((item, i) => {
+        if (result.items.has(i)) return;
+        const at = `${path}/${i}`;
+        if (schema.unevaluatedItems === false) {
+          fail('unevaluatedItems', `Unexpected item: '${at.slice(1)}'`, at);
+        } else {
+          result.errors.push(...sub(schema.unevaluatedItems!, 'unevaluatedItems', item, at).errors);
+        }
+        result.items.add(i);
+      });
+    }
+    if (isObject(value) && schema.unevaluatedProperties !== undefined) {
+      for (const key of Object.keys(value)) {
+        if (result.properties.has(key)) continue;
+        const at = `${path}/${escapePointer(key)}`;
+        if (schema.unevaluatedProperties === false) {
+          fail('unevaluatedProperties', `Unknown parameter: '${at.slice(1)}'`, at);
+        } else {
+          result.errors.push(...sub(schema.unevaluatedProperties, 'unevaluatedProperties', value[key], at).errors);
+        }
+        result.properties.add(key);
+      }
+    }
+
+    return result;
+  }
+
+  private checkNumber(schema: JSONSchema, value: number, path: string, fail: (keyword: string, message: string) => void): void {
+    const name = label(path);
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail('minimum', `${name} must be >= ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail('maximum', `${name} must be <= ${schema.maximum}, got ${value}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail('exclusiveMinimum', `${name} must be > ${schema.exclusiveMinimum}, got ${value}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      fail('exclusiveMaximum', `${name} must be < ${schema.exclusiveMaximum}, got ${value}`);
+    }
+    if (schema.multipleOf !== undefined && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        fail('multipleOf', `${name} must be a multiple of ${schema.multipleOf}, got ${value}`);
+      }
+    }
+  }
+
+  private checkString(schema: JSONSchema, value: string, path: string, fail: (keyword: string, message: string) => void): void {
+    const name = label(path);
+    // Lengths count code points, not UTF-16 units
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      fail('minLength', `${name} must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      fail('maxLength', `${name} must be at most ${schema.maxLength} characters long`);
+    }
+    if (schema.pattern !== undefined) {
+      const regex = compilePattern(schema.pattern);
+      if (!regex) {
+        fail('pattern', `Schema pattern '${schema.pattern}' is not a valid regular expression`);
+      } else if (!regex.test(value)) {
+        fail('pattern', `${name} must match pattern '${schema.pattern}'`);
+      }
+    }
+    if (schema.format !== undefined) {
+      const assertFormat = FORMATS[schema.format];
+      if (assertFormat && !assertFormat(value)) {
+        fail('format', `${name} must be a valid ${schema.format}`);
+      }
+    }
+  }
+
+  private checkArray(
+    schema: JSONSchema,
+    value: unknown[],
+    path: string,
+    result: Evaluation,
+    fail: (keyword: string, message: string, at?: string) => void,
+    sub: (subschema: JSONSchemaDefinition, keyword: string, target?: unknown, at?: string) => Evaluation,
+    merge: (evaluation: Evaluation) => void
+  ): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail('minItems', `${label(path)} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail('maxItems', `${label(path)} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems) {
+      outer: for (let i = 0; i < value.length; i++) {
+        for (let j = i + 1; j < value.length; j++) {
+          if (deepEqual(value[i], value[j])) {
+            fail('uniqueItems', `${label(path)} must not contain duplicates (items ${i} and ${j} are equal)`);
+            break outer;
+          }
+        }
+      }
+    }
+
+    const prefixLength = schema.prefixItems?.length ?? 0;
+    schema.prefixItems?.forEach((subschema, i) => {
+      if (i >= value.length) return;
+      merge(sub(subschema, `prefixItems/${i}`, value[i], `${path}/${i}`));
+      result.items.add(i);
+    });
+    if (schema.items !== undefined) {
+      for (let i = prefixLength; i < value.length; i++) {
+        merge(sub(schema.items, 'items', value[i], `${path}/${i}`));
+        result.items.add(i);
+      }
+    }
+
+    if (schema.contains !== undefined) {
+      let matches = 0;
+      value.forEach((item, i) => {
+        if (sub(schema.contains!, 'contains', item, `${path}/${i}`).errors.length === 0) {
+          matches++;
+          result.items.add(i);
+        }
+      });
+      const min = schema.minContains ?? 1;
+      if (matches < min) {
+        fail(schema.minContains !== undefined ? 'minContains' : 'contains',
+          `${label(path)} must contain at least ${min} matching item(s), found ${matches}`);
+      }
+      if (schema.maxContains !== undefined && matches > schema.maxContains) {
+        fail('maxContains', `${label(path)} must contain at most ${schema.maxContains} matching item(s), found ${matches}`);
+      }
+    }
+  }
+
+  private checkObject(
+    schema: JSONSchema,
+    value: Record<string, unknown>,
+    path: string,
+    result: Evaluation,
+    fail: (keyword: string, message: string, at?: string) => void,
+    sub: (subschema: JSONSchemaDefinition, keyword: string, target?: unknown, at?: string) => Evaluation,
+    merge: (evaluation: Evaluation) => void
+  ): void {
+    const keys = Object.keys(value);
+    const child = (key: string): string => `${path}/${escapePointer(key)}`;
+
+    for (const key of schema.required ?? []) {
+      if (!Object.hasOwn(value, key)) {
+        fail('required', `Missing required parameter: '${child(key).slice(1)}'`, child(key));
+      }
+    }
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      fail('minProperties', `${label(path)} must have at least ${schema.minProperties} properties`);
+    }
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      fail('maxProperties', `${label(path)} must have at most ${schema.maxProperties} properties`);
+    }
+    for (const [key, dependencies] of Object.entries(schema.dependentRequired ?? {})) {
+      if (!Object.hasOwn(value, key)) continue;
+      for (const dependency of dependencies) {
+        if (!Object.hasOwn(value, dependency)) {
+          fail('dependentRequired',
+            `Missing required parameter: '${child(dependency).slice(1)}' (required by '${child(key).slice(1)}')`,
+            child(dependency));
+        }
+      }
+    }
+
+    const patterns = Object.entries(schema.patternProperties ?? {}).map(
+      ([pattern, subschema]) => [pattern, compilePattern(pattern), subschema] as const
+    );
+    for (const [pattern, regex] of patterns) {
+      if (!regex) fail('patternProperties', `Schema pattern '${pattern}' is not a valid regular expression`);
+    }
+
+    for (const key of keys) {
+      let matched = false;
+      if (schema.properties && Object.hasOwn(schema.properties, key)) {
+        matched = true;
+        merge(sub(schema.properties[key]!, `properties/${escapePointer(key)}`, value[key], child(key)));
+      }
+      for (const [pattern, regex, subschema] of patterns) {
+        if (regex?.test(key)) {
+          matched = true;
+          merge(sub(subschema, `patternProperties/${escapePointer(pattern)}`, value[key], child(key)));
+        }
+      }
+      if (!matched && schema.additionalProperties !== undefined) {
+        matched = true;
+        if (schema.additionalProperties === false) {
+          fail('additionalProperties', `Unknown parameter: '${child(key).slice(1)}'`, child(key));
+        } else {
+          merge(sub(schema.additionalProperties, 'additionalProperties', value[key], child(key)));
+        }
+      }
+      if (matched) {
+        result.properties.add(key);
+      }
+
+      if (schema.propertyNames !== undefined && sub(schema.propertyNames, 'propertyNames', key, child(key)).errors.length > 0) {
+        fail('propertyNames', `Parameter name '${key}' is not allowed`, child(key));
+      }
+    }
+
+    for (const [key, subschema] of Object.entries(schema.dependentSchemas ?? {})) {
+      if (Object.hasOwn(value, key)) {
+        merge(sub(subschema, `dependentSchemas/${escapePointer(key)}`));
+      }
+    }
+  }
+}
+
+/**
+ * Validates a value against a schema in one call
+ */
+export function validateSchema(schema: JSONSchemaDefinition, value: unknown): SchemaValidationError[] {
+  return new SchemaValidator(schema).validate(value);
+}
+
+/**
+ * Escapes a property name for use in a JSON pointer
+ */
+export function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Names a location in validation messages
+ */
+function label(path: string): string {
+  return path === '' ? 'Parameters' : `Parameter '${path.slice(1)}'`;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    default: return typeof value === type;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => Object.hasOwn(b, key) && deepEqual(a[key], b[key]));
+  }
+  return false;
+}
+
+const patternCache: Map<string, RegExp | null> = new Map();
+
+/**
+ * Compiles a schema pattern (ECMA-262, unicode mode), caching the result
+ */
+function compilePattern(pattern: string): RegExp | null {
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(pattern, 'u'));
+    } catch {
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern) ?? null;
+}
+
+function canParseUrl(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isIPv6(value: string): boolean {
+  const halves = value.split('::');
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap(half => (half === '' ? [] : half.split(':')));
+  const last = groups[groups.length - 1];
+  // An embedded IPv4 address takes the place of two groups
+  const hasIPv4 = last !== undefined && last.includes('.');
+  if (hasIPv4 && !FORMATS['ipv4']!(last)) return false;
+  const hexGroups = hasIPv4 ? groups.slice(0, -1) : groups;
+  if (!hexGroups.every(group => /^[0-9a-fA-F]{1,4}$/.test(group))) return false;
+  const count = hexGroups.length + (hasIPv4 ? 2 : 0);
+  return halves.length === 2 ? count < 8 : count === 8;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { parseUnifiedDiff, applyHunks, replaceExact, splitLines, joinLines } from './patch.js';
+
+/**
+ * Applies a single-file diff to text and returns the new text and reports
+ */
+function patchText(original: string, diff: string, fuzz: number = 2) {
+  const [patch] = parseUnifiedDiff(diff);
+  const { text, reports } = applyHunks(splitLines(original), patch!.hunks, fuzz);
+  return { text: joinLines(text), reports };
+}
+
+const ORIGINAL = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', ''].join('\n');
+
+describe('parseUnifiedDiff', () => {
+  it('should parse git diffs with several files', () => {
+    const patches = parseUnifiedDiff([
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 83db48f..bf269f4 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,2 @@',
+      ' keep',
+      '-old',
+      '+new',
+      'diff --git a/b.txt b/b.txt',
+      'new file mode 100644',
+      '--- /dev/null',
+      '+++ b/b.txt',
+      '@@ -0,0 +1 @@',
+      '+hello',
+      '',
+    ].join('\n'));
+
+    expect(patches).toHaveLength(2);
+    expect(patches[0]).toMatchObject({ oldPath: 'src/a.ts', newPath: 'src/a.ts' });
+    expect(patches[0]?.hunks[0]?.lines).toEqual([
+      { type: ' ', text: 'keep' },
+      { type: '-', text: 'old' },
+      { type: '+', text: 'new' },
+    ]);
+    expect(patches[1]).toMatchObject({ oldPath: null, newPath: 'b.txt' });
+  });
+
+  it('should accept diffs without file headers or line numbers', () => {
+    const [patch] = parseUnifiedDiff('@@ @@\n-a\n+b\n');
+
+    expect(patch).toMatchObject({ oldPath: '', newPath: '' });
+    expect(patch?.hunks[0]?.oldStart).toBeUndefined();
+  });
+
+  it('should reject input without hunks', () => {
+    expect(() => parseUnifiedDiff('just some text')).toThrow('No hunks found in patch');
+  });
+});
+
+describe('applyHunks', () => {
+  it('should apply hunks at their stated position', () => {
+    const { text, reports } = patchText(ORIGINAL, '@@ -2,3 +2,3 @@\n two\n-three\n+THREE\n four\n');
+
+    expect(text).toBe(ORIGINAL.replace('three', 'THREE'));
+    expect(reports).toEqual([
+      { index: 0, status: 'applied', oldStart: 2, oldLines: 3, newStart: 2, newLines: 3, offset: 0, fuzz: 0 },
+    ]);
+  });
+
+  it('should find hunks whose lines have moved', () => {
+    const { text, reports } = patchText(`zero\n${ORIGINAL}`, '@@ -4,3 +4,3 @@\n four\n-five\n+FIVE\n six\n');
+
+    expect(text).toContain('four\nFIVE\nsix');
+    expect(reports[0]).toMatchObject({ status: 'applied', offset: 1, oldStart: 5 });
+  });
+
+  it('should track line shifts across hunks', () => {
+    const { text, reports } = patchText(
+      ORIGINAL,
+      '@@ -1,2 +1,4 @@\n one\n+one and a half\n+one and three quarters\n two\n@@ -8,3 +10,2 @@\n eight\n-nine\n ten\n'
+    );
+
+    expect(text).toBe('one\none and a half\none and three quarters\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nten\n');
+    expect(reports.map(r => [r.oldStart, r.newStart, r.offset])).toEqual([[1, 1, 0], [8, 10, 0]]);
+  });
+
+  it('should ignore outer context lines up to the fuzz factor', () => {
+    const diff = '@@ -3,5 +3,5 @@\n three\n CHANGED\n-five\n+FIVE\n six\n seven\n';
+
+    expect(patchText(ORIGINAL, diff, 0).reports[0]?.status).toBe('rejected');
+    const { text, reports } = patchText(ORIGINAL, diff, 2);
+    expect(text).toContain('four\nFIVE\nsix');
+    expect(reports[0]).toMatchObject({ status: 'applied', fuzz: 2 });
+  });
+
+  it('should reject hunks that do not match and leave the text alone', () => {
+    const { text, reports } = patchText(ORIGINAL, '@@ -2,1 +2,1 @@\n-TWO\n+2\n');
+
+    expect(text).toBe(ORIGINAL);
+    expect(reports[0]).toMatchObject({ status: 'rejected', reason: 'Context does not match near line 2' });
+  });
+
+  it('should tolerate trailing whitespace differences', () => {
+    expect(patchText('a  \nb\n', '@@ -1,2 +1,2 @@\n a\n-b\n+c\n').text).toBe('a  \nc\n');
+  });
+
+  it('should honour missing newlines at the end of file', () => {
+    expect(patchText('a\nb', '@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+c\n').text).toBe('a\nc\n');
+    expect(patchText('a\nb\n', '@@ -1,2 +1,2 @@\n a\n-b\n+c\n\\ No newline at end of file\n').text).toBe('a\nc');
+  });
+
+  it('should keep CRLF line endings', () => {
+    expect(patchText('a\r\nb\r\n', '@@ -1,2 +1,2 @@\n a\n-b\n+c\n').text).toBe('a\r\nc\r\n');
+  });
+});
+
+describe('replaceExact', () => {
+  const content = 'alpha\nbeta\ngamma\nbeta\n';
+
+  it('should replace a unique occurrence and report its lines', () => {
+    const { content: result, reports } = replaceExact(content, 'gamma\n', 'GAMMA\nDELTA\n', false);
+
+    expect(result).toBe('alpha\nbeta\nGAMMA\nDELTA\nbeta\n');
+    expect(reports).toEqual([{ index: 0, status: 'applied', oldStart: 3, oldLines: 2, newStart: 3, newLines: 3 }]);
+  });
+
+  it('should refuse ambiguous matches unless replacing all', () => {
+    const ambiguous = replaceExact(content, 'beta', 'BETA', false);
+    expect(ambiguous.content).toBe(content);
+    expect(ambiguous.reports[0]?.reason).toBe(
+      'oldString occurs 2 times (lines 2, 4); include more surrounding text to make it unique, or set replaceAll'
+    );
+
+    const all = replaceExact(content, 'beta', 'BETA', true);
+    expect(all.content).toBe('alpha\nBETA\ngamma\nBETA\n');
+    expect(all.reports.map(r => r.oldStart)).toEqual([2, 4]);
+  });
+
+  it('should report a missing string', () => {
+    expect(replaceExact(content, 'omega', 'x', false).reports[0]).toMatchObject({
+      status: 'rejected',
+      reason: 'oldString was not found in the file',
+    });
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Text editing primitives behind edit_file and apply_patch
+ */
+
+/**
+ * One line of a hunk: context (` `), removed (`-`) or added (`+`)
+ */
+export interface PatchLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * A hunk of a unified diff
+ * `oldStart` is undefined when the header carries no line numbers (`@@ @@`),
+ * in which case the hunk is searched for after the previous one.
+ */
+export interface PatchHunk {
+  oldStart?: number;
+  newStart?: number;
+  lines: PatchLine[];
+  /** `\ No newline at end of file` after the old / new side's last line */
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+/**
+ * The changes a unified diff makes to one file
+ * A null path is `/dev/null`: no old path creates the file, no new path
+ * deletes it.
+ */
+export interface FilePatch {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+/**
+ * Outcome of one hunk (or, for edit_file, one replacement)
+ * Line numbers are 1-based. `offset` is how far from its stated position the
+ * hunk was found; `fuzz` is how many context lines at each end were ignored.
+ */
+export interface HunkReport {
+  index: number;
+  status: 'applied' | 'rejected';
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  offset?: number;
+  fuzz?: number;
+  reason?: string;
+}
+
+/**
+ * What an edit did to one file
+ */
+export interface FileEditReport {
+  path: string;
+  status: 'modified' | 'created' | 'deleted' | 'unchanged';
+  hunks: HunkReport[];
+}
+
+/**
+ * Structured result of edit_file and apply_patch
+ */
+export interface EditReport {
+  files: FileEditReport[];
+  applied: number;
+  rejected: number;
+}
+
+/**
+ * A file's text as lines, remembering how it ended and its line endings
+ */
+export interface TextLines {
+  lines: string[];
+  endsWithNewline: boolean;
+  crlf: boolean;
+}
+
+const HUNK_HEADER = /^@@(?: -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)?)? @@/;
+
+/**
+ * Splits text into lines
+ * CRLF files are split on CRLF so edits see the same lines as LF files.
+ */
+export function splitLines(text: string): TextLines {
+  const crlf = text.includes('\r\n');
+  const endsWithNewline = text.endsWith('\n');
+  const body = endsWithNewline ? text.slice(0, crlf ? -2 : -1) : text;
+  return {
+    lines: text === '' ? [] : body.split(crlf ? '\r\n' : '\n'),
+    endsWithNewline: endsWithNewline || text === '',
+    crlf,
+  };
+}
+
+/**
+ * Joins lines back into text with the original line endings
+ */
+export function joinLines(text: TextLines): string {
+  if (text.lines.length === 0) return '';
+  const eol = text.crlf ? '\r\n' : '\n';
+  return text.lines.join(eol) + (text.endsWithNewline ? eol : '');
+}
+
+/**
+ * Parses a unified diff into per-file patches
+ *
+ * Accepts `diff -u` and `git diff` output. `a/` and `b/` prefixes are
+ * stripped, git extended headers are skipped, and hunk line counts are not
+ * trusted (hand-written and model-written diffs often get them wrong): a
+ * hunk runs until the next hunk or file header. A diff without file headers
+ * yields one patch whose paths are empty strings. Throws if no hunk is found.
+ */
+export function parseUnifiedDiff(diff: string): FilePatch[] {
+  const input = diff.replace(/\r\n/g, '\n').split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let hunk: PatchHunk | null = null;
+
+  const isFileHeader = (i: number): boolean =>
+    input[i]!.startsWith('--- ') && (input[i + 1] ?? '').startsWith('+++ ');
+
+  for (let i = 0; i < input.length; i++) {
+    const line = input[i]!;
+
+    if (isFileHeader(i)) {
+      const oldPath = headerPath(line.slice(4));
+      const newPath = headerPath(input[i + 1]!.slice(4));
+      const strip = (oldPath === null || oldPath.startsWith('a/')) && (newPath === null || newPath.startsWith('b/'));
+      current = {
+        oldPath: oldPath !== null && strip ? oldPath.slice(2) : oldPath,
+        newPath: newPath !== null && strip ? newPath.slice(2) : newPath,
+        hunks: [],
+      };
+      patches.push(current);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!current) {
+        current = { oldPath: '', newPath: '', hunks: [] };
+        patches.push(current);
+      }
+      hunk = {
+        ...(header[1] !== undefined ? { oldStart: Number(header[1]) } : {}),
+        ...(header[2] !== undefined ? { newStart: Number(header[2]) } : {}),
+        lines: [],
+        oldNoNewline: false,
+        newNoNewline: false,
+      };
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      // `diff --git`, `index`, mode lines and other preamble
+      continue;
+    }
+
+    const marker = line[0];
+    if (marker === ' ' || marker === '-' || marker === '+') {
+      hunk.lines.push({ type: marker, text: line.slice(1) });
+    } else if (line === '') {
+      // Editors and models often strip the space of blank context lines
+      hunk.lines.push({ type: ' ', text: '' });
+    } else if (line.startsWith('\\')) {
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last?.type !== '+') hunk.oldNoNewline = true;
+      if (last?.type !== '-') hunk.newNoNewline = true;
+    } else {
+      hunk = null;
+    }
+  }
+
+  for (const patch of patches) {
+    for (const h of patch.hunks) {
+      // Blank lines trailing a hunk are usually the end of the diff, not context
+      while (h.lines.length > 0 && h.lines[h.lines.length - 1]!.type === ' ' && h.lines[h.lines.length - 1]!.text === '') {
+        h.lines.pop();
+      }
+    }
+  }
+
+  const result = patches.filter(p => p.hunks.length > 0);
+  if (result.length === 0) {
+    throw new Error('No hunks found in patch');
+  }
+  return result;
+}
+
+/**
+ * Extracts the path from a `---`/`+++` header (dropping any timestamp)
+ */
+function headerPath(header: string): string | null {
+  const path = header.split('\t')[0]!.trim();
+  return path === '/dev/null' ? null : path;
+}
+
+/**
+ * Compares lines, ignoring trailing whitespace differences
+ */
+function sameLine(a: string, b: string): boolean {
+  return a === b || a.trimEnd() === b.trimEnd();
+}
+
+function matchesAt(lines: string[], pattern: string[], position: number): boolean {
+  for (let k = 0; k < pattern.length; k++) {
+    if (!sameLine(lines[position + k]!, pattern[k]!)) return false;
+  }
+  return true;
+}
+
+/**
+ * Finds the match of a pattern nearest to the expected position
+ * Only positions at or after `from` are considered.
+ */
+function findNearest(lines: string[], pattern: string[], expected: number, from: number): number {
+  const last = lines.length - pattern.length;
+  const start = Math.min(Math.max(expected, from), Math.max(last, from));
+  for (let distance = 0; start - distance >= from || start + distance <= last; distance++) {
+    if (start + distance <= last && matchesAt(lines, pattern, start + distance)) return start + distance;
+    if (distance > 0 && start - distance >= from && start - distance <= last && matchesAt(lines, pattern, start - distance)) {
+      return start - distance;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Applies hunks to a file's lines, in order
+ *
+ * Each hunk is looked for at its stated position (shifted by the line
+ * changes of earlier hunks), then at the nearest position after the previous
+ * hunk. If its context does not match anywhere, up to `fuzz` context lines at
+ * each end are ignored, one more per attempt. Hunks that still do not match
+ * are rejected and leave the text unchanged.
+ */
+export function applyHunks(text: TextLines, hunks: PatchHunk[], fuzz: number): { text: TextLines; reports: HunkReport[] } {
+  const lines = [...text.lines];
+  const reports: HunkReport[] = [];
+  let endsWithNewline = text.endsWithNewline;
+  // Net lines added by applied hunks, and that plus the last hunk's offset
+  let shift = 0;
+  let delta = 0;
+  let from = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldSide = hunk.lines.filter(l => l.type !== '+').map(l => l.text);
+    const newSide = hunk.lines.filter(l => l.type !== '-').map(l => l.text);
+    const leading = hunk.lines.findIndex(l => l.type !== ' ');
+    const trailing = [...hunk.lines].reverse().findIndex(l => l.type !== ' ');
+    // An empty hunk (or old side) has no stated line to anchor on
+    const stated = hunk.oldStart !== undefined ? Math.max(0, hunk.oldStart - (oldSide.length > 0 ? 1 : 0)) : undefined;
+    const expected = stated !== undefined ? stated + delta : from;
+
+    for (let level = 0; level <= fuzz; level++) {
+      const cutLead = Math.min(level, leading === -1 ? 0 : leading);
+      const cutTrail = Math.min(level, trailing === -1 ? 0 : trailing);
+      if (level > 0 && cutLead === 0 && cutTrail === 0) break;
+
+      const pattern = oldSide.slice(cutLead, oldSide.length - cutTrail);
+      const position = pattern.length === 0
+        ? Math.min(Math.max(expected + cutLead, from), lines.length)
+        : findNearest(lines, pattern, expected + cutLead, from);
+      if (position === -1) continue;
+
+      // Context lines keep the file's text, which may differ in trailing whitespace
+      let oldIndex = position;
+      const replacement: string[] = [];
+      for (const line of hunk.lines.slice(cutLead, hunk.lines.length - cutTrail)) {
+        if (line.type === '+') replacement.push(line.text);
+        else if (line.type === ' ') replacement.push(lines[oldIndex++]!);
+        else oldIndex++;
+      }
+
+      lines.splice(position, pattern.length, ...replacement);
+      const offset = position - (expected + cutLead);
+      reports.push({
+        index,
+        status: 'applied',
+        oldStart: position - cutLead - shift + 1,
+        oldLines: oldSide.length,
+        newStart: position - cutLead + 1,
+        newLines: newSide.length,
+        offset,
+        fuzz: level,
+      });
+      shift += replacement.length - pattern.length;
+      delta = shift + offset;
+      from = position + replacement.length;
+
+      if (position + replacement.length === lines.length) {
+        if (hunk.newNoNewline) endsWithNewline = false;
+        else if (hunk.oldNoNewline) endsWithNewline = true;
+      }
+      return;
+    }
+
+    reports.push({
+      index,
+      status: 'rejected',
+      oldStart: (stated ?? from - shift) + 1,
+      oldLines: oldSide.length,
+      newStart: (stated ?? from - shift) + shift + 1,
+      newLines: newSide.length,
+      reason: `Context does not match near line ${expected + 1}`,
+    });
+  });
+
+  return { text: { ...text, lines, endsWithNewline }, reports };
+}
+
+/**
+ * Replaces exact occurrences of a string
+ *
+ * Without `replaceAll` the string must occur exactly once. Each replacement
+ * is reported as a hunk; a missing or ambiguous match is reported as a
+ * single rejected hunk and leaves the content unchanged.
+ */
+export function replaceExact(
+  content: string,
+  oldString: string,
+  newString: string,
+  replaceAll: boolean
+): { content: string; reports: HunkReport[] } {
+  const positions: number[] = [];
+  for (let at = content.indexOf(oldString); at !== -1; at = content.indexOf(oldString, at + oldString.length)) {
+    positions.push(at);
+  }
+
+  const lineOf = (position: number): number => content.slice(0, position).split('\n').length;
+  const oldLines = oldString.split('\n').length;
+  const newLines = newString.split('\n').length;
+
+  if (positions.length === 0 || (positions.length > 1 && !replaceAll)) {
+    const reason = positions.length === 0
+      ? 'oldString was not found in the file'
+      : `oldString occurs ${positions.length} times (lines ${positions.map(lineOf).join(', ')}); ` +
+        'include more surrounding text to make it unique, or set replaceAll';
+    const line = positions.length > 0 ? lineOf(positions[0]!) : 0;
+    return {
+      content,
+      reports: [{ index: 0, status: 'rejected', oldStart: line, oldLines, newStart: line, newLines, reason }],
+    };
+  }
+
+  let lineDelta = 0;
+  const reports = positions.map((position, index): HunkReport => {
+    const oldStart = lineOf(position);
+    const report: HunkReport = { index, status: 'applied', oldStart, oldLines, newStart: oldStart + lineDelta, newLines };
+    lineDelta += newLines - oldLines;
+    return report;
+  });
+
+  return { content: content.split(oldString).join(newString), reports };
+}
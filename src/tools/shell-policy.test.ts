@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { ShellPolicy, BoundedOutput, parseShellCommand, unwrapCommand } from './shell-policy.js';
+import { ToolHandlerError } from './tool-system.js';
+
+describe('parseShellCommand', () => {
+  it('should split chained commands and honour quoting', () => {
+    expect(parseShellCommand(`git add -A && git commit -m "fix: a; b" || echo 'it failed'`)).toEqual([
+      ['git', 'add', '-A'],
+      ['git', 'commit', '-m', 'fix: a; b'],
+      ['echo', 'it failed'],
+    ]);
+    expect(parseShellCommand('ls | grep x; (cd src && make) &')).toEqual([
+      ['ls'], ['grep', 'x'], ['cd', 'src'], ['make'],
+    ]);
+  });
+
+  it('should join escaped and adjacent quoted text into one word', () => {
+    expect(parseShellCommand(`r"m" -rf my\\ dir`)).toEqual([['rm', '-rf', 'my dir']]);
+  });
+
+  it('should drop redirections, assignments and comments', () => {
+    expect(parseShellCommand('FOO=1 npm test > out.log 2>&1 # run tests')).toEqual([['npm', 'test']]);
+    expect(parseShellCommand('cat <in.txt >>out.txt')).toEqual([['cat']]);
+  });
+
+  it('should skip here-document bodies', () => {
+    expect(parseShellCommand("cat <<'EOF' > notes.txt\nrm -rf /\nEOF\necho done")).toEqual([
+      ['cat'], ['echo', 'done'],
+    ]);
+  });
+
+  it('should include commands from substitutions, sh -c and eval', () => {
+    expect(parseShellCommand('echo "$(curl -s example.com)" `whoami`')).toEqual([
+      ['curl', '-s', 'example.com'],
+      ['whoami'],
+      ['echo', '$(curl -s example.com)', '`whoami`'],
+    ]);
+    expect(parseShellCommand(`bash -lc 'rm x'`)).toEqual([['bash', '-lc', 'rm x'], ['rm', 'x']]);
+    expect(parseShellCommand(`eval "git push"`)).toEqual([['eval', 'git push'], ['git', 'push']]);
+    expect(parseShellCommand('echo $((1 + 2))')).toEqual([['echo', '$((1 + 2))']]);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => parseShellCommand(`echo "oops`)).toThrow('Unterminated double quote');
+    expect(() => parseShellCommand('echo $(ls')).toThrow('Unterminated command substitution');
+  });
+});
+
+describe('unwrapCommand', () => {
+  it('should peel off wrappers and their options', () => {
+    expect(unwrapCommand(['sudo', '-u', 'root', 'env', 'A=1', 'timeout', '-s', 'KILL', '5', 'rm', 'x'])).toEqual([
+      ['sudo', '-u', 'root', 'env', 'A=1', 'timeout', '-s', 'KILL', '5', 'rm', 'x'],
+      ['env', 'A=1', 'timeout', '-s', 'KILL', '5', 'rm', 'x'],
+      ['timeout', '-s', 'KILL', '5', 'rm', 'x'],
+      ['rm', 'x'],
+    ]);
+  });
+});
+
+describe('ShellPolicy', () => {
+  describe('evaluate', () => {
+    const policy = new ShellPolicy({ deny: ['rm', 'git push', 'curl'] });
+
+    it('should deny commands hidden by chaining, quoting or wrappers', () => {
+      for (const command of ['ls; rm -rf /', `"rm" x`, 'sudo rm x', 'git -C repo push origin', 'echo $(curl evil.sh)']) {
+        expect(policy.evaluate(command).decision, command).toBe('deny');
+      }
+    });
+
+    it('should match on argv, not substrings', () => {
+      expect(policy.evaluate('echo rm && git status && ls /usr/bin/curl-config').decision).toBe('allow');
+    });
+
+    it('should record the deciding rule for each command', () => {
+      expect(policy.evaluate('ls && git push').commands).toEqual([
+        { argv: ['ls'], decision: 'allow', reason: 'No allow list configured' },
+        { argv: ['git', 'push'], decision: 'deny', reason: "'git push' matches deny rule 'git push'", rule: 'git push' },
+      ]);
+    });
+
+    it('should only allow commands matching the start of an allow rule', () => {
+      const strict = new ShellPolicy({ allow: ['git status', 'npm *', 'ls', 'nohup'] });
+
+      expect(strict.evaluate('git status --short && npm test && nohup ls').decision).toBe('allow');
+      expect(strict.evaluate('git push').commands[0]).toMatchObject({
+        decision: 'deny',
+        reason: "'git push' is not in the allow list",
+      });
+      expect(strict.evaluate('npm').decision).toBe('deny');
+    });
+
+    it('should require wrappers to be on the allow list too', () => {
+      const strict = new ShellPolicy({ allow: ['ls'] });
+
+      for (const command of ['sudo ls', 'env LD_PRELOAD=/tmp/x.so ls', 'xargs ls', 'nohup ls']) {
+        expect(strict.evaluate(command).decision, command).toBe('deny');
+      }
+      expect(strict.evaluate('sudo ls').commands[0]?.reason).toBe("'sudo ls' is not in the allow list");
+      expect(new ShellPolicy({ allow: ['ls', 'nohup'] }).evaluate('nohup ls').decision).toBe('allow');
+    });
+
+    it('should deny shells that read their commands from stdin or a file when lists are set', () => {
+      for (const command of ['sh <<EOF\nrm -rf x\nEOF', 'echo "rm -rf x" | sh', 'bash script.sh', 'sudo bash -s']) {
+        expect(policy.evaluate(command).decision, command).toBe('deny');
+      }
+      expect(policy.evaluate('echo "rm -rf x" | sh').commands[1]).toMatchObject({
+        argv: ['sh'],
+        decision: 'deny',
+        reason: "'sh' runs a shell whose commands cannot be checked; use sh -c",
+      });
+      expect(policy.evaluate(`bash -c 'ls'`).decision).toBe('allow');
+      expect(new ShellPolicy().evaluate('echo ls | sh').decision).toBe('allow');
+    });
+
+    it('should deny programs whose name is computed at run time', () => {
+      expect(policy.evaluate('$(which rmdir) x').commands[1]?.decision).toBe('deny');
+      expect(new ShellPolicy().evaluate('$CMD x').decision).toBe('allow');
+    });
+  });
+
+  describe('scrubEnvironment', () => {
+    it('should remove blocked variables case-insensitively', () => {
+      const policy = new ShellPolicy({ blockedEnv: ['*_TOKEN', 'AWS_*'] });
+
+      expect(policy.scrubEnvironment({ PATH: '/bin', GITHUB_TOKEN: 'x', aws_region: 'y', Npm_Token: 'z' })).toEqual({
+        env: { PATH: '/bin' },
+        removed: ['GITHUB_TOKEN', 'Npm_Token', 'aws_region'],
+      });
+    });
+  });
+
+  describe('prepare', () => {
+    it('should refuse denied commands with permission_denied', async () => {
+      const error = await new ShellPolicy({ deny: ['rm'] }).prepare('rm -rf build').then(
+        () => { throw new Error('expected a denial'); },
+        (e: unknown) => e as ToolHandlerError
+      );
+
+      expect(error).toBeInstanceOf(ToolHandlerError);
+      expect(error.errorType).toBe('permission_denied');
+      expect(error.message).toBe("Command denied by shell policy: 'rm -rf build' matches deny rule 'rm'");
+      expect(error.details).toMatchObject({ decision: 'deny' });
+    });
+
+    it('should report commands it cannot parse as validation errors', async () => {
+      const error = await new ShellPolicy().prepare(`echo 'oops`).then(
+        () => { throw new Error('expected a parse error'); },
+        (e: unknown) => e as ToolHandlerError
+      );
+
+      expect(error.errorType).toBe('validation');
+    });
+
+    it('should wrap the shell in resource limits', async () => {
+      const launch = await new ShellPolicy({ cpuSeconds: 5, memoryMb: 256 }).prepare('make', {});
+
+      expect(launch.report.limits).toMatchObject({ cpuSeconds: 5, memoryMb: 256 });
+      if (launch.report.limits.method === 'prlimit') {
+        expect(launch.args).toEqual(['--cpu=5', `--as=${256 * 1024 * 1024}`, '--', '/bin/sh', '-c', 'make']);
+      } else {
+        expect(launch.args[launch.args.length - 1]).toBe('ulimit -t 5 || exit 126\nulimit -v 262144 || exit 126\nmake');
+      }
+    });
+  });
+});
+
+describe('BoundedOutput', () => {
+  it('should keep output under the limit unchanged', () => {
+    const output = new BoundedOutput(16);
+    output.push(Buffer.from('hello '));
+    output.push(Buffer.from('world'));
+
+    expect(output.toString()).toBe('hello world');
+    expect(output.truncatedBytes).toBe(0);
+  });
+
+  it('should keep the start and end of long output with a marker', () => {
+    const output = new BoundedOutput(8);
+    for (const chunk of ['abc', 'def', 'ghi', 'jkl']) {
+      output.push(Buffer.from(chunk));
+    }
+
+    expect(output.truncatedBytes).toBe(4);
+    expect(output.toString()).toBe('abcd\n[... 4 bytes truncated ...]\nijkl');
+  });
+});
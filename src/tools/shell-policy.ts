@@ -0,0 +1,716 @@
+import { access, constants } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { basename, delimiter, join } from 'node:path';
+import { ToolHandlerError } from './tool-system.js';
+
+/**
+ * Whether shell commands may use the network
+ */
+export type ShellNetworkMode = 'allow' | 'deny';
+
+/**
+ * Shell policy configuration
+ *
+ * `allow` and `deny` hold command patterns: words separated by spaces, where
+ * `*` matches any characters and the first word is matched against the
+ * program's base name (or its full path, if the pattern contains `/`).
+ * A deny pattern matches when its words appear in that order in the argv;
+ * an allow pattern must match the start of the argv. An empty allow list
+ * allows every command that is not denied. `blockedEnv` holds environment
+ * variable names (`*` wildcards, case-insensitive) removed from the child's
+ * environment. `cpuSeconds` and `memoryMb` set resource limits, and
+ * `network: 'deny'` runs commands in a new network namespace when `unshare`
+ * is available.
+ */
+export interface ShellPolicyConfig {
+  allow: string[];
+  deny: string[];
+  blockedEnv: string[];
+  maxOutputBytes: number;
+  cpuSeconds?: number | undefined;
+  memoryMb?: number | undefined;
+  network: ShellNetworkMode;
+}
+
+/**
+ * Environment variables that commonly hold credentials
+ */
+export const DEFAULT_BLOCKED_ENV: string[] = [
+  '*_TOKEN',
+  '*_SECRET',
+  '*_SECRET_*',
+  '*_PASSWORD',
+  '*_API_KEY',
+  '*_PRIVATE_KEY',
+  '*_CREDENTIALS',
+];
+
+/**
+ * Default shell policy configuration
+ */
+export const DEFAULT_SHELL_POLICY_CONFIG: ShellPolicyConfig = {
+  allow: [],
+  deny: [],
+  blockedEnv: DEFAULT_BLOCKED_ENV,
+  maxOutputBytes: 1024 * 1024,
+  network: 'allow',
+};
+
+/**
+ * Decision for one simple command of a command line
+ */
+export interface ShellCommandDecision {
+  argv: string[];
+  decision: 'allow' | 'deny';
+  reason: string;
+  rule?: string;
+}
+
+/**
+ * Outcome of checking a command line against the allow and deny lists
+ * The command line is denied if any of its commands is.
+ */
+export interface ShellPolicyEvaluation {
+  decision: 'allow' | 'deny';
+  commands: ShellCommandDecision[];
+}
+
+/**
+ * What the policy did to a command, reported in the execute_shell result
+ */
+export interface ShellPolicyReport extends ShellPolicyEvaluation {
+  scrubbedEnv: string[];
+  limits: {
+    method: 'prlimit' | 'ulimit' | 'none';
+    cpuSeconds?: number;
+    memoryMb?: number;
+  };
+  network: 'allowed' | 'isolated' | 'unavailable';
+  maxOutputBytes: number;
+  truncatedBytes: { stdout: number; stderr: number };
+}
+
+/**
+ * How to spawn a command that passed the policy
+ */
+export interface ShellLaunch {
+  file: string;
+  args: string[];
+  env: Record<string, string>;
+  report: ShellPolicyReport;
+}
+
+/**
+ * Shell used to run commands
+ */
+const SHELL = '/bin/sh';
+
+/**
+ * Exit status of a command whose resource limits could not be applied
+ */
+const LIMIT_FAILURE_EXIT_CODE = 126;
+
+/**
+ * Characters that end a simple command
+ */
+const COMMAND_SEPARATORS = new Set([';', '&', '|', '(', ')', '\n']);
+
+/**
+ * Reserved words that may precede a command
+ */
+const RESERVED_WORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'do', 'done', 'while', 'until', '!', '{', '}']);
+
+/**
+ * Compound commands whose words are not a command to check
+ */
+const COMPOUND_COMMANDS = new Set(['for', 'case', 'esac', 'select', 'function']);
+
+/**
+ * Commands that run another command, with their options that take a value
+ */
+const WRAPPERS: Record<string, string[]> = {
+  command: [],
+  exec: ['-a'],
+  nohup: [],
+  time: [],
+  env: ['-u', '-C', '-S'],
+  nice: ['-n'],
+  sudo: ['-u', '-g', '-C', '-D', '-h', '-p', '-r', '-t', '-U'],
+  doas: ['-u', '-C'],
+  xargs: ['-n', '-I', '-L', '-P', '-d', '-s', '-E', '-a'],
+  timeout: ['-s', '-k'],
+  stdbuf: ['-i', '-o', '-e'],
+};
+
+/**
+ * Shells whose `-c` argument is itself a command line
+ */
+const SHELLS = new Set(['sh', 'bash', 'dash', 'zsh', 'ksh']);
+
+/**
+ * Splits a shell command line into the argv of each simple command
+ *
+ * Handles quoting, escapes, comments, separators (`;`, `&&`, `||`, `|`,
+ * `&`, subshells), redirections and here-documents. Commands inside `$(...)`,
+ * backticks, `sh -c '...'` and `eval` are returned as well. Leading variable
+ * assignments and reserved words are dropped. Throws on unterminated quotes
+ * or substitutions.
+ */
+export function parseShellCommand(command: string): string[][] {
+  const commands: string[][] = [];
+  const words: string[] = [];
+  const heredocs: string[] = [];
+  let word: string | null = null;
+  // What the next word is: a redirection target or here-document delimiter
+  let pending: 'redirect' | 'heredoc' | null = null;
+
+  const append = (text: string): void => {
+    word = (word ?? '') + text;
+  };
+  const endWord = (): void => {
+    if (word === null) return;
+    if (pending === 'heredoc') heredocs.push(word);
+    else if (pending === null) words.push(word);
+    pending = null;
+    word = null;
+  };
+  const endCommand = (): void => {
+    endWord();
+    pending = null;
+    if (words.length > 0) commands.push(...normalizeCommand(words.splice(0)));
+  };
+  const substitute = (open: number): number => {
+    const close = findClosingParen(command, open);
+    const inner = command.slice(open + 1, close);
+    // `$((...))` is arithmetic, not a command
+    if (!(inner.startsWith('(') && inner.endsWith(')'))) {
+      commands.push(...parseShellCommand(inner));
+    }
+    return close;
+  };
+  const backtick = (start: number): number => {
+    const end = findClosingBacktick(command, start);
+    commands.push(...parseShellCommand(command.slice(start + 1, end).replace(/\\([`\\$])/g, '$1')));
+    return end;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i]!;
+    const next = command[i + 1];
+
+    if (char === '\\') {
+      if (next !== '\n') append(next ?? char);
+      i++;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) throw new Error('Unterminated single quote');
+      append(command.slice(i + 1, end));
+      i = end;
+    } else if (char === '"') {
+      let value = '';
+      let j = i + 1;
+      for (; j < command.length && command[j] !== '"'; j++) {
+        const c = command[j]!;
+        if (c === '\\' && '"\\$`\n'.includes(command[j + 1] ?? '')) {
+          if (command[j + 1] !== '\n') value += command[j + 1];
+          j++;
+        } else if (c === '$' && command[j + 1] === '(') {
+          const close = substitute(j + 1);
+          value += command.slice(j, close + 1);
+          j = close;
+        } else if (c === '`') {
+          const end = backtick(j);
+          value += command.slice(j, end + 1);
+          j = end;
+        } else {
+          value += c;
+        }
+      }
+      if (j >= command.length) throw new Error('Unterminated double quote');
+      append(value);
+      i = j;
+    } else if (char === '$' && next === '(') {
+      const close = substitute(i + 1);
+      append(command.slice(i, close + 1));
+      i = close;
+    } else if (char === '`') {
+      const end = backtick(i);
+      append(command.slice(i, end + 1));
+      i = end;
+    } else if (char === '#' && word === null) {
+      const end = command.indexOf('\n', i);
+      i = (end === -1 ? command.length : end) - 1;
+    } else if (char === ' ' || char === '\t') {
+      endWord();
+    } else if (char === '<' || char === '>' || (char === '&' && next === '>')) {
+      // A descriptor number directly before the operator is not an argument
+      if (word !== null && /^\d+$/.test(word)) word = null;
+      else endWord();
+
+      const operator = /^(<<<|<<-?|&>>?|[<>]{1,2}[&|]?)/.exec(command.slice(i))![0];
+      i += operator.length - 1;
+      pending = operator.startsWith('<<') && operator !== '<<<' ? 'heredoc' : 'redirect';
+    } else if (COMMAND_SEPARATORS.has(char)) {
+      endCommand();
+      if (char === '\n' && heredocs.length > 0) {
+        i = skipHeredocs(command, i + 1, heredocs.splice(0)) - 1;
+      }
+    } else {
+      append(char);
+    }
+  }
+
+  endCommand();
+  return commands;
+}
+
+/**
+ * Drops assignments and reserved words from a simple command and expands
+ * nested command lines (`sh -c`, `eval`)
+ */
+function normalizeCommand(words: string[]): string[][] {
+  let start = 0;
+  while (start < words.length && (RESERVED_WORDS.has(words[start]!) || isAssignment(words[start]!))) {
+    start++;
+  }
+  const argv = words.slice(start);
+  if (argv.length === 0 || COMPOUND_COMMANDS.has(argv[0]!)) {
+    return [];
+  }
+
+  const result = [argv];
+  for (const form of unwrapCommand(argv)) {
+    const program = basename(form[0]!);
+    if (program === 'eval' && form.length > 1) {
+      result.push(...parseShellCommand(form.slice(1).join(' ')));
+    }
+    const script = shellScript(form);
+    if (script !== undefined) {
+      result.push(...parseShellCommand(script));
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns a command followed by the commands it wraps
+ * For `sudo env FOO=1 rm x` that is the whole argv, `env FOO=1 rm x` and
+ * `rm x`.
+ */
+export function unwrapCommand(argv: string[]): string[][] {
+  const forms = [argv];
+  let current = argv;
+
+  for (;;) {
+    const valueOptions = WRAPPERS[basename(current[0] ?? '')];
+    if (!valueOptions) break;
+
+    let index = 1;
+    while (index < current.length) {
+      const arg = current[index]!;
+      if (arg === '--') {
+        index++;
+        break;
+      }
+      if (arg.startsWith('-') && arg.length > 1) {
+        index += valueOptions.includes(arg) ? 2 : 1;
+      } else if (isAssignment(arg) && basename(current[0]!) === 'env') {
+        index++;
+      } else {
+        break;
+      }
+    }
+    // `timeout` takes a duration before the command
+    if (basename(current[0]!) === 'timeout' && index < current.length) {
+      index++;
+    }
+
+    if (index >= current.length) break;
+    current = current.slice(index);
+    forms.push(current);
+  }
+
+  return forms;
+}
+
+/**
+ * The command line a shell gets with `-c`, or undefined if `argv` is not a
+ * shell run that way
+ */
+function shellScript(argv: string[]): string | undefined {
+  if (!SHELLS.has(basename(argv[0] ?? ''))) return undefined;
+  const flag = argv.findIndex((arg, index) => index > 0 && /^-[a-z]*c[a-z]*$/.test(arg));
+  return flag === -1 ? undefined : argv[flag + 1];
+}
+
+function isAssignment(word: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_]*=/.test(word);
+}
+
+/**
+ * Finds the `)` closing the `(` at `open`, skipping quoted text
+ */
+function findClosingParen(command: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < command.length; i++) {
+    const char = command[i]!;
+    if (char === '\\') {
+      i++;
+    } else if (char === "'") {
+      const end = command.indexOf("'", i + 1);
+      if (end === -1) break;
+      i = end;
+    } else if (char === '"') {
+      let j = i + 1;
+      while (j < command.length && command[j] !== '"') j += command[j] === '\\' ? 2 : 1;
+      i = j;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  throw new Error('Unterminated command substitution');
+}
+
+function findClosingBacktick(command: string, start: number): number {
+  for (let i = start + 1; i < command.length; i++) {
+    if (command[i] === '\\') i++;
+    else if (command[i] === '`') return i;
+  }
+  throw new Error('Unterminated command substitution');
+}
+
+/**
+ * Skips here-document bodies starting at `start`
+ * Returns the index just past the last delimiter line.
+ */
+function skipHeredocs(command: string, start: number, delimiters: string[]): number {
+  let index = start;
+  for (const delimiter of delimiters) {
+    while (index < command.length) {
+      const end = command.indexOf('\n', index);
+      const line = command.slice(index, end === -1 ? command.length : end);
+      index = end === -1 ? command.length : end + 1;
+      if (line.replace(/^\t+/, '') === delimiter) break;
+    }
+  }
+  return index;
+}
+
+/**
+ * Converts a `*`/`?` wildcard pattern to an anchored regular expression
+ */
+function wildcardToRegExp(pattern: string, flags: string = ''): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, flags);
+}
+
+/**
+ * A compiled allow or deny pattern
+ */
+interface CommandPattern {
+  source: string;
+  program: RegExp;
+  matchesPath: boolean;
+  args: RegExp[];
+}
+
+function compilePattern(source: string): CommandPattern {
+  const [program = '', ...args] = source.trim().split(/\s+/);
+  return {
+    source,
+    program: wildcardToRegExp(program),
+    matchesPath: program.includes('/'),
+    args: args.map(arg => wildcardToRegExp(arg)),
+  };
+}
+
+/**
+ * Matches a pattern against an argv, either at its start (`prefix`) or with
+ * the pattern's arguments appearing in order anywhere after the program
+ */
+function matchesPattern(pattern: CommandPattern, argv: string[], mode: 'prefix' | 'subsequence'): boolean {
+  const program = argv[0] ?? '';
+  if (!pattern.program.test(pattern.matchesPath ? program : basename(program))) {
+    return false;
+  }
+
+  let position = 1;
+  for (const arg of pattern.args) {
+    if (mode === 'prefix') {
+      if (position >= argv.length || !arg.test(argv[position]!)) return false;
+      position++;
+    } else {
+      while (position < argv.length && !arg.test(argv[position]!)) position++;
+      if (position >= argv.length) return false;
+      position++;
+    }
+  }
+  return true;
+}
+
+/**
+ * Collects a child's output up to a byte limit
+ * Past the limit, the start and the end of the output are kept with a
+ * marker in between saying how much was dropped.
+ */
+export class BoundedOutput {
+  private head: Buffer[] = [];
+  private headBytes = 0;
+  private tail: Buffer[] = [];
+  private tailBytes = 0;
+  private totalBytes = 0;
+  private headLimit: number;
+  private tailLimit: number;
+
+  constructor(maxBytes: number) {
+    this.headLimit = Math.ceil(maxBytes / 2);
+    this.tailLimit = maxBytes - this.headLimit;
+  }
+
+  push(chunk: Buffer): void {
+    this.totalBytes += chunk.length;
+
+    const toHead = Math.min(chunk.length, this.headLimit - this.headBytes);
+    if (toHead > 0) {
+      this.head.push(chunk.subarray(0, toHead));
+      this.headBytes += toHead;
+    }
+
+    const rest = chunk.subarray(toHead);
+    if (rest.length === 0) return;
+    this.tail.push(rest);
+    this.tailBytes += rest.length;
+    while (this.tail.length > 1 && this.tailBytes - this.tail[0]!.length >= this.tailLimit) {
+      this.tailBytes -= this.tail.shift()!.length;
+    }
+  }
+
+  /**
+   * Bytes dropped from the middle of the output
+   */
+  get truncatedBytes(): number {
+    return Math.max(0, this.totalBytes - this.headLimit - this.tailLimit);
+  }
+
+  toString(): string {
+    if (this.truncatedBytes === 0) {
+      return Buffer.concat([...this.head, ...this.tail]).toString();
+    }
+    const tail = Buffer.concat(this.tail);
+    return Buffer.concat(this.head).toString() +
+      `\n[... ${this.truncatedBytes} bytes truncated ...]\n` +
+      tail.subarray(tail.length - this.tailLimit).toString();
+  }
+}
+
+const executables: Map<string, Promise<string | null>> = new Map();
+let networkIsolation: Promise<boolean> | null = null;
+
+/**
+ * Finds an executable on the PATH
+ */
+function findExecutable(name: string): Promise<string | null> {
+  let found = executables.get(name);
+  if (!found) {
+    found = (async () => {
+      for (const directory of (process.env['PATH'] ?? '').split(delimiter)) {
+        if (!directory) continue;
+        const candidate = join(directory, name);
+        try {
+          await access(candidate, constants.X_OK);
+          return candidate;
+        } catch {
+          // Not in this directory
+        }
+      }
+      return null;
+    })();
+    executables.set(name, found);
+  }
+  return found;
+}
+
+/**
+ * Checks once whether `unshare` can create a network namespace here
+ * Unprivileged user namespaces are disabled on some systems.
+ */
+function canIsolateNetwork(): Promise<boolean> {
+  networkIsolation ??= findExecutable('unshare').then(unshare => unshare === null
+    ? false
+    : new Promise<boolean>((resolve) => {
+      execFile(unshare, ['--net', '--map-root-user', '--', 'true'], { timeout: 5000 }, error => resolve(!error));
+    }));
+  return networkIsolation;
+}
+
+/**
+ * ShellPolicy - Decides whether and how execute_shell runs a command
+ *
+ * Commands are checked on their parsed argv rather than the raw string, so
+ * quoting and chaining do not hide a denied program. Commands that pass are
+ * run with a scrubbed environment, resource limits and, if configured, no
+ * network; every decision is reported in the tool result.
+ */
+export class ShellPolicy {
+  private config: ShellPolicyConfig;
+  private allow: CommandPattern[];
+  private deny: CommandPattern[];
+  private blockedEnv: RegExp[];
+
+  constructor(config: Partial<ShellPolicyConfig> = {}) {
+    this.config = { ...DEFAULT_SHELL_POLICY_CONFIG, ...config };
+    this.allow = this.config.allow.map(compilePattern);
+    this.deny = this.config.deny.map(compilePattern);
+    this.blockedEnv = this.config.blockedEnv.map(pattern => wildcardToRegExp(pattern, 'i'));
+  }
+
+  /**
+   * Gets the policy configuration
+   */
+  getConfig(): ShellPolicyConfig {
+    return this.config;
+  }
+
+  /**
+   * Checks a command line against the allow and deny lists
+   * Throws if the command line cannot be parsed.
+   */
+  evaluate(command: string): ShellPolicyEvaluation {
+    const commands = parseShellCommand(command).map(argv => this.evaluateArgv(argv));
+    return {
+      decision: commands.some(c => c.decision === 'deny') ? 'deny' : 'allow',
+      commands,
+    };
+  }
+
+  /**
+   * Removes blocked variables from an environment
+   */
+  scrubEnvironment(env: NodeJS.ProcessEnv): { env: Record<string, string>; removed: string[] } {
+    const kept: Record<string, string> = {};
+    const removed: string[] = [];
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) continue;
+      if (this.blockedEnv.some(pattern => pattern.test(name))) {
+        removed.push(name);
+      } else {
+        kept[name] = value;
+      }
+    }
+    return { env: kept, removed: removed.sort() };
+  }
+
+  /**
+   * Checks a command and works out how to spawn it
+   * Throws a `permission_denied` ToolHandlerError if the policy denies it,
+   * or a `validation` one if it cannot be parsed.
+   */
+  async prepare(command: string, env: NodeJS.ProcessEnv = process.env): Promise<ShellLaunch> {
+    let evaluation: ShellPolicyEvaluation;
+    try {
+      evaluation = this.evaluate(command);
+    } catch (error) {
+      throw new ToolHandlerError('validation', `Cannot parse command: ${(error as Error).message}`, { command });
+    }
+
+    const denied = evaluation.commands.find(c => c.decision === 'deny');
+    if (denied) {
+      throw new ToolHandlerError('permission_denied', `Command denied by shell policy: ${denied.reason}`, evaluation);
+    }
+
+    const { cpuSeconds, memoryMb } = this.config;
+    let script = command;
+    let argv = [SHELL, '-c'];
+    let method: ShellPolicyReport['limits']['method'] = 'none';
+
+    if (cpuSeconds !== undefined || memoryMb !== undefined) {
+      const prlimit = await findExecutable('prlimit');
+      if (prlimit) {
+        method = 'prlimit';
+        argv = [
+          prlimit,
+          ...(cpuSeconds !== undefined ? [`--cpu=${cpuSeconds}`] : []),
+          ...(memoryMb !== undefined ? [`--as=${memoryMb * 1024 * 1024}`] : []),
+          '--',
+          ...argv,
+        ];
+      } else {
+        method = 'ulimit';
+        script = [
+          ...(cpuSeconds !== undefined ? [`ulimit -t ${cpuSeconds} || exit ${LIMIT_FAILURE_EXIT_CODE}`] : []),
+          ...(memoryMb !== undefined ? [`ulimit -v ${memoryMb * 1024} || exit ${LIMIT_FAILURE_EXIT_CODE}`] : []),
+          command,
+        ].join('\n');
+      }
+    }
+
+    let network: ShellPolicyReport['network'] = 'allowed';
+    if (this.config.network === 'deny') {
+      network = await canIsolateNetwork() ? 'isolated' : 'unavailable';
+      if (network === 'isolated') {
+        argv = [(await findExecutable('unshare'))!, '--net', '--map-root-user', '--', ...argv];
+      }
+    }
+
+    const scrubbed = this.scrubEnvironment(env);
+    return {
+      file: argv[0]!,
+      args: [...argv.slice(1), script],
+      env: scrubbed.env,
+      report: {
+        ...evaluation,
+        scrubbedEnv: scrubbed.removed,
+        limits: {
+          method,
+          ...(cpuSeconds !== undefined ? { cpuSeconds } : {}),
+          ...(memoryMb !== undefined ? { memoryMb } : {}),
+        },
+        network,
+        maxOutputBytes: this.config.maxOutputBytes,
+        truncatedBytes: { stdout: 0, stderr: 0 },
+      },
+    };
+  }
+
+  private evaluateArgv(argv: string[]): ShellCommandDecision {
+    const forms = unwrapCommand(argv);
+    const text = argv.join(' ');
+
+    for (const pattern of this.deny) {
+      if (forms.some(form => matchesPattern(pattern, form, 'subsequence'))) {
+        return { argv, decision: 'deny', reason: `'${text}' matches deny rule '${pattern.source}'`, rule: pattern.source };
+      }
+    }
+
+    if (this.deny.length > 0 || this.allow.length > 0) {
+      // A program name computed at run time cannot be checked against the lists
+      const program = forms[forms.length - 1]![0]!;
+      if (/[$`*?[]/.test(program)) {
+        return { argv, decision: 'deny', reason: `'${text}' runs a program whose name is only known at run time` };
+      }
+      // Nor can the commands a shell reads from stdin or a script file
+      const shell = forms.find(form => SHELLS.has(basename(form[0]!)) && shellScript(form) === undefined);
+      if (shell) {
+        return { argv, decision: 'deny', reason: `'${text}' runs a shell whose commands cannot be checked; use ${basename(shell[0]!)} -c` };
+      }
+    }
+
+    if (this.allow.length === 0) {
+      return { argv, decision: 'allow', reason: 'No allow list configured' };
+    }
+
+    // Wrappers such as sudo, env and xargs must be allowed as well as the command they run
+    const unlisted = forms.find(form => !this.allow.some(pattern => matchesPattern(pattern, form, 'prefix')));
+    if (unlisted) {
+      return { argv, decision: 'deny', reason: `'${unlisted.join(' ')}' is not in the allow list` };
+    }
+    const innermost = forms[forms.length - 1]!;
+    const allowed = this.allow.find(pattern => matchesPattern(pattern, innermost, 'prefix'))!;
+    return { argv, decision: 'allow', reason: `'${text}' matches allow rule '${allowed.source}'`, rule: allowed.source };
+  }
+}
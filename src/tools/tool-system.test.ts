@@ -1,11 +1,26 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { ToolSystem, ToolDefinition, ToolCall } from './tool-system.js';
-import { createCoreTools, READ_FILE_TOOL, WRITE_FILE_TOOL, LIST_DIRECTORY_TOOL, EXECUTE_SHELL_TOOL } from './core-tools.js';
-import { mkdir, writeFile, rm } from 'node:fs/promises';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ToolSystem, ToolDefinition, ToolCall, ToolHandlerError } from './tool-system.js';
+import { createCoreTools, coreToolWorkerHandler, READ_FILE_TOOL, WRITE_FILE_TOOL, LIST_DIRECTORY_TOOL, EXECUTE_SHELL_TOOL } from './core-tools.js';
+import { FsSandbox } from './fs-sandbox.js';
+import { ShellPolicy } from './shell-policy.js';
+import { mkdir, writeFile, readFile, rm } from 'node:fs/promises';
+import { readFileSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { randomUUID } from 'node:crypto';
 
+/**
+ * Whether a process is running; a killed process nobody has reaped yet counts as gone
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+  } catch {
+    return false;
+  }
+}
+
 describe('ToolSystem', () => {
   let toolSystem: ToolSystem;
 
@@ -120,6 +135,34 @@ describe('ToolSystem', () => {
       expect(result.errors?.[0]).toContain('must be one of: low, medium, high');
     });
 
+    it('should validate nested schemas and report JSON pointers', async () => {
+      toolSystem.register({
+        name: 'nested_tool',
+        description: 'A tool with a nested schema',
+        parameters: {
+          type: 'object',
+          properties: {
+            options: {
+              type: 'object',
+              properties: { retries: { type: 'integer', minimum: 0 } },
+              required: ['retries'],
+            },
+          },
+        },
+      }, async () => 'ok');
+
+      const result = await toolSystem.execute({ id: 'call-1', name: 'nested_tool', arguments: { options: { retries: -1.5 } } });
+
+      expect(result.error?.errorType).toBe('validation');
+      expect(result.error?.message).toBe("Parameter validation failed: Parameter 'options/retries' must be of type 'integer', got 'number'");
+      expect(result.error?.details).toEqual([{
+        path: '/options/retries',
+        schemaPath: '#/properties/options/properties/retries/type',
+        keyword: 'type',
+        message: "Parameter 'options/retries' must be of type 'integer', got 'number'",
+      }]);
+    });
+
     it('should return error for unknown tool', () => {
       const result = toolSystem.validateParameters('unknown_tool', {});
       expect(result.valid).toBe(false);
@@ -165,6 +208,24 @@ describe('ToolSystem', () => {
       expect(result.error?.toolName).toBe('unknown');
     });
 
+    it('should report the error type of a ToolHandlerError', async () => {
+      toolSystem.register(
+        { name: 'guarded', description: 'Guarded tool', parameters: { type: 'object' } },
+        async () => {
+          throw new ToolHandlerError('permission_denied', 'Not allowed', { path: '/x' });
+        }
+      );
+
+      const result = await toolSystem.execute({ id: 'call-1', name: 'guarded', arguments: {} });
+
+      expect(result.error).toEqual({
+        toolName: 'guarded',
+        errorType: 'permission_denied',
+        message: 'Not allowed',
+        details: { path: '/x' },
+      });
+    });
+
     it('should return validation error for invalid parameters', async () => {
       const tool: ToolDefinition = {
         name: 'strict_tool',
@@ -211,6 +272,61 @@ describe('ToolSystem', () => {
       expect(result.error?.message).toBe('Handler failed');
     });
   });
+
+  describe('isolation and timeouts', () => {
+    const FIXTURE = new URL('../../test/fixtures/tool-handlers.mjs', import.meta.url).href;
+    const definition = (name: string): ToolDefinition => ({ name, description: name, parameters: { type: 'object' } });
+
+    afterEach(async () => {
+      await toolSystem.close();
+    });
+
+    it('should fail an inline call that overruns its timeout and abort its signal', async () => {
+      toolSystem = new ToolSystem({ timeoutMs: 50 });
+      let aborted: unknown;
+      toolSystem.register(definition('hang'), (_args, context) => new Promise(() => {
+        context.signal?.addEventListener('abort', () => { aborted = context.signal?.reason; });
+      }));
+
+      const result = await toolSystem.execute({ id: 'call-1', name: 'hang', arguments: {} });
+
+      expect(result.error).toMatchObject({ errorType: 'timeout', message: "Tool 'hang' timed out after 50ms" });
+      expect(aborted).toBeInstanceOf(ToolHandlerError);
+    });
+
+    it('should run tools with a worker spec in a worker and stop runaway handlers', async () => {
+      toolSystem = new ToolSystem({ isolation: 'worker', timeoutMs: 200 });
+      toolSystem.register(definition('spin'), async () => 'inline', { worker: { module: FIXTURE, export: 'spin' } });
+      toolSystem.register(definition('echo'), async () => 'inline', { worker: { module: FIXTURE } });
+
+      const spin = await toolSystem.execute({ id: 'call-1', name: 'spin', arguments: {} });
+      const echo = await toolSystem.execute({ id: 'call-2', name: 'echo', arguments: { text: 'hi' } });
+
+      expect(spin.error).toMatchObject({ toolName: 'spin', errorType: 'timeout' });
+      expect(echo).toMatchObject({ success: true, output: 'echo hi' });
+    });
+
+    it('should resolve limits from overrides, registration and defaults', () => {
+      toolSystem = new ToolSystem({
+        isolation: 'worker',
+        timeoutMs: 1000,
+        tools: { opted_in: { isolation: 'worker', memoryMb: 64 }, plugin_inline: { isolation: 'inline', timeoutMs: 5 } },
+      });
+      const worker = { module: FIXTURE };
+      toolSystem.register(definition('opted_in'), async () => '', { isolation: 'inline', worker });
+      toolSystem.register(definition('opted_out'), async () => '', { isolation: 'inline', worker });
+      toolSystem.register(definition('plugin'), async () => '', { worker, timeoutMs: 2000 });
+      toolSystem.register(definition('plugin_inline'), async () => '', { worker });
+      toolSystem.register(definition('closure'), async () => '');
+
+      expect(toolSystem.limits('opted_in')).toEqual({ isolation: 'worker', timeoutMs: 1000, memoryMb: 64 });
+      expect(toolSystem.limits('opted_out')).toEqual({ isolation: 'inline', timeoutMs: 1000, memoryMb: 256 });
+      expect(toolSystem.limits('plugin')).toEqual({ isolation: 'worker', timeoutMs: 2000, memoryMb: 256 });
+      expect(toolSystem.limits('plugin_inline')).toEqual({ isolation: 'inline', timeoutMs: 5, memoryMb: 256 });
+      expect(toolSystem.limits('closure').isolation).toBe('inline');
+      expect(new ToolSystem().limits('anything')).toEqual({ isolation: 'inline', memoryMb: 256 });
+    });
+  });
 });
 
 describe('Core Tools', () => {
@@ -218,10 +334,10 @@ describe('Core Tools', () => {
   let testDir: string;
 
   beforeEach(async () => {
-    toolSystem = new ToolSystem();
-    createCoreTools(toolSystem);
     testDir = join(tmpdir(), `openclaw-test-${randomUUID()}`);
     await mkdir(testDir, { recursive: true });
+    toolSystem = new ToolSystem();
+    createCoreTools(toolSystem, { sandbox: new FsSandbox([{ path: testDir, mode: 'rw' }]) });
   });
 
   afterEach(async () => {
@@ -233,6 +349,51 @@ describe('Core Tools', () => {
     expect(toolSystem.has('write_file')).toBe(true);
     expect(toolSystem.has('list_directory')).toBe(true);
     expect(toolSystem.has('execute_shell')).toBe(true);
+    expect(toolSystem.has('edit_file')).toBe(true);
+    expect(toolSystem.has('apply_patch')).toBe(true);
+    expect(toolSystem.has('glob')).toBe(true);
+    expect(toolSystem.has('search_files')).toBe(true);
+  });
+
+  it('should run inline unless configured to run in a worker', () => {
+    const configured = new ToolSystem({ isolation: 'worker', tools: { search_files: { isolation: 'worker' } } });
+    createCoreTools(configured, { sandbox: new FsSandbox([{ path: testDir, mode: 'ro' }]) });
+
+    expect(configured.limits('read_file').isolation).toBe('inline');
+    expect(configured.limits('search_files').isolation).toBe('worker');
+  });
+
+  it('should rebuild the core tools from worker data', async () => {
+    await writeFile(join(testDir, 'a.txt'), 'from the worker');
+    const data = { fsRoots: [{ path: testDir, mode: 'ro' }], shell: new ShellPolicy().getConfig() };
+
+    const output = await coreToolWorkerHandler({ path: 'a.txt' }, { toolName: 'read_file', data });
+    const denied = await coreToolWorkerHandler({ path: 'b.txt', content: 'x' }, { toolName: 'write_file', data })
+      .catch((e: unknown) => e);
+
+    expect(output).toBe('from the worker');
+    expect(denied).toMatchObject({ errorType: 'permission_denied' });
+  });
+
+  it('should kill the shell process group when a worker call is aborted', async () => {
+    const data = { fsRoots: [{ path: testDir, mode: 'rw' }], shell: new ShellPolicy().getConfig() };
+    const controller = new AbortController();
+    let output = '';
+
+    const call = coreToolWorkerHandler({ command: 'sleep 30 & echo $!; wait' }, {
+      toolName: 'execute_shell',
+      data,
+      signal: controller.signal,
+      onOutput: (delta) => {
+        output += delta.content;
+        controller.abort();
+      },
+    }).catch((e: unknown) => e);
+    const error = await call;
+    const pid = Number(output.trim());
+
+    expect(error).toMatchObject({ message: 'Command cancelled' });
+    await vi.waitFor(() => expect(isRunning(pid)).toBe(false));
   });
 
   describe('read_file', () => {
@@ -289,6 +450,157 @@ describe('Core Tools', () => {
     });
   });
 
+  describe('edit_file', () => {
+    it('should replace a unique string and report the hunk', async () => {
+      const testFile = join(testDir, 'edit.ts');
+      await writeFile(testFile, 'const a = 1;\nconst b = 2;\n');
+
+      const result = await toolSystem.execute({
+        id: 'edit-1',
+        name: 'edit_file',
+        arguments: { path: testFile, oldString: 'const b = 2;', newString: 'const b = 3;' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(await readFile(testFile, 'utf-8')).toBe('const a = 1;\nconst b = 3;\n');
+      expect(JSON.parse(result.output!)).toEqual({
+        files: [{ path: testFile, status: 'modified', hunks: [expect.objectContaining({ status: 'applied', oldStart: 2 })] }],
+        applied: 1,
+        rejected: 0,
+      });
+    });
+
+    it('should leave the file alone when the match is ambiguous', async () => {
+      const testFile = join(testDir, 'edit.ts');
+      await writeFile(testFile, 'x\nx\n');
+
+      const result = await toolSystem.execute({
+        id: 'edit-2',
+        name: 'edit_file',
+        arguments: { path: testFile, oldString: 'x', newString: 'y' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('oldString occurs 2 times (lines 1, 2)');
+      expect(result.error?.details).toMatchObject({ applied: 0, rejected: 1 });
+      expect(await readFile(testFile, 'utf-8')).toBe('x\nx\n');
+    });
+
+    it('should not edit files outside the sandbox', async () => {
+      const result = await toolSystem.execute({
+        id: 'edit-3',
+        name: 'edit_file',
+        arguments: { path: '/etc/hostname', oldString: 'a', newString: 'b' },
+      });
+
+      expect(result.error?.errorType).toBe('permission_denied');
+    });
+  });
+
+  describe('apply_patch', () => {
+    it('should modify, create and delete files from one diff', async () => {
+      await writeFile(join(testDir, 'keep.txt'), 'one\ntwo\nthree\n');
+      await writeFile(join(testDir, 'old.txt'), 'bye\n');
+
+      const result = await toolSystem.execute({
+        id: 'patch-1',
+        name: 'apply_patch',
+        arguments: {
+          patch: [
+            '--- a/keep.txt',
+            '+++ b/keep.txt',
+            '@@ -1,3 +1,3 @@',
+            ' one',
+            '-two',
+            '+TWO',
+            ' three',
+            '--- /dev/null',
+            '+++ b/sub/new.txt',
+            '@@ -0,0 +1 @@',
+            '+hello',
+            '--- a/old.txt',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-bye',
+          ].join('\n'),
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(JSON.parse(result.output!).files.map((f: { path: string; status: string }) => [f.path, f.status])).toEqual([
+        ['keep.txt', 'modified'],
+        ['sub/new.txt', 'created'],
+        ['old.txt', 'deleted'],
+      ]);
+      expect(await readFile(join(testDir, 'keep.txt'), 'utf-8')).toBe('one\nTWO\nthree\n');
+      expect(await readFile(join(testDir, 'sub/new.txt'), 'utf-8')).toBe('hello\n');
+      await expect(readFile(join(testDir, 'old.txt'))).rejects.toThrow();
+    });
+
+    it('should apply the hunks that match and report the rejected ones', async () => {
+      const testFile = join(testDir, 'list.txt');
+      await writeFile(testFile, 'a\nb\nc\n');
+
+      const result = await toolSystem.execute({
+        id: 'patch-2',
+        name: 'apply_patch',
+        arguments: { path: testFile, patch: '@@ -1 +1 @@\n-a\n+A\n@@ -3 +3 @@\n-z\n+Z\n' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('1 of 2 hunks rejected; the other hunks were applied');
+      expect(result.error?.details).toMatchObject({
+        files: [{ status: 'modified', hunks: [{ status: 'applied' }, { status: 'rejected' }] }],
+      });
+      expect(await readFile(testFile, 'utf-8')).toBe('A\nb\nc\n');
+    });
+
+    it('should apply several sections for one file on top of each other', async () => {
+      const testFile = join(testDir, 'twice.txt');
+      await writeFile(testFile, 'a\nb\nc\nd\ne\nf\n');
+
+      const result = await toolSystem.execute({
+        id: 'patch-4',
+        name: 'apply_patch',
+        arguments: {
+          patch: [
+            '--- a/twice.txt',
+            '+++ b/twice.txt',
+            '@@ -1,2 +1,2 @@',
+            '-a',
+            '+A',
+            ' b',
+            '--- a/twice.txt',
+            '+++ b/twice.txt',
+            '@@ -5,2 +5,2 @@',
+            ' e',
+            '-f',
+            '+F',
+          ].join('\n'),
+        },
+      });
+
+      expect(result.success).toBe(true);
+      expect(JSON.parse(result.output!).files.map((f: { status: string }) => f.status)).toEqual(['modified', 'modified']);
+      expect(await readFile(testFile, 'utf-8')).toBe('A\nb\nc\nd\ne\nF\n');
+    });
+
+    it('should check every path before writing anything', async () => {
+      await writeFile(join(testDir, 'inside.txt'), 'a\n');
+
+      const result = await toolSystem.execute({
+        id: 'patch-3',
+        name: 'apply_patch',
+        arguments: {
+          patch: '--- inside.txt\n+++ inside.txt\n@@ -1 +1 @@\n-a\n+b\n--- /dev/null\n+++ /tmp/outside.txt\n@@ -0,0 +1 @@\n+x\n',
+        },
+      });
+
+      expect(result.error?.errorType).toBe('permission_denied');
+      expect(await readFile(join(testDir, 'inside.txt'), 'utf-8')).toBe('a\n');
+    });
+  });
+
   describe('list_directory', () => {
     it('should list directory contents', async () => {
       await writeFile(join(testDir, 'file1.txt'), 'content1');
@@ -322,6 +634,75 @@ describe('Core Tools', () => {
     });
   });
 
+  describe('glob', () => {
+    it('should find files relative to the search path', async () => {
+      await mkdir(join(testDir, 'src'), { recursive: true });
+      await writeFile(join(testDir, 'src', 'a.ts'), '');
+      await writeFile(join(testDir, 'src', 'b.js'), '');
+
+      const result = await toolSystem.execute({ id: 'glob-1', name: 'glob', arguments: { pattern: '**/*.ts', path: testDir } });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('src/a.ts');
+    });
+
+    it('should deny paths outside the sandbox', async () => {
+      const result = await toolSystem.execute({ id: 'glob-2', name: 'glob', arguments: { pattern: '*', path: '/etc' } });
+
+      expect(result.error?.errorType).toBe('permission_denied');
+    });
+  });
+
+  describe('search_files', () => {
+    it('should search file contents', async () => {
+      await writeFile(join(testDir, 'notes.txt'), 'alpha\nbeta\ngamma\n');
+
+      const result = await toolSystem.execute({
+        id: 'search-1',
+        name: 'search_files',
+        arguments: { pattern: 'BETA', ignoreCase: true, contextLines: 1 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.output).toBe('notes.txt-1-alpha\nnotes.txt:2:beta\nnotes.txt-3-gamma\n[1 matches in 1 files]');
+    });
+
+    it('should reject an invalid regular expression', async () => {
+      const result = await toolSystem.execute({ id: 'search-2', name: 'search_files', arguments: { pattern: '(' } });
+
+      expect(result.error?.errorType).toBe('validation');
+      expect(result.error?.message).toContain('Invalid regular expression');
+    });
+  });
+
+  describe('sandbox', () => {
+    it('should deny file tools outside the allowed roots', async () => {
+      const outside = join(tmpdir(), `openclaw-outside-${randomUUID()}.txt`);
+      await writeFile(outside, 'secret');
+
+      try {
+        const read = await toolSystem.execute({ id: 'sb-1', name: 'read_file', arguments: { path: outside } });
+        const write = await toolSystem.execute({ id: 'sb-2', name: 'write_file', arguments: { path: '/etc/openclaw-test', content: 'x' } });
+        const shell = await toolSystem.execute({ id: 'sb-3', name: 'execute_shell', arguments: { command: 'pwd', cwd: '/' } });
+
+        expect(read.error?.errorType).toBe('permission_denied');
+        expect(read.error?.details).toMatchObject({ path: outside, access: 'read' });
+        expect(write.error?.errorType).toBe('permission_denied');
+        expect(shell.error?.errorType).toBe('permission_denied');
+      } finally {
+        await rm(outside, { force: true });
+      }
+    });
+
+    it('should resolve relative paths against the first root', async () => {
+      await writeFile(join(testDir, 'relative.txt'), 'inside');
+
+      const result = await toolSystem.execute({ id: 'sb-4', name: 'read_file', arguments: { path: 'relative.txt' } });
+
+      expect(result.output).toBe('inside');
+    });
+  });
+
   describe('execute_shell', () => {
     it('should execute shell command and capture output', async () => {
       const result = await toolSystem.execute({
@@ -336,6 +717,16 @@ describe('Core Tools', () => {
       expect(output.exitCode).toBe(0);
     });
 
+    it('should report a command that overruns its timeout as a timeout', async () => {
+      const result = await toolSystem.execute({
+        id: 'shell-timeout',
+        name: 'execute_shell',
+        arguments: { command: 'sleep 5', timeout: 200 },
+      });
+
+      expect(result.error).toMatchObject({ errorType: 'timeout', message: 'Command timed out after 200ms' });
+    });
+
     it('should capture stderr', async () => {
       const result = await toolSystem.execute({
         id: 'shell-2',
@@ -361,5 +752,88 @@ describe('Core Tools', () => {
       const outputPath = output.stdout.trim();
       expect(outputPath.endsWith(testDir.replace('/var/', '/')) || outputPath === testDir).toBe(true);
     });
+
+    it('should stream output while the command runs', async () => {
+      const deltas: Array<{ stream: string; content: string }> = [];
+
+      const result = await toolSystem.execute(
+        { id: 'shell-4', name: 'execute_shell', arguments: { command: 'echo one; echo two >&2; echo three' } },
+        { onOutput: delta => deltas.push(delta) }
+      );
+
+      expect(result.success).toBe(true);
+      expect(deltas.filter(d => d.stream === 'stdout').map(d => d.content).join('')).toBe('one\nthree\n');
+      expect(deltas.filter(d => d.stream === 'stderr').map(d => d.content).join('')).toBe('two\n');
+    });
+
+    describe('shell policy', () => {
+      function useShellPolicy(policy: ShellPolicy): void {
+        toolSystem = new ToolSystem();
+        createCoreTools(toolSystem, { sandbox: new FsSandbox([{ path: testDir, mode: 'rw' }]), shellPolicy: policy });
+      }
+
+      async function shell(command: string) {
+        return toolSystem.execute({ id: 'shell-policy', name: 'execute_shell', arguments: { command } });
+      }
+
+      it('should refuse denied commands without running them', async () => {
+        useShellPolicy(new ShellPolicy({ deny: ['touch'] }));
+
+        const result = await shell(`echo ok && "touch" ${join(testDir, 'marker')}`);
+
+        expect(result.success).toBe(false);
+        expect(result.error?.errorType).toBe('permission_denied');
+        expect(result.error?.details).toMatchObject({ decision: 'deny', commands: [{ decision: 'allow' }, { decision: 'deny', rule: 'touch' }] });
+        const listing = await shell(`ls ${testDir}`);
+        expect(JSON.parse(listing.output!).stdout).toBe('');
+      });
+
+      it('should scrub blocked variables and report them', async () => {
+        useShellPolicy(new ShellPolicy({ blockedEnv: ['OPENCLAW_TEST_*'] }));
+        process.env['OPENCLAW_TEST_SECRET'] = 'hunter2';
+
+        try {
+          const output = JSON.parse((await shell('echo "[$OPENCLAW_TEST_SECRET]"')).output!);
+
+          expect(output.stdout.trim()).toBe('[]');
+          expect(output.policy.scrubbedEnv).toEqual(['OPENCLAW_TEST_SECRET']);
+        } finally {
+          delete process.env['OPENCLAW_TEST_SECRET'];
+        }
+      });
+
+      it('should truncate output past the limit', async () => {
+        useShellPolicy(new ShellPolicy({ maxOutputBytes: 1024 }));
+
+        const output = JSON.parse((await shell('seq 1 2000')).output!);
+
+        expect(output.stdout).toMatch(/^1\n2\n[\s\S]*\[\.\.\. \d+ bytes truncated \.\.\.\][\s\S]*2000\n$/);
+        expect(output.policy.truncatedBytes.stdout).toBeGreaterThan(0);
+        expect(output.policy.truncatedBytes.stderr).toBe(0);
+      });
+
+      it('should apply CPU limits to the command', async () => {
+        useShellPolicy(new ShellPolicy({ cpuSeconds: 7 }));
+
+        const output = JSON.parse((await shell('ulimit -t')).output!);
+
+        expect(output.stdout.trim()).toBe('7');
+        expect(['prlimit', 'ulimit']).toContain(output.policy.limits.method);
+      });
+
+      it('should cut off the network when isolation is available', async () => {
+        useShellPolicy(new ShellPolicy({ network: 'deny' }));
+
+        const output = JSON.parse((await shell('cat /proc/net/dev 2>/dev/null || echo unsupported')).output!);
+
+        if (output.policy.network === 'isolated') {
+          // Only the loopback interface exists in a fresh network namespace
+          expect(output.stdout).toContain('lo:');
+          expect(output.stdout.match(/^\s*\w+:/gm)).toHaveLength(1);
+        } else {
+          expect(output.policy.network).toBe('unavailable');
+        }
+      });
+    });
   });
 });
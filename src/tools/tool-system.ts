@@ -1,26 +1,13 @@
-import { z } from 'zod';
+import { SchemaValidator, type JSONSchema, type SchemaValidationError } from './json-schema.js';
+import { WorkerPool, DEFAULT_MAX_WORKERS, type WorkerHandlerSpec, type WorkerHostHandler } from './worker-pool.js';
+
+export type { JSONSchema, JSONSchemaDefinition, JSONSchemaType, SchemaValidationError } from './json-schema.js';
 
 /**
- * JSON Schema type for tool parameter validation
- * Requirement 6.2: Validate parameters against JSON schema
+ * Schema of a single parameter
+ * Kept as a name for property schemas; any JSON Schema is accepted.
  */
-export interface JSONSchema {
-  type: 'object' | 'string' | 'number' | 'boolean' | 'array';
-  properties?: Record<string, JSONSchemaProperty>;
-  required?: string[];
-  items?: JSONSchemaProperty;
-  additionalProperties?: boolean;
-}
-
-export interface JSONSchemaProperty {
-  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
-  description?: string;
-  enum?: string[];
-  default?: unknown;
-  items?: JSONSchemaProperty;
-  properties?: Record<string, JSONSchemaProperty>;
-  required?: string[];
-}
+export type JSONSchemaProperty = JSONSchema;
 
 /**
  * Tool definition interface
@@ -30,6 +17,8 @@ export interface ToolDefinition {
   name: string;
   description: string;
   parameters: JSONSchema;
+  /** Has no side effects, so the agent may run it alongside other read-only calls */
+  readOnly?: boolean;
 }
 
 /**
@@ -58,15 +47,107 @@ export interface ToolResult {
  */
 export interface ToolError {
   toolName: string;
-  errorType: 'validation' | 'execution' | 'timeout' | 'not_found';
+  errorType: 'validation' | 'execution' | 'timeout' | 'not_found' | 'permission_denied';
   message: string;
   details?: unknown;
 }
 
+/**
+ * Error a handler throws to report a specific error type
+ * Anything else a handler throws is reported as an `execution` error.
+ */
+export class ToolHandlerError extends Error {
+  readonly errorType: ToolError['errorType'];
+  readonly details: unknown;
+
+  constructor(errorType: ToolError['errorType'], message: string, details?: unknown) {
+    super(message);
+    this.name = 'ToolHandlerError';
+    this.errorType = errorType;
+    this.details = details;
+  }
+}
+
+/**
+ * A chunk of output a tool produced while running
+ */
+export interface ToolOutputDelta {
+  stream: 'stdout' | 'stderr';
+  content: string;
+}
+
+/**
+ * Per-call context passed to tool handlers
+ * `signal` is aborted when the request that issued the call is cancelled;
+ * long-running handlers should stop and clean up when it fires.
+ * `onOutput`, when present, receives output as it is produced so clients
+ * can follow long runs; the handler's return value is still the result.
+ */
+export interface ToolContext {
+  signal?: AbortSignal;
+  onOutput?: (delta: ToolOutputDelta) => void;
+}
+
 /**
  * Tool handler function type
  */
-export type ToolHandler = (args: Record<string, unknown>) => Promise<string>;
+export type ToolHandler = (args: Record<string, unknown>, context: ToolContext) => Promise<string>;
+
+/**
+ * Where a tool handler runs: in the Gateway's event loop or in a worker thread
+ */
+export type ToolIsolation = 'inline' | 'worker';
+
+/**
+ * Limits that can be set per tool
+ */
+export interface ToolLimits {
+  /** Where the handler runs; `worker` needs a `worker` spec at registration */
+  isolation?: ToolIsolation | undefined;
+  /** How long a call may run before it fails with a `timeout` error */
+  timeoutMs?: number | undefined;
+  /** Heap limit of the worker running the handler */
+  memoryMb?: number | undefined;
+}
+
+/**
+ * How a tool is registered
+ * A tool without `isolation` follows the ToolSystem's default. `worker`
+ * tells a worker how to load the handler, since the handler function
+ * itself cannot be sent to another thread; `host` answers the calls the
+ * worker-side handler makes back.
+ */
+export interface ToolOptions extends ToolLimits {
+  worker?: WorkerHandlerSpec | undefined;
+  host?: WorkerHostHandler | undefined;
+}
+
+/**
+ * Defaults for every tool, and per-tool overrides by name
+ * Overrides win over the options a tool was registered with, so config can
+ * move a core tool into a worker or keep a plugin inline.
+ */
+export interface ToolSystemOptions {
+  isolation?: ToolIsolation | undefined;
+  timeoutMs?: number | undefined;
+  memoryMb?: number | undefined;
+  maxWorkers?: number | undefined;
+  tools?: Record<string, ToolLimits> | undefined;
+}
+
+/**
+ * The isolation and limits a tool's calls actually run with
+ */
+export interface ResolvedToolLimits {
+  isolation: ToolIsolation;
+  timeoutMs?: number;
+  memoryMb: number;
+}
+
+/**
+ * Default heap limit of a tool worker
+ */
+export const DEFAULT_TOOL_MEMORY_MB = 256;
 
 /**
  * Registered tool with handler
@@ -74,6 +155,8 @@ export type ToolHandler = (args: Record<string, unknown>) => Promise<string>;
 interface RegisteredTool {
   definition: ToolDefinition;
   handler: ToolHandler;
+  validator: SchemaValidator;
+  options: ToolOptions;
 }
 
 /**
@@ -86,16 +169,31 @@ interface RegisteredTool {
  */
 export class ToolSystem {
   private tools: Map<string, RegisteredTool> = new Map();
+  private options: ToolSystemOptions;
+  private pool: WorkerPool | null = null;
+
+  /**
+   * Creates a ToolSystem
+   * Without options every handler runs inline with no time limit.
+   */
+  constructor(options: ToolSystemOptions = {}) {
+    this.options = options;
+  }
 
   /**
    * Registers a tool with its handler
    * Requirement 6.5: Allow registering custom tools
    */
-  register(definition: ToolDefinition, handler: ToolHandler): void {
+  register(definition: ToolDefinition, handler: ToolHandler, options: ToolOptions = {}): void {
     if (this.tools.has(definition.name)) {
       throw new Error(`Tool '${definition.name}' is already registered`);
     }
-    this.tools.set(definition.name, { definition, handler });
+    this.tools.set(definition.name, {
+      definition,
+      handler,
+      validator: new SchemaValidator(definition.parameters),
+      options,
+    });
   }
 
   /**
@@ -127,83 +225,55 @@ export class ToolSystem {
   }
 
   /**
-   * Validates tool parameters against the tool's JSON schema
-   * Requirement 6.2: Validate parameters against JSON schema
+   * Gets the isolation and limits a tool's calls run with
+   * A tool set to `worker` without a worker spec runs inline.
    */
-  validateParameters(toolName: string, args: Record<string, unknown>): { valid: boolean; errors?: string[] } {
-    const tool = this.tools.get(toolName);
-    if (!tool) {
-      return { valid: false, errors: [`Tool '${toolName}' not found`] };
-    }
-
-    const schema = tool.definition.parameters;
-    const errors: string[] = [];
-
-    // Check required properties
-    if (schema.required) {
-      for (const required of schema.required) {
-        if (!(required in args)) {
-          errors.push(`Missing required parameter: '${required}'`);
-        }
-      }
-    }
-
-    // Validate property types
-    if (schema.properties) {
-      for (const [key, value] of Object.entries(args)) {
-        const propSchema = schema.properties[key];
-        if (!propSchema) {
-          if (schema.additionalProperties === false) {
-            errors.push(`Unknown parameter: '${key}'`);
-          }
-          continue;
-        }
-
-        const typeError = this.validateType(key, value, propSchema);
-        if (typeError) {
-          errors.push(typeError);
-        }
-      }
-    }
-
-    return errors.length > 0 ? { valid: false, errors } : { valid: true };
+  limits(name: string): ResolvedToolLimits {
+    const tool = this.tools.get(name);
+    const override = this.options.tools?.[name] ?? {};
+    const isolation = override.isolation ?? tool?.options.isolation ?? this.options.isolation ?? 'inline';
+    const timeoutMs = override.timeoutMs ?? tool?.options.timeoutMs ?? this.options.timeoutMs;
+    return {
+      isolation: isolation === 'worker' && tool?.options.worker ? 'worker' : 'inline',
+      memoryMb: override.memoryMb ?? tool?.options.memoryMb ?? this.options.memoryMb ?? DEFAULT_TOOL_MEMORY_MB,
+      ...(timeoutMs !== undefined ? { timeoutMs } : {}),
+    };
   }
 
   /**
-   * Validates a value against a JSON schema property type
+   * Terminates the tool workers
    */
-  private validateType(key: string, value: unknown, schema: JSONSchemaProperty): string | null {
-    const actualType = Array.isArray(value) ? 'array' : typeof value;
-    
-    if (schema.type !== actualType) {
-      return `Parameter '${key}' must be of type '${schema.type}', got '${actualType}'`;
-    }
-
-    // Validate enum values
-    if (schema.enum && typeof value === 'string') {
-      if (!schema.enum.includes(value)) {
-        return `Parameter '${key}' must be one of: ${schema.enum.join(', ')}`;
-      }
-    }
+  async close(): Promise<void> {
+    await this.pool?.close();
+    this.pool = null;
+  }
 
-    // Validate array items
-    if (schema.type === 'array' && Array.isArray(value) && schema.items) {
-      for (let i = 0; i < value.length; i++) {
-        const itemError = this.validateType(`${key}[${i}]`, value[i], schema.items);
-        if (itemError) {
-          return itemError;
-        }
-      }
+  /**
+   * Validates tool parameters against the tool's JSON schema
+   * `details` carries each failure with JSON-pointer paths into the
+   * arguments and the schema.
+   * Requirement 6.2: Validate parameters against JSON schema
+   */
+  validateParameters(
+    toolName: string,
+    args: Record<string, unknown>
+  ): { valid: boolean; errors?: string[]; details?: SchemaValidationError[] } {
+    const tool = this.tools.get(toolName);
+    if (!tool) {
+      return { valid: false, errors: [`Tool '${toolName}' not found`] };
     }
 
-    return null;
+    const details = tool.validator.validate(args);
+    return details.length > 0
+      ? { valid: false, errors: details.map(d => d.message), details }
+      : { valid: true };
   }
 
   /**
    * Executes a tool call
    * Requirements: 6.2, 6.4, 6.5
    */
-  async execute(call: ToolCall): Promise<ToolResult> {
+  async execute(call: ToolCall, context: ToolContext = {}): Promise<ToolResult> {
     const tool = this.tools.get(call.name);
 
     // Check if tool exists
@@ -229,20 +299,32 @@ export class ToolSystem {
           toolName: call.name,
           errorType: 'validation',
           message: `Parameter validation failed: ${validation.errors?.join('; ')}`,
-          details: validation.errors,
+          details: validation.details,
         },
       };
     }
 
     // Execute the tool handler
     try {
-      const output = await tool.handler(call.arguments);
+      const output = await this.run(tool, call, context);
       return {
         callId: call.id,
         success: true,
         output,
       };
     } catch (error) {
+      if (error instanceof ToolHandlerError) {
+        return {
+          callId: call.id,
+          success: false,
+          error: {
+            toolName: call.name,
+            errorType: error.errorType,
+            message: error.message,
+            ...(error.details !== undefined ? { details: error.details } : {}),
+          },
+        };
+      }
       return {
         callId: call.id,
         success: false,
@@ -255,4 +337,53 @@ export class ToolSystem {
       };
     }
   }
+
+  /**
+   * Runs a handler inline or in a worker, within the tool's time limit
+   * Inline handlers cannot be stopped: on timeout their signal is aborted
+   * and the call fails, but a handler that ignores the signal keeps running.
+   * A worker is terminated instead.
+   */
+  private async run(tool: RegisteredTool, call: ToolCall, context: ToolContext): Promise<string> {
+    const limits = this.limits(call.name);
+
+    if (limits.isolation === 'worker') {
+      this.pool ??= new WorkerPool(this.options.maxWorkers ?? DEFAULT_MAX_WORKERS);
+      return this.pool.run(tool.options.worker!, call.arguments, {
+        toolName: call.name,
+        timeoutMs: limits.timeoutMs,
+        memoryMb: limits.memoryMb,
+        signal: context.signal,
+        onOutput: context.onOutput,
+        host: tool.options.host,
+      });
+    }
+
+    if (limits.timeoutMs === undefined) {
+      return tool.handler(call.arguments, context);
+    }
+
+    const timeoutMs = limits.timeoutMs;
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort(context.signal?.reason);
+    context.signal?.addEventListener('abort', onAbort, { once: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error = new ToolHandlerError('timeout', `Tool '${call.name}' timed out after ${timeoutMs}ms`, { timeoutMs });
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        tool.handler(call.arguments, { ...context, signal: controller.signal }),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      context.signal?.removeEventListener('abort', onAbort);
+    }
+  }
 }
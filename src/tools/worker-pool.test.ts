@@ -0,0 +1,186 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { WorkerPool, type WorkerHandlerSpec, type WorkerRunOptions } from './worker-pool.js';
+import { ToolHandlerError, type ToolOutputDelta } from './tool-system.js';
+
+const FIXTURE = new URL('../../test/fixtures/tool-handlers.mjs', import.meta.url).href;
+
+/**
+ * Whether a process is running; a killed process nobody has reaped yet counts as gone
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+  } catch {
+    return false;
+  }
+}
+
+describe('WorkerPool', () => {
+  let pool: WorkerPool;
+
+  afterEach(async () => {
+    await pool?.close();
+  });
+
+  function spec(exportName: string, extra: Partial<WorkerHandlerSpec> = {}): WorkerHandlerSpec {
+    return { module: FIXTURE, export: exportName, ...extra };
+  }
+
+  function options(extra: Partial<WorkerRunOptions> = {}): WorkerRunOptions {
+    return { toolName: 'test', memoryMb: 64, ...extra };
+  }
+
+  it('should run handlers and reuse the worker', async () => {
+    pool = new WorkerPool();
+
+    const first = await pool.run(spec('handler'), { text: 'a' }, options());
+    const second = await pool.run(spec('nested.tools.0.handler'), {}, options());
+
+    expect(first).toBe('echo a');
+    expect(second).toBe('nested');
+    expect(pool.size).toBe(1);
+  });
+
+  it('should pass the tool name and data, and forward output', async () => {
+    pool = new WorkerPool();
+    const deltas: ToolOutputDelta[] = [];
+
+    const context = await pool.run(spec('context', { data: { roots: ['/tmp'] } }), {}, options({ toolName: 'ctx' }));
+    const streamed = await pool.run(spec('stream'), {}, options({ onOutput: delta => deltas.push(delta) }));
+
+    expect(JSON.parse(context)).toEqual({ toolName: 'ctx', data: { roots: ['/tmp'] } });
+    expect(streamed).toBe('done');
+    expect(deltas.map(d => d.content)).toEqual(['one\n', 'two\n']);
+  });
+
+  it('should terminate a worker that overruns its timeout', async () => {
+    pool = new WorkerPool();
+
+    const error = await pool.run(spec('spin'), {}, options({ toolName: 'spin', timeoutMs: 200 })).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ToolHandlerError);
+    expect(error).toMatchObject({ errorType: 'timeout', message: "Tool 'spin' timed out after 200ms" });
+    expect(pool.size).toBe(0);
+    expect(await pool.run(spec('handler'), { text: 'after' }, options())).toBe('echo after');
+  });
+
+  it('should fail a call that exceeds the memory limit', async () => {
+    pool = new WorkerPool();
+
+    const error = await pool.run(spec('grow'), {}, options({ memoryMb: 32, timeoutMs: 20000 })).catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ errorType: 'execution', message: 'Tool exceeded its memory limit of 32 MB' });
+    expect(pool.size).toBe(0);
+  });
+
+  it('should abort the handler so it can stop its processes before the worker is terminated', async () => {
+    pool = new WorkerPool();
+    let output = '';
+
+    const error = await pool.run(spec('group'), {}, options({
+      timeoutMs: 500,
+      onOutput: delta => { output += delta.content; },
+    })).catch((e: unknown) => e);
+    const pid = Number(output.trim());
+
+    expect(error).toMatchObject({ errorType: 'timeout' });
+    expect(pid).toBeGreaterThan(0);
+    await vi.waitFor(() => expect(isRunning(pid)).toBe(false));
+  });
+
+  it('should start a queued call once a worker that ran out of memory exits', async () => {
+    pool = new WorkerPool(1);
+
+    const growing = pool.run(spec('grow'), {}, options({ memoryMb: 32, timeoutMs: 20000 })).catch((e: unknown) => e);
+    const queued = pool.run(spec('handler'), { text: 'next' }, options({ memoryMb: 32 }));
+
+    expect(await growing).toMatchObject({ errorType: 'execution', message: 'Tool exceeded its memory limit of 32 MB' });
+    expect(await queued).toBe('echo next');
+  });
+
+  it('should keep error types and messages thrown by handlers', async () => {
+    pool = new WorkerPool();
+
+    const denied = await pool.run(spec('denied'), {}, options()).catch((e: unknown) => e);
+    const broken = await pool.run(spec('broken'), {}, options()).catch((e: unknown) => e);
+    const missing = await pool.run(spec('nope'), {}, options()).catch((e: unknown) => e);
+
+    expect(denied).toBeInstanceOf(ToolHandlerError);
+    expect(denied).toMatchObject({ errorType: 'permission_denied', message: 'not allowed here', details: { path: '/secret' } });
+    expect(broken).toMatchObject({ name: 'TypeError', message: 'something broke' });
+    expect((missing as Error).message).toContain('No handler for test');
+    expect(pool.size).toBe(1);
+  });
+
+  it('should terminate the worker when the call is cancelled', async () => {
+    pool = new WorkerPool();
+    const controller = new AbortController();
+
+    const run = pool.run(spec('spin'), {}, options({ signal: controller.signal }));
+    setTimeout(() => controller.abort(new Error('cancelled by user')), 100);
+
+    await expect(run).rejects.toThrow('cancelled by user');
+    expect(pool.size).toBe(0);
+  });
+
+  it('should run register() modules and answer their host calls', async () => {
+    pool = new WorkerPool();
+    const hostCalls: Array<{ method: string; params: unknown }> = [];
+
+    const output = await pool.run(
+      { module: FIXTURE, register: { name: 'fixture', config: { prefix: 'at ' } } },
+      { path: 'notes.md' },
+      options({
+        toolName: 'where',
+        host: async (method, params) => {
+          hostCalls.push({ method, params });
+          return method === 'resolvePath' ? '/work/notes.md' : undefined;
+        },
+      })
+    );
+
+    expect(output).toBe('at /work/notes.md');
+    expect(hostCalls).toEqual([
+      { method: 'log', params: { level: 'info', message: 'resolving', context: { path: 'notes.md' } } },
+      { method: 'resolvePath', params: { path: 'notes.md', access: 'read' } },
+    ]);
+  });
+
+  it('should queue calls beyond the worker limit', async () => {
+    pool = new WorkerPool(1);
+
+    const outputs = await Promise.all(['a', 'b', 'c'].map(text => pool.run(spec('handler'), { text }, options())));
+
+    expect(outputs).toEqual(['echo a', 'echo b', 'echo c']);
+    expect(pool.size).toBe(1);
+  });
+
+  it('should start a queued call on a fresh worker after a timeout frees the slot', async () => {
+    pool = new WorkerPool(1);
+    const firstThread = await pool.run(spec('thread'), {}, options());
+
+    const spinning = pool.run(spec('spin'), {}, options({ timeoutMs: 200 })).catch((e: unknown) => e);
+    const queued = pool.run(spec('thread'), {}, options());
+
+    expect(await spinning).toMatchObject({ errorType: 'timeout' });
+    const queuedThread = await queued;
+    expect(queuedThread).not.toBe(firstThread);
+    expect(pool.size).toBe(1);
+    expect(await pool.run(spec('thread'), {}, options())).toBe(queuedThread);
+  });
+
+  it('should count time spent queued against the timeout and fail queued calls on close', async () => {
+    pool = new WorkerPool(1);
+
+    const spinning = pool.run(spec('spin'), {}, options({ timeoutMs: 300 })).catch((e: unknown) => e);
+    const queuedTimeout = pool.run(spec('handler'), { text: 'x' }, options({ timeoutMs: 100 })).catch((e: unknown) => e);
+    expect(await queuedTimeout).toMatchObject({ errorType: 'timeout' });
+    const queued = pool.run(spec('handler'), { text: 'y' }, options()).catch((e: unknown) => e);
+    await pool.close();
+
+    expect(await spinning).toMatchObject({ message: 'Worker pool is closed' });
+    expect(await queued).toMatchObject({ message: 'Worker pool is closed' });
+  });
+});
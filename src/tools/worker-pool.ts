@@ -0,0 +1,503 @@
+import { Worker } from 'node:worker_threads';
+import { DEFAULT_KILL_GRACE_MS } from './child-process.js';
+import { ToolHandlerError, type ToolContext, type ToolOutputDelta } from './tool-system.js';
+
+/**
+ * How a worker finds a tool's handler
+ * The module is imported inside the worker. The handler is the export at
+ * the dotted `export` path (default `handler`, e.g. `tools.0.handler`), or,
+ * with `register`, the tool registered under the called name when the
+ * module's `register(api)` is run with that name and config.
+ * `data` must survive structured cloning; the handler gets it as
+ * `context.data`.
+ */
+export interface WorkerHandlerSpec {
+  module: string;
+  export?: string | undefined;
+  register?: { name: string; config: Record<string, unknown> } | undefined;
+  data?: unknown;
+}
+
+/**
+ * Answers a call a worker-side handler makes back to the Gateway
+ * (`resolvePath` and `log` for plugins)
+ */
+export type WorkerHostHandler = (method: string, params: unknown) => Promise<unknown>;
+
+/**
+ * Context a handler gets when it runs in a worker
+ * `signal` is aborted when the call times out or is cancelled. The worker is
+ * terminated once the handler settles, or after `WORKER_ABORT_GRACE_MS` if
+ * it does not.
+ */
+export interface WorkerToolContext extends ToolContext {
+  toolName: string;
+  data?: unknown;
+}
+
+/**
+ * Limits and callbacks of one worker run
+ */
+export interface WorkerRunOptions {
+  toolName: string;
+  /** Hard limit on the run, including time spent waiting for a worker */
+  timeoutMs?: number | undefined;
+  /** Heap limit of the worker */
+  memoryMb: number;
+  signal?: AbortSignal | undefined;
+  onOutput?: ((delta: ToolOutputDelta) => void) | undefined;
+  host?: WorkerHostHandler | undefined;
+}
+
+/**
+ * An error as sent between threads
+ */
+interface SerializedError {
+  name: string;
+  message: string;
+  errorType?: string;
+  details?: unknown;
+  stack?: string;
+}
+
+/**
+ * Messages a worker sends
+ */
+type WorkerMessage =
+  | { type: 'output'; delta: ToolOutputDelta }
+  | { type: 'result'; output: string }
+  | { type: 'error'; error: SerializedError }
+  | { type: 'host'; id: number; method: string; params: unknown };
+
+interface PooledWorker {
+  worker: Worker;
+  memoryMb: number;
+  /** Settles the run in progress; null while idle */
+  onMessage: ((message: WorkerMessage) => void) | null;
+  onExit: ((error: Error) => void) | null;
+}
+
+interface QueuedRun {
+  memoryMb: number;
+  start: (pooled: PooledWorker) => void;
+  fail: (error: Error) => void;
+}
+
+/**
+ * Code run by every worker
+ * Kept as CommonJS source so the pool works both from the build and when
+ * the TypeScript sources are run directly; handler modules are loaded with
+ * `import()`.
+ */
+const WORKER_SOURCE = `
+const { parentPort } = require('node:worker_threads');
+const registered = new Map();
+const hostCalls = new Map();
+let nextHostId = 1;
+let controller = null;
+
+function serializeError(error) {
+  if (error instanceof Error) {
+    const serialized = { name: error.name, message: error.message, stack: error.stack };
+    if (typeof error.errorType === 'string') {
+      serialized.errorType = error.errorType;
+      try { serialized.details = structuredClone(error.details); } catch { serialized.details = String(error.details); }
+    }
+    return serialized;
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+function host(method, params) {
+  return new Promise((resolve, reject) => {
+    const id = nextHostId++;
+    hostCalls.set(id, { resolve, reject });
+    parentPort.postMessage({ type: 'host', id, method, params });
+  });
+}
+
+async function resolveHandler(spec, toolName) {
+  const module = await import(spec.module);
+  if (!spec.register) {
+    return (spec.export || 'handler').split('.').reduce((value, key) => value == null ? undefined : value[key], module);
+  }
+  const key = spec.module + '\\0' + JSON.stringify(spec.register);
+  if (!registered.has(key)) {
+    const handlers = new Map();
+    const log = (level) => (message, context) => host('log', { level, message, context });
+    await module.register({
+      name: spec.register.name,
+      config: spec.register.config,
+      logger: {
+        debug: log('debug'),
+        info: log('info'),
+        warn: log('warn'),
+        error: (message, error, context) => host('log', {
+          level: 'error',
+          message,
+          context: { ...context, error: error instanceof Error ? error.message : error },
+        }),
+      },
+      registerTool: (definition, handler) => handlers.set(definition.name, handler),
+      resolvePath: (path, access) => host('resolvePath', { path, access }),
+    });
+    registered.set(key, handlers);
+  }
+  return registered.get(key).get(toolName);
+}
+
+parentPort.on('message', async (message) => {
+  if (message.type === 'hostResult') {
+    const call = hostCalls.get(message.id);
+    hostCalls.delete(message.id);
+    if (!call) return;
+    if (message.error) {
+      call.reject(Object.assign(new Error(message.error.message), message.error));
+    } else {
+      call.resolve(message.result);
+    }
+    return;
+  }
+  if (message.type === 'abort') {
+    controller?.abort(Object.assign(new Error(message.reason.message), message.reason));
+    return;
+  }
+
+  const { spec, toolName, args } = message;
+  controller = new AbortController();
+  try {
+    const handler = await resolveHandler(spec, toolName);
+    if (typeof handler !== 'function') {
+      throw new Error('No handler for ' + toolName + ' in ' + spec.module);
+    }
+    const output = await handler(args, {
+      toolName,
+      data: spec.data,
+      signal: controller.signal,
+      onOutput: (delta) => parentPort.postMessage({ type: 'output', delta }),
+    });
+    parentPort.postMessage({ type: 'result', output: String(output) });
+  } catch (error) {
+    parentPort.postMessage({ type: 'error', error: serializeError(error) });
+  } finally {
+    controller = null;
+  }
+});
+`;
+
+/**
+ * Default number of workers a pool runs at once
+ */
+export const DEFAULT_MAX_WORKERS = 2;
+
+/**
+ * How long an aborted handler gets to clean up before its worker is
+ * terminated; long enough for a child process to be killed after its
+ * SIGTERM grace period
+ */
+export const WORKER_ABORT_GRACE_MS = DEFAULT_KILL_GRACE_MS + 1000;
+
+/**
+ * WorkerPool - Runs tool handlers in worker threads
+ *
+ * Each worker runs one call at a time and is reused afterwards. A call that
+ * overruns its timeout, exceeds the worker's heap limit or is cancelled has
+ * its worker terminated, so a handler stuck in a loop cannot block the
+ * Gateway. On a timeout or cancellation the handler's signal is aborted
+ * first, so it can stop child processes it started. Workers are created as needed, up to `maxWorkers`; further calls
+ * wait for one to free up. Idle workers do not keep the process alive.
+ */
+export class WorkerPool {
+  private maxWorkers: number;
+  private workers: Set<PooledWorker> = new Set();
+  private idle: PooledWorker[] = [];
+  private queue: QueuedRun[] = [];
+  private closed = false;
+  private dispatchScheduled = false;
+
+  constructor(maxWorkers: number = DEFAULT_MAX_WORKERS) {
+    this.maxWorkers = maxWorkers;
+  }
+
+  /**
+   * Number of live workers
+   */
+  get size(): number {
+    return this.workers.size;
+  }
+
+  /**
+   * Runs a handler in a worker and resolves with its output
+   * Rejects with a `timeout` ToolHandlerError when `timeoutMs` runs out, an
+   * `execution` one when the worker runs out of memory or dies, and with
+   * the signal's reason when the signal is aborted. Errors the handler
+   * throws keep their message, and their `errorType` and `details` if set.
+   */
+  run(spec: WorkerHandlerSpec, args: Record<string, unknown>, options: WorkerRunOptions): Promise<string> {
+    if (this.closed) {
+      return Promise.reject(new Error('Worker pool is closed'));
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(options.signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+      let pooled: PooledWorker | null = null;
+      let settled = false;
+
+      const finish = (error: unknown, output?: string): void => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
+        this.queue = this.queue.filter(queued => queued !== entry);
+        if (error === null) {
+          resolve(output!);
+        } else {
+          reject(error);
+        }
+      };
+
+      // Drops the worker after an overrun or cancellation; its heap cannot be trusted
+      const kill = (error: unknown): void => {
+        const worker = pooled;
+        finish(error);
+        if (worker) this.discard(worker, error);
+      };
+
+      const timer = options.timeoutMs !== undefined
+        ? setTimeout(() => kill(new ToolHandlerError(
+            'timeout',
+            `Tool '${options.toolName}' timed out after ${options.timeoutMs}ms`,
+            { timeoutMs: options.timeoutMs }
+          )), options.timeoutMs)
+        : undefined;
+      const onAbort = (): void => kill(options.signal!.reason);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const entry: QueuedRun = {
+        memoryMb: options.memoryMb,
+        start: (worker) => {
+          if (settled) {
+            this.release(worker);
+            return;
+          }
+          pooled = worker;
+          worker.worker.ref();
+          worker.onExit = (error) => finish(error);
+          worker.onMessage = (message) => {
+            switch (message.type) {
+              case 'output':
+                options.onOutput?.(message.delta);
+                break;
+              case 'host':
+                void this.answerHost(worker, message, options.host);
+                break;
+              case 'result':
+                finish(null, message.output);
+                this.release(worker);
+                break;
+              case 'error':
+                finish(deserializeError(message.error));
+                this.release(worker);
+                break;
+            }
+          };
+          worker.worker.postMessage({ type: 'call', spec, toolName: options.toolName, args });
+        },
+        fail: (error) => finish(error),
+      };
+      this.queue.push(entry);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminates every worker; runs in progress fail
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const workers = [...this.workers];
+    this.workers.clear();
+    this.idle = [];
+    for (const queued of this.queue.splice(0)) {
+      queued.fail(new Error('Worker pool is closed'));
+    }
+    await Promise.all(workers.map(async (pooled) => {
+      pooled.onExit?.(new Error('Worker pool is closed'));
+      pooled.onExit = null;
+      await pooled.worker.terminate();
+    }));
+  }
+
+  /**
+   * Hands queued runs to idle or new workers
+   */
+  private dispatch(): void {
+    if (this.closed) return;
+    for (const queued of [...this.queue]) {
+      // Settled while an earlier run was started
+      if (!this.queue.includes(queued)) continue;
+      let pooled = this.takeIdle(queued.memoryMb);
+      if (!pooled && this.workers.size >= this.maxWorkers && this.idle.length > 0) {
+        // Make room by replacing an idle worker with the wrong heap limit
+        this.discard(this.idle[0]!);
+      }
+      if (!pooled && this.workers.size < this.maxWorkers) {
+        pooled = this.spawn(queued.memoryMb);
+      }
+      if (!pooled) return;
+      this.queue = this.queue.filter(other => other !== queued);
+      queued.start(pooled);
+    }
+  }
+
+  /**
+   * Dispatches once the caller's bookkeeping is done
+   * Workers are released and discarded from inside a run's settle path;
+   * dispatching right there could start a queued run before that run's
+   * state, and the pool's, are consistent again.
+   */
+  private scheduleDispatch(): void {
+    if (this.dispatchScheduled) return;
+    this.dispatchScheduled = true;
+    queueMicrotask(() => {
+      this.dispatchScheduled = false;
+      this.dispatch();
+    });
+  }
+
+  private takeIdle(memoryMb: number): PooledWorker | undefined {
+    const index = this.idle.findIndex(pooled => pooled.memoryMb === memoryMb);
+    return index === -1 ? undefined : this.idle.splice(index, 1)[0];
+  }
+
+  private spawn(memoryMb: number): PooledWorker {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      resourceLimits: { maxOldGenerationSizeMb: memoryMb },
+    });
+    const pooled: PooledWorker = { worker, memoryMb, onMessage: null, onExit: null };
+
+    worker.on('message', (message: WorkerMessage) => pooled.onMessage?.(message));
+    worker.on('error', (error: Error & { code?: string }) => {
+      pooled.onExit?.(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? new ToolHandlerError('execution', `Tool exceeded its memory limit of ${memoryMb} MB`, { memoryMb })
+        : error);
+      pooled.onExit = null;
+    });
+    worker.on('exit', (code) => {
+      pooled.onExit?.(new Error(`Tool worker exited unexpectedly with code ${code}`));
+      pooled.onExit = null;
+      this.forget(pooled);
+      this.scheduleDispatch();
+    });
+
+    this.workers.add(pooled);
+    return pooled;
+  }
+
+  /**
+   * Returns a worker to the idle list after a run
+   */
+  private release(pooled: PooledWorker): void {
+    pooled.onMessage = null;
+    pooled.onExit = null;
+    if (!this.workers.has(pooled)) return;
+    pooled.worker.unref();
+    this.idle.push(pooled);
+    this.scheduleDispatch();
+  }
+
+  /**
+   * Terminates a worker and frees its slot
+   * With a `reason`, the run in progress is aborted first and the worker
+   * terminated once its handler settles or the grace period runs out.
+   */
+  private discard(pooled: PooledWorker, reason?: unknown): void {
+    pooled.onMessage = null;
+    pooled.onExit = null;
+    this.forget(pooled);
+    this.scheduleDispatch();
+    if (reason === undefined) {
+      void pooled.worker.terminate();
+      return;
+    }
+
+    const terminate = (): void => {
+      clearTimeout(timer);
+      pooled.onMessage = null;
+      void pooled.worker.terminate();
+    };
+    const timer = setTimeout(terminate, WORKER_ABORT_GRACE_MS);
+    pooled.onMessage = (message) => {
+      if (message.type === 'result' || message.type === 'error') terminate();
+    };
+    pooled.worker.postMessage({ type: 'abort', reason: serializeError(reason) });
+  }
+
+  private forget(pooled: PooledWorker): void {
+    this.workers.delete(pooled);
+    this.idle = this.idle.filter(other => other !== pooled);
+  }
+
+  private async answerHost(
+    pooled: PooledWorker,
+    message: { id: number; method: string; params: unknown },
+    host: WorkerHostHandler | undefined
+  ): Promise<void> {
+    let reply: { type: 'hostResult'; id: number; result?: unknown; error?: SerializedError };
+    try {
+      if (!host) {
+        throw new Error(`Host method not available: ${message.method}`);
+      }
+      reply = { type: 'hostResult', id: message.id, result: await host(message.method, message.params) };
+    } catch (error) {
+      reply = { type: 'hostResult', id: message.id, error: serializeError(error) };
+    }
+    if (this.workers.has(pooled)) {
+      pooled.worker.postMessage(reply);
+    }
+  }
+}
+
+function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+  return {
+    name: error.name,
+    message: error.message,
+    ...(error instanceof ToolHandlerError ? { errorType: error.errorType, details: cloneDetails(error.details) } : {}),
+  };
+}
+
+/**
+ * Copies error details for another thread; what cannot be cloned is sent as text
+ */
+function cloneDetails(details: unknown): unknown {
+  try {
+    return structuredClone(details);
+  } catch {
+    return String(details);
+  }
+}
+
+/**
+ * Rebuilds an error thrown in a worker
+ * Errors carrying an error type become ToolHandlerErrors.
+ */
+function deserializeError(serialized: SerializedError): Error {
+  const errorTypes = ['validation', 'execution', 'timeout', 'not_found', 'permission_denied'];
+  if (serialized.errorType !== undefined && errorTypes.includes(serialized.errorType)) {
+    return new ToolHandlerError(
+      serialized.errorType as ToolHandlerError['errorType'],
+      serialized.message,
+      serialized.details ?? undefined
+    );
+  }
+  const error = new Error(serialized.message);
+  error.name = serialized.name;
+  if (serialized.stack !== undefined) error.stack = serialized.stack;
+  return error;
+}
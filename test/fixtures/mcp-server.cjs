@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+/**
+ * Minimal stdio MCP server used by the MCP client tests
+ *
+ * Tools: echo, add, fail (isError result), crash (exits), slow (never
+ * answers), cancellations (lists cancelled request ids) and grow (adds a
+ * tool and announces the change). With MCP_FIXTURE_MARKER set, crash
+ * creates that file and the server refuses to start while it exists.
+ */
+const fs = require('node:fs');
+const readline = require('node:readline');
+
+const marker = process.env.MCP_FIXTURE_MARKER;
+if (marker && fs.existsSync(marker)) {
+  process.stderr.write('marker present, refusing to start\n');
+  process.exit(3);
+}
+
+const object = (properties, required = []) => ({ type: 'object', properties, required });
+const tools = [
+  { name: 'echo', description: 'Echo the text back', inputSchema: object({ text: { type: 'string' } }, ['text']) },
+  {
+    name: 'add',
+    description: 'Add two numbers',
+    inputSchema: object({ a: { type: 'number' }, b: { type: 'number' } }, ['a', 'b']),
+    annotations: { readOnlyHint: true },
+  },
+  { name: 'fail', description: 'Report a tool error', inputSchema: object({}) },
+  { name: 'crash', description: 'Exit without answering', inputSchema: object({}) },
+  { name: 'slow', description: 'Never answer', inputSchema: object({}) },
+  { name: 'cancellations', description: 'List cancelled request ids', inputSchema: object({}) },
+  { name: 'grow', description: 'Add a tool', inputSchema: object({}) },
+];
+const cancelled = [];
+
+const send = message => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+const text = value => ({ content: [{ type: 'text', text: String(value) }] });
+
+function call(name, args) {
+  switch (name) {
+    case 'echo': return text(args.text);
+    case 'add': return text(args.a + args.b);
+    case 'fail': return { content: [{ type: 'text', text: 'something broke' }], isError: true };
+    case 'cancellations': return text(JSON.stringify(cancelled));
+    case 'grow':
+      tools.push({ name: 'extra', description: 'Added later', inputSchema: object({}) });
+      setImmediate(() => send({ method: 'notifications/tools/list_changed' }));
+      return text('grown');
+    default: return null;
+  }
+}
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  const message = JSON.parse(line);
+  const { id, method, params } = message;
+
+  if (method === 'notifications/cancelled') {
+    cancelled.push(params.requestId);
+    return;
+  }
+  if (id === undefined) return;
+
+  switch (method) {
+    case 'initialize':
+      send({
+        id,
+        result: {
+          protocolVersion: params.protocolVersion,
+          capabilities: { tools: { listChanged: true } },
+          serverInfo: { name: 'fixture', version: '1.2.3' },
+        },
+      });
+      break;
+    case 'tools/list': {
+      // Two pages, to exercise pagination
+      const page = params && params.cursor === 'next' ? tools.slice(3) : tools.slice(0, 3);
+      send({ id, result: { tools: page, ...(params && params.cursor ? {} : { nextCursor: 'next' }) } });
+      break;
+    }
+    case 'tools/call': {
+      if (params.name === 'crash') {
+        if (marker) fs.writeFileSync(marker, '');
+        process.exit(1);
+      }
+      if (params.name === 'slow') break;
+      const result = call(params.name, params.arguments || {});
+      send(result
+        ? { id, result }
+        : { id, error: { code: -32602, message: `Unknown tool: ${params.name}` } });
+      break;
+    }
+    default:
+      send({ id, error: { code: -32601, message: `Method not found: ${method}` } });
+  }
+});
@@ -0,0 +1,65 @@
+// Tool handlers run in worker threads by the tests
+
+import { spawn } from 'node:child_process';
+import { threadId } from 'node:worker_threads';
+
+export async function handler(args) {
+  return `echo ${args.text}`;
+}
+
+export async function context(args, context) {
+  return JSON.stringify({ toolName: context.toolName, data: context.data });
+}
+
+export async function stream(args, context) {
+  context.onOutput({ stream: 'stdout', content: 'one\n' });
+  context.onOutput({ stream: 'stdout', content: 'two\n' });
+  return 'done';
+}
+
+export async function thread() {
+  return String(threadId);
+}
+
+export async function spin() {
+  for (;;) {
+    // never yields
+  }
+}
+
+// Starts a process group like execute_shell and reports the pid of a process in it
+export async function group(args, context) {
+  const child = spawn('sh', ['-c', 'sleep 30 & echo $!; wait'], { detached: true, stdio: ['ignore', 'pipe', 'ignore'] });
+  child.stdout.on('data', (data) => context.onOutput({ stream: 'stdout', content: data.toString() }));
+  context.signal.addEventListener('abort', () => process.kill(-child.pid, 'SIGTERM'), { once: true });
+  await new Promise((resolve) => child.once('close', resolve));
+  throw context.signal.reason;
+}
+
+export async function grow() {
+  const chunks = [];
+  for (;;) {
+    chunks.push(new Array(100000).fill(Math.random()));
+  }
+}
+
+export async function denied() {
+  throw Object.assign(new Error('not allowed here'), {
+    name: 'ToolHandlerError',
+    errorType: 'permission_denied',
+    details: { path: '/secret' },
+  });
+}
+
+export async function broken() {
+  throw new TypeError('something broke');
+}
+
+export const nested = { tools: [{ handler: async () => 'nested' }] };
+
+export async function register(api) {
+  api.registerTool({ name: 'where', description: '', parameters: { type: 'object' } }, async (args) => {
+    await api.logger.info('resolving', { path: args.path });
+    return `${api.config.prefix}${await api.resolvePath(args.path, 'read')}`;
+  });
+}
@@ -18,7 +18,7 @@ import { Logger } from '../../src/logging/logger.js';
 import { SecurityManager } from '../../src/security/security-manager.js';
 import { SessionManager } from '../../src/session/session-manager.js';
 import { MemorySystem } from '../../src/memory/memory-system.js';
-import { ToolSystem, createCoreTools } from '../../src/tools/index.js';
+import { ToolSystem, createCoreTools, FsSandbox, defaultFsRoots } from '../../src/tools/index.js';
 import { AgentRuntime } from '../../src/agent/agent-runtime.js';
 import { GatewayServer } from '../../src/gateway/gateway-server.js';
 
@@ -71,7 +71,7 @@ Preferences: Concise responses`);
     configManager = new ConfigManager(workspace.configPath);
     
     toolSystem = new ToolSystem();
-    createCoreTools(toolSystem);
+    createCoreTools(toolSystem, { sandbox: new FsSandbox(defaultFsRoots(workspace)) });
 
     memorySystem = new MemorySystem(workspace, {
       workspacePath: workspace.workspaceDir,